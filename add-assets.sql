@@ -0,0 +1,61 @@
+-- Add Assets Table and Storage Bucket
+-- Run this in your Supabase SQL Editor
+
+-- Create assets table (uploaded and generated media; canvas elements reference these by URL)
+CREATE TABLE IF NOT EXISTS assets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  storage_path TEXT NOT NULL,
+  url TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assets_user_id ON assets(user_id);
+
+-- Enable Row Level Security (RLS) on assets table
+ALTER TABLE assets ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy for assets - users can view their own assets
+CREATE POLICY "Users can view their own assets"
+  ON assets
+  FOR SELECT
+  USING (auth.jwt()->>'sub' = user_id);
+
+-- Create RLS policy for assets - users can insert their own assets
+CREATE POLICY "Users can insert their own assets"
+  ON assets
+  FOR INSERT
+  WITH CHECK (auth.jwt()->>'sub' = user_id);
+
+-- Create RLS policy for assets - users can delete their own assets
+CREATE POLICY "Users can delete their own assets"
+  ON assets
+  FOR DELETE
+  USING (auth.jwt()->>'sub' = user_id);
+
+-- Create public storage bucket for asset blobs (files are stored under <user_id>/)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('assets', 'assets', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create storage policy - users can upload into their own folder
+CREATE POLICY "Users can upload their own asset files"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'assets'
+    AND (storage.foldername(name))[1] = auth.jwt()->>'sub'
+  );
+
+-- Create storage policy - users can delete files in their own folder
+CREATE POLICY "Users can delete their own asset files"
+  ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'assets'
+    AND (storage.foldername(name))[1] = auth.jwt()->>'sub'
+  );
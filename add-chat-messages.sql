@@ -0,0 +1,55 @@
+-- Add Chat Messages Table
+-- Run this in your Supabase SQL Editor
+
+-- Create chat_messages table (AI designer conversation, one thread per project)
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  interrupted BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_project_id ON chat_messages(project_id, created_at);
+
+-- Enable Row Level Security (RLS) on chat_messages table
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy for chat_messages - users can view the chat of their projects
+CREATE POLICY "Users can view chat messages of their projects"
+  ON chat_messages
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = chat_messages.project_id
+      AND projects.user_id = auth.jwt()->>'sub'
+    )
+  );
+
+-- Create RLS policy for chat_messages - users can add messages to their projects
+CREATE POLICY "Users can insert chat messages to their projects"
+  ON chat_messages
+  FOR INSERT
+  WITH CHECK (
+    auth.jwt()->>'sub' = user_id
+    AND EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = chat_messages.project_id
+      AND projects.user_id = auth.jwt()->>'sub'
+    )
+  );
+
+-- Create RLS policy for chat_messages - users can clear the chat of their projects
+CREATE POLICY "Users can delete chat messages of their projects"
+  ON chat_messages
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = chat_messages.project_id
+      AND projects.user_id = auth.jwt()->>'sub'
+    )
+  );
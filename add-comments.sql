@@ -0,0 +1,120 @@
+-- Comments and pinned annotations on the canvas
+-- Run this in your Supabase SQL Editor after add-share-links.sql
+--
+-- A thread starts with a pin (parent_id null) placed with the mark tool and
+-- collects replies (parent_id = the pin). Pins are anchored either to a
+-- canvas position or to an element, in which case x/y are relative to the
+-- element's top-left corner so the pin follows it around.
+--
+-- Commenters and above may comment; everyone on the project can read. Only
+-- authors edit their own comments, and whole threads are resolved or
+-- reopened through set_comment_resolved().
+
+CREATE TABLE IF NOT EXISTS comments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  body TEXT NOT NULL CHECK (length(btrim(body)) > 0),
+  -- Not a foreign key: elements come and go with undo, their pins stay
+  element_id UUID,
+  x DOUBLE PRECISION,
+  y DOUBLE PRECISION,
+  -- Clerk user ids of the people @mentioned in body
+  mentions TEXT[] NOT NULL DEFAULT '{}',
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Pins have a position; replies and resolution belong to the pin only
+  CHECK (
+    (parent_id IS NULL AND x IS NOT NULL AND y IS NOT NULL)
+    OR (parent_id IS NOT NULL AND x IS NULL AND y IS NULL AND element_id IS NULL AND resolved_at IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_project_id ON comments(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_comments_mentions ON comments USING GIN (mentions);
+
+CREATE TRIGGER update_comments_updated_at
+  BEFORE UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Whether a comment starts a thread on the given project, for checking
+-- replies without recursing into the comments policies
+CREATE OR REPLACE FUNCTION is_comment_thread(p_comment_id UUID, p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM comments
+    WHERE id = p_comment_id AND project_id = p_project_id AND parent_id IS NULL
+  );
+$$;
+
+-- Resolve or reopen a thread. Anyone who may comment may do either, which
+-- row policies cannot express since authors only update their own rows.
+-- Raises P0403 without the commenter role and P0404 for unknown threads.
+CREATE OR REPLACE FUNCTION set_comment_resolved(p_comment_id UUID, p_resolved BOOLEAN)
+RETURNS comments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_comment comments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_comment FROM comments WHERE id = p_comment_id AND parent_id IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment thread not found' USING ERRCODE = 'P0404';
+  END IF;
+
+  IF NOT has_project_role(v_comment.project_id, 'commenter') THEN
+    RAISE EXCEPTION 'Not allowed to resolve comments on this project' USING ERRCODE = 'P0403';
+  END IF;
+
+  UPDATE comments
+  SET resolved_at = CASE WHEN p_resolved THEN NOW() END,
+      resolved_by = CASE WHEN p_resolved THEN auth.jwt()->>'sub' END
+  WHERE id = p_comment_id
+  RETURNING * INTO v_comment;
+
+  RETURN v_comment;
+END;
+$$;
+
+-- Enable Row Level Security (RLS) on comments table
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view comments"
+  ON comments
+  FOR SELECT
+  USING (has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Commenters can add comments"
+  ON comments
+  FOR INSERT
+  WITH CHECK (
+    auth.jwt()->>'sub' = user_id
+    AND has_project_role(project_id, 'commenter')
+    AND resolved_at IS NULL
+    AND (parent_id IS NULL OR is_comment_thread(parent_id, project_id))
+  );
+
+-- Authors edit their own comments; resolving goes through set_comment_resolved()
+CREATE POLICY "Authors can update their comments"
+  ON comments
+  FOR UPDATE
+  USING (auth.jwt()->>'sub' = user_id AND has_project_role(project_id, 'commenter'))
+  WITH CHECK (auth.jwt()->>'sub' = user_id AND has_project_role(project_id, 'commenter'));
+
+-- Authors delete their own comments, owners moderate
+CREATE POLICY "Authors and owners can delete comments"
+  ON comments
+  FOR DELETE
+  USING (auth.jwt()->>'sub' = user_id OR has_project_role(project_id, 'owner'));
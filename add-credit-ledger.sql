@@ -0,0 +1,137 @@
+-- Add Credit Ledger
+-- Run this in your Supabase SQL Editor after add-user-credits.sql
+
+-- Create credit_transactions table (ledger of every credit reservation, commit and refund)
+CREATE TABLE IF NOT EXISTS credit_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  operation TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'committed', 'refunded')),
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  balance_after INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_user_id ON credit_transactions(user_id, created_at DESC);
+
+CREATE TRIGGER update_credit_transactions_updated_at
+  BEFORE UPDATE ON credit_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS) on credit_transactions table
+ALTER TABLE credit_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy for credit_transactions - users can view their own history
+-- (writes only happen through the functions below)
+CREATE POLICY "Users can view their own credit transactions"
+  ON credit_transactions
+  FOR SELECT
+  USING (auth.jwt()->>'sub' = user_id);
+
+-- Balances may only change through the ledger functions; reserve_credits()
+-- creates a user's row with the default balance on their first charge
+DROP POLICY IF EXISTS "Users can update their own credits" ON user_credits;
+DROP POLICY IF EXISTS "Users can insert their own credits" ON user_credits;
+
+-- The ledger functions take the user id from the caller, so only the server
+-- (service role) may run them; otherwise a user could refund their own
+-- reservation while the provider call is still running. Drop the signatures
+-- that read the user from the JWT in case an older version was installed.
+DROP FUNCTION IF EXISTS reserve_credits(INTEGER, TEXT, JSONB);
+DROP FUNCTION IF EXISTS commit_credits(UUID);
+DROP FUNCTION IF EXISTS refund_credits(UUID);
+
+-- Deduct credits and record a reserved transaction; raises P0402 when the balance is too low
+CREATE OR REPLACE FUNCTION reserve_credits(p_user_id TEXT, p_amount INTEGER, p_operation TEXT, p_metadata JSONB DEFAULT '{}'::jsonb)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance INTEGER;
+  v_transaction_id UUID;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  -- New users start with the default balance
+  INSERT INTO user_credits (user_id) VALUES (p_user_id) ON CONFLICT (user_id) DO NOTHING;
+
+  UPDATE user_credits
+  SET credits = credits - p_amount
+  WHERE user_id = p_user_id AND credits >= p_amount
+  RETURNING credits INTO v_balance;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Insufficient credits' USING ERRCODE = 'P0402';
+  END IF;
+
+  INSERT INTO credit_transactions (user_id, amount, operation, status, metadata, balance_after)
+  VALUES (p_user_id, -p_amount, p_operation, 'reserved', COALESCE(p_metadata, '{}'::jsonb), v_balance)
+  RETURNING id INTO v_transaction_id;
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- Finalise a reserved transaction once the provider call succeeded
+CREATE OR REPLACE FUNCTION commit_credits(p_transaction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE credit_transactions
+  SET status = 'committed'
+  WHERE id = p_transaction_id
+    AND status = 'reserved';
+END;
+$$;
+
+-- Return the credits of a reserved transaction after a failed provider call
+CREATE OR REPLACE FUNCTION refund_credits(p_transaction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id TEXT;
+  v_amount INTEGER;
+  v_balance INTEGER;
+BEGIN
+  UPDATE credit_transactions
+  SET status = 'refunded'
+  WHERE id = p_transaction_id
+    AND status = 'reserved'
+  RETURNING user_id, amount INTO v_user_id, v_amount;
+
+  IF FOUND THEN
+    UPDATE user_credits
+    SET credits = credits - v_amount
+    WHERE user_id = v_user_id
+    RETURNING credits INTO v_balance;
+
+    UPDATE credit_transactions
+    SET balance_after = v_balance
+    WHERE id = p_transaction_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_credits(TEXT, INTEGER, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION commit_credits(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_credits(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_credits(TEXT, INTEGER, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION commit_credits(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION refund_credits(UUID) TO service_role;
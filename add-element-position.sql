@@ -0,0 +1,19 @@
+-- Add a stacking position to canvas_elements
+-- Run this in your Supabase SQL Editor
+
+-- position is the element's index in the canvas array (later elements are
+-- drawn on top). Saves only rewrite changed rows, so the order has to be
+-- stored rather than implied by insertion order.
+ALTER TABLE canvas_elements
+  ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+
+-- Existing rows were written in array order by the old full-board saves
+UPDATE canvas_elements
+SET position = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY project_id ORDER BY created_at, id) - 1 AS position
+  FROM canvas_elements
+) AS ordered
+WHERE canvas_elements.id = ordered.id;
+
+CREATE INDEX IF NOT EXISTS idx_canvas_elements_project_position ON canvas_elements(project_id, position);
@@ -0,0 +1,7 @@
+-- Add a schema version to canvas_elements
+-- Run this in your Supabase SQL Editor
+
+-- Existing rows predate versioning and keep version 1; the canvas upgrades
+-- them to the current shape on load and writes the new version on save
+ALTER TABLE canvas_elements
+  ADD COLUMN IF NOT EXISTS schema_version INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,42 @@
+-- Add Generation Jobs Table
+-- Run this in your Supabase SQL Editor
+
+-- Create generation_jobs table (long-running provider jobs such as Sora videos, so they survive reloads)
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  element_id TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('video')),
+  provider TEXT NOT NULL,
+  provider_task_id TEXT NOT NULL,
+  transaction_id UUID REFERENCES credit_transactions(id),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'in_progress', 'completed', 'failed')),
+  progress INTEGER NOT NULL DEFAULT 0,
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  result_url TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_project_status ON generation_jobs(project_id, status);
+
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS) on generation_jobs table
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy for generation_jobs - users can view their own jobs
+CREATE POLICY "Users can view their own generation jobs"
+  ON generation_jobs
+  FOR SELECT
+  USING (auth.jwt()->>'sub' = user_id);
+
+-- Jobs are only written by the API routes with the service role, so users
+-- cannot repoint a job at another provider, task or credit transaction
+DROP POLICY IF EXISTS "Users can insert their own generation jobs" ON generation_jobs;
+DROP POLICY IF EXISTS "Users can update their own generation jobs" ON generation_jobs;
@@ -0,0 +1,248 @@
+-- Share projects with collaborators by role
+-- Run this in your Supabase SQL Editor after add-realtime-collaboration.sql
+--
+-- Roles, from least to most access:
+--   viewer    - open the board read-only
+--   commenter - viewer who may also comment
+--   editor    - edit the board and the title
+--   owner     - editor who may also manage members
+-- The project creator (projects.user_id) is always an owner and is the only
+-- one who can delete the project.
+--
+-- Invites are keyed by email. Invites to people who already have an account
+-- are linked to them straight away; the rest are claimed on sign-in with
+-- claim_project_invites(), which reads the email claim of the Clerk
+-- "supabase" JWT template ("email": "{{user.primary_email_address}}").
+
+CREATE TABLE IF NOT EXISTS project_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  -- Null until the invitee signs in
+  user_id TEXT,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'commenter', 'viewer')),
+  invited_by TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (project_id, email)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_members_project_user ON project_members(project_id, user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON project_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_project_members_email ON project_members(email) WHERE user_id IS NULL;
+
+CREATE TRIGGER update_project_members_updated_at
+  BEFORE UPDATE ON project_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- The caller's role on a project, or null without access. Runs as definer so
+-- the policies below can consult both tables without recursing into each
+-- other's RLS.
+CREATE OR REPLACE FUNCTION project_role(p_project_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM projects
+      WHERE id = p_project_id AND user_id = auth.jwt()->>'sub'
+    ) THEN 'owner'
+    ELSE (
+      SELECT role FROM project_members
+      WHERE project_id = p_project_id AND user_id = auth.jwt()->>'sub'
+    )
+  END;
+$$;
+
+-- Whether the caller holds at least p_role on a project
+CREATE OR REPLACE FUNCTION has_project_role(p_project_id UUID, p_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    array_position(ARRAY['viewer', 'commenter', 'editor', 'owner'], project_role(p_project_id))
+      >= array_position(ARRAY['viewer', 'commenter', 'editor', 'owner'], p_role),
+    false
+  );
+$$;
+
+-- The creator of a project, for keeping it unchanged on update
+CREATE OR REPLACE FUNCTION project_creator(p_project_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id FROM projects WHERE id = p_project_id;
+$$;
+
+-- Link pending invites addressed to the caller's email; returns how many
+CREATE OR REPLACE FUNCTION claim_project_invites()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id TEXT := auth.jwt()->>'sub';
+  v_email TEXT := lower(auth.jwt()->>'email');
+  v_count INTEGER;
+BEGIN
+  IF v_user_id IS NULL OR v_email IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE project_members
+  SET user_id = v_user_id
+  WHERE email = v_email
+    AND user_id IS NULL
+    -- Already a member another way (e.g. the creator): leave the invite pending
+    AND NOT EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = project_members.project_id AND projects.user_id = v_user_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM project_members other
+      WHERE other.project_id = project_members.project_id AND other.user_id = v_user_id
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Enable Row Level Security (RLS) on project_members table
+ALTER TABLE project_members ENABLE ROW LEVEL SECURITY;
+
+-- Everyone on a project can see who else is on it
+CREATE POLICY "Members can view project members"
+  ON project_members
+  FOR SELECT
+  USING (has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Owners can invite project members"
+  ON project_members
+  FOR INSERT
+  WITH CHECK (has_project_role(project_id, 'owner'));
+
+CREATE POLICY "Owners can change member roles"
+  ON project_members
+  FOR UPDATE
+  USING (has_project_role(project_id, 'owner'))
+  WITH CHECK (has_project_role(project_id, 'owner'));
+
+-- Owners remove members; members may leave on their own
+CREATE POLICY "Owners can remove project members"
+  ON project_members
+  FOR DELETE
+  USING (has_project_role(project_id, 'owner') OR user_id = auth.jwt()->>'sub');
+
+-- Projects: members see them, editors change them, only the creator deletes
+DROP POLICY IF EXISTS "Users can view their own projects" ON projects;
+DROP POLICY IF EXISTS "Users can update their own projects" ON projects;
+
+CREATE POLICY "Members can view projects"
+  ON projects
+  FOR SELECT
+  USING (auth.jwt()->>'sub' = user_id OR has_project_role(id, 'viewer'));
+
+CREATE POLICY "Editors can update projects"
+  ON projects
+  FOR UPDATE
+  USING (has_project_role(id, 'editor'))
+  WITH CHECK (has_project_role(id, 'editor') AND user_id = project_creator(id));
+
+-- Canvas elements: members see them, editors change them
+DROP POLICY IF EXISTS "Users can view their own canvas elements" ON canvas_elements;
+DROP POLICY IF EXISTS "Users can insert canvas elements to their projects" ON canvas_elements;
+DROP POLICY IF EXISTS "Users can update their own canvas elements" ON canvas_elements;
+DROP POLICY IF EXISTS "Users can delete their own canvas elements" ON canvas_elements;
+
+CREATE POLICY "Members can view canvas elements"
+  ON canvas_elements
+  FOR SELECT
+  USING (has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Editors can insert canvas elements"
+  ON canvas_elements
+  FOR INSERT
+  WITH CHECK (has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Editors can update canvas elements"
+  ON canvas_elements
+  FOR UPDATE
+  USING (has_project_role(project_id, 'editor'))
+  WITH CHECK (has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Editors can delete canvas elements"
+  ON canvas_elements
+  FOR DELETE
+  USING (has_project_role(project_id, 'editor'));
+
+-- Chat history: members read the conversation, editors add to it
+DROP POLICY IF EXISTS "Users can view chat messages of their projects" ON chat_messages;
+DROP POLICY IF EXISTS "Users can insert chat messages to their projects" ON chat_messages;
+
+CREATE POLICY "Members can view chat messages"
+  ON chat_messages
+  FOR SELECT
+  USING (has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Editors can insert chat messages"
+  ON chat_messages
+  FOR INSERT
+  WITH CHECK (
+    auth.jwt()->>'sub' = user_id
+    AND has_project_role(project_id, 'editor')
+  );
+
+-- Live collaboration: every member joins project:<project id>, viewers too,
+-- for presence, cursors and join announcements. Element ops go over
+-- project-edits:<project id>, which only editors may send on; otherwise a
+-- viewer could change every open editor's board.
+DROP POLICY IF EXISTS "Users can receive collaboration on their projects" ON realtime.messages;
+DROP POLICY IF EXISTS "Users can send collaboration on their projects" ON realtime.messages;
+
+CREATE POLICY "Members can receive collaboration"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE realtime.topic() IN ('project:' || projects.id::text, 'project-edits:' || projects.id::text)
+      AND has_project_role(projects.id, 'viewer')
+    )
+  );
+
+CREATE POLICY "Members can send collaboration"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE 'project:' || projects.id::text = realtime.topic()
+      AND has_project_role(projects.id, 'viewer')
+    )
+  );
+
+CREATE POLICY "Editors can send element edits"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE 'project-edits:' || projects.id::text = realtime.topic()
+      AND has_project_role(projects.id, 'editor')
+    )
+  );
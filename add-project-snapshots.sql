@@ -0,0 +1,101 @@
+-- Version history: automatic and named snapshots of a project's board
+-- Run this in your Supabase SQL Editor after add-comments.sql and
+-- add-element-position.sql
+--
+-- Snapshots copy the saved canvas_elements rows of a project, so they are
+-- taken in the database by create_project_snapshot() rather than uploaded.
+-- Automatic snapshots (name null) are skipped when nothing changed since
+-- the previous snapshot, and only the latest 50 are kept; named
+-- checkpoints are kept until deleted.
+
+CREATE TABLE IF NOT EXISTS project_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  -- Null for automatic snapshots
+  name TEXT CHECK (name IS NULL OR length(btrim(name)) > 0),
+  title TEXT NOT NULL,
+  -- canvas_elements rows as [{ id, element_data, schema_version }], in
+  -- stacking order
+  elements JSONB NOT NULL DEFAULT '[]'::jsonb,
+  element_count INTEGER NOT NULL DEFAULT 0,
+  -- md5 of elements and title, to skip automatic snapshots of an unchanged board
+  content_hash TEXT NOT NULL,
+  created_by TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_snapshots_project_id ON project_snapshots(project_id, created_at DESC);
+
+-- Enable Row Level Security (RLS) on project_snapshots table
+ALTER TABLE project_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Everyone on a project can browse its history; snapshots are only written
+-- through create_project_snapshot()
+CREATE POLICY "Members can view project snapshots"
+  ON project_snapshots
+  FOR SELECT
+  USING (has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Editors can delete project snapshots"
+  ON project_snapshots
+  FOR DELETE
+  USING (has_project_role(project_id, 'editor'));
+
+-- Snapshot the saved board of a project. Returns the new snapshot, or no row
+-- when an automatic one was skipped because nothing changed.
+-- Raises P0403 for callers who cannot edit the project.
+CREATE OR REPLACE FUNCTION create_project_snapshot(p_project_id UUID, p_name TEXT DEFAULT NULL)
+RETURNS SETOF project_snapshots
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_title TEXT;
+  v_elements JSONB;
+  v_hash TEXT;
+  v_snapshot project_snapshots%ROWTYPE;
+BEGIN
+  IF NOT has_project_role(p_project_id, 'editor') THEN
+    RAISE EXCEPTION 'Not allowed to snapshot this project' USING ERRCODE = 'P0403';
+  END IF;
+
+  SELECT title INTO v_title FROM projects WHERE id = p_project_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'element_data', element_data,
+    'schema_version', schema_version
+  ) ORDER BY position, id), '[]'::jsonb)
+  INTO v_elements
+  FROM canvas_elements
+  WHERE project_id = p_project_id;
+
+  v_hash := md5(COALESCE(v_title, '') || v_elements::text);
+
+  IF p_name IS NULL AND v_hash = (
+    SELECT content_hash FROM project_snapshots
+    WHERE project_id = p_project_id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO project_snapshots (project_id, name, title, elements, element_count, content_hash)
+  VALUES (p_project_id, NULLIF(btrim(p_name), ''), COALESCE(v_title, 'Untitled'), v_elements, jsonb_array_length(v_elements), v_hash)
+  RETURNING * INTO v_snapshot;
+
+  DELETE FROM project_snapshots
+  WHERE project_id = p_project_id
+    AND name IS NULL
+    AND id NOT IN (
+      SELECT id FROM project_snapshots
+      WHERE project_id = p_project_id AND name IS NULL
+      ORDER BY created_at DESC
+      LIMIT 50
+    );
+
+  RETURN NEXT v_snapshot;
+END;
+$$;
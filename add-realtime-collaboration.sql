@@ -0,0 +1,30 @@
+-- Authorize the live collaboration channels (project:<project id>)
+-- Run this in your Supabase SQL Editor
+
+-- The canvas joins private Realtime channels; only people who can open the
+-- project may receive or send its edits, cursors and presence
+CREATE POLICY "Users can receive collaboration on their projects"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.topic() LIKE 'project:%'
+    AND EXISTS (
+      SELECT 1 FROM projects
+      WHERE 'project:' || projects.id::text = realtime.topic()
+      AND projects.user_id = auth.jwt()->>'sub'
+    )
+  );
+
+CREATE POLICY "Users can send collaboration on their projects"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.topic() LIKE 'project:%'
+    AND EXISTS (
+      SELECT 1 FROM projects
+      WHERE 'project:' || projects.id::text = realtime.topic()
+      AND projects.user_id = auth.jwt()->>'sub'
+    )
+  );
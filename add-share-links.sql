@@ -0,0 +1,179 @@
+-- Public read-only share links for projects
+-- Run this in your Supabase SQL Editor after add-project-members.sql and
+-- add-element-position.sql
+--
+-- Anyone holding a link's token can view the board without an account,
+-- through /api/share, which calls get_shared_project() with the service
+-- role. Links may expire and may require a password, which is stored as a
+-- bcrypt hash (pgcrypto); a visitor who keeps guessing wrong is locked out
+-- of the link for a while.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS share_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  password_hash TEXT,
+  has_password BOOLEAN GENERATED ALWAYS AS (password_hash IS NOT NULL) STORED,
+  -- Null links never expire
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_by TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_project_id ON share_links(project_id, created_at DESC);
+
+-- Enable Row Level Security (RLS) on share_links table
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+-- Owners see and revoke links; they are created through create_share_link()
+-- so the password is hashed in the database
+CREATE POLICY "Owners can view share links"
+  ON share_links
+  FOR SELECT
+  USING (has_project_role(project_id, 'owner'));
+
+CREATE POLICY "Owners can delete share links"
+  ON share_links
+  FOR DELETE
+  USING (has_project_role(project_id, 'owner'));
+
+-- Create a link for a project the caller owns; raises P0403 otherwise
+CREATE OR REPLACE FUNCTION create_share_link(
+  p_project_id UUID,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_password TEXT DEFAULT NULL
+)
+RETURNS TABLE (id UUID, token TEXT, has_password BOOLEAN, expires_at TIMESTAMP WITH TIME ZONE, created_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT has_project_role(p_project_id, 'owner') THEN
+    RAISE EXCEPTION 'Only project owners can share links' USING ERRCODE = 'P0403';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO share_links AS link (project_id, token, password_hash, expires_at)
+  VALUES (
+    p_project_id,
+    -- 24 random bytes, URL-safe base64 without padding
+    translate(encode(gen_random_bytes(24), 'base64'), '+/', '-_'),
+    CASE WHEN p_password IS NULL OR p_password = '' THEN NULL ELSE crypt(p_password, gen_salt('bf')) END,
+    p_expires_at
+  )
+  RETURNING link.id, link.token, link.has_password, link.expires_at, link.created_at;
+END;
+$$;
+
+-- Wrong share link passwords per link and visitor. client_hash identifies the
+-- visitor (/api/share hashes their IP address), so one visitor guessing cannot
+-- lock everyone else out. Only the functions below read and write this.
+CREATE TABLE IF NOT EXISTS share_link_attempts (
+  link_id UUID NOT NULL REFERENCES share_links(id) ON DELETE CASCADE,
+  client_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (link_id, client_hash)
+);
+
+ALTER TABLE share_link_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Earlier versions of these functions took no client
+DROP FUNCTION IF EXISTS get_shared_project(TEXT, TEXT);
+DROP FUNCTION IF EXISTS record_share_link_failure(TEXT);
+
+-- The board behind a share link, for visitors without an account.
+-- Raises P0404 for unknown or expired links, P0429 while the visitor is
+-- locked out after repeated wrong passwords, P0401 when a password is needed
+-- and P0403 when it is wrong. Only the server calls this, through /api/share.
+CREATE OR REPLACE FUNCTION get_shared_project(p_token TEXT, p_client_hash TEXT, p_password TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_link share_links%ROWTYPE;
+  v_title TEXT;
+  v_elements JSONB;
+BEGIN
+  SELECT * INTO v_link FROM share_links WHERE share_links.token = p_token;
+  IF NOT FOUND OR (v_link.expires_at IS NOT NULL AND v_link.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'Share link not found or expired' USING ERRCODE = 'P0404';
+  END IF;
+
+  IF v_link.password_hash IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM share_link_attempts
+      WHERE link_id = v_link.id AND client_hash = p_client_hash AND locked_until > NOW()
+    ) THEN
+      RAISE EXCEPTION 'Too many incorrect passwords' USING ERRCODE = 'P0429';
+    END IF;
+    IF p_password IS NULL OR p_password = '' THEN
+      RAISE EXCEPTION 'Password required' USING ERRCODE = 'P0401';
+    END IF;
+    IF crypt(p_password, v_link.password_hash) <> v_link.password_hash THEN
+      RAISE EXCEPTION 'Incorrect password' USING ERRCODE = 'P0403';
+    END IF;
+  END IF;
+
+  SELECT title INTO v_title FROM projects WHERE projects.id = v_link.project_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', canvas_elements.id,
+    'element_data', canvas_elements.element_data,
+    'schema_version', canvas_elements.schema_version
+  ) ORDER BY canvas_elements.position), '[]'::jsonb)
+  INTO v_elements
+  FROM canvas_elements
+  WHERE canvas_elements.project_id = v_link.project_id;
+
+  RETURN jsonb_build_object('title', v_title, 'elements', v_elements);
+END;
+$$;
+
+-- Count a wrong password by a visitor. Five within 15 minutes lock that
+-- visitor out of the link for 15 minutes. Separate from get_shared_project()
+-- because its exception would roll the count back.
+CREATE OR REPLACE FUNCTION record_share_link_failure(p_token TEXT, p_client_hash TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO share_link_attempts AS attempts (link_id, client_hash, failed_attempts, last_failed_at)
+  SELECT share_links.id, p_client_hash, 1, NOW()
+  FROM share_links
+  WHERE share_links.token = p_token
+  ON CONFLICT (link_id, client_hash) DO UPDATE
+  SET
+    failed_attempts = CASE
+      WHEN attempts.last_failed_at > NOW() - INTERVAL '15 minutes' THEN attempts.failed_attempts + 1
+      ELSE 1
+    END,
+    last_failed_at = NOW();
+
+  UPDATE share_link_attempts
+  SET locked_until = NOW() + INTERVAL '15 minutes', failed_attempts = 0
+  WHERE client_hash = p_client_hash
+    AND failed_attempts >= 5
+    AND link_id = (SELECT id FROM share_links WHERE share_links.token = p_token);
+
+  -- Forget visitors who stopped guessing
+  DELETE FROM share_link_attempts
+  WHERE last_failed_at < NOW() - INTERVAL '1 day'
+    AND (locked_until IS NULL OR locked_until < NOW());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_shared_project(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_share_link_failure(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_shared_project(TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION record_share_link_failure(TEXT, TEXT) TO service_role;
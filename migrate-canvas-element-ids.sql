@@ -0,0 +1,19 @@
+-- Key canvas_elements rows by their element id
+-- Run this in your Supabase SQL Editor if your database was created before
+-- incremental saves were introduced. The canvas also migrates legacy rows on
+-- the next save of each project, so this script is optional.
+
+-- Drop duplicate rows for the same element, keeping the most recently updated
+DELETE FROM canvas_elements a
+USING canvas_elements b
+WHERE a.project_id = b.project_id
+  AND a.element_data->>'id' = b.element_data->>'id'
+  AND (a.updated_at, a.id) < (b.updated_at, b.id);
+
+-- Re-key every row on its element id
+UPDATE canvas_elements
+SET id = (element_data->>'id')::uuid
+WHERE id::text <> element_data->>'id';
+
+-- Rows are now always inserted with an explicit id
+ALTER TABLE canvas_elements ALTER COLUMN id DROP DEFAULT;
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { ALLOWED_ASSET_MIME_TYPES, decodeDataUrl, MAX_ASSET_BYTES, storeAsset } from '@/lib/assets';
+import { withAuth } from '@/lib/api-auth';
+
+/**
+ * Upload a media file. Accepts multipart form data with a `file` field, or
+ * JSON `{ dataUrl }` for content that is already inline.
+ */
+export const POST = withAuth(async (request, { userId, supabase }) => {
+    try {
+        let data: Uint8Array;
+        let mimeType: string;
+
+        if (request.headers.get('content-type')?.includes('application/json')) {
+            const { dataUrl } = await request.json();
+            const decoded = typeof dataUrl === 'string' ? decodeDataUrl(dataUrl) : null;
+            if (!decoded) {
+                return NextResponse.json({ error: 'A base64 data URL is required' }, { status: 400 });
+            }
+            data = decoded.data;
+            mimeType = decoded.mimeType;
+        } else {
+            const form = await request.formData();
+            const file = form.get('file');
+            if (!file || typeof file === 'string') {
+                return NextResponse.json({ error: 'File is required' }, { status: 400 });
+            }
+            if (file.size > MAX_ASSET_BYTES) {
+                return NextResponse.json({ error: 'File is too large' }, { status: 413 });
+            }
+            data = new Uint8Array(await file.arrayBuffer());
+            mimeType = file.type || 'application/octet-stream';
+        }
+
+        if (!ALLOWED_ASSET_MIME_TYPES.includes(mimeType)) {
+            return NextResponse.json({ error: `Unsupported file type: ${mimeType}` }, { status: 415 });
+        }
+
+        const asset = await storeAsset(supabase, userId, data, mimeType);
+
+        return NextResponse.json({ asset });
+    } catch (error) {
+        console.error('Error uploading asset:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to upload asset',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { resolveImageInput, storeAsset, UnsupportedAssetUrlError } from '@/lib/assets';
+import { withAuth } from '@/lib/api-auth';
+import { getImagePrice } from '@/lib/credit-prices';
+import { getSupportedAspectRatios, isAspectRatioSupported, isImageResolution } from '@/lib/image-options';
+import { getImageProvider, NoImageError, ProviderNotConfiguredError } from '@/lib/image-providers';
+import { InsufficientCreditsError, insufficientCreditsResponse, withCredits } from '@/lib/credits';
+
+export const POST = withAuth(async (request, { userId, supabase }) => {
+    try {
+        const {
+            image,
+            mask,
+            prompt,
+            provider: providerId,
+            resolution = '1K',
+            aspectRatio = '1:1',
+        } = await request.json();
+
+        if (!image || typeof image !== 'string') {
+            return NextResponse.json(
+                { error: 'Image is required' },
+                { status: 400 }
+            );
+        }
+
+        if (!prompt || typeof prompt !== 'string') {
+            return NextResponse.json(
+                { error: 'Prompt is required' },
+                { status: 400 }
+            );
+        }
+
+        if (mask !== undefined && typeof mask !== 'string') {
+            return NextResponse.json(
+                { error: 'Invalid mask', details: 'mask must be a PNG data URL or asset URL' },
+                { status: 400 }
+            );
+        }
+
+        const provider = getImageProvider(providerId);
+        if (!provider) {
+            return NextResponse.json(
+                { error: 'Invalid provider', details: `Image provider not available: ${providerId}` },
+                { status: 400 }
+            );
+        }
+
+        if (!provider.edit || !provider.capabilities.operations.includes('edit')) {
+            return NextResponse.json(
+                { error: 'Edit not supported', details: `${provider.capabilities.label} cannot edit images` },
+                { status: 400 }
+            );
+        }
+
+        if (mask && !provider.capabilities.mask) {
+            return NextResponse.json(
+                { error: 'Mask not supported', details: `${provider.capabilities.label} does not accept masks` },
+                { status: 400 }
+            );
+        }
+
+        if (!isImageResolution(resolution) || getSupportedAspectRatios(resolution, provider.id).length === 0) {
+            return NextResponse.json(
+                { error: 'Invalid resolution', details: `${provider.capabilities.label} does not support resolution: ${resolution}` },
+                { status: 400 }
+            );
+        }
+
+        if (!isAspectRatioSupported(resolution, aspectRatio, provider.id)) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid aspect ratio',
+                    details: `${aspectRatio} is not available at ${resolution}. Supported: ${getSupportedAspectRatios(resolution, provider.id).join(', ')}`,
+                },
+                { status: 400 }
+            );
+        }
+
+        console.log(`Starting image edit with ${provider.id}:`, prompt);
+
+        // Source and mask may be data URLs or asset URLs
+        const source = await resolveImageInput(supabase, image, request.nextUrl.origin, 'image/png');
+        const maskImage = mask ? await resolveImageInput(supabase, mask, request.nextUrl.origin, 'image/png') : undefined;
+
+        const { asset, textResponse } = await withCredits(
+            userId,
+            getImagePrice(resolution),
+            'edit-image',
+            { model: provider.model, provider: provider.id, resolution, aspectRatio, masked: !!maskImage },
+            async () => {
+                const edited = await provider.edit!({ prompt, image: source, mask: maskImage, resolution, aspectRatio });
+                const asset = await storeAsset(supabase, userId, edited.data, edited.mimeType);
+                return { asset, textResponse: edited.text || '' };
+            }
+        );
+
+        return NextResponse.json({
+            imageUrl: asset.url,
+            asset,
+            textResponse,
+        });
+    } catch (error) {
+        if (error instanceof InsufficientCreditsError) {
+            return insufficientCreditsResponse(error);
+        }
+        if (error instanceof UnsupportedAssetUrlError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        if (error instanceof NoImageError) {
+            return NextResponse.json({ error: error.error, details: error.details }, { status: 500 });
+        }
+        if (error instanceof ProviderNotConfiguredError) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+        console.error('Error editing image:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to edit image',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+});
@@ -1,19 +1,73 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import OpenAI from 'openai';
+import type { ChatCompletionChunk, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { Stream } from 'openai/streaming';
+import { withAuth } from '@/lib/api-auth';
+import { CANVAS_TOOLS, CanvasOperation, CanvasSummary, describeOperation, parseToolCall } from '@/lib/canvas-tools';
+import { appendChatMessages, parseChatMessages, trimToTokenBudget } from '@/lib/chat-history';
+import { CHAT_PRICE } from '@/lib/credit-prices';
+import type { DesignStreamEvent } from '@/lib/design-chat';
+import {
+    commitCredits,
+    InsufficientCreditsError,
+    insufficientCreditsResponse,
+    refundCredits,
+    reserveCredits,
+    withCredits,
+} from '@/lib/credits';
 
-export async function POST(request: NextRequest) {
+const MODEL = "grok-4-1-fast-non-reasoning";
+
+const SYSTEM_PROMPT = "You are a professional design assistant. Based on user's description, provide detailed design suggestions including layout, colors, typography, and visual elements. Be specific and creative. Build on earlier turns of the conversation when the user refers back to them.";
+
+const CANVAS_PROMPT = "You can also change the user's canvas with the provided tools when they ask for it. Coordinates are canvas pixels; place new elements near the existing ones without overlapping them. Briefly say what you changed. The current canvas is:";
+
+function isCanvasSummary(value: unknown): value is CanvasSummary {
+    const summary = value as CanvasSummary;
+    return !!summary && Array.isArray(summary.elements) && Array.isArray(summary.selectedIds);
+}
+
+export const POST = withAuth(async (request, { userId, supabase }) => {
     try {
-        const { prompt } = await request.json();
+        const { prompt, messages: history, projectId, canvas, stream } = await request.json();
+
+        // `messages` is the whole thread ending with the new user turn; `prompt` is a single-turn shorthand
+        const thread = history !== undefined
+            ? parseChatMessages(history)
+            : typeof prompt === 'string' && prompt.trim() ? [{ role: 'user' as const, content: prompt }] : [];
+
+        if (!thread) {
+            return NextResponse.json(
+                { error: 'Invalid messages', details: 'messages must be an array of { role, content }' },
+                { status: 400 }
+            );
+        }
 
-        if (!prompt || typeof prompt !== 'string') {
+        const question = thread[thread.length - 1];
+        if (!question || question.role !== 'user') {
             return NextResponse.json(
                 { error: 'Prompt is required' },
                 { status: 400 }
             );
         }
 
+        // Tools are only offered when the caller describes a canvas to act on
+        const summary = isCanvasSummary(canvas) ? canvas : null;
+
+        // Persist the exchange into the project's thread once there is an answer
+        const saveExchange = async (reply: string, interrupted: boolean, operations: CanvasOperation[] = []) => {
+            const content = reply || operations.map(describeOperation).join('\n');
+            if (typeof projectId !== 'string' || !content) return;
+            await appendChatMessages(supabase, projectId, [
+                question,
+                { role: 'assistant', content, interrupted },
+            ]).catch(saveError => {
+                console.error('Failed to save chat messages:', saveError);
+            });
+        };
+
         const apiKey = process.env.XAI_API_KEY;
-        
+
         if (!apiKey) {
             return NextResponse.json(
                 { error: 'XAI_API_KEY not configured' },
@@ -27,26 +81,72 @@ export async function POST(request: NextRequest) {
             timeout: 360000,
         });
 
-        const completion = await client.chat.completions.create({
-            model: "grok-4-1-fast-non-reasoning",
-            messages: [
-                {
-                    role: "system",
-                    content: "You are a professional design assistant. Based on user's description, provide detailed design suggestions including layout, colors, typography, and visual elements. Be specific and creative."
-                },
-                {
-                    role: "user",
-                    content: `Create a design concept for: ${prompt}`
-                },
-            ],
-        });
+        const messages: ChatCompletionMessageParam[] = [
+            { role: "system", content: SYSTEM_PROMPT },
+            ...(summary ? [{ role: "system" as const, content: `${CANVAS_PROMPT}\n${JSON.stringify(summary)}` }] : []),
+            ...trimToTokenBudget(thread).map(({ role, content }) => ({ role, content })),
+        ];
+        const tools = summary ? { tools: CANVAS_TOOLS, tool_choice: 'auto' as const } : {};
+
+        if (stream) {
+            const transactionId = await reserveCredits(userId, CHAT_PRICE, 'generate-design', {
+                model: MODEL,
+                stream: true,
+            });
+
+            let completion: Stream<ChatCompletionChunk>;
+            try {
+                completion = await client.chat.completions.create(
+                    { model: MODEL, messages, stream: true, ...tools },
+                    { signal: request.signal }
+                );
+            } catch (error) {
+                await refundCredits(transactionId).catch(refundError => {
+                    console.error('Failed to refund credits:', refundError);
+                });
+                throw error;
+            }
+
+            return streamSuggestion(completion, summary, async (reply, interrupted, operations) => {
+                // A partial reply still consumed tokens; only an empty one is refunded
+                if (reply || operations.length > 0) {
+                    await commitCredits(transactionId);
+                } else {
+                    await refundCredits(transactionId);
+                }
+                await saveExchange(reply, interrupted, operations);
+            });
+        }
+
+        const completion = await withCredits(
+            userId,
+            CHAT_PRICE,
+            'generate-design',
+            { model: MODEL },
+            () => client.chat.completions.create({
+                model: MODEL,
+                messages,
+                ...tools,
+            })
+        );
 
-        const designSuggestion = completion.choices[0].message.content;
+        const message = completion.choices[0].message;
+        const designSuggestion = message.content;
+        const operations = summary
+            ? (message.tool_calls ?? [])
+                .map(call => parseToolCall(call.function.name, call.function.arguments, summary))
+                .filter((op): op is CanvasOperation => op !== null)
+            : [];
+        await saveExchange(designSuggestion || '', false, operations);
 
         return NextResponse.json({
             suggestion: designSuggestion,
+            operations,
         });
     } catch (error: any) {
+        if (error instanceof InsufficientCreditsError) {
+            return insufficientCreditsResponse(error);
+        }
         console.error('Error generating design:', error);
         return NextResponse.json(
             {
@@ -56,4 +156,80 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
+});
+
+/**
+ * Relay completion tokens as NDJSON. Tool call fragments are collected and
+ * sent as one `operations` line when the model finishes. If the client goes
+ * away the upstream request is aborted, and `settle` always runs once the
+ * stream ends with whatever was produced.
+ */
+function streamSuggestion(
+    completion: Stream<ChatCompletionChunk>,
+    summary: CanvasSummary | null,
+    settle: (reply: string, interrupted: boolean, operations: CanvasOperation[]) => Promise<void>
+) {
+    const encoder = new TextEncoder();
+    let cancelled = false;
+
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: DesignStreamEvent) => {
+                if (!cancelled) controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+            };
+
+            let reply = '';
+            let interrupted = false;
+            let operations: CanvasOperation[] = [];
+            const toolCalls: { name: string; arguments: string }[] = [];
+            try {
+                for await (const chunk of completion) {
+                    const delta = chunk.choices[0]?.delta;
+                    if (delta?.content) {
+                        reply += delta.content;
+                        send({ type: 'delta', text: delta.content });
+                    }
+                    for (const call of delta?.tool_calls ?? []) {
+                        const pending = toolCalls[call.index] ??= { name: '', arguments: '' };
+                        pending.name += call.function?.name ?? '';
+                        pending.arguments += call.function?.arguments ?? '';
+                    }
+                }
+
+                if (summary) {
+                    operations = toolCalls
+                        .map(call => parseToolCall(call.name, call.arguments, summary))
+                        .filter((op): op is CanvasOperation => op !== null);
+                    if (operations.length > 0) send({ type: 'operations', operations });
+                }
+                send({ type: 'done' });
+            } catch (error) {
+                interrupted = true;
+                if (!cancelled) {
+                    console.error('Design stream failed:', error);
+                    send({
+                        type: 'error',
+                        error: 'Failed to generate design',
+                        details: error instanceof Error ? error.message : 'Unknown error',
+                    });
+                }
+            } finally {
+                await settle(reply, interrupted, operations).catch(settleError => {
+                    console.error('Failed to settle credits:', settleError);
+                });
+                if (!cancelled) controller.close();
+            }
+        },
+        cancel() {
+            cancelled = true;
+            completion.controller.abort();
+        },
+    });
+
+    return new Response(body, {
+        headers: {
+            'Content-Type': 'application/x-ndjson; charset=utf-8',
+            'Cache-Control': 'no-cache',
+        },
+    });
 }
@@ -1,9 +1,30 @@
-import { GoogleGenAI } from '@google/genai';
-import { NextRequest, NextResponse } from 'next/server';
-
-export async function POST(request: NextRequest) {
+import { NextResponse } from 'next/server';
+import { Asset, resolveImageInput, storeAsset, UnsupportedAssetUrlError } from '@/lib/assets';
+import { withAuth } from '@/lib/api-auth';
+import { getImagePrice } from '@/lib/credit-prices';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import {
+    getSupportedAspectRatios,
+    ImageVariantEvent,
+    isAspectRatioSupported,
+    isImageResolution,
+    MAX_CONCURRENT_VARIANTS,
+    MAX_VARIANTS,
+} from '@/lib/image-options';
+import { getImageProvider, NoImageError, ProviderNotConfiguredError } from '@/lib/image-providers';
+import { getCreditBalance, InsufficientCreditsError, insufficientCreditsResponse, withCredits } from '@/lib/credits';
+
+export const POST = withAuth(async (request, { userId, supabase }) => {
     try {
-        const { prompt, resolution, aspectRatio, referenceImage, mimeType } = await request.json();
+        const {
+            prompt,
+            provider: providerId,
+            resolution = '1K',
+            aspectRatio = '1:1',
+            count = 1,
+            referenceImage,
+            mimeType,
+        } = await request.json();
 
         if (!prompt || typeof prompt !== 'string') {
             return NextResponse.json(
@@ -12,127 +33,112 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        console.log('Starting image generation with Gemini:', prompt);
-
-        const apiKey = process.env.GEMINI_API_KEY;
-
-        if (!apiKey) {
+        const provider = getImageProvider(providerId);
+        if (!provider) {
             return NextResponse.json(
-                { error: 'GEMINI_API_KEY not configured' },
-                { status: 500 }
+                { error: 'Invalid provider', details: `Image provider not available: ${providerId}` },
+                { status: 400 }
             );
         }
 
-        const ai = new GoogleGenAI({
-            apiKey: apiKey,
-        });
-
-        const tools = [
-            {
-                googleSearch: {}
-            },
-        ];
-
-        const config = {
-            responseModalities: ['IMAGE', 'TEXT'],
-            imageConfig: {
-                imageSize: resolution || '1K',
-            },
-            tools,
-        } as any;
-
-        const model = 'gemini-3-pro-image-preview';
-
-        const contents = [
-            {
-                role: 'user',
-                parts: [
-                    {
-                        text: prompt,
-                    },
-                ],
-            },
-        ];
-
-        // Add reference image if present
-        if (referenceImage) {
-            let cleanData = referenceImage;
-            let finalMimeType = mimeType || 'image/jpeg';
-
-            // Check if it has a data URI prefix
-            if (referenceImage.includes('base64,')) {
-                const matches = referenceImage.match(/^data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+);base64,(.+)$/);
-                if (matches) {
-                    finalMimeType = matches[1];
-                    cleanData = matches[2];
-                } else {
-                    // Fallback split if regex fails but base64 marker exists
-                    const parts = referenceImage.split('base64,');
-                    if (parts.length > 1) {
-                        cleanData = parts[1];
-                    }
-                }
-            }
-
-            contents[0].parts.push({
-                // @ts-ignore
-                inlineData: {
-                    mimeType: finalMimeType,
-                    data: cleanData
-                }
-            });
+        if (!isImageResolution(resolution) || getSupportedAspectRatios(resolution, provider.id).length === 0) {
+            return NextResponse.json(
+                { error: 'Invalid resolution', details: `${provider.capabilities.label} does not support resolution: ${resolution}` },
+                { status: 400 }
+            );
         }
 
-        console.log('Calling Gemini API with model:', model);
-
-        const response = await ai.models.generateContentStream({
-            model,
-            config,
-            contents,
-        });
+        if (!isAspectRatioSupported(resolution, aspectRatio, provider.id)) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid aspect ratio',
+                    details: `${aspectRatio} is not available at ${resolution}. Supported: ${getSupportedAspectRatios(resolution, provider.id).join(', ')}`,
+                },
+                { status: 400 }
+            );
+        }
 
-        let imageData: string | null = null;
-        let textResponse = '';
+        if (!Number.isInteger(count) || count < 1 || count > MAX_VARIANTS) {
+            return NextResponse.json(
+                { error: 'Invalid count', details: `count must be between 1 and ${MAX_VARIANTS}` },
+                { status: 400 }
+            );
+        }
 
-        for await (const chunk of response) {
-            if (!chunk.candidates || !chunk.candidates[0]?.content || !chunk.candidates[0]?.content?.parts) {
-                continue;
-            }
+        if (referenceImage && !provider.capabilities.referenceImage) {
+            return NextResponse.json(
+                { error: 'Reference image not supported', details: `${provider.capabilities.label} does not accept reference images` },
+                { status: 400 }
+            );
+        }
 
-            const parts = chunk.candidates[0].content.parts;
-            for (const part of parts) {
-                if (part.inlineData) {
-                    console.log('Found inline data with mimeType:', part.inlineData.mimeType);
-                    imageData = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                } else if (part.text) {
-                    textResponse += part.text;
-                }
+        console.log(`Starting image generation with ${provider.id}:`, prompt);
+
+        // Reference image may be a data URL, bare base64 or asset URL
+        const reference = referenceImage
+            ? await resolveImageInput(supabase, referenceImage, request.nextUrl.origin, mimeType || 'image/jpeg')
+            : undefined;
+
+        const price = getImagePrice(resolution);
+
+        // Aborted when the client goes away, so unfinished variants stop and are refunded
+        const abort = new AbortController();
+        request.signal.addEventListener('abort', () => abort.abort(), { once: true });
+
+        // Each variant is charged separately so a failed call only refunds itself
+        const generateVariant = () => withCredits(
+            userId,
+            price,
+            'generate-image',
+            { model: provider.model, provider: provider.id, resolution, aspectRatio },
+            async () => {
+                const image = await provider.generate({
+                    prompt,
+                    resolution,
+                    aspectRatio,
+                    referenceImage: reference,
+                    signal: abort.signal,
+                });
+                // Not every provider can be interrupted; don't charge for a result nobody receives
+                abort.signal.throwIfAborted();
+
+                // Persist the result as an asset so the canvas stores a URL instead of base64
+                const asset = await storeAsset(supabase, userId, image.data, image.mimeType);
+                return { asset, textResponse: image.text || '' };
             }
-        }
+        );
 
-        if (!imageData) {
-            if (textResponse) {
-                return NextResponse.json({
-                    error: 'Model returned text instead of image',
-                    details: textResponse
-                }, { status: 500 });
+        if (count > 1) {
+            // Refuse up front rather than streaming a run of 402s
+            const balance = await getCreditBalance(supabase, userId);
+            if ((balance ?? 0) < price * count) {
+                return insufficientCreditsResponse(new InsufficientCreditsError(price * count, balance));
             }
 
-            return NextResponse.json(
-                {
-                    error: 'No image was generated',
-                    details: 'No image data found in response.'
-                },
-                { status: 500 }
-            );
+            return streamVariants(count, generateVariant, abort);
         }
 
+        const { asset, textResponse } = await generateVariant();
+
         return NextResponse.json({
-            imageData,
+            imageUrl: asset.url,
+            asset,
             textResponse,
         });
 
     } catch (error: any) {
+        if (error instanceof InsufficientCreditsError) {
+            return insufficientCreditsResponse(error);
+        }
+        if (error instanceof UnsupportedAssetUrlError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        if (error instanceof NoImageError) {
+            return NextResponse.json({ error: error.error, details: error.details }, { status: 500 });
+        }
+        if (error instanceof ProviderNotConfiguredError) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
         console.error('Error generating image:', error);
         return NextResponse.json(
             {
@@ -142,4 +148,66 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
+});
+
+/**
+ * Fan out `count` generations and stream each result as NDJSON the moment it
+ * finishes, followed by a final `done` line. Cancelling the stream aborts
+ * the variants still running (their credits are refunded) and skips the
+ * ones not started yet.
+ */
+function streamVariants(
+    count: number,
+    generateVariant: () => Promise<{ asset: Asset; textResponse: string }>,
+    abort: AbortController
+) {
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: ImageVariantEvent) => {
+                if (abort.signal.aborted) return;
+                controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+            };
+
+            let succeeded = 0;
+            await mapWithConcurrency(Array.from({ length: count }), MAX_CONCURRENT_VARIANTS, async (_, index) => {
+                if (abort.signal.aborted) return;
+                try {
+                    const { asset, textResponse } = await generateVariant();
+                    succeeded++;
+                    send({ type: 'image', index, imageUrl: asset.url, asset, textResponse });
+                } catch (error) {
+                    if (abort.signal.aborted) return;
+                    console.error(`Variant ${index} failed:`, error);
+                    if (error instanceof NoImageError) {
+                        send({ type: 'error', index, error: error.error, details: error.details });
+                    } else if (error instanceof InsufficientCreditsError) {
+                        send({ type: 'error', index, error: 'Insufficient credits', details: error.message });
+                    } else {
+                        send({
+                            type: 'error',
+                            index,
+                            error: 'Failed to generate image',
+                            details: error instanceof Error ? error.message : 'Unknown error',
+                        });
+                    }
+                }
+            });
+
+            if (abort.signal.aborted) return;
+            send({ type: 'done', succeeded, failed: count - succeeded });
+            controller.close();
+        },
+        cancel() {
+            abort.abort();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'application/x-ndjson; charset=utf-8',
+            'Cache-Control': 'no-cache',
+        },
+    });
 }
@@ -1,50 +1,101 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { resolveImageInput, UnsupportedAssetUrlError } from '@/lib/assets';
+import { withAuth } from '@/lib/api-auth';
+import { getVideoPrice, isVideoSeconds, isVideoSize, VIDEO_DURATIONS, VIDEO_SIZES } from '@/lib/credit-prices';
+import { InsufficientCreditsError, insufficientCreditsResponse, refundCredits, reserveCredits } from '@/lib/credits';
+import { toVideoJob } from '@/lib/generation-jobs';
+import { canEditProject, getProjectRole } from '@/lib/project-members';
+import { getServiceSupabaseClient } from '@/lib/supabase';
+import { getVideoProvider, VideoProviderNotConfiguredError } from '@/lib/video-providers';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { userId, supabase }) => {
     try {
-        const { prompt, seconds, size, referenceImage } = await request.json();
+        const { prompt, seconds = 10, size = '720x1280', referenceImage, projectId, elementId } = await request.json();
 
         if (!prompt || typeof prompt !== 'string') {
             return NextResponse.json({ error: 'Prompt is required' }, { status: 400 });
         }
 
-        const apiKey = process.env.VIDEO_API_KEY;
-        const baseUrl = process.env.VIDEO_API_BASE_URL || 'https://www.clockapi.fun/v1';
+        if (!isVideoSeconds(seconds)) {
+            return NextResponse.json(
+                { error: 'Invalid duration', details: `Supported durations: ${VIDEO_DURATIONS.join(', ')} seconds` },
+                { status: 400 }
+            );
+        }
 
-        if (!apiKey) {
-            return NextResponse.json({ error: 'VIDEO_API_KEY not configured' }, { status: 500 });
+        if (!isVideoSize(size)) {
+            return NextResponse.json(
+                { error: 'Invalid size', details: `Supported sizes: ${VIDEO_SIZES.join(', ')}` },
+                { status: 400 }
+            );
         }
 
-        const form = new FormData();
-        form.append('model', 'sora-2');
-        form.append('prompt', prompt);
-        
-        if (seconds) form.append('seconds', seconds.toString());
-        if (size) form.append('size', size);
+        // The job is written with the service role, so check with the caller's own
+        // client that they may edit the project it is attached to
+        const jobProjectId = typeof projectId === 'string' ? projectId : null;
+        if (jobProjectId && !canEditProject(await getProjectRole(supabase, jobProjectId))) {
+            return NextResponse.json({ error: 'Not allowed to edit this project' }, { status: 403 });
+        }
 
-        if (referenceImage) {
-            const base64Data = referenceImage.includes('base64,') ? referenceImage.split('base64,')[1] : referenceImage;
-            const byteCharacters = atob(base64Data);
-            const byteNumbers = new Array(byteCharacters.length);
-            for (let i = 0; i < byteCharacters.length; i++) {
-                byteNumbers[i] = byteCharacters.charCodeAt(i);
-            }
-            const byteArray = new Uint8Array(byteNumbers);
-            const blob = new Blob([byteArray], { type: 'image/jpeg' });
-            form.append('input_reference', blob, 'reference.jpg');
+        const provider = getVideoProvider();
+        if (!provider) {
+            return NextResponse.json({ error: 'VIDEO_PROVIDER is invalid' }, { status: 500 });
         }
 
-        const response = await fetch(`${baseUrl}/videos`, {
-            method: 'POST',
-            headers: { 'Authorization': `Bearer ${apiKey}` },
-            body: form,
+        const reference = referenceImage
+            ? await resolveImageInput(supabase, referenceImage, request.nextUrl.origin)
+            : undefined;
+
+        // Credits stay reserved until /api/video-status sees the job finish or fail
+        const price = getVideoPrice(seconds, size);
+        const transactionId = await reserveCredits(userId, price, 'generate-video', {
+            model: provider.model,
+            provider: provider.id,
+            seconds,
+            size,
         });
 
-        const data = await response.json();
-        if (!response.ok) throw new Error(data.error || 'Failed to start video generation');
+        try {
+            const task = await provider.submit({ prompt, seconds, size, referenceImage: reference });
+
+            // The job row is what the canvas polls and resumes, so it must exist before we answer.
+            // Only the server may write jobs (see add-generation-jobs.sql).
+            const { data: job, error: jobError } = await getServiceSupabaseClient()
+                .from('generation_jobs')
+                .insert({
+                    user_id: userId,
+                    project_id: jobProjectId,
+                    element_id: jobProjectId && typeof elementId === 'string' ? elementId : null,
+                    kind: 'video',
+                    provider: provider.id,
+                    provider_task_id: task.taskId,
+                    transaction_id: transactionId,
+                    status: task.status,
+                    progress: task.progress,
+                    params: { prompt, seconds, size },
+                })
+                .select()
+                .single();
+
+            if (jobError) throw jobError;
 
-        return NextResponse.json({ taskId: data.id, status: data.status });
+            return NextResponse.json({ job: toVideoJob(job) });
+        } catch (error) {
+            await refundCredits(transactionId).catch(refundError => {
+                console.error('Failed to refund credits:', refundError);
+            });
+            throw error;
+        }
     } catch (error: any) {
+        if (error instanceof InsufficientCreditsError) {
+            return insufficientCreditsResponse(error);
+        }
+        if (error instanceof UnsupportedAssetUrlError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        if (error instanceof VideoProviderNotConfiguredError) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
         return NextResponse.json({ error: 'Failed to generate video', details: error.message }, { status: 500 });
     }
-}
+});
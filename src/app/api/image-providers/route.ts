@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/api-auth';
+import { listImageProviders } from '@/lib/image-providers';
+
+// Image providers configured on this server and what each supports, for the generator panels
+export const GET = withAuth(async () => {
+    return NextResponse.json(listImageProviders());
+});
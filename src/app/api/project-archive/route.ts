@@ -0,0 +1,157 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/api-auth';
+import { ALLOWED_ASSET_MIME_TYPES, Asset, storeAsset } from '@/lib/assets';
+import { ELEMENT_SCHEMA_VERSION, loadElementRows, rewriteElementIds } from '@/lib/element-schema';
+import {
+    ArchiveError,
+    MAX_ARCHIVE_BYTES,
+    packProjectArchive,
+    unpackProjectArchive,
+    UnpackedArchive,
+} from '@/lib/project-archive';
+
+// Content-Disposition needs an ASCII fallback next to the UTF-8 name
+function attachmentHeader(title: string) {
+    const filename = `${title.trim().replace(/[\\/:*?"<>|]+/g, '_') || 'Untitled'}.lovart.zip`;
+    const ascii = filename.replace(/[^\x20-\x7e]/g, '_');
+    return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Download a project as an archive. RLS limits this to projects the caller
+ * is a member of.
+ */
+export const GET = withAuth(async (request, { supabase }) => {
+    try {
+        const projectId = request.nextUrl.searchParams.get('projectId');
+        if (!projectId) {
+            return NextResponse.json({ error: 'Project ID is required' }, { status: 400 });
+        }
+
+        const [projectResult, elementsResult] = await Promise.all([
+            supabase.from('projects').select('*').eq('id', projectId).maybeSingle(),
+            supabase.from('canvas_elements').select('*').eq('project_id', projectId).order('position'),
+        ]);
+
+        if (projectResult.error) throw projectResult.error;
+        if (elementsResult.error) throw elementsResult.error;
+        const project = projectResult.data;
+        if (!project) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        // Archives always hold the current element schema
+        const { elements, rejected } = loadElementRows(elementsResult.data || []);
+        if (rejected.length > 0) {
+            console.warn('Skipped invalid canvas elements in export:', rejected);
+        }
+
+        const archive = await packProjectArchive(supabase, project, elements, request.nextUrl.origin);
+
+        return new Response(archive as Uint8Array<ArrayBuffer>, {
+            headers: {
+                'Content-Type': 'application/zip',
+                'Content-Disposition': attachmentHeader(project.title),
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting project:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to export project',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * Import an archive (multipart `file` field) as a new project owned by the
+ * caller. Media is re-uploaded and all element ids are rewritten.
+ */
+export const POST = withAuth(async (request, { userId, supabase }) => {
+    let archive: UnpackedArchive;
+    try {
+        const form = await request.formData();
+        const file = form.get('file');
+        if (!file || typeof file === 'string') {
+            return NextResponse.json({ error: 'File is required' }, { status: 400 });
+        }
+        if (file.size > MAX_ARCHIVE_BYTES) {
+            return NextResponse.json({ error: 'Archive is too large' }, { status: 413 });
+        }
+
+        archive = unpackProjectArchive(new Uint8Array(await file.arrayBuffer()));
+
+        const unsupported = archive.manifest.media.find(entry => !ALLOWED_ASSET_MIME_TYPES.includes(entry.mimeType));
+        if (unsupported) {
+            throw new ArchiveError(`Unsupported media type: ${unsupported.mimeType}`);
+        }
+    } catch (error) {
+        if (error instanceof ArchiveError) {
+            return NextResponse.json({ error: 'Invalid project archive', details: error.message }, { status: 400 });
+        }
+        console.error('Error reading project archive:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to read project archive',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+
+    try {
+        const { manifest, media } = archive;
+
+        const assets = new Map<string, Asset>();
+        for (const [path, file] of media) {
+            assets.set(path, await storeAsset(supabase, userId, file.data, file.mimeType));
+        }
+
+        const elements = rewriteElementIds(manifest.elements).map(el => {
+            const isMedia = el.type === 'image' || el.type === 'video';
+            const asset = isMedia && el.content ? assets.get(el.content) : undefined;
+            return asset ? { ...el, content: asset.url, assetId: asset.id } : el;
+        });
+
+        const { data: project, error: projectError } = await supabase
+            .from('projects')
+            .insert({ title: manifest.project.title || 'Untitled' })
+            .select()
+            .single();
+
+        if (projectError) throw projectError;
+
+        if (elements.length > 0) {
+            const { error: elementsError } = await supabase
+                .from('canvas_elements')
+                .insert(elements.map((el, position) => ({
+                    id: el.id,
+                    project_id: project.id,
+                    element_data: el,
+                    schema_version: ELEMENT_SCHEMA_VERSION,
+                    position,
+                })));
+
+            if (elementsError) {
+                // Don't leave a half-imported project behind
+                await supabase.from('projects').delete().eq('id', project.id);
+                throw elementsError;
+            }
+        }
+
+        return NextResponse.json({ project });
+    } catch (error) {
+        console.error('Error importing project:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to import project',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,257 @@
+import { NextResponse } from 'next/server';
+import type { User } from '@clerk/backend';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ApiAuthError, authErrorResponse, forbidden, getClerkClient, withAuth } from '@/lib/api-auth';
+import {
+    canManageMembers,
+    getProjectRole,
+    isProjectRole,
+    isValidEmail,
+    normalizeEmail,
+    PROJECT_ROLES,
+    ProjectMember,
+    toProjectMember,
+} from '@/lib/project-members';
+import type { Database } from '@/lib/supabase';
+
+function displayName(user: User) {
+    return user.fullName || user.username || user.primaryEmailAddress?.emailAddress || null;
+}
+
+// Email a sign-up link to someone without an account. Their invite is claimed
+// when they sign in with that address, which happens on the projects page.
+async function sendSignUpInvitation(email: string, redirectUrl: string) {
+    try {
+        await getClerkClient().invitations.createInvitation({ emailAddress: email, redirectUrl, ignoreExisting: true });
+        return true;
+    } catch (error) {
+        console.error('Failed to send sign-up invitation:', error);
+        return false;
+    }
+}
+
+async function requireOwner(supabase: SupabaseClient<Database>, projectId: string) {
+    const role = await getProjectRole(supabase, projectId);
+    if (!canManageMembers(role)) {
+        throw forbidden('Only project owners can manage members');
+    }
+}
+
+/**
+ * The project's creator and members, with names and avatars from Clerk.
+ * Any member may list them.
+ */
+export const GET = withAuth(async (request, { supabase }) => {
+    try {
+        const projectId = request.nextUrl.searchParams.get('projectId');
+        if (!projectId) {
+            return NextResponse.json({ error: 'Project ID is required' }, { status: 400 });
+        }
+
+        const [role, projectResult, membersResult] = await Promise.all([
+            getProjectRole(supabase, projectId),
+            supabase.from('projects').select('user_id').eq('id', projectId).maybeSingle(),
+            supabase.from('project_members').select('*').eq('project_id', projectId).order('created_at'),
+        ]);
+
+        if (projectResult.error) throw projectResult.error;
+        if (membersResult.error) throw membersResult.error;
+        if (!role || !projectResult.data) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        const creatorId = projectResult.data.user_id;
+        const memberRows = membersResult.data || [];
+        const userIds = [creatorId, ...memberRows.flatMap(row => (row.user_id ? [row.user_id] : []))];
+        const { data: users } = await getClerkClient().users.getUserList({ userId: userIds, limit: userIds.length });
+        const usersById = new Map(users.map(user => [user.id, user]));
+
+        const withProfile = (member: ProjectMember): ProjectMember => {
+            const user = member.userId ? usersById.get(member.userId) : undefined;
+            return user ? { ...member, name: displayName(user), avatarUrl: user.imageUrl || null } : member;
+        };
+
+        const creator = usersById.get(creatorId);
+        const owner = withProfile({
+            id: creatorId,
+            email: creator?.primaryEmailAddress?.emailAddress || '',
+            role: 'owner',
+            userId: creatorId,
+            name: null,
+            avatarUrl: null,
+        });
+
+        return NextResponse.json({
+            role,
+            members: [owner, ...memberRows.map(row => withProfile(toProjectMember(row)))],
+        });
+    } catch (error) {
+        console.error('Error listing project members:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to list project members',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * Invite someone by email. People who already have an account get access
+ * straight away; anyone else is emailed a sign-up invitation and gets access
+ * when they sign up with that address. `invitationSent` is false when that
+ * email could not be sent.
+ */
+export const POST = withAuth(async (request, { supabase }) => {
+    try {
+        const { projectId, email: rawEmail, role } = await request.json();
+        if (typeof projectId !== 'string' || !projectId) {
+            return NextResponse.json({ error: 'Project ID is required' }, { status: 400 });
+        }
+        const email = typeof rawEmail === 'string' ? normalizeEmail(rawEmail) : '';
+        if (!isValidEmail(email)) {
+            return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 });
+        }
+        if (!isProjectRole(role)) {
+            return NextResponse.json({ error: `Role must be one of: ${PROJECT_ROLES.join(', ')}` }, { status: 400 });
+        }
+
+        await requireOwner(supabase, projectId);
+
+        const [{ data: users }, projectResult] = await Promise.all([
+            getClerkClient().users.getUserList({ emailAddress: [email], limit: 1 }),
+            supabase.from('projects').select('user_id').eq('id', projectId).single(),
+        ]);
+        if (projectResult.error) throw projectResult.error;
+
+        const invitee = users[0];
+        if (invitee && invitee.id === projectResult.data.user_id) {
+            return NextResponse.json({ error: 'This person already owns the project' }, { status: 409 });
+        }
+
+        const { data: row, error } = await supabase
+            .from('project_members')
+            .insert({
+                project_id: projectId,
+                email,
+                role,
+                user_id: invitee?.id ?? null,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            if (error.code === '23505') {
+                return NextResponse.json({ error: 'This person is already a member' }, { status: 409 });
+            }
+            throw error;
+        }
+
+        const invitationSent = invitee
+            ? false
+            : await sendSignUpInvitation(email, `${request.nextUrl.origin}/lovart/projects`);
+
+        const member = toProjectMember(row);
+        return NextResponse.json({
+            member: invitee ? { ...member, name: displayName(invitee), avatarUrl: invitee.imageUrl || null } : member,
+            invitationSent,
+        });
+    } catch (error) {
+        if (error instanceof ApiAuthError) return authErrorResponse(error);
+        console.error('Error inviting project member:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to invite member',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * Change a member's role.
+ */
+export const PATCH = withAuth(async (request, { supabase }) => {
+    try {
+        const { projectId, memberId, role } = await request.json();
+        if (typeof projectId !== 'string' || typeof memberId !== 'string') {
+            return NextResponse.json({ error: 'Project ID and member ID are required' }, { status: 400 });
+        }
+        if (!isProjectRole(role)) {
+            return NextResponse.json({ error: `Role must be one of: ${PROJECT_ROLES.join(', ')}` }, { status: 400 });
+        }
+
+        await requireOwner(supabase, projectId);
+
+        const { data: row, error } = await supabase
+            .from('project_members')
+            .update({ role })
+            .eq('id', memberId)
+            .eq('project_id', projectId)
+            .select()
+            .maybeSingle();
+
+        if (error) throw error;
+        if (!row) {
+            return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ member: toProjectMember(row) });
+    } catch (error) {
+        if (error instanceof ApiAuthError) return authErrorResponse(error);
+        console.error('Error updating project member:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to update member',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * Remove a member or withdraw an invite. Owners can remove anyone; members
+ * can remove themselves to leave the project.
+ */
+export const DELETE = withAuth(async (request, { userId, supabase }) => {
+    try {
+        const projectId = request.nextUrl.searchParams.get('projectId');
+        const memberId = request.nextUrl.searchParams.get('memberId');
+        if (!projectId || !memberId) {
+            return NextResponse.json({ error: 'Project ID and member ID are required' }, { status: 400 });
+        }
+
+        const { data: row, error: findError } = await supabase
+            .from('project_members')
+            .select('*')
+            .eq('id', memberId)
+            .eq('project_id', projectId)
+            .maybeSingle();
+
+        if (findError) throw findError;
+        if (!row) {
+            return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+        }
+        if (row.user_id !== userId) {
+            await requireOwner(supabase, projectId);
+        }
+
+        const { error } = await supabase.from('project_members').delete().eq('id', memberId);
+        if (error) throw error;
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof ApiAuthError) return authErrorResponse(error);
+        console.error('Error removing project member:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to remove member',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+});
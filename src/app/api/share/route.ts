@@ -0,0 +1,56 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabaseClient } from '@/lib/supabase';
+import { loadSharedProject, ShareLinkError } from '@/lib/share-links';
+
+const ERROR_STATUS: Record<ShareLinkError['code'], number> = {
+    not_found: 404,
+    locked: 429,
+    password_required: 401,
+    password_invalid: 403,
+};
+
+// Wrong passwords are counted per visitor, identified by a hash of their IP address
+function clientHash(request: NextRequest) {
+    const ip = request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+        || request.headers.get('x-real-ip')
+        || 'unknown';
+    return createHash('sha256').update(ip).digest('hex');
+}
+
+/**
+ * Open a shared board. Public: the token (and password, when the link has
+ * one) is the only credential, checked by get_shared_project(). Visitors
+ * can't call that function themselves, so every password attempt goes
+ * through here and counts towards locking that visitor out of the link.
+ * The password travels in the body so it stays out of URLs and logs.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { token, password } = await request.json().catch(() => ({}));
+        if (typeof token !== 'string' || !token) {
+            return NextResponse.json({ error: 'Share token is required' }, { status: 400 });
+        }
+
+        const project = await loadSharedProject(
+            getServiceSupabaseClient(),
+            token,
+            clientHash(request),
+            typeof password === 'string' ? password : null
+        );
+
+        return NextResponse.json(project, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error) {
+        if (error instanceof ShareLinkError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] });
+        }
+        console.error('Error opening shared project:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to open shared project',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -1,35 +1,21 @@
-import { auth } from '@clerk/nextjs/server';
 import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/api-auth';
 
-export async function GET() {
+export const GET = withAuth(async (request, { userId, sessionId, supabase }) => {
   try {
-    const { userId, getToken } = await auth();
-
-    if (!userId) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
-    // Get the Supabase token
-    const token = await getToken({ template: 'supabase' });
-
-    // Decode the JWT to see what's inside (for debugging)
-    let decodedToken = null;
-    if (token) {
-      try {
-        const parts = token.split('.');
-        if (parts.length === 3) {
-          decodedToken = JSON.parse(Buffer.from(parts[1], 'base64').toString());
-        }
-      } catch (e) {
-        console.error('Failed to decode token:', e);
-      }
-    }
+    // Round-trip through Supabase to confirm the template token passes RLS
+    const { data: credits, error } = await supabase
+      .from('user_credits')
+      .select('credits')
+      .eq('user_id', userId)
+      .maybeSingle();
 
     return NextResponse.json({
       userId,
-      hasSupabaseToken: !!token,
-      tokenPreview: token ? `${token.substring(0, 20)}...` : null,
-      decodedToken,
+      sessionId,
+      supabaseOk: !error,
+      supabaseError: error?.message ?? null,
+      credits: credits?.credits ?? null,
     });
   } catch (error) {
     console.error('Auth test error:', error);
@@ -38,4 +24,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { resolveImageInput, storeAsset, UnsupportedAssetUrlError } from '@/lib/assets';
+import { getImageSize } from '@/lib/assets/image-size';
+import { withAuth } from '@/lib/api-auth';
+import { getImagePrice } from '@/lib/credit-prices';
+import { getUpscaleResolution, isUpscaleFactor, UPSCALE_FACTORS } from '@/lib/image-options';
+import { getImageProvider, NoImageError, ProviderNotConfiguredError } from '@/lib/image-providers';
+import { InsufficientCreditsError, insufficientCreditsResponse, withCredits } from '@/lib/credits';
+
+export const POST = withAuth(async (request, { userId, supabase }) => {
+    try {
+        const { image, scale, provider: providerId } = await request.json();
+
+        if (!image || typeof image !== 'string') {
+            return NextResponse.json(
+                { error: 'Image is required' },
+                { status: 400 }
+            );
+        }
+
+        if (!isUpscaleFactor(scale)) {
+            return NextResponse.json(
+                { error: 'Invalid scale', details: `scale must be one of ${UPSCALE_FACTORS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const provider = getImageProvider(providerId);
+        if (!provider) {
+            return NextResponse.json(
+                { error: 'Invalid provider', details: `Image provider not available: ${providerId}` },
+                { status: 400 }
+            );
+        }
+
+        if (!provider.upscale || !provider.capabilities.operations.includes('upscale')) {
+            return NextResponse.json(
+                { error: 'Upscale not supported', details: `${provider.capabilities.label} cannot upscale images` },
+                { status: 400 }
+            );
+        }
+
+        const source = await resolveImageInput(supabase, image, request.nextUrl.origin, 'image/png');
+        const sourceSize = getImageSize(Buffer.from(source.data, 'base64'));
+        if (!sourceSize) {
+            return NextResponse.json(
+                { error: 'Invalid image', details: 'Could not read the image dimensions' },
+                { status: 400 }
+            );
+        }
+
+        // Priced like a generation at the resolution the result is rendered at
+        const resolution = getUpscaleResolution(sourceSize, scale);
+
+        console.log(`Starting ${scale}x upscale with ${provider.id} at ${resolution}`);
+
+        const asset = await withCredits(
+            userId,
+            getImagePrice(resolution),
+            'upscale-image',
+            { model: provider.model, provider: provider.id, scale, resolution },
+            async () => {
+                const upscaled = await provider.upscale!({ image: source, scale, resolution });
+                return storeAsset(supabase, userId, upscaled.data, upscaled.mimeType);
+            }
+        );
+
+        return NextResponse.json({
+            imageUrl: asset.url,
+            asset,
+        });
+    } catch (error) {
+        if (error instanceof InsufficientCreditsError) {
+            return insufficientCreditsResponse(error);
+        }
+        if (error instanceof UnsupportedAssetUrlError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        if (error instanceof NoImageError) {
+            return NextResponse.json({ error: error.error, details: error.details }, { status: 500 });
+        }
+        if (error instanceof ProviderNotConfiguredError) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+        console.error('Error upscaling image:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to upscale image',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+});
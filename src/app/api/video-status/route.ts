@@ -1,34 +1,162 @@
 import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { withAuth } from '@/lib/api-auth';
+import { storeAsset } from '@/lib/assets';
+import { commitCredits, refundCredits } from '@/lib/credits';
+import { ACTIVE_JOB_STATUSES, isJobFinished, toVideoJob } from '@/lib/generation-jobs';
+import { Database, getServiceSupabaseClient } from '@/lib/supabase';
+import { getVideoProvider, VideoProvider, VideoProviderNotConfiguredError } from '@/lib/video-providers';
 
-export async function GET(request: NextRequest) {
-    try {
-        const taskId = request.nextUrl.searchParams.get('taskId');
-        if (!taskId) return NextResponse.json({ error: 'Task ID is required' }, { status: 400 });
+type JobRow = Database['public']['Tables']['generation_jobs']['Row'];
+
+// RLS limits this to the caller's own jobs
+async function loadJob(supabase: SupabaseClient<Database>, request: NextRequest) {
+    const jobId = request.nextUrl.searchParams.get('jobId');
+    if (!jobId) return { response: NextResponse.json({ error: 'Job ID is required' }, { status: 400 }) };
+
+    const { data: job, error } = await supabase
+        .from('generation_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!job) return { response: NextResponse.json({ error: 'Job not found' }, { status: 404 }) };
 
-        const apiKey = process.env.VIDEO_API_KEY;
-        const baseUrl = process.env.VIDEO_API_BASE_URL || 'https://www.clockapi.fun/v1';
+    const provider = getVideoProvider(job.provider);
+    if (!provider) {
+        return { response: NextResponse.json({ error: `Unknown video provider: ${job.provider}` }, { status: 500 }) };
+    }
+
+    return { job, provider };
+}
 
-        if (!apiKey) return NextResponse.json({ error: 'VIDEO_API_KEY not configured' }, { status: 500 });
+/**
+ * Move an active job to its next state. Only the request whose update still
+ * finds the job active gets the row back, so overlapping polls from several
+ * tabs cannot settle the credits twice. Returns null when another request won.
+ * Jobs are only writable with the service role; callers load them first.
+ */
+async function advanceJob(
+    job: JobRow,
+    changes: Database['public']['Tables']['generation_jobs']['Update']
+) {
+    const { data, error } = await getServiceSupabaseClient()
+        .from('generation_jobs')
+        .update(changes)
+        .eq('id', job.id)
+        .in('status', ACTIVE_JOB_STATUSES)
+        .select()
+        .maybeSingle();
 
-        const response = await fetch(`${baseUrl}/videos/${taskId}`, {
-            method: 'GET',
-            headers: { 'Authorization': `Bearer ${apiKey}` },
+    if (error) throw error;
+    if (data && data.transaction_id && changes.status && isJobFinished(changes.status)) {
+        const settle = changes.status === 'failed' ? refundCredits : commitCredits;
+        await settle(data.transaction_id).catch(settleError => {
+            console.error('Failed to settle credits:', settleError);
         });
+    }
+    return data;
+}
+
+/**
+ * Copy the finished clip into asset storage so the canvas doesn't depend on
+ * the provider's (often expiring) URL. Falls back to that URL on failure.
+ */
+async function persistVideo(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    provider: VideoProvider,
+    job: JobRow
+): Promise<JobRow> {
+    try {
+        const video = await provider.download(job.provider_task_id);
+        const [width, height] = String(job.params.size ?? '').split('x').map(Number);
+        const asset = await storeAsset(
+            supabase,
+            userId,
+            video.data,
+            video.mimeType,
+            width && height ? { width, height } : undefined
+        );
+
+        const { data, error } = await getServiceSupabaseClient()
+            .from('generation_jobs')
+            .update({ result_url: asset.url })
+            .eq('id', job.id)
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Failed to store generated video:', error);
+        return job;
+    }
+}
 
-        const data = await response.json();
-        if (!response.ok) throw new Error(data.error || 'Failed to get video status');
-
-        return NextResponse.json({
-            id: data.id,
-            status: data.status,
-            progress: data.progress || 0,
-            videoUrl: data.video_url,
-            model: data.model,
-            createdAt: data.created_at,
-            size: data.size,
-            seconds: data.seconds,
+export const GET = withAuth(async (request, { userId, supabase }) => {
+    try {
+        const { job, provider, response } = await loadJob(supabase, request);
+        if (response) return response;
+
+        // Finished jobs are answered from the table without asking the provider again
+        if (isJobFinished(job.status)) {
+            return NextResponse.json({ job: toVideoJob(job) });
+        }
+
+        const task = await provider.poll(job.provider_task_id);
+        const updated = await advanceJob(job, {
+            status: task.status,
+            progress: task.progress,
+            result_url: task.videoUrl ?? null,
+            error: task.error ?? null,
         });
+
+        // Another poll finished the job first; report what it recorded
+        if (!updated) {
+            const { data: current, error: currentError } = await supabase
+                .from('generation_jobs')
+                .select('*')
+                .eq('id', job.id)
+                .single();
+            if (currentError) throw currentError;
+            return NextResponse.json({ job: toVideoJob(current) });
+        }
+
+        const result = updated.status === 'completed'
+            ? await persistVideo(supabase, userId, provider, updated)
+            : updated;
+
+        return NextResponse.json({ job: toVideoJob(result) });
     } catch (error: any) {
+        if (error instanceof VideoProviderNotConfiguredError) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
         return NextResponse.json({ error: 'Failed to get video status', details: error.message }, { status: 500 });
     }
-}
+});
+
+// Cancel an in-flight job and return its credits
+export const DELETE = withAuth(async (request, { supabase }) => {
+    try {
+        const { job, provider, response } = await loadJob(supabase, request);
+        if (response) return response;
+
+        if (isJobFinished(job.status)) {
+            return NextResponse.json({ job: toVideoJob(job) });
+        }
+
+        await provider.cancel(job.provider_task_id);
+        const updated = await advanceJob(job, { status: 'failed', error: 'Cancelled' });
+
+        return NextResponse.json({ job: toVideoJob(updated ?? job) });
+    } catch (error) {
+        if (error instanceof VideoProviderNotConfiguredError) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+        return NextResponse.json(
+            { error: 'Failed to cancel video generation', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+});
@@ -1,27 +1,73 @@
 "use client";
 
-import React, { useState, useEffect, useCallback, useRef, Suspense } from 'react';
-import { ChevronLeft, Plus, Minus, MousePointer2, ChevronDown, Sparkles, Save, Cloud, CloudOff } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, Suspense } from 'react';
+import { ChevronLeft, Plus, Minus, MousePointer2, ChevronDown, Sparkles, Save, Cloud, CloudOff, Undo2, Redo2, Download, Users, Eye, MessageSquare, History } from 'lucide-react';
 import Link from 'next/link';
 import { useUser } from '@clerk/nextjs';
-import { useSearchParams } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { FloatingToolbar } from '@/components/lovart/FloatingToolbar';
 import { CanvasArea, CanvasElement } from '@/components/lovart/CanvasArea';
 import { ImageGeneratorPanel } from '@/components/lovart/ImageGeneratorPanel';
 import { VideoGeneratorPanel } from '@/components/lovart/VideoGeneratorPanel';
+import { ImageEditPanel } from '@/components/lovart/ImageEditPanel';
 import { AiDesignerPanel } from '@/components/lovart/AiDesignerPanel';
+import { ExportDialog } from '@/components/lovart/ExportDialog';
+import { CollaboratorAvatars, CollaboratorOverlay } from '@/components/lovart/Collaborators';
+import { ROLE_LABELS, ShareDialog } from '@/components/lovart/ShareDialog';
+import { CommentsPanel } from '@/components/lovart/CommentsPanel';
+import { SnapshotDiffOverlay, VersionHistoryPanel } from '@/components/lovart/VersionHistory';
 import { useSupabase } from '@/hooks/useSupabase';
+import type { Asset } from '@/lib/assets';
+import { measureMedia, uploadAsset } from '@/lib/assets/client';
+import type { ImageResolution } from '@/lib/credit-prices';
+import {
+    AspectRatio,
+    closestAspectRatio,
+    fitToEdge,
+    getAspectRatioValue,
+    getSupportedResolutions,
+    ImageProviderId,
+    ImageVariantEvent,
+    UpscaleFactor,
+} from '@/lib/image-options';
+import { IMAGE_EDIT_PRESETS, ImageEditMode, ImageEditSession } from '@/lib/image-edit';
+import { getElementBounds, unionBounds } from '@/lib/export';
+import { createImageMask, exportMaskPng, getBrushSizeRange, hasMaskContent } from '@/lib/image-mask';
+import { readNdjson } from '@/lib/ndjson';
+import { DesignStreamOptions, DesignStreamResult, streamDesignChat } from '@/lib/design-chat';
+import { ChatMessage, loadChatMessages } from '@/lib/chat-history';
+import { applyCanvasOperations, CanvasOperation, ImageRequest, summarizeCanvas } from '@/lib/canvas-tools';
+import { useCanvasHistory } from '@/hooks/useCanvasHistory';
+import { useCollaboration } from '@/hooks/useCollaboration';
+import { useComments } from '@/hooks/useComments';
+import { useVideoJobs } from '@/hooks/useVideoJobs';
+import { ACTIVE_JOB_STATUSES, loadVideoJobs, VideoJob } from '@/lib/generation-jobs';
+import { loadElementRows } from '@/lib/element-schema';
+import { canComment, canEditProject, canManageMembers, getProjectRole, ProjectRole } from '@/lib/project-members';
+import { CommentAnchor, pinPosition } from '@/lib/comments';
+import {
+    AUTO_SNAPSHOT_INTERVAL_MS,
+    createSnapshot,
+    diffSnapshot,
+    loadSnapshot,
+    ProjectSnapshot,
+    restoreElements,
+    restoreSnapshotAsCopy,
+    SnapshotSummary,
+} from '@/lib/project-snapshots';
+import { getPendingChanges, hasPendingChanges, persistElementChanges, SavedElements, snapshotElements } from '@/lib/canvas-persistence';
 import { v4 as uuidv4 } from 'uuid';
 
 function LovartCanvasContent() {
     const { user } = useUser();
     const supabase = useSupabase();
     const searchParams = useSearchParams();
+    const router = useRouter();
     const projectId = searchParams.get('id');
 
     const [scale, setScale] = useState(1);
     const [pan, setPan] = useState({ x: 0, y: 0 });
-    const [elements, setElements] = useState<CanvasElement[]>([]);
+    const { elements, elementsRef, setElements, resetElements, applyExternal, beginGesture, endGesture, undo, redo, canUndo, canRedo } = useCanvasHistory();
     const [selectedIds, setSelectedIds] = useState<string[]>([]);
     const [activeTool, setActiveTool] = useState('select'); // 'select', 'hand', 'mark', 'shape', 'text', 'draw'
     const [title, setTitle] = useState('Untitled');
@@ -32,6 +78,36 @@ function LovartCanvasContent() {
     const [isLoading, setIsLoading] = useState(true);
     const [showChat, setShowChat] = useState(false);
     const [initialPrompt, setInitialPrompt] = useState<string | undefined>(undefined);
+    const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+    // Operations proposed by the AI designer, shown on the board until accepted or discarded
+    const [previewOperations, setPreviewOperations] = useState<CanvasOperation[] | null>(null);
+    // Video jobs still rendering on the provider; survive the generator panel closing
+    const { jobs: videoJobs, trackJobs: trackVideoJobs, cancelJob: cancelVideoJob } = useVideoJobs(job => handleVideoJobFinished(job));
+    // Image opened from the context toolbar for an edit, with its painted mask
+    const [imageEditSession, setImageEditSession] = useState<ImageEditSession | null>(null);
+    const [isEditingImage, setIsEditingImage] = useState(false);
+    // Images with an edit or upscale request in flight
+    const [busyElementIds, setBusyElementIds] = useState<string[]>([]);
+    // Ids the export dialog opened with, or null while it is closed
+    const [exportIds, setExportIds] = useState<string[] | null>(null);
+    // The user's role on the project; new projects are their own
+    const [role, setRole] = useState<ProjectRole | null>(projectId ? null : 'owner');
+    const [showShare, setShowShare] = useState(false);
+    const readOnly = !canEditProject(role);
+    // Comments need a saved project; commenters may add them without editing rights
+    const commentsEnabled = !!user && !!currentProjectId && canComment(role);
+    const [showComments, setShowComments] = useState(false);
+    // A pin dropped with the mark tool, waiting for its first comment
+    const [commentDraft, setCommentDraft] = useState<CommentAnchor | null>(null);
+    const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+    const comments = useComments(supabase, user ? currentProjectId : null);
+    const openCommentCount = comments.threads.filter(thread => !thread.root.resolvedAt).length;
+    const [showHistory, setShowHistory] = useState(false);
+    // A snapshot shown read-only in place of the board
+    const [previewSnapshot, setPreviewSnapshot] = useState<ProjectSnapshot | null>(null);
+    const [loadingSnapshotId, setLoadingSnapshotId] = useState<string | null>(null);
+    const [showSnapshotDiff, setShowSnapshotDiff] = useState(true);
+    const isPreviewing = previewSnapshot !== null;
 
     const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const isInitializedRef = useRef(false);
@@ -41,6 +117,18 @@ function LovartCanvasContent() {
 
     const isSavingRef = useRef(false);
     const needsSaveRef = useRef(false);
+    // Settles when the save in flight finishes, successful or not
+    const currentSaveRef = useRef<Promise<void>>(Promise.resolve());
+
+    // What the database holds, used to diff against the live elements on save
+    const savedElementsRef = useRef<SavedElements>(new Map());
+    const savedTitleRef = useRef<string | null>(null);
+    // Rows written before element ids became primary keys, removed on next save
+    const legacyRowIdsRef = useRef<string[]>([]);
+    const titleRef = useRef(title);
+    titleRef.current = title;
+    const readOnlyRef = useRef(readOnly);
+    readOnlyRef.current = readOnly;
 
     // Save project to Supabase
     const saveProject = useCallback(async () => {
@@ -55,6 +143,11 @@ function LovartCanvasContent() {
             return;
         }
 
+        // Viewers and commenters cannot write; RLS would reject it anyway
+        if (readOnlyRef.current) {
+            return;
+        }
+
         // Prevent concurrent saves
         if (isSavingRef.current) {
             needsSaveRef.current = true;
@@ -62,86 +155,70 @@ function LovartCanvasContent() {
         }
 
         isSavingRef.current = true;
-        console.log('Starting save...', { userId: user.id, projectId: currentProjectId, elementsCount: elements.length });
+        let finishSave = () => {};
+        currentSaveRef.current = new Promise(resolve => {
+            finishSave = resolve;
+        });
 
-        try {
-            setSaveStatus('saving');
+        // Snapshot what we are about to persist; anything changed meanwhile is picked up by the next save
+        const snapshot = elementsRef.current;
+        const currentTitle = titleRef.current;
+        const changes = getPendingChanges(savedElementsRef.current, snapshot);
+        const legacyRowIds = legacyRowIdsRef.current;
+        console.log('Starting save...', {
+            userId: user.id,
+            projectId: currentProjectId,
+            added: changes.added.length,
+            updated: changes.updated.length,
+            removed: changes.removed.length,
+        });
 
-            // If we have a project ID, update it; otherwise create a new one
+        try {
             if (currentProjectId) {
-                // Update existing project
-                // @ts-ignore - Supabase type inference issue
-                const { error: projectError } = await (supabase as any)
+                const titleChanged = currentTitle !== savedTitleRef.current;
+                if (!titleChanged && !hasPendingChanges(changes) && legacyRowIds.length === 0) {
+                    setSaveStatus('saved');
+                    return;
+                }
+
+                setSaveStatus('saving');
+
+                // Bump updated_at so the project list reflects element edits too
+                const { error: projectError } = await supabase
                     .from('projects')
                     .update({
-                        title,
+                        title: currentTitle,
                         updated_at: new Date().toISOString(),
                     })
                     .eq('id', currentProjectId);
 
                 if (projectError) throw projectError;
 
-                // Delete existing elements and insert new ones
-                const { error: deleteError } = await supabase
-                    .from('canvas_elements')
-                    .delete()
-                    .eq('project_id', currentProjectId);
-
-                if (deleteError) throw deleteError;
-
-                if (elements.length > 0) {
-                    // Ensure no duplicates before saving
-                    const uniqueElements = Array.from(new Map(elements.map(item => [item.id, item])).values());
-                    console.log('Saving', uniqueElements.length, 'unique elements to database');
-
-                    // @ts-ignore - Supabase type inference issue
-                    const { error: elementsError } = await (supabase as any)
-                        .from('canvas_elements')
-                        .insert(
-                            uniqueElements.map(el => ({
-                                project_id: currentProjectId,
-                                element_data: el,
-                            }))
-                        );
-
-                    if (elementsError) throw elementsError;
-                } else {
-                    console.log('No elements to save (elements array is empty)');
-                }
+                await persistElementChanges(supabase, currentProjectId, changes, legacyRowIds);
             } else {
+                setSaveStatus('saving');
+
                 // Create new project
                 const newProjectId = uuidv4();
-                // @ts-ignore - Supabase type inference issue
-                const { error: projectError } = await (supabase as any)
+                const { error: projectError } = await supabase
                     .from('projects')
                     .insert({
                         id: newProjectId,
-                        title,
+                        title: currentTitle,
                     });
 
                 if (projectError) throw projectError;
 
-                if (elements.length > 0) {
-                    // Ensure no duplicates before saving
-                    const uniqueElements = Array.from(new Map(elements.map(item => [item.id, item])).values());
-
-                    // @ts-ignore - Supabase type inference issue
-                    const { error: elementsError } = await (supabase as any)
-                        .from('canvas_elements')
-                        .insert(
-                            uniqueElements.map(el => ({
-                                project_id: newProjectId,
-                                element_data: el,
-                            }))
-                        );
-
-                    if (elementsError) throw elementsError;
-                }
+                await persistElementChanges(supabase, newProjectId, changes);
 
                 setCurrentProjectId(newProjectId);
                 window.history.pushState({}, '', `/lovart/canvas?id=${newProjectId}`);
             }
 
+            savedElementsRef.current = snapshotElements(snapshot);
+            savedTitleRef.current = currentTitle;
+            legacyRowIdsRef.current = legacyRowIdsRef.current.filter(id => !legacyRowIds.includes(id));
+
             console.log('Save successful!');
             setSaveStatus('saved');
         } catch (error: any) {
@@ -149,13 +226,19 @@ function LovartCanvasContent() {
             setSaveStatus('offline');
         } finally {
             isSavingRef.current = false;
-            // If changes happened while saving, trigger another save
+            // If changes happened while saving, trigger another save with the latest state
             if (needsSaveRef.current) {
                 needsSaveRef.current = false;
-                saveProject();
+                saveProjectRef.current();
             }
+            finishSave();
         }
-    }, [user, supabase, currentProjectId, title, elements]);
+    }, [user, supabase, currentProjectId, elementsRef]);
+
+    const saveProjectRef = useRef(saveProject);
+    useEffect(() => {
+        saveProjectRef.current = saveProject;
+    }, [saveProject]);
 
     // Load project from Supabase
     const loadProject = useCallback(async (id: string) => {
@@ -174,8 +257,8 @@ function LovartCanvasContent() {
             setIsLoading(true);
             console.log('Loading project:', id);
 
-            // 并行加载项目元数据和画布元素，减少数据库往返次数
-            const [projectResult, elementsResult] = await Promise.all([
+            // 并行加载项目元数据、画布元素和 AI 对话，减少数据库往返次数
+            const [projectResult, elementsResult, chatHistory, videoJobs, projectRole] = await Promise.all([
                 supabase
                     .from('projects')
                     .select('*')
@@ -185,14 +268,33 @@ function LovartCanvasContent() {
                     .from('canvas_elements')
                     .select('*')
                     .eq('project_id', id)
+                    .order('position'),
+                // 对话加载失败不影响画布
+                loadChatMessages(supabase, id).catch(chatError => {
+                    console.error('Failed to load chat history:', chatError);
+                    return [];
+                }),
+                loadVideoJobs(supabase, id).catch(jobsError => {
+                    console.error('Failed to load video jobs:', jobsError);
+                    return [];
+                }),
+                getProjectRole(supabase, id).catch(roleError => {
+                    console.error('Failed to load project role:', roleError);
+                    return undefined;
+                }),
             ]);
 
+            setChatMessages(chatHistory);
+
             // 处理项目元数据
             if (projectResult.error) throw projectResult.error;
             const project = projectResult.data;
             if (project) {
                 console.log('Project loaded:', project);
-                setTitle((project as any).title);
+                setTitle(project.title);
+                savedTitleRef.current = project.title;
+                // 查询角色失败时（例如尚未运行 add-project-members.sql），按创建者判断
+                setRole(projectRole !== undefined ? projectRole : project.user_id === user.id ? 'owner' : 'viewer');
             }
 
             // 处理画布元素
@@ -201,23 +303,53 @@ function LovartCanvasContent() {
             const canvasElements = elementsResult.data;
             console.log('Canvas elements loaded:', canvasElements?.length || 0);
             if (canvasElements && canvasElements.length > 0) {
-                // 去重加载的元素
-                const loadedElements = canvasElements.map((ce: any) => ce.element_data);
-                const uniqueElements = Array.from(
-                    new Map(loadedElements.map((item: any) => [item.id, item])).values()
-                );
+                // 校验并升级旧版本的元素数据，同一元素的重复行只保留一份
+                const { elements: uniqueElements, migratedIds, rejected } = loadElementRows(canvasElements);
                 console.log('Unique elements after dedup:', uniqueElements.length);
-                setElements(uniqueElements as CanvasElement[]);
+                if (rejected.length > 0) {
+                    // 无法加载的行保留在数据库中，不会被保存覆盖或删除
+                    console.warn('Skipped invalid canvas elements:', rejected);
+                }
+
+                // 旧数据的行 id 与元素 id 不一致：下次保存时按元素 id 重新写入并删除旧行
+                const loadedIds = new Set(uniqueElements.map(el => el.id));
+                const rejectedRowIds = new Set(rejected.map(row => row.rowId));
+                const legacyRows = canvasElements.filter(ce => !loadedIds.has(ce.id) && !rejectedRowIds.has(ce.id));
+                legacyRowIdsRef.current = legacyRows.map(ce => ce.id);
+                // 只存在于旧行中的元素、升级过的元素和层级位置不一致的元素不计入快照，下次保存时写回
+                const rowPositions = new Map(canvasElements.map(ce => [ce.id, ce.position]));
+                const staleIds = new Set([
+                    ...migratedIds,
+                    ...uniqueElements.filter((el, index) => rowPositions.get(el.id) !== index).map(el => el.id),
+                ]);
+                const savedElements = snapshotElements(uniqueElements);
+                staleIds.forEach(staleId => savedElements.delete(staleId));
+                savedElementsRef.current = savedElements;
+
+                // 页面关闭期间完成的视频：填入原来的视频生成器，随下次自动保存写入
+                const finishedVideos = new Map(videoJobs
+                    .filter(job => job.status === 'completed' && job.elementId && job.videoUrl)
+                    .map(job => [job.elementId, job.videoUrl]));
+                resetElements(uniqueElements.map(el =>
+                    el.type === 'video-generator' && finishedVideos.has(el.id)
+                        ? { ...el, type: 'video', content: finishedVideos.get(el.id) }
+                        : el
+                ));
             } else {
                 console.log('No canvas elements found for this project');
-                setElements([]);
+                legacyRowIdsRef.current = [];
+                savedElementsRef.current = new Map();
+                resetElements([]);
             }
+
+            // 继续轮询仍在进行的视频任务
+            trackVideoJobs(videoJobs.filter(job => ACTIVE_JOB_STATUSES.includes(job.status)));
         } catch (error: any) {
             console.error('Failed to load project:', error);
         } finally {
             setIsLoading(false);
         }
-    }, [user, supabase]);
+    }, [user, supabase, resetElements, trackVideoJobs]);
 
     // Load project on mount if ID is provided
     const hasLoadedRef = useRef(false);
@@ -248,6 +380,153 @@ function LovartCanvasContent() {
         }
     }, [isLoading]);
 
+    const collaborationUser = useMemo(() => user ? {
+        id: user.id,
+        name: user.fullName || user.username || user.primaryEmailAddress?.emailAddress || 'Anonymous',
+        avatarUrl: user.imageUrl || null,
+    } : null, [user]);
+
+    const { collaborators, updateCursor } = useCollaboration({
+        supabase,
+        projectId: currentProjectId,
+        ready: !isLoading,
+        user: collaborationUser,
+        canEdit: !readOnly,
+        elements,
+        elementsRef,
+        selection: selectedIds,
+        // 协作者的修改不进入撤销历史，但仍按待保存处理：写入的是相同数据，可重复执行，
+        // 这样对方没能保存时（关闭页面、保存失败）修改也不会丢
+        applyRemote: applyExternal,
+    });
+
+    // 评论、历史版本和 AI 面板共用右侧位置，同一时间只显示一个
+    const openComments = useCallback(() => {
+        setShowComments(true);
+        setShowChat(false);
+        setShowHistory(false);
+        setPreviewSnapshot(null);
+    }, []);
+
+    const handlePlaceComment = useCallback((anchor: CommentAnchor) => {
+        setCommentDraft(anchor);
+        setActiveCommentId(null);
+        openComments();
+    }, [openComments]);
+
+    const handleOpenComment = useCallback((threadId: string) => {
+        setCommentDraft(null);
+        setActiveCommentId(threadId);
+        openComments();
+    }, [openComments]);
+
+    // Picking a thread in the sidebar brings its pin into view, left of the sidebar
+    const handleSelectComment = (threadId: string | null) => {
+        setActiveCommentId(threadId);
+        const thread = comments.threads.find(t => t.root.id === threadId);
+        const position = thread && pinPosition(thread.root, elements);
+        if (!position) return;
+        setPan({
+            x: (window.innerWidth - 420) / 2 - position.x * scale,
+            y: window.innerHeight / 2 - position.y * scale,
+        });
+    };
+
+    const handleCreateComment = async (body: string, mentions: string[]) => {
+        if (!commentDraft) return;
+        const comment = await comments.createThread(commentDraft, body, mentions);
+        setCommentDraft(null);
+        setActiveCommentId(comment.id);
+    };
+
+    const handleDeleteComment = async (commentId: string) => {
+        await comments.remove(commentId);
+        if (commentId === activeCommentId) setActiveCommentId(null);
+    };
+
+    // 编辑期间定期自动保存历史版本，打开时先存一份；内容没变时数据库会跳过
+    const isSignedIn = !!user;
+    useEffect(() => {
+        if (!supabase || !currentProjectId || !isSignedIn || isLoading || readOnly) return;
+
+        const takeSnapshot = () => {
+            createSnapshot(supabase, currentProjectId).catch(error => {
+                console.error('Automatic snapshot failed:', error);
+            });
+        };
+        takeSnapshot();
+        const timer = setInterval(takeSnapshot, AUTO_SNAPSHOT_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [supabase, currentProjectId, isSignedIn, isLoading, readOnly]);
+
+    // What changed on the board since the previewed snapshot
+    const snapshotDiff = useMemo(
+        () => previewSnapshot && diffSnapshot(previewSnapshot.elements, elements),
+        [previewSnapshot, elements]
+    );
+
+    // The latest request wins when snapshots are clicked in quick succession
+    const previewRequestRef = useRef<string | null>(null);
+
+    const handlePreviewSnapshot = async (snapshot: SnapshotSummary) => {
+        if (!supabase) return;
+        previewRequestRef.current = snapshot.id;
+        setLoadingSnapshotId(snapshot.id);
+        setSelectedIds([]);
+        try {
+            const loaded = await loadSnapshot(supabase, snapshot.id);
+            if (previewRequestRef.current === snapshot.id) setPreviewSnapshot(loaded);
+        } catch (error) {
+            console.error('Failed to load snapshot:', error);
+        } finally {
+            if (previewRequestRef.current === snapshot.id) setLoadingSnapshotId(null);
+        }
+    };
+
+    const exitPreview = () => {
+        previewRequestRef.current = null;
+        setLoadingSnapshotId(null);
+        setPreviewSnapshot(null);
+    };
+
+    // Flush pending edits so snapshots, which copy the saved board, include them.
+    // A save already in flight only queues another one, so wait for the whole chain.
+    const saveBeforeSnapshot = async () => {
+        if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+        while (isSavingRef.current) await currentSaveRef.current;
+        await saveProjectRef.current();
+
+        const pending = getPendingChanges(savedElementsRef.current, elementsRef.current);
+        if (hasPendingChanges(pending) || titleRef.current !== savedTitleRef.current) {
+            throw new Error('The board could not be saved');
+        }
+    };
+
+    // 恢复前先把当前画布存为一个命名版本（不会被跳过或清理），恢复本身也可以撤销
+    const handleRestoreSnapshot = async () => {
+        if (!supabase || !currentProjectId || !previewSnapshot) return;
+        await saveBeforeSnapshot();
+        await createSnapshot(supabase, currentProjectId, `恢复前 · ${new Date().toLocaleString('zh-CN')}`);
+        setElements(prev => restoreElements(previewSnapshot.elements, prev), { label: 'restore' });
+        setTitle(previewSnapshot.title);
+        exitPreview();
+    };
+
+    const handleRestoreSnapshotAsCopy = async () => {
+        if (!supabase || !previewSnapshot) return;
+        const newProjectId = await restoreSnapshotAsCopy(supabase, previewSnapshot, `${previewSnapshot.title} 副本`);
+        window.location.href = `/lovart/canvas?id=${newProjectId}`;
+    };
+
+    // 把指针位置换算成画布坐标后共享给协作者
+    const handleEditorMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        updateCursor({
+            x: (e.clientX - rect.left - pan.x) / scale,
+            y: (e.clientY - rect.top - pan.y) / scale,
+        });
+    };
+
     // Auto-save with debouncing
     useEffect(() => {
         // Don't auto-save if not initialized, not logged in, or still loading
@@ -280,61 +559,97 @@ function LovartCanvasContent() {
         };
     }, [elements, title, user, isLoading, saveProject]);
 
-    // Handle Delete Key
+    // Drop selection of elements that no longer exist after undo/redo
+    const handleUndo = useCallback(() => {
+        const next = undo();
+        if (next) setSelectedIds(prev => prev.filter(id => next.some(el => el.id === id)));
+    }, [undo]);
+
+    const handleRedo = useCallback(() => {
+        const next = redo();
+        if (next) setSelectedIds(prev => prev.filter(id => next.some(el => el.id === id)));
+    }, [redo]);
+
+    // Handle Delete / Undo / Redo keys
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            // Don't delete if user is typing in an input or textarea
+            // Don't intercept keys if user is typing in an input or textarea
             if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') {
                 return;
             }
 
+            if (readOnly || isPreviewing) {
+                return;
+            }
+
+            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) {
+                    handleRedo();
+                } else {
+                    handleUndo();
+                }
+                return;
+            }
+
+            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+                e.preventDefault();
+                handleRedo();
+                return;
+            }
+
             if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIds.length > 0) {
-                setElements(prev => prev.filter(el => !selectedIds.includes(el.id)));
+                setElements(prev => prev.filter(el => !selectedIds.includes(el.id)), { label: 'delete' });
                 setSelectedIds([]);
             }
         };
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [selectedIds]);
+    }, [selectedIds, setElements, handleUndo, handleRedo, readOnly, isPreviewing]);
+
+    // Upload media to the asset store; fall back to an inline data URL when signed out
+    const uploadMedia = async (file: File): Promise<{ url: string; assetId?: string }> => {
+        if (user) {
+            try {
+                const asset = await uploadAsset(file, file.name);
+                return { url: asset.url, assetId: asset.id };
+            } catch (error) {
+                console.error('Asset upload failed, keeping media inline:', error);
+            }
+        }
 
-    const handleAddImage = (file: File) => {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            const newElement: CanvasElement = {
-                id: uuidv4(),
-                type: 'image',
-                x: 100 - pan.x + elements.length * 20,
-                y: 100 - pan.y + elements.length * 20,
-                width: 300,
-                height: 200,
-                content: e.target?.result as string,
-            };
-            setElements(prev => [...prev, newElement]);
-            setSelectedIds([newElement.id]);
-            setActiveTool('select');
-        };
-        reader.readAsDataURL(file);
+        const dataUrl = await new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = reject;
+            reader.readAsDataURL(file);
+        });
+        return { url: dataUrl };
     };
 
-    const handleAddVideo = (file: File) => {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            const newElement: CanvasElement = {
-                id: uuidv4(),
-                type: 'video',
-                x: 100 - pan.x + elements.length * 20,
-                y: 100 - pan.y + elements.length * 20,
-                width: 400,
-                height: 300,
-                content: e.target?.result as string,
-            };
-            setElements(prev => [...prev, newElement]);
-            setSelectedIds([newElement.id]);
-            setActiveTool('select');
+    const handleAddMedia = async (file: File, type: 'image' | 'video', defaultWidth: number, defaultHeight: number) => {
+        const { url, assetId } = await uploadMedia(file);
+        const size = await measureMedia(url, type);
+
+        const newElement: CanvasElement = {
+            id: uuidv4(),
+            type,
+            x: 100 - pan.x + elements.length * 20,
+            y: 100 - pan.y + elements.length * 20,
+            width: defaultWidth,
+            height: size ? defaultWidth * size.height / size.width : defaultHeight,
+            content: url,
+            assetId,
         };
-        reader.readAsDataURL(file);
+        setElements(prev => [...prev, newElement], { label: 'add' });
+        setSelectedIds([newElement.id]);
+        setActiveTool('select');
     };
 
+    const handleAddImage = (file: File) => handleAddMedia(file, 'image', 300, 200);
+
+    const handleAddVideo = (file: File) => handleAddMedia(file, 'video', 400, 300);
+
     const handleAddText = () => {
         const newElement: CanvasElement = {
             id: uuidv4(),
@@ -343,7 +658,7 @@ function LovartCanvasContent() {
             y: 200 - pan.y + elements.length * 20,
             content: 'Double click to edit',
         };
-        setElements(prev => [...prev, newElement]);
+        setElements(prev => [...prev, newElement], { label: 'add' });
         setSelectedIds([newElement.id]);
         setActiveTool('select');
     };
@@ -359,20 +674,37 @@ function LovartCanvasContent() {
             height: 150,
             color: '#9CA3AF', // Default gray
         };
-        setElements(prev => [...prev, newElement]);
+        setElements(prev => [...prev, newElement], { label: 'add' });
         setSelectedIds([newElement.id]);
         setActiveTool('select');
     };
 
     const handleElementChange = (id: string, newAttrs: Partial<CanvasElement>) => {
-        setElements(prev => prev.map(el => el.id === id ? { ...el, ...newAttrs } : el));
+        // Typing or scrubbing the same property collapses into one history entry
+        const mergeKey = `${id}:${Object.keys(newAttrs).sort().join(',')}`;
+        setElements(prev => prev.map(el => el.id === id ? { ...el, ...newAttrs } : el), { label: 'update', mergeKey });
     };
 
     const handleDelete = (id: string) => {
-        setElements(prev => prev.filter(el => el.id !== id));
+        setElements(prev => prev.filter(el => el.id !== id), { label: 'delete' });
         setSelectedIds(prev => prev.filter(selectedId => selectedId !== id));
     };
 
+    const handleDeleteMany = (ids: string[]) => {
+        setElements(prev => prev.filter(el => !ids.includes(el.id)), { label: 'delete' });
+        setSelectedIds(prev => prev.filter(selectedId => !ids.includes(selectedId)));
+    };
+
+    const handleDragStart = () => {
+        setIsDraggingElement(true);
+        beginGesture('transform');
+    };
+
+    const handleDragEnd = () => {
+        setIsDraggingElement(false);
+        endGesture();
+    };
+
     const handleOpenImageGenerator = () => {
         const newElement: CanvasElement = {
             id: uuidv4(),
@@ -382,7 +714,7 @@ function LovartCanvasContent() {
             width: 400,
             height: 400,
         };
-        setElements(prev => [...prev, newElement]);
+        setElements(prev => [...prev, newElement], { label: 'add' });
         setSelectedIds([newElement.id]);
         setActiveTool('select');
     };
@@ -396,17 +728,24 @@ function LovartCanvasContent() {
             width: 400,
             height: 300,
         };
-        setElements(prev => [...prev, newElement]);
+        setElements(prev => [...prev, newElement], { label: 'add' });
         setSelectedIds([newElement.id]);
         setActiveTool('select');
     };
 
-    const handleGenerateVideo = async (videoUrl: string) => {
-        const generatorElementId = selectedIds.find(id => elements.find(el => el.id === id)?.type === 'video-generator');
+    // 视频任务结束：替换发起它的视频生成器；生成器已被删除时放一个新的视频元素
+    const handleVideoJobFinished = (job: VideoJob) => {
+        const videoUrl = job.videoUrl;
+        if (job.status !== 'completed' || !videoUrl) {
+            alert(job.error ? `视频生成失败：${job.error}` : '视频生成失败，请重试');
+            return;
+        }
+
+        const generator = elementsRef.current.find(el => el.id === job.elementId && el.type === 'video-generator');
 
-        if (generatorElementId) {
+        if (generator) {
             setElements(prev => prev.map(el => {
-                if (el.id === generatorElementId) {
+                if (el.id === generator.id) {
                     return { ...el, type: 'video', content: videoUrl };
                 }
                 return el;
@@ -421,7 +760,7 @@ function LovartCanvasContent() {
                 height: 300,
                 content: videoUrl,
             };
-            setElements(prev => [...prev, newElement]);
+            setElements(prev => [...prev, newElement], { label: 'add' });
             setSelectedIds([newElement.id]);
         }
     };
@@ -474,7 +813,7 @@ function LovartCanvasContent() {
                 return el;
             });
             return [...updatedPrev, connectorElement, generatorElement];
-        });
+        }, { label: 'connect' });
 
         setSelectedIds([generatorId]);
         setActiveTool('select');
@@ -485,12 +824,43 @@ function LovartCanvasContent() {
         handleConnectFlow(sourceImage);
     };
 
+    // Size the element from the image the model actually returned
+    const getGeneratedImageSize = async (imageUrl: string, asset: Asset | undefined, aspectRatio: AspectRatio) => {
+        if (asset?.width && asset?.height) {
+            return { width: asset.width, height: asset.height };
+        }
+        return await measureMedia(imageUrl, 'image') ?? { width: getAspectRatioValue(aspectRatio), height: 1 };
+    };
+
+    const fillImageGenerator = async (generatorId: string, imageUrl: string, asset: Asset | undefined, aspectRatio: AspectRatio) => {
+        const imageSize = await getGeneratedImageSize(imageUrl, asset, aspectRatio);
+        setElements(prev => prev.map(el => {
+            if (el.id === generatorId) {
+                return {
+                    ...el,
+                    ...fitToEdge(imageSize, Math.max(el.width || 400, el.height || 400)),
+                    type: 'image',
+                    content: imageUrl,
+                    assetId: asset?.id,
+                };
+            }
+            return el;
+        }));
+    };
+
     const handleGenerateImage = async (
         prompt: string,
-        resolution: '1K' | '2K' | '4K',
-        aspectRatio: '1:1' | '4:3' | '16:9',
-        referenceImage?: string
+        resolution: ImageResolution,
+        aspectRatio: AspectRatio,
+        referenceImage?: string,
+        count = 1,
+        provider?: ImageProviderId
     ) => {
+        if (count > 1) {
+            await handleGenerateVariants(prompt, resolution, aspectRatio, count, referenceImage, provider);
+            return;
+        }
+
         setIsGenerating(true);
         try {
             const response = await fetch('/api/generate-image', {
@@ -500,6 +870,7 @@ function LovartCanvasContent() {
                 },
                 body: JSON.stringify({
                     prompt,
+                    provider,
                     resolution,
                     aspectRatio,
                     referenceImage,
@@ -516,31 +887,23 @@ function LovartCanvasContent() {
             // Find the selected image-generator element
             const generatorElementId = selectedIds.find(id => elements.find(el => el.id === id)?.type === 'image-generator');
 
-            if (data.imageData) {
+            if (data.imageUrl) {
                 if (generatorElementId) {
                     // Replace the generator element with the generated image
-                    setElements(prev => prev.map(el => {
-                        if (el.id === generatorElementId) {
-                            return {
-                                ...el,
-                                type: 'image',
-                                content: data.imageData,
-                            };
-                        }
-                        return el;
-                    }));
+                    await fillImageGenerator(generatorElementId, data.imageUrl, data.asset, aspectRatio);
                 } else {
                     // Fallback: Add new image element
+                    const imageSize = await getGeneratedImageSize(data.imageUrl, data.asset, aspectRatio);
                     const newElement: CanvasElement = {
                         id: uuidv4(),
                         type: 'image',
                         x: 300 - pan.x,
                         y: 300 - pan.y,
-                        width: 400,
-                        height: 400,
-                        content: data.imageData,
+                        ...fitToEdge(imageSize, 400),
+                        content: data.imageUrl,
+                        assetId: data.asset?.id,
                     };
-                    setElements(prev => [...prev, newElement]);
+                    setElements(prev => [...prev, newElement], { label: 'add' });
                     setSelectedIds([newElement.id]);
                 }
             } else if (data.textResponse) {
@@ -552,7 +915,7 @@ function LovartCanvasContent() {
                     y: 300 - pan.y,
                     content: data.textResponse,
                 };
-                setElements(prev => [...prev, newElement]);
+                setElements(prev => [...prev, newElement], { label: 'add' });
                 setSelectedIds([newElement.id]);
 
                 // If there was a generator element, maybe remove it or keep it? 
@@ -567,30 +930,327 @@ function LovartCanvasContent() {
         }
     };
 
-    const handleAiChat = async (prompt: string): Promise<string> => {
+    // Batch generation: results stream in and are laid out as a grid to the right of the generator
+    const handleGenerateVariants = async (
+        prompt: string,
+        resolution: ImageResolution,
+        aspectRatio: AspectRatio,
+        count: number,
+        referenceImage?: string,
+        provider?: ImageProviderId
+    ) => {
+        const generator = elements.find(el => selectedIds.includes(el.id) && el.type === 'image-generator');
+        const origin = generator
+            ? { x: generator.x + (generator.width || 400) + 40, y: generator.y }
+            : { x: 300 - pan.x, y: 300 - pan.y };
+        const cellEdge = Math.max(generator?.width || 400, generator?.height || 400) / 2;
+        const cell = fitToEdge({ width: getAspectRatioValue(aspectRatio), height: 1 }, cellEdge);
+        const columns = Math.ceil(Math.sqrt(count));
+        const gap = 20;
+        const variantGroupId = uuidv4();
+        const failures: string[] = [];
+
         setIsGenerating(true);
         try {
-            const response = await fetch('/api/generate-design', {
+            const response = await fetch('/api/generate-image', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    prompt,
+                    provider,
+                    resolution,
+                    aspectRatio,
+                    count,
+                    referenceImage,
+                    mimeType: referenceImage ? 'image/jpeg' : undefined,
+                }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.details || data.error || '生成失败');
+            }
+
+            let succeeded = 0;
+            await readNdjson<ImageVariantEvent>(response, event => {
+                if (event.type === 'image') {
+                    succeeded++;
+                    // Fit the real image inside its grid cell
+                    const size = event.asset.width && event.asset.height
+                        ? { width: event.asset.width, height: event.asset.height }
+                        : cell;
+                    const scale = Math.min(cell.width / size.width, cell.height / size.height);
+                    const newElement: CanvasElement = {
+                        id: uuidv4(),
+                        type: 'image',
+                        x: origin.x + (event.index % columns) * (cell.width + gap),
+                        y: origin.y + Math.floor(event.index / columns) * (cell.height + gap),
+                        width: Math.round(size.width * scale),
+                        height: Math.round(size.height * scale),
+                        content: event.imageUrl,
+                        assetId: event.asset.id,
+                        variantGroupId,
+                    };
+                    setElements(prev => [...prev, newElement], { label: 'add', mergeKey: `variants:${variantGroupId}` });
+                } else if (event.type === 'error') {
+                    failures.push(event.details || event.error);
+                }
+            });
+
+            if (succeeded === 0) {
+                throw new Error(failures[0] || '没有生成任何图片');
+            }
+            if (failures.length > 0) {
+                alert(`${failures.length} 张图片生成失败: ${failures[0]}`);
+            }
+        } catch (error) {
+            console.error('Batch generation failed:', error);
+            alert('生成失败: ' + (error instanceof Error ? error.message : '未知错误'));
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    // Keep one image from a batch and discard the other variants
+    const handleKeepVariant = (kept: CanvasElement) => {
+        setElements(prev => prev
+            .filter(el => el.variantGroupId !== kept.variantGroupId || el.id === kept.id)
+            .map(el => el.id === kept.id ? { ...el, variantGroupId: undefined } : el),
+            { label: 'keep variant' }
+        );
+        setSelectedIds([kept.id]);
+    };
+
+    const setElementBusy = (id: string, busy: boolean) => {
+        setBusyElementIds(prev => busy ? [...prev, id] : prev.filter(busyId => busyId !== id));
+    };
+
+    // Masks and edits work on the source's pixels, not its size on the canvas
+    const getSourceImageSize = async (element: CanvasElement) => {
+        const measured = element.content ? await measureMedia(element.content, 'image') : null;
+        return measured ?? { width: Math.round(element.width || 1024), height: Math.round(element.height || 1024) };
+    };
+
+    // Toolbar edit buttons toggle the edit panel; the mask survives switching modes on the same image
+    const handleEditImage = async (element: CanvasElement, mode: ImageEditMode) => {
+        const sameImage = imageEditSession?.elementId === element.id;
+        if (sameImage && imageEditSession.mode === mode) {
+            setImageEditSession(null);
+            return;
+        }
+
+        setImageEditSession(prev => ({
+            elementId: element.id,
+            mode,
+            mask: prev?.elementId === element.id ? prev.mask : null,
+            brush: prev?.elementId === element.id ? prev.brush : { tool: 'brush', size: 0 },
+        }));
+
+        if (!IMAGE_EDIT_PRESETS[mode].mask || (sameImage && imageEditSession.mask)) return;
+
+        const mask = createImageMask(await getSourceImageSize(element));
+        setImageEditSession(prev => prev?.elementId === element.id && !prev.mask
+            ? { ...prev, mask, brush: { ...prev.brush, size: getBrushSizeRange(mask).initial } }
+            : prev
+        );
+    };
+
+    const handleSubmitImageEdit = async (prompt: string, provider: ImageProviderId) => {
+        const session = imageEditSession;
+        const source = session && elementsRef.current.find(el => el.id === session.elementId);
+        if (!session || !source?.content) return;
+
+        setIsEditingImage(true);
+        setElementBusy(source.id, true);
+        try {
+            const sourceSize = session.mask ?? await getSourceImageSize(source);
+            const resolution = getSupportedResolutions(provider)[0];
+            const aspectRatio = closestAspectRatio(sourceSize, resolution, provider);
+            const mask = IMAGE_EDIT_PRESETS[session.mode].mask && session.mask
+                ? exportMaskPng(session.mask)
+                : undefined;
+
+            const response = await fetch('/api/edit-image', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({
+                    image: source.content,
+                    mask,
                     prompt,
+                    provider,
+                    resolution,
+                    aspectRatio,
                 }),
             });
 
             const data = await response.json();
 
             if (!response.ok) {
-                throw new Error(data.details || data.error || '生成失败');
+                throw new Error(data.details || data.error || '编辑失败');
+            }
+
+            const imageSize = await getGeneratedImageSize(data.imageUrl, data.asset, aspectRatio);
+            placeEditedImage(source.id, data.imageUrl, data.asset, imageSize);
+            setImageEditSession(null);
+        } catch (error) {
+            console.error('Image edit failed:', error);
+            alert('编辑失败: ' + (error instanceof Error ? error.message : '未知错误'));
+        } finally {
+            setIsEditingImage(false);
+            setElementBusy(source.id, false);
+        }
+    };
+
+    // The edited image goes to the right of its source, linked by a connector, as one undo step
+    const placeEditedImage = (
+        sourceId: string,
+        imageUrl: string,
+        asset: Asset | undefined,
+        imageSize: { width: number; height: number }
+    ) => {
+        const spacing = 120;
+        const connectorId = uuidv4();
+        const imageId = uuidv4();
+
+        setElements(prev => {
+            const source = prev.find(el => el.id === sourceId);
+            if (!source) return prev;
+            const groupId = source.groupId ?? uuidv4();
+
+            const editedElement: CanvasElement = {
+                id: imageId,
+                type: 'image',
+                x: source.x + (source.width || 400) + spacing,
+                y: source.y,
+                ...fitToEdge(imageSize, Math.max(source.width || 400, source.height || 400)),
+                content: imageUrl,
+                assetId: asset?.id,
+                referenceImageId: source.id,
+                groupId,
+                linkedElements: [source.id, connectorId],
+            };
+
+            const connectorElement: CanvasElement = {
+                id: connectorId,
+                type: 'connector',
+                x: 0,
+                y: 0,
+                connectorFrom: source.id,
+                connectorTo: imageId,
+                connectorStyle: 'solid',
+                color: '#6B7280',
+                strokeWidth: 2,
+                groupId,
+            };
+
+            const updatedPrev = prev.map(el => el.id === source.id
+                ? { ...el, groupId, linkedElements: [...(el.linkedElements ?? []), connectorId, imageId] }
+                : el
+            );
+            return [...updatedPrev, connectorElement, editedElement];
+        }, { label: 'edit image' });
+
+        setSelectedIds([imageId]);
+    };
+
+    // The upscaled asset keeps the element's on-canvas size; only its pixels change
+    const handleUpscaleImage = async (element: CanvasElement, scale: UpscaleFactor, provider: ImageProviderId, keepOriginal: boolean) => {
+        if (!element.content) return;
+
+        setElementBusy(element.id, true);
+        try {
+            const response = await fetch('/api/upscale-image', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    image: element.content,
+                    scale,
+                    provider,
+                }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.details || data.error || '放大失败');
             }
 
-            if (data.suggestion) {
-                return data.suggestion;
+            if (keepOriginal) {
+                const copyId = uuidv4();
+                setElements(prev => {
+                    const source = prev.find(el => el.id === element.id);
+                    if (!source) return prev;
+                    const copy: CanvasElement = {
+                        ...source,
+                        id: copyId,
+                        x: source.x + (source.width || 400) + 40,
+                        content: data.imageUrl,
+                        assetId: data.asset?.id,
+                        groupId: undefined,
+                        linkedElements: undefined,
+                        variantGroupId: undefined,
+                    };
+                    return [...prev, copy];
+                }, { label: 'upscale' });
+                setSelectedIds([copyId]);
+            } else {
+                setElements(prev => prev.map(el => el.id === element.id
+                    ? { ...el, content: data.imageUrl, assetId: data.asset?.id }
+                    : el
+                ), { label: 'upscale' });
             }
+        } catch (error) {
+            console.error('Upscale failed:', error);
+            alert('放大失败: ' + (error instanceof Error ? error.message : '未知错误'));
+        } finally {
+            setElementBusy(element.id, false);
+        }
+    };
+
+    const handleCreateFrame = (ids: string[]) => {
+        const current = elementsRef.current;
+        const bounds = unionBounds(current
+            .filter(el => ids.includes(el.id))
+            .map(el => getElementBounds(el, current))
+            .filter(box => box !== null));
+        if (!bounds) return;
+
+        const padding = 40;
+        const frameCount = current.filter(el => el.type === 'frame').length;
+        const frame: CanvasElement = {
+            id: uuidv4(),
+            type: 'frame',
+            x: bounds.x - padding,
+            y: bounds.y - padding,
+            width: bounds.width + padding * 2,
+            height: bounds.height + padding * 2,
+            content: `画框 ${frameCount + 1}`,
+            color: '#FFFFFF',
+        };
+        // Frames sit at the bottom of the stack
+        setElements(prev => [frame, ...prev], { label: 'frame' });
+        setSelectedIds([frame.id]);
+    };
 
-            return "未收到回复";
+    const handleAiChat = async (history: ChatMessage[], options: DesignStreamOptions): Promise<DesignStreamResult> => {
+        setIsGenerating(true);
+        try {
+            const result = await streamDesignChat(history, {
+                ...options,
+                projectId: currentProjectId,
+                canvas: summarizeCanvas(elementsRef.current, selectedIds),
+            });
+            // Mirror what the server saved so reopening the panel shows the whole thread
+            if (result.text) {
+                setChatMessages([...history, { role: 'assistant', content: result.text, interrupted: result.interrupted }]);
+            }
+            return result;
         } catch (error) {
             console.error('Chat generation failed:', error);
             throw error;
@@ -599,6 +1259,46 @@ function LovartCanvasContent() {
         }
     };
 
+    const handleFillAiImage = async ({ placeholderId, prompt, aspectRatio }: ImageRequest) => {
+        try {
+            const response = await fetch('/api/generate-image', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ prompt, resolution: '1K', aspectRatio }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.details || data.error || '生成失败');
+            }
+
+            await fillImageGenerator(placeholderId, data.imageUrl, data.asset, aspectRatio);
+        } catch (error) {
+            // The placeholder stays on the board so the user can retry from its panel
+            console.error('AI image generation failed:', error);
+        }
+    };
+
+    // Accepted AI operations land as one undo step; images fill their placeholders as they finish
+    const handleApplyOperations = (operations: CanvasOperation[]) => {
+        const { elements: next, imageRequests } = applyCanvasOperations(elementsRef.current, operations);
+        setElements(() => next, { label: 'ai' });
+        setPreviewOperations(null);
+        imageRequests.forEach(handleFillAiImage);
+    };
+
+    const displayedElements = useMemo(
+        () => previewOperations ? applyCanvasOperations(elements, previewOperations).elements : elements,
+        [elements, previewOperations]
+    );
+
+    // The edit panel and mask brush only show while the image is the sole selection
+    const activeImageEdit = imageEditSession && selectedIds.length === 1 && selectedIds[0] === imageEditSession.elementId
+        ? imageEditSession
+        : null;
+
     // 显示加载状态
     if (isLoading) {
         return (
@@ -627,8 +1327,14 @@ function LovartCanvasContent() {
                         onChange={(e) => setTitle(e.target.value)}
                         className="text-sm font-medium text-gray-700 bg-transparent border-none outline-none hover:bg-gray-50 focus:bg-gray-50 rounded px-2 py-1 transition-colors w-40"
                         placeholder="Untitled"
-                        disabled={isLoading}
+                        disabled={isLoading || readOnly}
                     />
+                    {readOnly && role && (
+                        <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-600">
+                            <Eye size={12} />
+                            {ROLE_LABELS[role]}
+                        </span>
+                    )}
                     {/* Save Status Indicator */}
                     <div className="flex items-center gap-1.5 text-xs text-gray-500">
                         {saveStatus === 'saving' && (
@@ -637,7 +1343,7 @@ function LovartCanvasContent() {
                                 <span>保存中...</span>
                             </>
                         )}
-                        {saveStatus === 'saved' && user && (
+                        {saveStatus === 'saved' && user && !readOnly && (
                             <>
                                 <Cloud size={14} className="text-green-500" />
                                 <span className="text-green-600">已保存</span>
@@ -656,45 +1362,228 @@ function LovartCanvasContent() {
                 </div>
 
                 <div className="flex items-center gap-2 pointer-events-auto">
+                    <CollaboratorAvatars collaborators={collaborators} />
+                    {currentProjectId && user && (
+                        <button
+                            onClick={() => setShowShare(true)}
+                            className="flex items-center gap-1.5 h-8 px-3 rounded-full hover:bg-gray-100 text-sm text-black transition-colors"
+                            disabled={isLoading}
+                        >
+                            <Users size={16} />
+                            <span>共享</span>
+                        </button>
+                    )}
                     <button
-                        onClick={() => setShowChat(!showChat)}
-                        className={`w-8 h-8 flex items-center justify-center rounded-full transition-colors ${showChat ? 'bg-gray-100' : 'hover:bg-gray-100'}`}
+                        onClick={() => setExportIds(selectedIds)}
+                        className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-100 transition-colors"
+                        title="导出"
+                        disabled={isLoading}
                     >
-                        <Sparkles size={18} className="text-black" />
+                        <Download size={18} className="text-black" />
                     </button>
+                    {currentProjectId && user && (
+                        <button
+                            onClick={() => {
+                                if (showHistory) {
+                                    setShowHistory(false);
+                                    exitPreview();
+                                } else {
+                                    setShowHistory(true);
+                                    setShowChat(false);
+                                    setShowComments(false);
+                                }
+                            }}
+                            className={`w-8 h-8 flex items-center justify-center rounded-full transition-colors ${showHistory ? 'bg-gray-100' : 'hover:bg-gray-100'}`}
+                            title="历史版本"
+                            disabled={isLoading}
+                        >
+                            <History size={18} className="text-black" />
+                        </button>
+                    )}
+                    {currentProjectId && user && (
+                        <button
+                            onClick={() => {
+                                if (showComments) {
+                                    setShowComments(false);
+                                } else {
+                                    comments.reload();
+                                    openComments();
+                                }
+                            }}
+                            className={`flex items-center gap-1 h-8 px-2 rounded-full transition-colors ${showComments ? 'bg-gray-100' : 'hover:bg-gray-100'}`}
+                            title="评论"
+                            disabled={isLoading}
+                        >
+                            <MessageSquare size={18} className="text-black" />
+                            {openCommentCount > 0 && <span className="text-xs text-gray-600">{openCommentCount}</span>}
+                        </button>
+                    )}
+                    {!readOnly && (
+                        <button
+                            onClick={() => {
+                                setShowChat(!showChat);
+                                setShowComments(false);
+                                setShowHistory(false);
+                                exitPreview();
+                            }}
+                            className={`w-8 h-8 flex items-center justify-center rounded-full transition-colors ${showChat ? 'bg-gray-100' : 'hover:bg-gray-100'}`}
+                        >
+                            <Sparkles size={18} className="text-black" />
+                        </button>
+                    )}
                 </div>
             </header>
 
             {/* AI Designer Panel */}
-            {showChat && (
+            {showChat && !readOnly && (
                 <div className="absolute right-4 top-20 bottom-4 w-[400px] z-40 animate-in slide-in-from-right-4 duration-300">
                     <AiDesignerPanel
                         onGenerate={handleAiChat}
                         isGenerating={isGenerating}
                         onClose={() => setShowChat(false)}
                         initialPrompt={initialPrompt}
+                        initialMessages={chatMessages}
+                        onPreviewOperations={setPreviewOperations}
+                        onApplyOperations={handleApplyOperations}
+                    />
+                </div>
+            )}
+
+            {/* Version History Panel */}
+            {showHistory && currentProjectId && user && (
+                <div className="absolute right-4 top-20 bottom-4 w-[360px] z-40 animate-in slide-in-from-right-4 duration-300">
+                    <VersionHistoryPanel
+                        projectId={currentProjectId}
+                        canEdit={!readOnly}
+                        previewId={loadingSnapshotId ?? previewSnapshot?.id ?? null}
+                        isLoadingPreview={loadingSnapshotId !== null}
+                        diff={snapshotDiff}
+                        showDiff={showSnapshotDiff}
+                        onShowDiffChange={setShowSnapshotDiff}
+                        onBeforeCheckpoint={saveBeforeSnapshot}
+                        onPreview={handlePreviewSnapshot}
+                        onExitPreview={exitPreview}
+                        onRestore={handleRestoreSnapshot}
+                        onRestoreAsCopy={handleRestoreSnapshotAsCopy}
+                        onClose={() => {
+                            setShowHistory(false);
+                            exitPreview();
+                        }}
+                    />
+                </div>
+            )}
+
+            {/* Snapshot Preview Banner */}
+            {previewSnapshot && (
+                <div className="absolute top-16 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-white rounded-full shadow-lg border border-gray-100 pl-4 pr-1.5 py-1.5 text-sm">
+                    <Eye size={14} className="text-blue-600" />
+                    <span className="text-gray-700">
+                        正在预览「{previewSnapshot.name || '自动保存'}」· {new Date(previewSnapshot.createdAt).toLocaleString('zh-CN')}
+                    </span>
+                    <button onClick={exitPreview} className="px-3 py-1 rounded-full bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs transition-colors">
+                        返回当前画布
+                    </button>
+                </div>
+            )}
+
+            {/* Comments Panel */}
+            {showComments && currentProjectId && user && (
+                <div className="absolute right-4 top-20 bottom-4 w-[360px] z-40 animate-in slide-in-from-right-4 duration-300">
+                    <CommentsPanel
+                        projectId={currentProjectId}
+                        userId={user.id}
+                        threads={comments.threads}
+                        activeThreadId={activeCommentId}
+                        hasDraft={!!commentDraft}
+                        canComment={commentsEnabled}
+                        canModerate={canManageMembers(role)}
+                        onSelectThread={handleSelectComment}
+                        onCreateThread={handleCreateComment}
+                        onCancelDraft={() => setCommentDraft(null)}
+                        onReply={comments.reply}
+                        onEdit={comments.edit}
+                        onResolve={comments.resolve}
+                        onDelete={handleDeleteComment}
+                        onClose={() => {
+                            setShowComments(false);
+                            setCommentDraft(null);
+                            setActiveCommentId(null);
+                        }}
                     />
                 </div>
             )}
 
+            {showShare && currentProjectId && user && (
+                <ShareDialog
+                    projectId={currentProjectId}
+                    userId={user.id}
+                    onClose={() => setShowShare(false)}
+                    onLeave={() => router.push('/lovart/projects')}
+                />
+            )}
+
+            {exportIds && (
+                <ExportDialog
+                    elements={previewSnapshot?.elements ?? elements}
+                    selectedIds={exportIds}
+                    title={title}
+                    onClose={() => setExportIds(null)}
+                />
+            )}
+
             {/* Main Editor Area */}
-            <div className="absolute inset-0">
+            <div
+                className="absolute inset-0"
+                onMouseMove={handleEditorMouseMove}
+                onMouseLeave={() => updateCursor(null)}
+            >
                 <CanvasArea
                     scale={scale}
                     pan={pan}
                     onPanChange={setPan}
-                    elements={elements}
-                    selectedIds={selectedIds}
-                    onSelect={setSelectedIds}
+                    elements={previewSnapshot?.elements ?? displayedElements}
+                    selectedIds={isPreviewing ? [] : selectedIds}
+                    onSelect={ids => !isPreviewing && setSelectedIds(ids)}
                     onElementChange={handleElementChange}
                     onDelete={handleDelete}
-                    onAddElement={(element) => setElements(prev => [...prev, element])}
+                    onDeleteMany={handleDeleteMany}
+                    onAddElement={(element) => setElements(prev => [...prev, element], { label: 'add' })}
                     activeTool={activeTool}
-                    onDragStart={() => setIsDraggingElement(true)}
-                    onDragEnd={() => setIsDraggingElement(false)}
+                    onDragStart={handleDragStart}
+                    onDragEnd={handleDragEnd}
                     onGenerateFromImage={handleGenerateFromImage}
                     onConnectFlow={handleConnectFlow}
+                    onKeepVariant={handleKeepVariant}
+                    onEditImage={handleEditImage}
+                    imageEdit={activeImageEdit}
+                    onMaskChange={mask => setImageEditSession(prev => prev && { ...prev, mask })}
+                    onUpscaleImage={handleUpscaleImage}
+                    busyElementIds={busyElementIds}
+                    onCreateFrame={handleCreateFrame}
+                    onExport={setExportIds}
+                    readOnly={readOnly || isPreviewing}
+                    commentThreads={!isPreviewing && (showComments || activeTool === 'mark') ? comments.threads : undefined}
+                    commentDraft={commentDraft}
+                    activeCommentId={activeCommentId}
+                    onPlaceComment={commentsEnabled && !isPreviewing ? handlePlaceComment : undefined}
+                    onOpenComment={handleOpenComment}
                 />
+                {previewSnapshot && snapshotDiff && showSnapshotDiff ? (
+                    <SnapshotDiffOverlay
+                        diff={snapshotDiff}
+                        snapshotElements={previewSnapshot.elements}
+                        currentElements={elements}
+                        scale={scale}
+                        pan={pan}
+                    />
+                ) : !isPreviewing && (
+                    <CollaboratorOverlay
+                        collaborators={collaborators}
+                        elements={displayedElements}
+                        scale={scale}
+                        pan={pan}
+                    />
+                )}
                 <FloatingToolbar
                     activeTool={activeTool}
                     onToolChange={setActiveTool}
@@ -704,10 +1593,12 @@ function LovartCanvasContent() {
                     onAddShape={handleAddShape}
                     onOpenImageGenerator={handleOpenImageGenerator}
                     onOpenVideoGenerator={handleOpenVideoGenerator}
+                    readOnly={readOnly || isPreviewing}
+                    canComment={commentsEnabled && !isPreviewing}
                 />
 
                 {/* Image Generator Panel */}
-                {selectedIds.length === 1 && !isDraggingElement && (() => {
+                {selectedIds.length === 1 && !isDraggingElement && !readOnly && (() => {
                     const selectedEl = elements.find(el => el.id === selectedIds[0]);
                     if (selectedEl?.type === 'image-generator') {
                         // Calculate position
@@ -731,7 +1622,7 @@ function LovartCanvasContent() {
                 })()}
 
                 {/* Video Generator Panel */}
-                {selectedIds.length === 1 && !isDraggingElement && (() => {
+                {selectedIds.length === 1 && !isDraggingElement && !readOnly && (() => {
                     const selectedEl = elements.find(el => el.id === selectedIds[0]);
                     if (selectedEl?.type === 'video-generator') {
                         // Calculate position
@@ -741,7 +1632,10 @@ function LovartCanvasContent() {
                         return (
                             <VideoGeneratorPanel
                                 elementId={selectedIds[0]}
-                                onGenerate={handleGenerateVideo}
+                                projectId={currentProjectId}
+                                job={videoJobs.find(job => job.elementId === selectedIds[0])}
+                                onJobStarted={job => trackVideoJobs([job])}
+                                onCancelJob={cancelVideoJob}
                                 isGenerating={isGenerating}
                                 canvasElements={elements}
                                 style={{
@@ -754,8 +1648,52 @@ function LovartCanvasContent() {
                     return null;
                 })()}
 
-                {/* Zoom Controls */}
+                {/* Image Edit Panel */}
+                {activeImageEdit && !isDraggingElement && (() => {
+                    const selectedEl = elements.find(el => el.id === activeImageEdit.elementId);
+                    if (!selectedEl) return null;
+                    const left = (selectedEl.x * scale) + pan.x;
+                    const top = ((selectedEl.y + (selectedEl.height || 300)) * scale) + pan.y + 20; // 20px margin
+
+                    return (
+                        <ImageEditPanel
+                            key={`${activeImageEdit.elementId}:${activeImageEdit.mode}`}
+                            mode={activeImageEdit.mode}
+                            onSubmit={handleSubmitImageEdit}
+                            onClose={() => setImageEditSession(null)}
+                            isEditing={isEditingImage}
+                            mask={activeImageEdit.mask}
+                            hasMask={hasMaskContent(activeImageEdit.mask)}
+                            brush={activeImageEdit.brush}
+                            onBrushChange={brush => setImageEditSession(prev => prev && { ...prev, brush })}
+                            onMaskChange={mask => setImageEditSession(prev => prev && { ...prev, mask })}
+                            style={{
+                                left: `${left}px`,
+                                top: `${top}px`,
+                            }}
+                        />
+                    );
+                })()}
+
+                {/* Zoom & History Controls */}
                 <div className="absolute bottom-4 left-4 flex items-center bg-white rounded-lg shadow-sm border border-gray-100 p-1 z-50">
+                    <button
+                        onClick={handleUndo}
+                        disabled={!canUndo || isPreviewing}
+                        className="p-1.5 hover:bg-gray-50 rounded text-gray-500 disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="撤销 (Ctrl+Z)"
+                    >
+                        <Undo2 size={16} />
+                    </button>
+                    <button
+                        onClick={handleRedo}
+                        disabled={!canRedo || isPreviewing}
+                        className="p-1.5 hover:bg-gray-50 rounded text-gray-500 disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="重做 (Ctrl+Shift+Z)"
+                    >
+                        <Redo2 size={16} />
+                    </button>
+                    <div className="w-px h-4 bg-gray-200 mx-1" />
                     <button onClick={handleZoomOut} className="p-1.5 hover:bg-gray-50 rounded text-gray-500">
                         <Minus size={16} />
                     </button>
@@ -6,6 +6,8 @@ import { SignedIn, SignedOut, SignInButton, UserButton, useUser } from "@clerk/n
 import { DashboardSidebar } from '@/components/lovart/DashboardSidebar';
 import { ProjectCard } from '@/components/lovart/ProjectCard';
 import { useSupabase } from '@/hooks/useSupabase';
+import { STARTING_CREDITS } from '@/lib/credit-prices';
+import { claimProjectInvites } from '@/lib/project-members';
 import Link from 'next/link';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -101,17 +103,22 @@ export default function LovartDashboard() {
             }
 
             try {
+                // 先认领发到自己邮箱的邀请，共享给自己的项目才会出现在列表中
+                await claimProjectInvites(supabase).catch(claimError => {
+                    console.error('Failed to claim project invites:', claimError);
+                });
+
                 // 并行加载项目和积分，提升性能
                 const [projectsResult, creditsResult] = await Promise.all([
                     supabase
                         .from('projects')
                         .select('*')
                         .order('updated_at', { ascending: false }),
-                    (supabase as any)
+                    supabase
                         .from('user_credits')
                         .select('credits')
                         .eq('user_id', user.id)
-                        .single()
+                        .maybeSingle()
                 ]);
 
                 // 处理项目数据
@@ -119,16 +126,11 @@ export default function LovartDashboard() {
                 setProjects(projectsResult.data || []);
 
                 // 处理积分数据
-                if (creditsResult.error && creditsResult.error.code === 'PGRST116') {
-                    // 用户积分记录不存在，创建新记录
-                    const { data: newData } = await (supabase as any)
-                        .from('user_credits')
-                        .insert({ user_id: user.id, credits: 1000 })
-                        .select()
-                        .single();
-                    setCredits(newData?.credits || 1000);
-                } else if (!creditsResult.error) {
-                    setCredits(creditsResult.data?.credits || 0);
+                // 积分记录在第一次扣费时创建，此前显示初始积分
+                if (creditsResult.error) {
+                    console.error('Failed to load credits:', creditsResult.error);
+                } else {
+                    setCredits(creditsResult.data ? creditsResult.data.credits : STARTING_CREDITS);
                 }
             } catch (error) {
                 console.error('Failed to load data:', error);
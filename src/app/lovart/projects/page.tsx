@@ -1,14 +1,18 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
-import { Plus, Bell } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Bell, Upload } from 'lucide-react';
 import { SignedIn, SignedOut, SignInButton, UserButton, useUser } from "@clerk/nextjs";
 import { ProjectCard } from '@/components/lovart/ProjectCard';
 import { useSupabase } from '@/hooks/useSupabase';
+import { STARTING_CREDITS } from '@/lib/credit-prices';
+import { claimProjectInvites } from '@/lib/project-members';
+import { downloadBlob, exportFilename } from '@/lib/export';
 import Link from 'next/link';
 
 interface Project {
     id: string;
+    user_id: string;
     title: string;
     thumbnail: string | null;
     updated_at: string;
@@ -20,6 +24,8 @@ export default function ProjectsPage() {
     const [projects, setProjects] = useState<Project[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [credits, setCredits] = useState<number | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
     // Load user's projects and credits
     useEffect(() => {
@@ -30,17 +36,22 @@ export default function ProjectsPage() {
             }
 
             try {
+                // 先认领发到自己邮箱的邀请，共享给自己的项目才会出现在列表中
+                await claimProjectInvites(supabase).catch(claimError => {
+                    console.error('Failed to claim project invites:', claimError);
+                });
+
                 // 并行加载项目和积分，减少等待时间
                 const [projectsResult, creditsResult] = await Promise.all([
                     supabase
                         .from('projects')
                         .select('*')
                         .order('updated_at', { ascending: false }),
-                    (supabase as any)
+                    supabase
                         .from('user_credits')
                         .select('credits')
                         .eq('user_id', user.id)
-                        .single()
+                        .maybeSingle()
                 ]);
 
                 // 处理项目数据
@@ -48,16 +59,11 @@ export default function ProjectsPage() {
                 setProjects(projectsResult.data || []);
 
                 // 处理积分数据
-                if (creditsResult.error && creditsResult.error.code === 'PGRST116') {
-                    // 用户积分记录不存在，创建新记录
-                    const { data: newData } = await (supabase as any)
-                        .from('user_credits')
-                        .insert({ user_id: user.id, credits: 1000 })
-                        .select()
-                        .single();
-                    setCredits(newData?.credits || 1000);
-                } else if (!creditsResult.error) {
-                    setCredits(creditsResult.data?.credits || 0);
+                // 积分记录在第一次扣费时创建，此前显示初始积分
+                if (creditsResult.error) {
+                    console.error('Failed to load credits:', creditsResult.error);
+                } else {
+                    setCredits(creditsResult.data ? creditsResult.data.credits : STARTING_CREDITS);
                 }
             } catch (error) {
                 console.error('Failed to load data:', error);
@@ -69,6 +75,43 @@ export default function ProjectsPage() {
         loadData();
     }, [user, supabase]);
 
+    const handleExportProject = async (project: Project) => {
+        try {
+            const response = await fetch(`/api/project-archive?projectId=${encodeURIComponent(project.id)}`);
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.details || data.error || '导出失败');
+            }
+            downloadBlob(await response.blob(), exportFilename(project.title, 'lovart.zip'));
+        } catch (error) {
+            console.error('Project export failed:', error);
+            alert('导出项目失败: ' + (error instanceof Error ? error.message : '未知错误'));
+        }
+    };
+
+    const handleImportProject = async (file: File) => {
+        setIsImporting(true);
+        try {
+            const form = new FormData();
+            form.append('file', file, file.name);
+            const response = await fetch('/api/project-archive', {
+                method: 'POST',
+                body: form,
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.details || data.error || '导入失败');
+            }
+            setProjects(prev => [data.project, ...prev]);
+        } catch (error) {
+            console.error('Project import failed:', error);
+            alert('导入项目失败: ' + (error instanceof Error ? error.message : '未知错误'));
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
     const formatDate = (dateString: string) => {
         const date = new Date(dateString);
         const now = new Date();
@@ -150,13 +193,34 @@ export default function ProjectsPage() {
                                     所有项目
                                     <span className="ml-2 text-sm font-normal text-gray-500">({projects.length})</span>
                                 </h2>
-                                <Link
-                                    href="/lovart/canvas"
-                                    className="flex items-center gap-2 px-4 py-2 bg-black text-white rounded-full text-sm font-medium hover:bg-gray-800 transition-colors"
-                                >
-                                    <Plus size={18} />
-                                    新建项目
-                                </Link>
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        ref={importInputRef}
+                                        type="file"
+                                        accept=".zip,application/zip"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            e.target.value = '';
+                                            if (file) handleImportProject(file);
+                                        }}
+                                    />
+                                    <button
+                                        onClick={() => importInputRef.current?.click()}
+                                        disabled={isImporting}
+                                        className="flex items-center gap-2 px-4 py-2 border border-gray-200 text-gray-700 rounded-full text-sm font-medium hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                                    >
+                                        <Upload size={18} />
+                                        {isImporting ? '导入中...' : '导入项目'}
+                                    </button>
+                                    <Link
+                                        href="/lovart/canvas"
+                                        className="flex items-center gap-2 px-4 py-2 bg-black text-white rounded-full text-sm font-medium hover:bg-gray-800 transition-colors"
+                                    >
+                                        <Plus size={18} />
+                                        新建项目
+                                    </Link>
+                                </div>
                             </div>
 
                             {projects.length === 0 ? (
@@ -184,6 +248,8 @@ export default function ProjectsPage() {
                                                 title={project.title}
                                                 date={formatDate(project.updated_at)}
                                                 imageUrl={project.thumbnail || undefined}
+                                                badge={project.user_id !== user.id ? '共享' : undefined}
+                                                onExport={() => handleExportProject(project)}
                                             />
                                         </Link>
                                     ))}
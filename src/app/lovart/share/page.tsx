@@ -0,0 +1,233 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState, Suspense } from 'react';
+import { Plus, Minus, Eye, Lock, Loader2, Maximize } from 'lucide-react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { CanvasArea, CanvasElement } from '@/components/lovart/CanvasArea';
+import { getElementBounds, unionBounds } from '@/lib/export';
+import type { ShareLinkErrorCode } from '@/lib/share-links';
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 3;
+// Room left around the board when fitting it to the window
+const FIT_PADDING = 80;
+const HEADER_HEIGHT = 56;
+
+const clampScale = (value: number) => Math.min(Math.max(value, MIN_SCALE), MAX_SCALE);
+
+// 公开分享页面无需登录；编辑工具全部关闭，只保留平移和缩放
+function SharedCanvasContent() {
+    const searchParams = useSearchParams();
+    const token = searchParams.get('token');
+
+    const [title, setTitle] = useState('');
+    const [elements, setElements] = useState<CanvasElement[] | null>(null);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [scale, setScale] = useState(1);
+    const [pan, setPan] = useState({ x: 0, y: 0 });
+    const [password, setPassword] = useState('');
+    const [errorCode, setErrorCode] = useState<ShareLinkErrorCode | 'failed' | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const viewportRef = useRef<HTMLDivElement>(null);
+
+    const fitToContent = useCallback((content: CanvasElement[]) => {
+        const viewport = viewportRef.current;
+        const bounds = unionBounds(content
+            .map(el => getElementBounds(el, content))
+            .filter(box => box !== null));
+        if (!viewport || !bounds) return;
+
+        const width = viewport.clientWidth - FIT_PADDING * 2;
+        const height = viewport.clientHeight - HEADER_HEIGHT - FIT_PADDING * 2;
+        const nextScale = clampScale(Math.min(width / bounds.width, height / bounds.height, 1));
+        setScale(nextScale);
+        setPan({
+            x: (viewport.clientWidth - bounds.width * nextScale) / 2 - bounds.x * nextScale,
+            y: HEADER_HEIGHT + (viewport.clientHeight - HEADER_HEIGHT - bounds.height * nextScale) / 2 - bounds.y * nextScale,
+        });
+    }, []);
+
+    const openProject = useCallback(async (withPassword?: string) => {
+        if (!token) {
+            setErrorCode('not_found');
+            setIsLoading(false);
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            const response = await fetch('/api/share', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ token, password: withPassword }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                setErrorCode(data.code || 'failed');
+                return;
+            }
+
+            setErrorCode(null);
+            setTitle(data.title);
+            setElements(data.elements);
+        } catch (error) {
+            console.error('Failed to open shared project:', error);
+            setErrorCode('failed');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [token]);
+
+    useEffect(() => {
+        openProject();
+    }, [openProject]);
+
+    // Frame the board once it is on screen
+    useEffect(() => {
+        if (elements) fitToContent(elements);
+    }, [elements, fitToContent]);
+
+    // 滚轮平移，按住 Ctrl/⌘（或触控板捏合）以指针为中心缩放
+    useEffect(() => {
+        const viewport = viewportRef.current;
+        if (!viewport || !elements) return;
+
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            if (e.ctrlKey || e.metaKey) {
+                const rect = viewport.getBoundingClientRect();
+                const pointer = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+                setScale(prevScale => {
+                    const nextScale = clampScale(prevScale * Math.exp(-e.deltaY * 0.01));
+                    setPan(prevPan => ({
+                        x: pointer.x - (pointer.x - prevPan.x) * (nextScale / prevScale),
+                        y: pointer.y - (pointer.y - prevPan.y) * (nextScale / prevScale),
+                    }));
+                    return nextScale;
+                });
+            } else {
+                setPan(prev => ({ x: prev.x - e.deltaX, y: prev.y - e.deltaY }));
+            }
+        };
+
+        viewport.addEventListener('wheel', handleWheel, { passive: false });
+        return () => viewport.removeEventListener('wheel', handleWheel);
+    }, [elements]);
+
+    const handleSubmitPassword = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (password) openProject(password);
+    };
+
+    if (!elements) {
+        const needsPassword = errorCode === 'password_required' || errorCode === 'password_invalid' || errorCode === 'locked';
+        return (
+            <div className="h-screen w-full bg-gray-50 flex items-center justify-center">
+                {isLoading && !needsPassword ? (
+                    <div className="text-center">
+                        <div className="w-16 h-16 border-4 border-gray-200 border-t-blue-600 rounded-full animate-spin mx-auto mb-4"></div>
+                        <p className="text-gray-600 font-medium">加载画布中...</p>
+                    </div>
+                ) : needsPassword ? (
+                    <form onSubmit={handleSubmitPassword} className="bg-white rounded-2xl shadow-xl border border-gray-100 w-[320px] p-6 space-y-4">
+                        <div className="flex items-center gap-2 text-gray-900 font-medium">
+                            <Lock size={16} />
+                            <span>这个画布需要访问密码</span>
+                        </div>
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            placeholder="输入密码"
+                            autoFocus
+                            className="w-full bg-gray-50 rounded-lg px-3 py-2 text-sm outline-none"
+                        />
+                        {errorCode === 'password_invalid' && !isLoading && (
+                            <p className="text-xs text-red-500">密码不正确</p>
+                        )}
+                        {errorCode === 'locked' && !isLoading && (
+                            <p className="text-xs text-red-500">密码错误次数过多，请 15 分钟后再试</p>
+                        )}
+                        <button
+                            type="submit"
+                            disabled={isLoading || !password}
+                            className="w-full flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-black text-white text-sm hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                        >
+                            {isLoading && <Loader2 size={14} className="animate-spin" />}
+                            <span>查看画布</span>
+                        </button>
+                    </form>
+                ) : (
+                    <div className="text-center">
+                        <p className="text-gray-900 font-medium mb-2">
+                            {errorCode === 'not_found' ? '链接不存在或已过期' : '画布加载失败'}
+                        </p>
+                        <Link href="/lovart" className="text-sm text-gray-500 hover:text-gray-900">返回 Lovart</Link>
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div ref={viewportRef} className="h-screen w-full bg-white relative overflow-hidden">
+            {/* Header */}
+            <header className="absolute top-0 left-0 w-full h-14 flex items-center justify-between px-4 z-50 pointer-events-none">
+                <div className="flex items-center gap-2 pointer-events-auto">
+                    <Link href="/lovart" className="w-8 h-8 bg-black rounded-full flex items-center justify-center text-white text-xs font-bold">L</Link>
+                    <span className="text-sm font-medium text-gray-700 px-2">{title || 'Untitled'}</span>
+                    <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-600">
+                        <Eye size={12} />
+                        仅查看
+                    </span>
+                </div>
+            </header>
+
+            <div className="absolute inset-0">
+                <CanvasArea
+                    scale={scale}
+                    pan={pan}
+                    onPanChange={setPan}
+                    elements={elements}
+                    selectedIds={selectedIds}
+                    onSelect={setSelectedIds}
+                    onElementChange={() => {}}
+                    onDelete={() => {}}
+                    onAddElement={() => {}}
+                    activeTool="hand"
+                    readOnly
+                />
+
+                {/* Zoom Controls */}
+                <div className="absolute bottom-4 left-4 flex items-center bg-white rounded-lg shadow-sm border border-gray-100 p-1 z-50">
+                    <button onClick={() => setScale(prev => clampScale(prev - 0.1))} className="p-1.5 hover:bg-gray-50 rounded text-gray-500">
+                        <Minus size={16} />
+                    </button>
+                    <span className="px-2 text-xs font-medium text-gray-600 min-w-[3rem] text-center">
+                        {Math.round(scale * 100)}%
+                    </span>
+                    <button onClick={() => setScale(prev => clampScale(prev + 0.1))} className="p-1.5 hover:bg-gray-50 rounded text-gray-500">
+                        <Plus size={16} />
+                    </button>
+                    <div className="w-px h-4 bg-gray-200 mx-1" />
+                    <button onClick={() => fitToContent(elements)} className="p-1.5 hover:bg-gray-50 rounded text-gray-500" title="适应画布">
+                        <Maximize size={16} />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default function SharedCanvas() {
+    return (
+        <Suspense fallback={
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+        }>
+            <SharedCanvasContent />
+        </Suspense>
+    );
+}
@@ -1,9 +1,10 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
-import { Coins, Calendar, User as UserIcon, Bell } from 'lucide-react';
+import { Coins, Calendar, User as UserIcon, Bell, History } from 'lucide-react';
 import { SignedIn, SignedOut, SignInButton, UserButton, useUser } from "@clerk/nextjs";
 import { useSupabase } from '@/hooks/useSupabase';
+import { STARTING_CREDITS } from '@/lib/credit-prices';
 
 interface UserCredits {
     user_id: string;
@@ -12,13 +13,35 @@ interface UserCredits {
     updated_at: string;
 }
 
+interface CreditTransaction {
+    id: string;
+    amount: number;
+    operation: string;
+    status: 'reserved' | 'committed' | 'refunded';
+    balance_after: number | null;
+    created_at: string;
+}
+
+const OPERATION_LABELS: Record<string, string> = {
+    'generate-image': 'AI 图像生成',
+    'generate-video': 'AI 视频生成',
+    'generate-design': 'AI 设计对话',
+};
+
+const STATUS_LABELS: Record<CreditTransaction['status'], string> = {
+    reserved: '处理中',
+    committed: '已扣除',
+    refunded: '已退还',
+};
+
 export default function UserPage() {
     const { user } = useUser();
     const supabase = useSupabase();
     const [credits, setCredits] = useState<number | null>(null);
+    const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
     const [isLoading, setIsLoading] = useState(true);
 
-    // Load or create user credits
+    // Load user credits
     useEffect(() => {
         async function loadUserCredits() {
             if (!user || !supabase) {
@@ -27,35 +50,17 @@ export default function UserPage() {
             }
 
             try {
-                // Try to get existing credits
-                const { data, error } = await (supabase as any)
+                const { data, error } = await supabase
                     .from('user_credits')
-                    .select('*')
+                    .select('credits')
                     .eq('user_id', user.id)
-                    .single();
-
-                if (error && error.code === 'PGRST116') {
-                    // User doesn't exist, create with 1000 credits
-                    const { data: newData, error: insertError } = await (supabase as any)
-                        .from('user_credits')
-                        .insert({
-                            user_id: user.id,
-                            credits: 1000,
-                        })
-                        .select()
-                        .single();
-
-                    if (insertError) throw insertError;
-                    setCredits(newData.credits);
-                } else if (error) {
-                    throw error;
-                } else {
-                    setCredits(data.credits);
-                }
+                    .maybeSingle();
+
+                if (error) throw error;
+                // The row is created by the first charge; until then the user has the starting balance
+                setCredits(data ? data.credits : STARTING_CREDITS);
             } catch (error) {
                 console.error('Failed to load user credits:', error);
-                // Default to 1000 if there's an error
-                setCredits(1000);
             } finally {
                 setIsLoading(false);
             }
@@ -64,6 +69,36 @@ export default function UserPage() {
         loadUserCredits();
     }, [user, supabase]);
 
+    // Load recent credit transactions
+    useEffect(() => {
+        async function loadTransactions() {
+            if (!user || !supabase) return;
+
+            const { data, error } = await supabase
+                .from('credit_transactions')
+                .select('id, amount, operation, status, balance_after, created_at')
+                .order('created_at', { ascending: false })
+                .limit(20);
+
+            if (error) {
+                console.error('Failed to load credit transactions:', error);
+                return;
+            }
+            setTransactions(data || []);
+        }
+
+        loadTransactions();
+    }, [user, supabase]);
+
+    const formatDateTime = (dateString: string) => {
+        return new Date(dateString).toLocaleString('zh-CN', {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
     const formatDate = (dateString: string | undefined) => {
         if (!dateString) return '未知';
         const date = new Date(dateString);
@@ -179,6 +214,40 @@ export default function UserPage() {
                                 </div>
                             </div>
 
+                            {/* Credit History */}
+                            <div className="bg-white rounded-2xl shadow-sm p-8 mb-6">
+                                <div className="flex items-center gap-3 mb-4">
+                                    <History size={20} className="text-gray-700" />
+                                    <h3 className="text-lg font-semibold text-gray-900">积分记录</h3>
+                                </div>
+                                {transactions.length === 0 ? (
+                                    <p className="text-sm text-gray-500">暂无积分记录</p>
+                                ) : (
+                                    <div className="divide-y divide-gray-100">
+                                        {transactions.map((tx) => (
+                                            <div key={tx.id} className="flex items-center justify-between py-3">
+                                                <div>
+                                                    <p className="text-sm font-medium text-gray-900">
+                                                        {OPERATION_LABELS[tx.operation] || tx.operation}
+                                                    </p>
+                                                    <p className="text-xs text-gray-500 mt-0.5">
+                                                        {formatDateTime(tx.created_at)} · {STATUS_LABELS[tx.status]}
+                                                    </p>
+                                                </div>
+                                                <div className="text-right">
+                                                    <p className={`text-sm font-semibold ${tx.status === 'refunded' ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                                                        {tx.amount > 0 ? `+${tx.amount}` : tx.amount}
+                                                    </p>
+                                                    {tx.balance_after !== null && (
+                                                        <p className="text-xs text-gray-400 mt-0.5">余额 {tx.balance_after.toLocaleString()}</p>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
                             {/* Info Section */}
                             <div className="bg-gray-50 rounded-xl p-6">
                                 <h3 className="text-lg font-semibold text-gray-900 mb-3">关于积分</h3>
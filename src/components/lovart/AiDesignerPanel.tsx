@@ -1,25 +1,43 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
     Sparkles, Paperclip, AtSign, Lightbulb, Zap, Globe, Box, ArrowUp,
-    RefreshCw, MessageSquare, Clock, Share2, Layout, Maximize2, X
+    RefreshCw, MessageSquare, Clock, Share2, Layout, Maximize2, X, Square, Check
 } from 'lucide-react';
+import { CanvasOperation, describeOperation } from '@/lib/canvas-tools';
+import type { ChatMessage } from '@/lib/chat-history';
+import type { DesignStreamOptions, DesignStreamResult } from '@/lib/design-chat';
 
 interface AiDesignerPanelProps {
-    onGenerate: (prompt: string) => Promise<string>;
+    // history is the thread so far, ending with the new user message
+    onGenerate: (history: ChatMessage[], options: DesignStreamOptions) => Promise<DesignStreamResult>;
     isGenerating: boolean;
     onClose?: () => void;
     initialPrompt?: string;
+    initialMessages?: ChatMessage[]; // Saved thread of the project
+    onPreviewOperations?: (operations: CanvasOperation[] | null) => void;
+    onApplyOperations?: (operations: CanvasOperation[]) => void;
 }
 
-interface Message {
-    role: 'user' | 'assistant';
-    content: string;
+interface Message extends ChatMessage {
+    failed?: boolean; // Local status note, not part of the conversation
+    operations?: CanvasOperation[]; // Canvas changes proposed with this reply
+    operationsStatus?: 'pending' | 'applied' | 'discarded';
 }
 
-export function AiDesignerPanel({ onGenerate, isGenerating, onClose, initialPrompt }: AiDesignerPanelProps) {
+export function AiDesignerPanel({ onGenerate, isGenerating, onClose, initialPrompt, initialMessages, onPreviewOperations, onApplyOperations }: AiDesignerPanelProps) {
     const [inputValue, setInputValue] = useState(initialPrompt || '');
-    const [messages, setMessages] = useState<Message[]>([]);
+    const [messages, setMessages] = useState<Message[]>(initialMessages || []);
     const [hasAutoSent, setHasAutoSent] = useState(false);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const previewRef = useRef(onPreviewOperations);
+    previewRef.current = onPreviewOperations;
+
+    // 关闭面板时中止进行中的回复，并清除画布上的预览
+    useEffect(() => () => {
+        abortRef.current?.abort();
+        previewRef.current?.(null);
+    }, []);
 
     const suggestions = [
         {
@@ -47,22 +65,69 @@ export function AiDesignerPanel({ onGenerate, isGenerating, onClose, initialProm
             const prompt = inputValue;
             setInputValue('');
 
-            // Add user message
-            setMessages(prev => [...prev, { role: 'user', content: prompt }]);
+            const history: ChatMessage[] = [
+                ...messages.filter(msg => msg.content && !msg.failed),
+                { role: 'user', content: prompt },
+            ];
+
+            // Add user message and an empty assistant message to stream into
+            setMessages(prev => [...prev, { role: 'user', content: prompt }, { role: 'assistant', content: '' }]);
+
+            const updateReply = (update: Partial<Message>) => {
+                setMessages(prev => [...prev.slice(0, -1), { ...prev[prev.length - 1], ...update }]);
+            };
+
+            const controller = new AbortController();
+            abortRef.current = controller;
 
             try {
-                const response = await onGenerate(prompt);
-                // Add assistant message
-                setMessages(prev => [...prev, { role: 'assistant', content: response }]);
+                const { text, operations, interrupted } = await onGenerate(history, {
+                    signal: controller.signal,
+                    onDelta: content => updateReply({ content }),
+                });
+                if (operations.length > 0 && onApplyOperations) {
+                    // Only the newest proposal is previewed; older pending ones are dropped
+                    setMessages(prev => prev.map((msg, i) =>
+                        i === prev.length - 1
+                            ? { ...msg, content: text || '我为你准备了以下画布修改：', interrupted, operations, operationsStatus: 'pending' }
+                            : msg.operationsStatus === 'pending' ? { ...msg, operationsStatus: 'discarded' } : msg
+                    ));
+                    onPreviewOperations?.(operations);
+                } else if (!text && interrupted) {
+                    updateReply({ content: '已停止生成', failed: true });
+                } else {
+                    updateReply(text ? { content: text, interrupted } : { content: '未收到回复', failed: true });
+                }
             } catch (error) {
                 console.error('Failed to generate response:', error);
-                // Optionally add an error message
+                updateReply({ content: '抱歉，生成失败：' + (error instanceof Error ? error.message : '未知错误'), failed: true });
+            } finally {
+                if (abortRef.current === controller) abortRef.current = null;
             }
         }
     };
 
+    const handleStop = () => {
+        abortRef.current?.abort();
+    };
+
+    const handleResolveOperations = (index: number, accept: boolean) => {
+        const operations = messages[index]?.operations;
+        if (!operations) return;
+
+        if (accept) {
+            onApplyOperations?.(operations);
+        } else {
+            onPreviewOperations?.(null);
+        }
+        setMessages(prev => prev.map((msg, i) => i === index ? { ...msg, operationsStatus: accept ? 'applied' : 'discarded' } : msg));
+    };
+
+    const lastMessage = messages[messages.length - 1];
+    const isWaitingForFirstToken = isGenerating && lastMessage?.role === 'assistant' && !lastMessage.content;
+
     // 自动发送 initialPrompt（如果提供）
-    React.useEffect(() => {
+    useEffect(() => {
         if (initialPrompt && !hasAutoSent && !isGenerating) {
             setHasAutoSent(true);
             handleSend();
@@ -127,7 +192,7 @@ export function AiDesignerPanel({ onGenerate, isGenerating, onClose, initialProm
                     </>
                 ) : (
                     <div className="space-y-6">
-                        {messages.map((msg, index) => (
+                        {messages.map((msg, index) => msg.content && (
                             <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                                 <div
                                     className={`max-w-[85%] p-4 rounded-2xl ${msg.role === 'user'
@@ -136,10 +201,49 @@ export function AiDesignerPanel({ onGenerate, isGenerating, onClose, initialProm
                                         }`}
                                 >
                                     <p className="whitespace-pre-wrap text-sm leading-relaxed">{msg.content}</p>
+                                    {msg.interrupted && (
+                                        <p className="mt-2 text-xs text-gray-400">（回复已中断）</p>
+                                    )}
+
+                                    {/* 画布修改预览：应用后作为一步可撤销 */}
+                                    {msg.operations && (
+                                        <div className="mt-3 pt-3 border-t border-gray-100">
+                                            <ul className="space-y-1 mb-3">
+                                                {msg.operations.map((op, opIndex) => (
+                                                    <li key={opIndex} className="text-xs text-gray-600 flex items-start gap-1.5">
+                                                        <span className="w-1 h-1 mt-1.5 bg-gray-400 rounded-full flex-shrink-0" />
+                                                        <span>{describeOperation(op)}</span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                            {msg.operationsStatus === 'pending' ? (
+                                                <div className="flex items-center gap-2">
+                                                    <button
+                                                        onClick={() => handleResolveOperations(index, true)}
+                                                        className="flex items-center gap-1 px-3 py-1.5 bg-black text-white text-xs rounded-lg hover:bg-gray-800 transition-colors"
+                                                    >
+                                                        <Check size={14} />
+                                                        <span>应用到画布</span>
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleResolveOperations(index, false)}
+                                                        className="px-3 py-1.5 text-gray-500 text-xs rounded-lg hover:bg-gray-100 transition-colors"
+                                                    >
+                                                        放弃
+                                                    </button>
+                                                    <span className="text-xs text-gray-400">画布上为预览效果</span>
+                                                </div>
+                                            ) : (
+                                                <p className="text-xs text-gray-400">
+                                                    {msg.operationsStatus === 'applied' ? '已应用' : '已放弃'}
+                                                </p>
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         ))}
-                        {isGenerating && (
+                        {isWaitingForFirstToken && (
                             <div className="flex justify-start">
                                 <div className="bg-white border border-gray-100 p-4 rounded-2xl rounded-tl-sm shadow-sm">
                                     <div className="flex gap-1">
@@ -196,16 +300,26 @@ export function AiDesignerPanel({ onGenerate, isGenerating, onClose, initialProm
                                 </button>
                             </div>
 
-                            <button
-                                onClick={handleSend}
-                                disabled={!inputValue.trim() || isGenerating}
-                                className={`p-2 rounded-full transition-all ${inputValue.trim() && !isGenerating
-                                    ? 'bg-black text-white hover:bg-gray-800 shadow-md'
-                                    : 'bg-gray-200 text-white cursor-not-allowed'
-                                    }`}
-                            >
-                                <ArrowUp size={18} />
-                            </button>
+                            {isGenerating ? (
+                                <button
+                                    onClick={handleStop}
+                                    className="p-2 rounded-full transition-all bg-black text-white hover:bg-gray-800 shadow-md"
+                                    title="停止生成"
+                                >
+                                    <Square size={18} className="fill-current" />
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={handleSend}
+                                    disabled={!inputValue.trim()}
+                                    className={`p-2 rounded-full transition-all ${inputValue.trim()
+                                        ? 'bg-black text-white hover:bg-gray-800 shadow-md'
+                                        : 'bg-gray-200 text-white cursor-not-allowed'
+                                        }`}
+                                >
+                                    <ArrowUp size={18} />
+                                </button>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -1,15 +1,21 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { ContextToolbar } from './ContextToolbar';
+import { MaskPainter } from './MaskPainter';
+import type { ImageEditMode, ImageEditSession } from '@/lib/image-edit';
+import type { ImageMask } from '@/lib/image-mask';
+import type { ImageProviderId, UpscaleFactor } from '@/lib/image-options';
+import { anchorAt, CommentAnchor, CommentThread, pinPosition } from '@/lib/comments';
 import { v4 as uuidv4 } from 'uuid';
 
-export type CanvasElementType = 'image' | 'text' | 'shape' | 'path' | 'image-generator' | 'video-generator' | 'video' | 'connector';
+export type CanvasElementType = 'image' | 'text' | 'shape' | 'path' | 'image-generator' | 'video-generator' | 'video' | 'connector' | 'frame';
 
 export interface CanvasElement {
     id: string;
     type: CanvasElementType;
     x: number;
     y: number;
-    content?: string;
+    content?: string; // Media URL for image/video elements, text for text elements, name for frames
+    assetId?: string; // Asset row backing the media in content
     width?: number;
     height?: number;
     color?: string;
@@ -24,6 +30,7 @@ export interface CanvasElement {
     connectorFrom?: string; // Source element ID for connector
     connectorTo?: string; // Target element ID for connector
     connectorStyle?: 'solid' | 'dashed'; // Connector line style
+    variantGroupId?: string; // Shared by the images of one batch generation until one is kept
 }
 
 interface CanvasAreaProps {
@@ -35,15 +42,36 @@ interface CanvasAreaProps {
     onSelect: (ids: string[]) => void;
     onElementChange: (id: string, newAttrs: Partial<CanvasElement>) => void;
     onDelete: (id: string) => void;
+    onDeleteMany?: (ids: string[]) => void;
     onAddElement: (element: CanvasElement) => void;
     activeTool: string;
     onDragStart?: () => void;
     onDragEnd?: () => void;
     onGenerateFromImage?: (element: CanvasElement) => void;
     onConnectFlow?: (element: CanvasElement) => void;
+    onKeepVariant?: (element: CanvasElement) => void;
+    onEditImage?: (element: CanvasElement, mode: ImageEditMode) => void;
+    // Image currently being edited; inpaint mode paints its mask on the canvas
+    imageEdit?: ImageEditSession | null;
+    onMaskChange?: (mask: ImageMask) => void;
+    onUpscaleImage?: (element: CanvasElement, scale: UpscaleFactor, provider: ImageProviderId, keepOriginal: boolean) => void;
+    // Elements with a server-side edit or upscale in flight
+    busyElementIds?: string[];
+    onCreateFrame?: (ids: string[]) => void;
+    onExport?: (ids: string[]) => void;
+    // Viewers can select, pan and export but not change anything
+    readOnly?: boolean;
+    // Comment pins to show, numbered in order; resolved ones only while active
+    commentThreads?: CommentThread[];
+    // A pin dropped with the mark tool that has no comment yet
+    commentDraft?: CommentAnchor | null;
+    activeCommentId?: string | null;
+    // The mark tool drops pins only when this is set, readOnly or not
+    onPlaceComment?: (anchor: CommentAnchor) => void;
+    onOpenComment?: (threadId: string) => void;
 }
 
-export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onSelect, onElementChange, onDelete, onAddElement, activeTool, onDragStart, onDragEnd, onGenerateFromImage, onConnectFlow }: CanvasAreaProps) {
+export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onSelect, onElementChange, onDelete, onDeleteMany, onAddElement, activeTool, onDragStart, onDragEnd, onGenerateFromImage, onConnectFlow, onKeepVariant, onEditImage, imageEdit, onMaskChange, onUpscaleImage, busyElementIds, onCreateFrame, onExport, readOnly, commentThreads, commentDraft, activeCommentId, onPlaceComment, onOpenComment }: CanvasAreaProps) {
     const [isDragging, setIsDragging] = useState(false);
     const [isResizing, setIsResizing] = useState(false);
     const [isPanning, setIsPanning] = useState(false);
@@ -57,13 +85,15 @@ export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onS
     const draggedElementIdRef = useRef<string | null>(null);
     const resizeHandleRef = useRef<string | null>(null);
     const containerRef = useRef<HTMLDivElement>(null);
+    const viewportRef = useRef<HTMLDivElement>(null);
 
+    // Measured from the untransformed viewport, so it holds mid pan/zoom transition
     const getCanvasPoint = (e: React.MouseEvent) => {
-        if (!containerRef.current) return { x: 0, y: 0 };
-        const rect = containerRef.current.getBoundingClientRect();
+        if (!viewportRef.current) return { x: 0, y: 0 };
+        const rect = viewportRef.current.getBoundingClientRect();
         return {
-            x: (e.clientX - rect.left) / scale - pan.x / scale,
-            y: (e.clientY - rect.top) / scale - pan.y / scale
+            x: (e.clientX - rect.left - pan.x) / scale,
+            y: (e.clientY - rect.top - pan.y) / scale
         };
     };
 
@@ -83,7 +113,16 @@ export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onS
             return;
         }
 
-        if (activeTool === 'draw') {
+        if (activeTool === 'mark') {
+            if (onPlaceComment) {
+                // Pins on an element stick to it
+                e.stopPropagation();
+                onPlaceComment(anchorAt(getCanvasPoint(e), elementId ? elements.find(el => el.id === elementId) : null));
+            }
+            return;
+        }
+
+        if (activeTool === 'draw' && !readOnly) {
             setIsDrawing(true);
             const canvasX = (e.clientX - pan.x) / scale;
             const canvasY = (e.clientY - 56 - pan.y) / scale;
@@ -129,7 +168,7 @@ export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onS
         }
 
         // If clicking a handle, don't start drag (handled by handleResizeStart)
-        if ((e.target as HTMLElement).dataset.handle) return;
+        if (readOnly || (e.target as HTMLElement).dataset.handle) return;
 
         setIsDragging(true);
         onDragStart?.();
@@ -158,7 +197,9 @@ export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onS
 
     const handleResizeStart = (e: React.MouseEvent, elementId: string, handle: string, element: CanvasElement) => {
         e.stopPropagation();
+        if (readOnly) return;
         setIsResizing(true);
+        onDragStart?.();
         draggedElementIdRef.current = elementId;
         resizeHandleRef.current = handle;
         dragStartRef.current = {
@@ -353,12 +394,13 @@ export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onS
 
     return (
         <div
-            className={`w-full h-full bg-[#F9FAFB] relative overflow-hidden ${activeTool === 'hand' ? 'cursor-grab active:cursor-grabbing' : activeTool === 'draw' ? 'cursor-crosshair' : ''}`}
+            ref={viewportRef}
+            className={`w-full h-full bg-[#F9FAFB] relative overflow-hidden ${activeTool === 'hand' ? 'cursor-grab active:cursor-grabbing' : activeTool === 'draw' || (activeTool === 'mark' && onPlaceComment) ? 'cursor-crosshair' : ''}`}
             onMouseMove={handleMouseMove}
             onMouseDown={(e) => handleMouseDown(e, null)}
         >
             {/* Context Toolbar - Show if exactly one element selected */}
-            {selectedIds.length === 1 && selectedElement && !isDragging && !isResizing && !isPanning && !isDrawing && selectedElement.type !== 'connector' && (
+            {selectedIds.length === 1 && selectedElement && !readOnly && !isDragging && !isResizing && !isPanning && !isDrawing && selectedElement.type !== 'connector' && (
                 <div
                     style={{
                         position: 'absolute',
@@ -374,6 +416,12 @@ export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onS
                         onDelete={onDelete}
                         onGenerateFromImage={onGenerateFromImage}
                         onConnectFlow={onConnectFlow}
+                        onKeepVariant={onKeepVariant}
+                        onEditImage={onEditImage}
+                        activeEditMode={imageEdit?.elementId === selectedElement.id ? imageEdit.mode : undefined}
+                        onUpscaleImage={onUpscaleImage}
+                        isBusy={busyElementIds?.includes(selectedElement.id)}
+                        onDownload={onExport && (element => onExport([element.id]))}
                     />
                 </div>
             )}
@@ -391,9 +439,21 @@ export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onS
                 >
                     <span className="text-sm font-medium text-gray-600 px-2">{selectedIds.length} items selected</span>
                     <div className="w-px h-6 bg-gray-200" />
-                    <button onClick={() => selectedIds.forEach(id => onDelete(id))} className="p-1.5 hover:bg-red-50 text-red-500 rounded-md">
-                        Delete All
-                    </button>
+                    {onCreateFrame && !readOnly && (
+                        <button onClick={() => onCreateFrame(selectedIds)} className="p-1.5 hover:bg-gray-50 text-gray-700 rounded-md" title="用画框包住所选内容">
+                            创建画框
+                        </button>
+                    )}
+                    {onExport && (
+                        <button onClick={() => onExport(selectedIds)} className="p-1.5 hover:bg-gray-50 text-gray-700 rounded-md">
+                            导出
+                        </button>
+                    )}
+                    {!readOnly && (
+                        <button onClick={() => onDeleteMany ? onDeleteMany(selectedIds) : selectedIds.forEach(id => onDelete(id))} className="p-1.5 hover:bg-red-50 text-red-500 rounded-md">
+                            Delete All
+                        </button>
+                    )}
                 </div>
             )}
 
@@ -459,7 +519,7 @@ export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onS
 
                 {/* Elements Layer */}
                 <div className="absolute inset-0">
-                    {elements.filter(el => el.type !== 'connector').map((el) => (
+                    {[...elements.filter(el => el.type === 'frame'), ...elements.filter(el => el.type !== 'connector' && el.type !== 'frame')].map((el) => (
                         <div
                             key={el.id}
                             className={`absolute group ${selectedIds.includes(el.id) ? 'z-10' : ''}`}
@@ -471,8 +531,21 @@ export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onS
                                 pointerEvents: activeTool === 'draw' ? 'none' : 'auto'
                             }}
                             onMouseDown={(e) => handleMouseDown(e, el.id, el.x, el.y, el.width, el.height)}
-                            onDoubleClick={() => el.type === 'text' && setEditingTextId(el.id)}
+                            onDoubleClick={() => el.type === 'text' && !readOnly && setEditingTextId(el.id)}
                         >
+                            {/* Frame: artboard drawn behind everything else */}
+                            {el.type === 'frame' && (
+                                <>
+                                    <div className="absolute -top-6 left-0 text-xs text-gray-500 whitespace-nowrap select-none">
+                                        {el.content || 'Frame'}
+                                    </div>
+                                    <div
+                                        className="w-full h-full border border-gray-200 shadow-sm"
+                                        style={{ backgroundColor: el.color || '#FFFFFF' }}
+                                    />
+                                </>
+                            )}
+
                             {/* Image Generator Placeholder */}
                             {el.type === 'image-generator' && (
                                 <div className="w-full h-full bg-blue-50 border-2 border-blue-400 rounded-xl flex flex-col items-center justify-center text-blue-500">
@@ -516,7 +589,7 @@ export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onS
                                 <>
                                     <div className="absolute inset-0 border-2 border-blue-500 pointer-events-none" />
                                     {/* Only show resize handles if single selection for now */}
-                                    {selectedIds.length === 1 && (
+                                    {selectedIds.length === 1 && !readOnly && (
                                         <>
                                             {/* Corners */}
                                             <div
@@ -570,6 +643,21 @@ export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onS
                                 <img src={el.content} alt="Upload" className="w-full h-full object-cover pointer-events-none select-none rounded-lg" />
                             )}
 
+                            {busyElementIds?.includes(el.id) && (
+                                <div className="absolute inset-0 rounded-lg bg-white/40 flex items-center justify-center pointer-events-none">
+                                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900" />
+                                </div>
+                            )}
+
+                            {/* Mask painting for inpaint edits */}
+                            {el.type === 'image' && imageEdit?.elementId === el.id && imageEdit.mode === 'inpaint' && imageEdit.mask && onMaskChange && (
+                                <MaskPainter
+                                    mask={imageEdit.mask}
+                                    brush={imageEdit.brush}
+                                    onChange={onMaskChange}
+                                />
+                            )}
+
                             {el.type === 'video' && el.content && (
                                 <div className="relative w-full h-full rounded-lg overflow-hidden">
                                     <video 
@@ -670,6 +758,43 @@ export function CanvasArea({ scale, pan, onPanChange, elements, selectedIds, onS
                     ))}
                 </div>
 
+                {/* Comment Pins - kept at screen size, the tip on the anchor point */}
+                {commentThreads?.map((thread, index) => {
+                    const isActive = thread.root.id === activeCommentId;
+                    const position = pinPosition(thread.root, elements);
+                    if (!position || (thread.root.resolvedAt && !isActive)) return null;
+                    return (
+                        <div
+                            key={thread.root.id}
+                            className="absolute z-40"
+                            style={{ left: position.x, top: position.y, transform: `scale(${1 / scale})`, transformOrigin: '0 0' }}
+                        >
+                            <button
+                                className={`absolute left-0 bottom-0 w-7 h-7 rounded-full rounded-bl-none shadow-md border flex items-center justify-center text-xs font-medium transition-colors ${isActive ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'} ${thread.root.resolvedAt ? 'opacity-60' : ''}`}
+                                onMouseDown={(e) => e.stopPropagation()}
+                                onClick={() => onOpenComment?.(thread.root.id)}
+                                title={thread.root.body}
+                            >
+                                {index + 1}
+                            </button>
+                        </div>
+                    );
+                })}
+                {commentDraft && (() => {
+                    const position = pinPosition(commentDraft, elements);
+                    if (!position) return null;
+                    return (
+                        <div
+                            className="absolute z-40 pointer-events-none"
+                            style={{ left: position.x, top: position.y, transform: `scale(${1 / scale})`, transformOrigin: '0 0' }}
+                        >
+                            <div className="absolute left-0 bottom-0 w-7 h-7 rounded-full rounded-bl-none shadow-md border border-blue-600 bg-blue-600 text-white flex items-center justify-center text-xs font-medium">
+                                +
+                            </div>
+                        </div>
+                    );
+                })()}
+
                 {/* Current Drawing Path */}
                 {currentPath && (
                     <div className="absolute inset-0 pointer-events-none z-50">
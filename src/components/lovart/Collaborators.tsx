@@ -0,0 +1,101 @@
+"use client";
+
+import React from 'react';
+import type { CanvasElement } from './CanvasArea';
+import type { Collaborator } from '@/hooks/useCollaboration';
+import { getElementBounds } from '@/lib/export';
+
+const MAX_AVATARS = 4;
+
+interface CollaboratorAvatarsProps {
+    collaborators: Collaborator[];
+}
+
+/**
+ * Who else has the board open, for the header.
+ */
+export function CollaboratorAvatars({ collaborators }: CollaboratorAvatarsProps) {
+    if (collaborators.length === 0) return null;
+    const shown = collaborators.slice(0, MAX_AVATARS);
+    const hidden = collaborators.length - shown.length;
+
+    return (
+        <div className="flex items-center -space-x-2">
+            {shown.map(collaborator => (
+                <div
+                    key={collaborator.clientId}
+                    className="w-8 h-8 rounded-full border-2 overflow-hidden bg-white flex items-center justify-center text-xs font-medium text-white"
+                    style={{ borderColor: collaborator.color, backgroundColor: collaborator.color }}
+                    title={collaborator.name}
+                >
+                    {collaborator.avatarUrl ? (
+                        <img src={collaborator.avatarUrl} alt={collaborator.name} className="w-full h-full object-cover" />
+                    ) : (
+                        collaborator.name.slice(0, 1).toUpperCase()
+                    )}
+                </div>
+            ))}
+            {hidden > 0 && (
+                <div className="w-8 h-8 rounded-full border-2 border-white bg-gray-100 flex items-center justify-center text-xs font-medium text-gray-600">
+                    +{hidden}
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface CollaboratorOverlayProps {
+    collaborators: Collaborator[];
+    elements: CanvasElement[];
+    scale: number;
+    pan: { x: number; y: number };
+}
+
+/**
+ * Remote cursors and selection outlines drawn over the canvas, each in
+ * its collaborator's color.
+ */
+export function CollaboratorOverlay({ collaborators, elements, scale, pan }: CollaboratorOverlayProps) {
+    return (
+        <div className="absolute inset-0 pointer-events-none z-40 overflow-hidden">
+            {collaborators.flatMap(collaborator => collaborator.selection.map(id => {
+                const el = elements.find(element => element.id === id);
+                const bounds = el && getElementBounds(el, elements);
+                if (!bounds) return null;
+                return (
+                    <div
+                        key={`${collaborator.clientId}:${id}`}
+                        className="absolute border-2 rounded-sm"
+                        style={{
+                            left: bounds.x * scale + pan.x - 2,
+                            top: bounds.y * scale + pan.y - 2,
+                            width: bounds.width * scale + 4,
+                            height: bounds.height * scale + 4,
+                            borderColor: collaborator.color,
+                        }}
+                    />
+                );
+            }))}
+
+            {collaborators.map(collaborator => collaborator.cursor && (
+                <div
+                    key={collaborator.clientId}
+                    className="absolute left-0 top-0 transition-transform duration-75 ease-linear"
+                    style={{
+                        transform: `translate(${collaborator.cursor.x * scale + pan.x}px, ${collaborator.cursor.y * scale + pan.y}px)`,
+                    }}
+                >
+                    <svg width="16" height="20" viewBox="0 0 16 20" className="drop-shadow-sm">
+                        <path d="M0 0L16 12L9 13L5 20L0 0Z" fill={collaborator.color} stroke="white" strokeWidth="1" />
+                    </svg>
+                    <div
+                        className="absolute left-3 top-4 px-1.5 py-0.5 rounded text-[11px] font-medium text-white whitespace-nowrap"
+                        style={{ backgroundColor: collaborator.color }}
+                    >
+                        {collaborator.name}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
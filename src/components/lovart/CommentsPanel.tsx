@@ -0,0 +1,443 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Check, RotateCcw, Trash2, Pencil, Send, MessageSquare } from 'lucide-react';
+import type { ProjectMember } from '@/lib/project-members';
+import { CanvasComment, CommentThread, findMentions, mentionLabel, splitMentions } from '@/lib/comments';
+
+const MAX_SUGGESTIONS = 5;
+
+type CommentFilter = 'open' | 'resolved' | 'mentions';
+
+const FILTER_LABELS: Record<CommentFilter, string> = {
+    open: '未解决',
+    resolved: '已解决',
+    mentions: '@我',
+};
+
+interface CommentsPanelProps {
+    projectId: string;
+    userId: string;
+    threads: CommentThread[];
+    activeThreadId: string | null;
+    // Whether a pin is waiting for its first comment
+    hasDraft: boolean;
+    canComment: boolean;
+    // Owners may delete anyone's comments
+    canModerate: boolean;
+    onSelectThread: (threadId: string | null) => void;
+    onCreateThread: (body: string, mentions: string[]) => Promise<unknown>;
+    onCancelDraft: () => void;
+    onReply: (threadId: string, body: string, mentions: string[]) => Promise<unknown>;
+    onEdit: (commentId: string, body: string, mentions: string[]) => Promise<unknown>;
+    onResolve: (threadId: string, resolved: boolean) => Promise<unknown>;
+    onDelete: (commentId: string) => Promise<unknown>;
+    onClose: () => void;
+}
+
+function formatTime(value: string) {
+    return new Date(value).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+interface CommentComposerProps {
+    members: ProjectMember[];
+    placeholder: string;
+    initialBody?: string;
+    submitLabel?: string;
+    autoFocus?: boolean;
+    onSubmit: (body: string, mentions: string[]) => Promise<unknown>;
+    onCancel?: () => void;
+}
+
+/**
+ * Comment input with @mention suggestions for signed-in members. Enter
+ * sends, Shift+Enter starts a new line.
+ */
+function CommentComposer({ members, placeholder, initialBody = '', submitLabel, autoFocus, onSubmit, onCancel }: CommentComposerProps) {
+    const [body, setBody] = useState(initialBody);
+    const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+    const [highlighted, setHighlighted] = useState(0);
+    const [isSending, setIsSending] = useState(false);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    const suggestions = useMemo(() => {
+        if (mentionQuery === null) return [];
+        const query = mentionQuery.toLowerCase();
+        return members
+            .filter(member => member.userId && (
+                mentionLabel(member).toLowerCase().includes(query) || member.email.includes(query)
+            ))
+            .slice(0, MAX_SUGGESTIONS);
+    }, [members, mentionQuery]);
+
+    // The "@query" just before the caret, if any
+    const updateMentionQuery = (value: string, caret: number) => {
+        const match = value.slice(0, caret).match(/(?:^|\s)@([^\s@]*)$/);
+        setMentionQuery(match ? match[1] : null);
+        setHighlighted(0);
+    };
+
+    const insertMention = (member: ProjectMember) => {
+        const textarea = textareaRef.current;
+        const caret = textarea?.selectionStart ?? body.length;
+        const start = body.slice(0, caret).lastIndexOf('@');
+        const inserted = `@${mentionLabel(member)} `;
+        const next = body.slice(0, start) + inserted + body.slice(caret);
+        setBody(next);
+        setMentionQuery(null);
+        requestAnimationFrame(() => {
+            textarea?.focus();
+            textarea?.setSelectionRange(start + inserted.length, start + inserted.length);
+        });
+    };
+
+    const handleSubmit = async () => {
+        const trimmed = body.trim();
+        if (!trimmed || isSending) return;
+        setIsSending(true);
+        try {
+            await onSubmit(trimmed, findMentions(trimmed, members));
+            setBody('');
+        } catch {
+            // Reported by the panel; keep the text so it can be sent again
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (suggestions.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+                return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault();
+                insertMention(suggestions[highlighted]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                setMentionQuery(null);
+                return;
+            }
+        }
+
+        if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            handleSubmit();
+        } else if (e.key === 'Escape' && onCancel) {
+            e.preventDefault();
+            onCancel();
+        }
+    };
+
+    return (
+        <div className="relative">
+            <div className="flex items-end gap-2 bg-gray-50 rounded-lg px-2 py-1.5">
+                <textarea
+                    ref={textareaRef}
+                    value={body}
+                    onChange={(e) => {
+                        setBody(e.target.value);
+                        updateMentionQuery(e.target.value, e.target.selectionStart);
+                    }}
+                    onKeyDown={handleKeyDown}
+                    onBlur={() => setMentionQuery(null)}
+                    placeholder={placeholder}
+                    autoFocus={autoFocus}
+                    rows={Math.min(4, body.split('\n').length)}
+                    className="flex-1 min-w-0 bg-transparent text-sm outline-none resize-none"
+                />
+                {onCancel && (
+                    <button onClick={onCancel} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="取消">
+                        <X size={14} />
+                    </button>
+                )}
+                <button
+                    onClick={handleSubmit}
+                    disabled={isSending || !body.trim()}
+                    className="p-1 text-gray-700 hover:text-black rounded disabled:opacity-30"
+                    title={submitLabel || '发送'}
+                >
+                    {submitLabel ? <Check size={14} /> : <Send size={14} />}
+                </button>
+            </div>
+
+            {suggestions.length > 0 && (
+                <ul className="absolute left-0 right-0 top-full mt-1 bg-white rounded-lg shadow-lg border border-gray-100 py-1 z-10">
+                    {suggestions.map((member, index) => (
+                        <li key={member.id}>
+                            <button
+                                // Keep the textarea focused so the caret position survives
+                                onMouseDown={(e) => {
+                                    e.preventDefault();
+                                    insertMention(member);
+                                }}
+                                className={`w-full text-left px-3 py-1.5 text-sm ${index === highlighted ? 'bg-gray-50' : ''}`}
+                            >
+                                <span className="text-gray-800">{mentionLabel(member)}</span>
+                                {member.name && <span className="text-gray-400 ml-2 text-xs">{member.email}</span>}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+function CommentBody({ body, labels }: { body: string; labels: string[] }) {
+    return (
+        <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+            {splitMentions(body, labels).map((part, index) => (
+                part.mention
+                    ? <span key={index} className="text-blue-600 font-medium">{part.text}</span>
+                    : <React.Fragment key={index}>{part.text}</React.Fragment>
+            ))}
+        </p>
+    );
+}
+
+/**
+ * Comment threads of the board: pins dropped with the mark tool, their
+ * replies, resolve/reopen and @mentions of project members.
+ */
+export function CommentsPanel({
+    projectId,
+    userId,
+    threads,
+    activeThreadId,
+    hasDraft,
+    canComment,
+    canModerate,
+    onSelectThread,
+    onCreateThread,
+    onCancelDraft,
+    onReply,
+    onEdit,
+    onResolve,
+    onDelete,
+    onClose,
+}: CommentsPanelProps) {
+    const [members, setMembers] = useState<ProjectMember[]>([]);
+    const [filter, setFilter] = useState<CommentFilter>('open');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch(`/api/project-members?projectId=${encodeURIComponent(projectId)}`)
+            .then(response => (response.ok ? response.json() : { members: [] }))
+            .then(data => {
+                if (!cancelled) setMembers(data.members);
+            })
+            .catch(loadError => console.error('Failed to load project members:', loadError));
+        return () => {
+            cancelled = true;
+        };
+    }, [projectId]);
+
+    const membersByUser = useMemo(
+        () => new Map(members.filter(member => member.userId).map(member => [member.userId as string, member])),
+        [members]
+    );
+    const labels = useMemo(() => members.map(mentionLabel), [members]);
+
+    // The active thread stays in view: picking a tab deselects it
+    const activeThread = threads.find(thread => thread.root.id === activeThreadId);
+    const shownFilter: CommentFilter = activeThread && filter !== 'mentions'
+        ? activeThread.root.resolvedAt ? 'resolved' : 'open'
+        : filter;
+
+    // Pin numbers follow the canvas, where every thread keeps its place
+    const numbered = threads.map((thread, index) => ({ thread, number: index + 1 }));
+    const visible = numbered.filter(({ thread }) => {
+        if (shownFilter === 'mentions') {
+            return thread.root.id === activeThreadId
+                || [thread.root, ...thread.replies].some(comment => comment.mentions.includes(userId));
+        }
+        return shownFilter === 'resolved' ? !!thread.root.resolvedAt : !thread.root.resolvedAt;
+    });
+
+    const run = async (action: () => Promise<unknown>, failure: string) => {
+        setError(null);
+        try {
+            await action();
+        } catch (actionError) {
+            console.error(`${failure}:`, actionError);
+            setError(failure);
+            throw actionError;
+        }
+    };
+
+    const authorName = (comment: CanvasComment) => {
+        if (comment.userId === userId) return '我';
+        const member = membersByUser.get(comment.userId);
+        return member ? mentionLabel(member) : '项目成员';
+    };
+
+    const renderComment = (comment: CanvasComment, isRoot: boolean) => {
+        const member = membersByUser.get(comment.userId);
+        const isAuthor = comment.userId === userId;
+        const name = authorName(comment);
+
+        return (
+            <div key={comment.id} className="group/comment flex gap-2">
+                <div className="w-6 h-6 rounded-full bg-gray-100 overflow-hidden flex items-center justify-center text-[10px] text-gray-500 font-medium shrink-0">
+                    {member?.avatarUrl ? (
+                        <img src={member.avatarUrl} alt="" className="w-full h-full object-cover" />
+                    ) : (
+                        name.slice(0, 1).toUpperCase()
+                    )}
+                </div>
+                <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 text-xs">
+                        <span className="font-medium text-gray-800 truncate">{name}</span>
+                        <span className="text-gray-400 shrink-0">{formatTime(comment.createdAt)}</span>
+                        <div className="ml-auto flex items-center opacity-0 group-hover/comment:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+                            {isAuthor && canComment && (
+                                <button onClick={() => setEditingId(comment.id)} className="p-1 text-gray-400 hover:text-gray-700 rounded" title="编辑">
+                                    <Pencil size={12} />
+                                </button>
+                            )}
+                            {(isAuthor || canModerate) && (
+                                <button
+                                    onClick={() => {
+                                        if (!confirm(isRoot ? '删除这条评论及其所有回复？' : '删除这条回复？')) return;
+                                        run(() => onDelete(comment.id), '删除评论失败').catch(() => {});
+                                    }}
+                                    className="p-1 text-gray-400 hover:text-red-500 rounded"
+                                    title="删除"
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                    {editingId === comment.id ? (
+                        <div className="mt-1" onClick={(e) => e.stopPropagation()}>
+                            <CommentComposer
+                                members={members}
+                                placeholder="编辑评论"
+                                initialBody={comment.body}
+                                submitLabel="保存"
+                                autoFocus
+                                onSubmit={(body, mentions) => run(() => onEdit(comment.id, body, mentions), '保存评论失败')
+                                    .then(() => setEditingId(null))}
+                                onCancel={() => setEditingId(null)}
+                            />
+                        </div>
+                    ) : (
+                        <CommentBody body={comment.body} labels={labels} />
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
+            <div className="px-4 pt-3 pb-2 flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900">评论</span>
+                <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="关闭">
+                    <X size={16} />
+                </button>
+            </div>
+
+            <div className="px-4 pb-2 flex items-center gap-1 text-xs">
+                {(Object.keys(FILTER_LABELS) as CommentFilter[]).map(option => (
+                    <button
+                        key={option}
+                        onClick={() => {
+                            setFilter(option);
+                            onSelectThread(null);
+                        }}
+                        className={`px-2.5 py-1 rounded-full transition-colors ${shownFilter === option ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+                    >
+                        {FILTER_LABELS[option]}
+                    </button>
+                ))}
+            </div>
+
+            {error && <p className="px-4 pb-2 text-xs text-red-500">{error}</p>}
+
+            <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-3">
+                {hasDraft && canComment && (
+                    <div className="rounded-xl border border-blue-200 p-3 space-y-2">
+                        <span className="text-xs text-gray-500">新评论</span>
+                        <CommentComposer
+                            members={members}
+                            placeholder="添加评论，输入 @ 提及成员"
+                            autoFocus
+                            onSubmit={(body, mentions) => run(() => onCreateThread(body, mentions), '发表评论失败')}
+                            onCancel={onCancelDraft}
+                        />
+                    </div>
+                )}
+
+                {visible.length === 0 && !hasDraft && (
+                    <div className="flex flex-col items-center text-center text-gray-400 text-xs py-10 gap-2">
+                        <MessageSquare size={20} />
+                        <span>
+                            {shownFilter === 'open'
+                                ? canComment ? '暂无评论，用标记工具在画布上点击即可添加' : '暂无评论'
+                                : shownFilter === 'resolved' ? '没有已解决的评论' : '没有提到你的评论'}
+                        </span>
+                    </div>
+                )}
+
+                {visible.map(({ thread, number }) => {
+                    const isActive = thread.root.id === activeThreadId;
+                    const resolved = !!thread.root.resolvedAt;
+                    return (
+                        <div
+                            key={thread.root.id}
+                            onClick={() => onSelectThread(isActive ? null : thread.root.id)}
+                            className={`rounded-xl border p-3 space-y-3 cursor-pointer transition-colors ${isActive ? 'border-blue-300 bg-blue-50/30' : 'border-gray-100 hover:border-gray-200'}`}
+                        >
+                            <div className="flex items-center justify-between text-xs text-gray-500">
+                                <span className={`w-5 h-5 rounded-full rounded-bl-none flex items-center justify-center font-medium ${isActive ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}>
+                                    {number}
+                                </span>
+                                {canComment && (
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            run(() => onResolve(thread.root.id, !resolved), resolved ? '重新打开失败' : '标记解决失败').catch(() => {});
+                                        }}
+                                        className="flex items-center gap-1 px-2 py-0.5 rounded-full hover:bg-gray-100 transition-colors"
+                                    >
+                                        {resolved ? <RotateCcw size={12} /> : <Check size={12} />}
+                                        <span>{resolved ? '重新打开' : '解决'}</span>
+                                    </button>
+                                )}
+                            </div>
+
+                            {renderComment(thread.root, true)}
+
+                            {isActive ? (
+                                <>
+                                    {thread.replies.map(reply => renderComment(reply, false))}
+                                    {canComment && !resolved && (
+                                        <div onClick={(e) => e.stopPropagation()}>
+                                            <CommentComposer
+                                                members={members}
+                                                placeholder="回复"
+                                                onSubmit={(body, mentions) => run(() => onReply(thread.root.id, body, mentions), '回复失败')}
+                                            />
+                                        </div>
+                                    )}
+                                </>
+                            ) : thread.replies.length > 0 && (
+                                <span className="block text-xs text-gray-400 pl-8">{thread.replies.length} 条回复</span>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
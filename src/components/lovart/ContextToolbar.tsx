@@ -1,6 +1,9 @@
-import React from 'react';
-import { Type, AlignLeft, AlignCenter, AlignRight, Download, Trash2, SlidersHorizontal, Grid3X3, Sparkles, Shirt, Wand2, Eraser, Copy, ArrowRight } from 'lucide-react';
+import React, { useState } from 'react';
+import { Type, AlignLeft, AlignCenter, AlignRight, Download, Trash2, SlidersHorizontal, Grid3X3, Sparkles, Shirt, Wand2, Eraser, Copy, ArrowRight, Check, Maximize2 } from 'lucide-react';
 import { CanvasElement } from './CanvasArea';
+import type { ImageEditMode } from '@/lib/image-edit';
+import { ImageProviderId, UPSCALE_FACTORS, UpscaleFactor } from '@/lib/image-options';
+import { useImageProviders } from '@/hooks/useImageProviders';
 
 interface ContextToolbarProps {
     element: CanvasElement;
@@ -8,11 +11,32 @@ interface ContextToolbarProps {
     onDelete: (id: string) => void;
     onGenerateFromImage?: (element: CanvasElement) => void;
     onConnectFlow?: (element: CanvasElement) => void;
+    onKeepVariant?: (element: CanvasElement) => void;
+    onEditImage?: (element: CanvasElement, mode: ImageEditMode) => void;
+    activeEditMode?: ImageEditMode;
+    onUpscaleImage?: (element: CanvasElement, scale: UpscaleFactor, provider: ImageProviderId, keepOriginal: boolean) => void;
+    isBusy?: boolean;
+    onDownload?: (element: CanvasElement) => void;
 }
 
-export function ContextToolbar({ element, onUpdate, onDelete, onGenerateFromImage, onConnectFlow }: ContextToolbarProps) {
+// A cleared or partial number input parses to NaN, which must never reach
+// the element (it would be saved as null)
+function updateNumber(value: string, apply: (value: number) => void) {
+    const parsed = parseInt(value, 10);
+    if (Number.isFinite(parsed)) apply(parsed);
+}
+
+export function ContextToolbar({ element, onUpdate, onDelete, onGenerateFromImage, onConnectFlow, onKeepVariant, onEditImage, activeEditMode, onUpscaleImage, isBusy, onDownload }: ContextToolbarProps) {
+    const [showUpscaleMenu, setShowUpscaleMenu] = useState(false);
+    const [keepOriginal, setKeepOriginal] = useState(false);
+    const { providers } = useImageProviders();
+    const upscaleProvider = providers.find(p => p.operations.includes('upscale'));
+
     if (!element) return null;
 
+    const editButtonClass = (mode: ImageEditMode) =>
+        activeEditMode === mode ? 'bg-purple-50 text-purple-600' : 'hover:bg-gray-50 text-gray-700';
+
     // 针对图片和视频元素显示特殊的工具栏
     if (element.type === 'image' || element.type === 'video') {
         return (
@@ -27,29 +51,94 @@ export function ContextToolbar({ element, onUpdate, onDelete, onGenerateFromImag
 
                 <div className="w-px h-6 bg-gray-200" />
 
-                {/* 替换背景 */}
-                <button
-                    className="p-2 hover:bg-gray-50 rounded-lg text-gray-700 transition-colors"
-                    title="替换背景"
-                >
-                    <Eraser size={18} />
-                </button>
+                {/* 批量生成：保留这一张，丢弃其余变体 */}
+                {element.variantGroupId && onKeepVariant && (
+                    <>
+                        <button
+                            onClick={() => onKeepVariant(element)}
+                            className="flex items-center gap-1.5 px-2.5 py-1.5 bg-green-50 text-green-600 rounded-lg hover:bg-green-100 transition-colors"
+                            title="保留这一张，删除其余变体"
+                        >
+                            <Check size={16} />
+                            <span className="text-xs font-medium">保留这张</span>
+                        </button>
 
-                {/* Mockup */}
-                <button
-                    className="p-2 hover:bg-gray-50 rounded-lg text-gray-700 transition-colors"
-                    title="Mockup"
-                >
-                    <Shirt size={18} />
-                </button>
+                        <div className="w-px h-6 bg-gray-200" />
+                    </>
+                )}
 
-                {/* 编辑元素 */}
-                <button
-                    className="p-2 hover:bg-gray-50 rounded-lg text-gray-700 transition-colors"
-                    title="编辑元素"
-                >
-                    <Wand2 size={18} />
-                </button>
+                {/* 图片编辑：替换背景 / Mockup / 涂抹编辑 */}
+                {element.type === 'image' && onEditImage && (
+                    <>
+                        {/* 替换背景 */}
+                        <button
+                            onClick={() => onEditImage(element, 'background')}
+                            className={`p-2 rounded-lg transition-colors ${editButtonClass('background')}`}
+                            title="替换背景"
+                        >
+                            <Eraser size={18} />
+                        </button>
+
+                        {/* Mockup */}
+                        <button
+                            onClick={() => onEditImage(element, 'mockup')}
+                            className={`p-2 rounded-lg transition-colors ${editButtonClass('mockup')}`}
+                            title="Mockup"
+                        >
+                            <Shirt size={18} />
+                        </button>
+
+                        {/* 编辑元素 */}
+                        <button
+                            onClick={() => onEditImage(element, 'inpaint')}
+                            className={`p-2 rounded-lg transition-colors ${editButtonClass('inpaint')}`}
+                            title="编辑元素"
+                        >
+                            <Wand2 size={18} />
+                        </button>
+                    </>
+                )}
+
+                {/* 放大 */}
+                {element.type === 'image' && onUpscaleImage && upscaleProvider && (
+                    <div className="relative">
+                        <button
+                            onClick={() => setShowUpscaleMenu(!showUpscaleMenu)}
+                            disabled={isBusy}
+                            className={`p-2 rounded-lg transition-colors disabled:opacity-30 ${
+                                showUpscaleMenu ? 'bg-gray-100 text-gray-900' : 'hover:bg-gray-50 text-gray-700'
+                            }`}
+                            title="放大"
+                        >
+                            <Maximize2 size={18} />
+                        </button>
+                        {showUpscaleMenu && (
+                            <div className="absolute top-full mt-2 left-1/2 -translate-x-1/2 bg-white rounded-lg shadow-lg border border-gray-100 py-1 z-10 min-w-[140px]">
+                                {UPSCALE_FACTORS.map(factor => (
+                                    <div
+                                        key={factor}
+                                        onClick={() => {
+                                            onUpscaleImage(element, factor, upscaleProvider.id, keepOriginal);
+                                            setShowUpscaleMenu(false);
+                                        }}
+                                        className="px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50 text-gray-700"
+                                    >
+                                        放大 {factor}x
+                                    </div>
+                                ))}
+                                <div className="border-t border-gray-100 my-1"></div>
+                                <label className="px-3 py-1.5 text-xs text-gray-600 flex items-center gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={keepOriginal}
+                                        onChange={(e) => setKeepOriginal(e.target.checked)}
+                                    />
+                                    保留原图
+                                </label>
+                            </div>
+                        )}
+                    </div>
+                )}
 
                 {/* 流程图连接 */}
                 {onConnectFlow && (
@@ -79,6 +168,7 @@ export function ContextToolbar({ element, onUpdate, onDelete, onGenerateFromImag
 
                 {/* 下载 */}
                 <button
+                    onClick={() => onDownload?.(element)}
                     className="p-2 hover:bg-gray-50 rounded-lg text-gray-700 transition-colors"
                     title="下载"
                 >
@@ -130,7 +220,7 @@ export function ContextToolbar({ element, onUpdate, onDelete, onGenerateFromImag
                                 type="number"
                                 className="w-12 bg-transparent text-sm outline-none"
                                 value={Math.round(element.width || 0)}
-                                onChange={(e) => onUpdate(element.id, { width: parseInt(e.target.value) })}
+                                onChange={(e) => updateNumber(e.target.value, width => onUpdate(element.id, { width }))}
                             />
                         </div>
                         <div className="flex items-center gap-1 bg-gray-50 px-2 py-1 rounded-md border border-gray-200">
@@ -139,7 +229,7 @@ export function ContextToolbar({ element, onUpdate, onDelete, onGenerateFromImag
                                 type="number"
                                 className="w-12 bg-transparent text-sm outline-none"
                                 value={Math.round(element.height || 0)}
-                                onChange={(e) => onUpdate(element.id, { height: parseInt(e.target.value) })}
+                                onChange={(e) => updateNumber(e.target.value, height => onUpdate(element.id, { height }))}
                             />
                         </div>
                     </div>
@@ -163,7 +253,7 @@ export function ContextToolbar({ element, onUpdate, onDelete, onGenerateFromImag
                     <select
                         className="bg-transparent text-sm outline-none border border-gray-200 rounded-md px-2 py-1"
                         value={element.fontSize || 24}
-                        onChange={(e) => onUpdate(element.id, { fontSize: parseInt(e.target.value) })}
+                        onChange={(e) => updateNumber(e.target.value, fontSize => onUpdate(element.id, { fontSize }))}
                     >
                         {[12, 14, 16, 18, 20, 24, 32, 48, 64, 80, 96].map(size => (
                             <option key={size} value={size}>{size}</option>
@@ -175,7 +265,7 @@ export function ContextToolbar({ element, onUpdate, onDelete, onGenerateFromImag
 
             {/* Common Actions */}
             <div className="flex items-center gap-2">
-                <button className="p-1.5 hover:bg-gray-100 rounded-md text-gray-600">
+                <button onClick={() => onDownload?.(element)} className="p-1.5 hover:bg-gray-100 rounded-md text-gray-600" title="下载">
                     <Download size={18} />
                 </button>
                 <button onClick={() => onDelete(element.id)} className="p-1.5 hover:bg-red-50 text-red-500 rounded-md">
@@ -1,13 +1,18 @@
 'use client';
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, Paperclip, AtSign, MapPin, Zap, Globe, Loader2, ArrowUp } from 'lucide-react';
+import { Send, Paperclip, AtSign, MapPin, Zap, Globe, Loader2, ArrowUp, Square } from 'lucide-react';
+import { useSupabase } from '@/hooks/useSupabase';
+import { ChatMessage, loadChatMessages } from '@/lib/chat-history';
+import { streamDesignChat } from '@/lib/design-chat';
 
 interface Message {
     id: string;
     role: 'user' | 'assistant';
     content: string;
     timestamp: Date;
+    interrupted?: boolean;
+    failed?: boolean; // Error notes are shown but not sent back as history
     examples?: Array<{
         title: string;
         description: string;
@@ -43,6 +48,8 @@ export function DesignChat({ projectId, initialPrompt }: DesignChatProps) {
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const supabase = useSupabase();
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -52,6 +59,33 @@ export function DesignChat({ projectId, initialPrompt }: DesignChatProps) {
         scrollToBottom();
     }, [messages]);
 
+    // Stop any reply still streaming when the chat unmounts
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    // Restore the project's saved thread
+    useEffect(() => {
+        if (!supabase || !projectId) return;
+        let cancelled = false;
+
+        loadChatMessages(supabase, projectId).then(saved => {
+            if (cancelled) return;
+            const restored: Message[] = saved.map((message, index) => ({
+                id: `saved-${index}`,
+                role: message.role,
+                content: message.content,
+                interrupted: message.interrupted,
+                timestamp: message.createdAt ? new Date(message.createdAt) : new Date(),
+            }));
+            setMessages(prev => [...restored, ...prev]);
+        }).catch(error => {
+            console.error('Failed to load chat history:', error);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [supabase, projectId]);
+
     // Load initial message if prompt is provided
     useEffect(() => {
         if (initialPrompt && messages.length === 0) {
@@ -70,45 +104,43 @@ export function DesignChat({ projectId, initialPrompt }: DesignChatProps) {
             timestamp: new Date(),
         };
 
-        setMessages(prev => [...prev, userMessage]);
+        const history: ChatMessage[] = [
+            ...messages.filter(m => m.content && !m.failed),
+            { role: 'user', content: text },
+        ];
+
+        // Empty assistant message that the reply streams into
+        const assistantId = (Date.now() + 1).toString();
+        const updateAssistant = (update: Partial<Message>) => {
+            setMessages(prev => prev.map(m => m.id === assistantId ? { ...m, ...update } : m));
+        };
+
+        setMessages(prev => [...prev, userMessage, {
+            id: assistantId,
+            role: 'assistant',
+            content: '',
+            timestamp: new Date(),
+        }]);
         setInput('');
         setIsLoading(true);
 
+        const controller = new AbortController();
+        abortRef.current = controller;
+
         try {
-            const response = await fetch('/api/generate-design', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    prompt: text,
-                }),
+            const reply = await streamDesignChat(history, {
+                projectId,
+                signal: controller.signal,
+                onDelta: content => updateAssistant({ content }),
             });
-
-            if (!response.ok) {
-                throw new Error('Failed to get response');
-            }
-
-            const data = await response.json();
-
-            const assistantMessage: Message = {
-                id: (Date.now() + 1).toString(),
-                role: 'assistant',
-                content: data.suggestion,
-                timestamp: new Date(),
-            };
-
-            setMessages(prev => [...prev, assistantMessage]);
+            updateAssistant(reply.text
+                ? { content: reply.text, interrupted: reply.interrupted }
+                : { content: reply.interrupted ? '已停止生成' : '未收到回复', failed: true });
         } catch (error) {
             console.error('Failed to send message:', error);
-            const errorMessage: Message = {
-                id: (Date.now() + 1).toString(),
-                role: 'assistant',
-                content: '抱歉，我遇到了一些问题。请稍后再试。',
-                timestamp: new Date(),
-            };
-            setMessages(prev => [...prev, errorMessage]);
+            updateAssistant({ content: '抱歉，我遇到了一些问题。请稍后再试。', failed: true });
         } finally {
+            if (abortRef.current === controller) abortRef.current = null;
             setIsLoading(false);
         }
     };
@@ -161,10 +193,10 @@ export function DesignChat({ projectId, initialPrompt }: DesignChatProps) {
                     </div>
                 )}
 
-                {messages.map((message, index) => (
+                {messages.filter(message => message.content).map((message, index, visible) => (
                     <div key={message.id} className="space-y-4">
                         {/* Show date separator */}
-                        {(index === 0 || formatDate(messages[index - 1].timestamp) !== formatDate(message.timestamp)) && (
+                        {(index === 0 || formatDate(visible[index - 1].timestamp) !== formatDate(message.timestamp)) && (
                             <div className="text-center my-4">
                                 <span className="text-xs text-gray-400">{formatDate(message.timestamp)}</span>
                             </div>
@@ -179,12 +211,15 @@ export function DesignChat({ projectId, initialPrompt }: DesignChatProps) {
                         ) : (
                             <div className="flex flex-col space-y-2">
                                 <p className="text-sm text-gray-700 leading-relaxed whitespace-pre-wrap">{message.content}</p>
+                                {message.interrupted && (
+                                    <p className="text-xs text-gray-400">（回复已中断）</p>
+                                )}
                             </div>
                         )}
                     </div>
                 ))}
 
-                {isLoading && (
+                {isLoading && !messages[messages.length - 1]?.content && (
                     <div className="flex items-center gap-2 text-gray-400">
                         <Loader2 size={14} className="animate-spin" />
                         <span className="text-sm">思考中...</span>
@@ -230,13 +265,23 @@ export function DesignChat({ projectId, initialPrompt }: DesignChatProps) {
                     <button className="p-2 hover:bg-gray-100 rounded-full transition-colors">
                         <Globe size={20} className="text-gray-400" />
                     </button>
-                    <button
-                        onClick={() => handleSendMessage()}
-                        disabled={!input.trim() || isLoading}
-                        className="p-2.5 bg-blue-500 hover:bg-blue-600 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                        <ArrowUp size={18} className="text-white" />
-                    </button>
+                    {isLoading ? (
+                        <button
+                            onClick={() => abortRef.current?.abort()}
+                            className="p-2.5 bg-blue-500 hover:bg-blue-600 rounded-full transition-colors"
+                            title="停止生成"
+                        >
+                            <Square size={18} className="text-white fill-current" />
+                        </button>
+                    ) : (
+                        <button
+                            onClick={() => handleSendMessage()}
+                            disabled={!input.trim()}
+                            className="p-2.5 bg-blue-500 hover:bg-blue-600 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <ArrowUp size={18} className="text-white" />
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
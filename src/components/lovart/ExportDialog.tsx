@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useState } from 'react';
+import { X, Download, Loader2 } from 'lucide-react';
+import type { CanvasElement } from './CanvasArea';
+import { downloadBlob, EXPORT_FORMATS, EXPORT_SCALES, ExportFormat, ExportScope, exportBoard, exportFilename, getFrames } from '@/lib/export';
+
+type ScopeKind = ExportScope['kind'];
+
+interface ExportDialogProps {
+    elements: CanvasElement[];
+    // Ids the dialog was opened with; empty exports the board by default
+    selectedIds: string[];
+    title: string;
+    onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+    png: 'PNG',
+    jpeg: 'JPEG',
+    pdf: 'PDF',
+    svg: 'SVG',
+};
+
+const SCOPE_LABELS: Record<ScopeKind, string> = {
+    selection: '所选内容',
+    frame: '画框',
+    board: '整个画布',
+};
+
+export function ExportDialog({ elements, selectedIds, title, onClose }: ExportDialogProps) {
+    const frames = getFrames(elements);
+    const [scopeKind, setScopeKind] = useState<ScopeKind>(selectedIds.length > 0 ? 'selection' : 'board');
+    const [frameId, setFrameId] = useState(frames[0]?.id ?? '');
+    const [format, setFormat] = useState<ExportFormat>('png');
+    const [scale, setScale] = useState(2);
+    const [isExporting, setIsExporting] = useState(false);
+
+    const scopeKinds = (['selection', 'frame', 'board'] as const).filter(kind =>
+        (kind !== 'selection' || selectedIds.length > 0) && (kind !== 'frame' || frames.length > 0)
+    );
+
+    const scope: ExportScope = scopeKind === 'selection'
+        ? { kind: 'selection', ids: selectedIds }
+        : scopeKind === 'frame'
+            ? { kind: 'frame', id: frameId }
+            : { kind: 'board' };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const blob = await exportBoard(elements, scope, { format, scale });
+            downloadBlob(blob, exportFilename(title, format === 'jpeg' ? 'jpg' : format));
+            onClose();
+        } catch (error) {
+            console.error('Export failed:', error);
+            alert('导出失败: ' + (error instanceof Error ? error.message : '未知错误'));
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/20" onMouseDown={onClose}>
+            <div
+                className="bg-white rounded-2xl shadow-xl border border-gray-100 w-[360px] overflow-hidden"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <div className="px-4 pt-3 flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900">导出</span>
+                    <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="关闭">
+                        <X size={16} />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-4 text-xs text-gray-600">
+                    <div className="space-y-2">
+                        <span className="font-medium text-gray-700">范围</span>
+                        <div className="flex items-center gap-2">
+                            {scopeKinds.map(kind => (
+                                <button
+                                    key={kind}
+                                    onClick={() => setScopeKind(kind)}
+                                    className={`px-2 py-1 rounded-md transition-colors ${
+                                        scopeKind === kind ? 'bg-purple-50 text-purple-600 font-medium' : 'hover:bg-gray-100'
+                                    }`}
+                                >
+                                    {SCOPE_LABELS[kind]}
+                                </button>
+                            ))}
+                        </div>
+                        {scopeKind === 'frame' && (
+                            <select
+                                value={frameId}
+                                onChange={(e) => setFrameId(e.target.value)}
+                                className="w-full bg-gray-50 rounded-md px-2 py-1.5 outline-none"
+                            >
+                                {frames.map(frame => (
+                                    <option key={frame.id} value={frame.id}>{frame.content || '画框'}</option>
+                                ))}
+                            </select>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <span className="font-medium text-gray-700">格式</span>
+                        <div className="flex items-center gap-2">
+                            {EXPORT_FORMATS.map(option => (
+                                <button
+                                    key={option}
+                                    onClick={() => setFormat(option)}
+                                    className={`px-2 py-1 rounded-md transition-colors ${
+                                        format === option ? 'bg-purple-50 text-purple-600 font-medium' : 'hover:bg-gray-100'
+                                    }`}
+                                >
+                                    {FORMAT_LABELS[option]}
+                                </button>
+                            ))}
+                        </div>
+                        {format === 'pdf' && (
+                            <p className="text-gray-400">每个画框导出为单独一页</p>
+                        )}
+                        {format === 'svg' && (
+                            <p className="text-gray-400">矢量格式，可在 Illustrator 或 Figma 中继续编辑</p>
+                        )}
+                    </div>
+
+                    {format !== 'svg' && (
+                        <div className="space-y-2">
+                            <span className="font-medium text-gray-700">倍率</span>
+                            <div className="flex items-center gap-2">
+                                {EXPORT_SCALES.map(option => (
+                                    <button
+                                        key={option}
+                                        onClick={() => setScale(option)}
+                                        className={`px-2 py-1 rounded-md transition-colors ${
+                                            scale === option ? 'bg-purple-50 text-purple-600 font-medium' : 'hover:bg-gray-100'
+                                        }`}
+                                    >
+                                        {option}x
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="px-4 pb-4 flex justify-end">
+                    <button
+                        onClick={handleExport}
+                        disabled={isExporting || (scopeKind === 'frame' && !frameId)}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-black text-white text-sm hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                    >
+                        {isExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+                        <span>{isExporting ? '导出中...' : '导出'}</span>
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -12,9 +12,13 @@ interface FloatingToolbarProps {
     onAddShape: (type: 'square' | 'circle' | 'triangle' | 'star' | 'message' | 'arrow-left' | 'arrow-right') => void;
     onOpenImageGenerator: () => void;
     onOpenVideoGenerator?: () => void;
+    // Only the select and hand tools, for people who can view but not edit
+    readOnly?: boolean;
+    // Enables the mark tool, which drops comment pins
+    canComment?: boolean;
 }
 
-export function FloatingToolbar({ activeTool, onToolChange, onAddImage, onAddVideo, onAddText, onAddShape, onOpenImageGenerator, onOpenVideoGenerator }: FloatingToolbarProps) {
+export function FloatingToolbar({ activeTool, onToolChange, onAddImage, onAddVideo, onAddText, onAddShape, onOpenImageGenerator, onOpenVideoGenerator, readOnly, canComment }: FloatingToolbarProps) {
     const [showUploadMenu, setShowUploadMenu] = useState(false);
     const [showShapeMenu, setShowShapeMenu] = useState(false);
     const [showSelectMenu, setShowSelectMenu] = useState(false);
@@ -98,9 +102,9 @@ export function FloatingToolbar({ activeTool, onToolChange, onAddImage, onAddVid
                                 </button>
                                 <button
                                     onClick={() => { onToolChange('mark'); setShowSelectMenu(false); }}
-                                    className={`flex items-center justify-between px-3 py-2 rounded-lg hover:bg-gray-50 text-sm transition-colors text-left ${activeTool === 'mark' ? 'bg-gray-50 text-black font-medium' : 'text-gray-700'} opacity-50 cursor-not-allowed`}
-                                    disabled
-                                    title="Temporarily disabled"
+                                    className={`flex items-center justify-between px-3 py-2 rounded-lg hover:bg-gray-50 text-sm transition-colors text-left ${activeTool === 'mark' ? 'bg-gray-50 text-black font-medium' : 'text-gray-700'} disabled:opacity-50 disabled:cursor-not-allowed`}
+                                    disabled={!canComment}
+                                    title={canComment ? '添加评论' : '保存项目并获得评论权限后可用'}
                                 >
                                     <div className="flex items-center gap-3">
                                         <MapPin size={16} />
@@ -113,182 +117,186 @@ export function FloatingToolbar({ activeTool, onToolChange, onAddImage, onAddVid
                     )}
                 </div>
 
-                {/* Add/Upload Tool */}
-                <div
-                    className="relative"
-                    onMouseEnter={() => setShowUploadMenu(true)}
-                    onMouseLeave={() => setShowUploadMenu(false)}
-                >
-                    <button
-                        className={`p-2.5 rounded-xl transition-all flex items-center justify-center ${showUploadMenu ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:bg-gray-50 hover:text-gray-900'
-                            }`}
-                        title="Add / Upload"
-                    >
-                        <PlusSquare size={20} />
-                    </button>
+                {!readOnly && (
+                    <>
+                        {/* Add/Upload Tool */}
+                        <div
+                            className="relative"
+                            onMouseEnter={() => setShowUploadMenu(true)}
+                            onMouseLeave={() => setShowUploadMenu(false)}
+                        >
+                            <button
+                                className={`p-2.5 rounded-xl transition-all flex items-center justify-center ${showUploadMenu ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:bg-gray-50 hover:text-gray-900'
+                                    }`}
+                                title="Add / Upload"
+                            >
+                                <PlusSquare size={20} />
+                            </button>
 
-                    {/* Upload Menu */}
-                    {showUploadMenu && (
-                        <div className="absolute left-full top-0 pl-3 z-50">
-                            <div className="bg-white rounded-xl shadow-xl border border-gray-100 p-2 min-w-[160px] flex flex-col gap-1">
-                                <button
-                                    onClick={handleImageUploadClick}
-                                    className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 text-sm text-gray-700 transition-colors text-left"
-                                >
-                                    <ImageIcon size={16} />
-                                    <span>上传图片</span>
-                                </button>
-                                <button
-                                    onClick={handleVideoUploadClick}
-                                    className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 text-sm text-gray-700 transition-colors text-left"
-                                >
-                                    <Video size={16} />
-                                    <span>上传视频</span>
-                                </button>
-                                <div className="h-px bg-gray-200 my-1" />
-                                <button
-                                    onClick={() => {
-                                        onOpenImageGenerator();
-                                        setShowUploadMenu(false);
-                                    }}
-                                    className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 text-sm text-gray-700 transition-colors text-left"
-                                >
-                                    <Sparkles size={16} />
-                                    <span>图像生成器</span>
-                                </button>
-                                {onOpenVideoGenerator && (
-                                    <button
-                                        onClick={() => {
-                                            onOpenVideoGenerator();
-                                            setShowUploadMenu(false);
-                                        }}
-                                        className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 text-sm text-gray-700 transition-colors text-left"
-                                    >
-                                        <Video size={16} />
-                                        <span>视频生成器</span>
-                                    </button>
-                                )}
-                            </div>
+                            {/* Upload Menu */}
+                            {showUploadMenu && (
+                                <div className="absolute left-full top-0 pl-3 z-50">
+                                    <div className="bg-white rounded-xl shadow-xl border border-gray-100 p-2 min-w-[160px] flex flex-col gap-1">
+                                        <button
+                                            onClick={handleImageUploadClick}
+                                            className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 text-sm text-gray-700 transition-colors text-left"
+                                        >
+                                            <ImageIcon size={16} />
+                                            <span>上传图片</span>
+                                        </button>
+                                        <button
+                                            onClick={handleVideoUploadClick}
+                                            className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 text-sm text-gray-700 transition-colors text-left"
+                                        >
+                                            <Video size={16} />
+                                            <span>上传视频</span>
+                                        </button>
+                                        <div className="h-px bg-gray-200 my-1" />
+                                        <button
+                                            onClick={() => {
+                                                onOpenImageGenerator();
+                                                setShowUploadMenu(false);
+                                            }}
+                                            className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 text-sm text-gray-700 transition-colors text-left"
+                                        >
+                                            <Sparkles size={16} />
+                                            <span>图像生成器</span>
+                                        </button>
+                                        {onOpenVideoGenerator && (
+                                            <button
+                                                onClick={() => {
+                                                    onOpenVideoGenerator();
+                                                    setShowUploadMenu(false);
+                                                }}
+                                                className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 text-sm text-gray-700 transition-colors text-left"
+                                            >
+                                                <Video size={16} />
+                                                <span>视频生成器</span>
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            )}
                         </div>
-                    )}
-                </div>
 
-                {/* Shape Tool */}
-                <div
-                    className="relative"
-                    onMouseEnter={() => setShowShapeMenu(true)}
-                    onMouseLeave={() => setShowShapeMenu(false)}
-                >
-                    <button
-                        className={`p-2.5 rounded-xl transition-all flex items-center justify-center ${activeTool === 'shape' || showShapeMenu
-                            ? 'bg-gray-100 text-gray-900'
-                            : 'text-gray-500 hover:bg-gray-50 hover:text-gray-900'
-                            }`}
-                        title="Shape"
-                    >
-                        <Square size={20} />
-                    </button>
+                        {/* Shape Tool */}
+                        <div
+                            className="relative"
+                            onMouseEnter={() => setShowShapeMenu(true)}
+                            onMouseLeave={() => setShowShapeMenu(false)}
+                        >
+                            <button
+                                className={`p-2.5 rounded-xl transition-all flex items-center justify-center ${activeTool === 'shape' || showShapeMenu
+                                    ? 'bg-gray-100 text-gray-900'
+                                    : 'text-gray-500 hover:bg-gray-50 hover:text-gray-900'
+                                    }`}
+                                title="Shape"
+                            >
+                                <Square size={20} />
+                            </button>
 
-                    {/* Shape Submenu */}
-                    {showShapeMenu && (
-                        <div className="absolute left-full top-0 pl-3 z-50">
-                            <div className="bg-white rounded-xl shadow-xl border border-gray-100 p-3 min-w-[200px]">
-                                <div className="mb-2 text-xs text-gray-500 font-medium">Shapes</div>
-                                <div className="flex gap-2 mb-4">
-                                    <button onClick={() => handleShapeClick('square')} className="p-2 hover:bg-gray-100 rounded-lg transition-colors"><Square size={20} /></button>
-                                    <button onClick={() => handleShapeClick('circle')} className="p-2 hover:bg-gray-100 rounded-lg transition-colors"><Circle size={20} /></button>
-                                    <button onClick={() => handleShapeClick('triangle')} className="p-2 hover:bg-gray-100 rounded-lg transition-colors"><Triangle size={20} /></button>
+                            {/* Shape Submenu */}
+                            {showShapeMenu && (
+                                <div className="absolute left-full top-0 pl-3 z-50">
+                                    <div className="bg-white rounded-xl shadow-xl border border-gray-100 p-3 min-w-[200px]">
+                                        <div className="mb-2 text-xs text-gray-500 font-medium">Shapes</div>
+                                        <div className="flex gap-2 mb-4">
+                                            <button onClick={() => handleShapeClick('square')} className="p-2 hover:bg-gray-100 rounded-lg transition-colors"><Square size={20} /></button>
+                                            <button onClick={() => handleShapeClick('circle')} className="p-2 hover:bg-gray-100 rounded-lg transition-colors"><Circle size={20} /></button>
+                                            <button onClick={() => handleShapeClick('triangle')} className="p-2 hover:bg-gray-100 rounded-lg transition-colors"><Triangle size={20} /></button>
+                                        </div>
+                                    </div>
                                 </div>
-                            </div>
+                            )}
                         </div>
-                    )}
-                </div>
 
-                {/* Text Tool */}
-                <div
-                    className="relative"
-                    onMouseEnter={() => setShowTextMenu(true)}
-                    onMouseLeave={() => setShowTextMenu(false)}
-                >
-                    <button
-                        className={`p-2.5 rounded-xl transition-all flex items-center justify-center ${activeTool === 'text' || showTextMenu
-                            ? 'bg-gray-100 text-gray-900'
-                            : 'text-gray-500 hover:bg-gray-50 hover:text-gray-900'
-                            }`}
-                        title="Text"
-                    >
-                        <Type size={20} />
-                    </button>
+                        {/* Text Tool */}
+                        <div
+                            className="relative"
+                            onMouseEnter={() => setShowTextMenu(true)}
+                            onMouseLeave={() => setShowTextMenu(false)}
+                        >
+                            <button
+                                className={`p-2.5 rounded-xl transition-all flex items-center justify-center ${activeTool === 'text' || showTextMenu
+                                    ? 'bg-gray-100 text-gray-900'
+                                    : 'text-gray-500 hover:bg-gray-50 hover:text-gray-900'
+                                    }`}
+                                title="Text"
+                            >
+                                <Type size={20} />
+                            </button>
 
-                    {/* Text Submenu */}
-                    {showTextMenu && (
-                        <div className="absolute left-full top-0 pl-3 z-50">
-                            <div className="bg-white rounded-xl shadow-xl border border-gray-100 p-2 min-w-[160px] flex flex-col gap-1">
-                                <button
-                                    onClick={() => {
-                                        onToolChange('text');
-                                        onAddText();
-                                        setShowTextMenu(false);
-                                    }}
-                                    className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 text-sm text-gray-700 transition-colors text-left"
-                                >
-                                    <Type size={16} />
-                                    <span>Default Text</span>
-                                </button>
-                            </div>
+                            {/* Text Submenu */}
+                            {showTextMenu && (
+                                <div className="absolute left-full top-0 pl-3 z-50">
+                                    <div className="bg-white rounded-xl shadow-xl border border-gray-100 p-2 min-w-[160px] flex flex-col gap-1">
+                                        <button
+                                            onClick={() => {
+                                                onToolChange('text');
+                                                onAddText();
+                                                setShowTextMenu(false);
+                                            }}
+                                            className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 text-sm text-gray-700 transition-colors text-left"
+                                        >
+                                            <Type size={16} />
+                                            <span>Default Text</span>
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
                         </div>
-                    )}
-                </div>
-                {/* Draw Tool */}
-                <div
-                    className="relative"
-                    onMouseEnter={() => setShowDrawMenu(true)}
-                    onMouseLeave={() => setShowDrawMenu(false)}
-                >
-                    <button
-                        className={`p-2.5 rounded-xl transition-all flex items-center justify-center ${activeTool === 'draw' || showDrawMenu
-                            ? 'bg-gray-100 text-gray-900'
-                            : 'text-gray-500 hover:bg-gray-50 hover:text-gray-900'
-                            }`}
-                        title="Draw"
-                    >
-                        <Pencil size={20} />
-                    </button>
+                        {/* Draw Tool */}
+                        <div
+                            className="relative"
+                            onMouseEnter={() => setShowDrawMenu(true)}
+                            onMouseLeave={() => setShowDrawMenu(false)}
+                        >
+                            <button
+                                className={`p-2.5 rounded-xl transition-all flex items-center justify-center ${activeTool === 'draw' || showDrawMenu
+                                    ? 'bg-gray-100 text-gray-900'
+                                    : 'text-gray-500 hover:bg-gray-50 hover:text-gray-900'
+                                    }`}
+                                title="Draw"
+                            >
+                                <Pencil size={20} />
+                            </button>
 
-                    {/* Draw Submenu */}
-                    {showDrawMenu && (
-                        <div className="absolute left-full top-0 pl-3 z-50">
-                            <div className="bg-white rounded-xl shadow-xl border border-gray-100 p-2 min-w-[160px] flex flex-col gap-1">
-                                <button
-                                    onClick={() => {
-                                        onToolChange('draw');
-                                        setShowDrawMenu(false);
-                                    }}
-                                    className={`flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 text-sm transition-colors text-left ${activeTool === 'draw' ? 'bg-gray-50 text-black font-medium' : 'text-gray-700'}`}
-                                >
-                                    <Pencil size={16} />
-                                    <span>Pen</span>
-                                </button>
-                            </div>
+                            {/* Draw Submenu */}
+                            {showDrawMenu && (
+                                <div className="absolute left-full top-0 pl-3 z-50">
+                                    <div className="bg-white rounded-xl shadow-xl border border-gray-100 p-2 min-w-[160px] flex flex-col gap-1">
+                                        <button
+                                            onClick={() => {
+                                                onToolChange('draw');
+                                                setShowDrawMenu(false);
+                                            }}
+                                            className={`flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 text-sm transition-colors text-left ${activeTool === 'draw' ? 'bg-gray-50 text-black font-medium' : 'text-gray-700'}`}
+                                        >
+                                            <Pencil size={16} />
+                                            <span>Pen</span>
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
                         </div>
-                    )}
-                </div>
 
-                {/* Hidden File Inputs */}
-                <input
-                    type="file"
-                    ref={imageInputRef}
-                    className="hidden"
-                    onChange={handleImageFileChange}
-                    accept="image/*"
-                />
-                <input
-                    type="file"
-                    ref={videoInputRef}
-                    className="hidden"
-                    onChange={handleVideoFileChange}
-                    accept="video/*"
-                />
+                        {/* Hidden File Inputs */}
+                        <input
+                            type="file"
+                            ref={imageInputRef}
+                            className="hidden"
+                            onChange={handleImageFileChange}
+                            accept="image/*"
+                        />
+                        <input
+                            type="file"
+                            ref={videoInputRef}
+                            className="hidden"
+                            onChange={handleVideoFileChange}
+                            accept="video/*"
+                        />
+                    </>
+                )}
             </div>
         </div>
     );
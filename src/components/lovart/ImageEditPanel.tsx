@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Sparkles, ChevronDown, Zap, X, Brush, Eraser, RotateCcw } from 'lucide-react';
+import { getImagePrice } from '@/lib/credit-prices';
+import { IMAGE_PROVIDER_CAPABILITIES, ImageProviderId, getSupportedResolutions } from '@/lib/image-options';
+import { buildEditPrompt, IMAGE_EDIT_PRESETS, ImageEditMode } from '@/lib/image-edit';
+import { getBrushSizeRange, getMaxFeather, ImageMask, MaskBrush } from '@/lib/image-mask';
+import { useImageProviders } from '@/hooks/useImageProviders';
+
+interface ImageEditPanelProps {
+    mode: ImageEditMode;
+    onSubmit: (prompt: string, provider: ImageProviderId) => Promise<void>;
+    onClose: () => void;
+    isEditing: boolean;
+    // Mask painting, only used by modes that take a mask
+    mask: ImageMask | null;
+    hasMask: boolean;
+    brush: MaskBrush;
+    onBrushChange: (brush: MaskBrush) => void;
+    onMaskChange: (mask: ImageMask) => void;
+    style?: React.CSSProperties;
+}
+
+export function ImageEditPanel({ mode, onSubmit, onClose, isEditing, mask, hasMask, brush, onBrushChange, onMaskChange, style }: ImageEditPanelProps) {
+    const preset = IMAGE_EDIT_PRESETS[mode];
+    const [input, setInput] = useState('');
+    const { providers: allProviders, defaultProvider } = useImageProviders();
+    const [selectedProvider, setSelectedProvider] = useState<ImageProviderId | null>(null);
+    const [showProviderMenu, setShowProviderMenu] = useState(false);
+
+    // Only providers that can carry out this kind of edit
+    const providers = allProviders.filter(p => p.operations.includes('edit') && (!preset.mask || p.mask));
+    const provider = providers.find(p => p.id === selectedProvider)?.id ?? providers[0]?.id ?? defaultProvider;
+    const capabilities = IMAGE_PROVIDER_CAPABILITIES[provider];
+    const available = providers.some(p => p.id === provider);
+
+    const prompt = buildEditPrompt(mode, input);
+    const canSubmit = !!prompt && available && !isEditing && (!preset.mask || hasMask);
+
+    const handleSubmit = async () => {
+        if (!prompt || !canSubmit) return;
+        await onSubmit(prompt, provider);
+    };
+
+    const handleKeyDown = async (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            await handleSubmit();
+        }
+    };
+
+    return (
+        <div
+            className="absolute z-50 bg-white rounded-2xl shadow-xl border border-gray-100 w-[450px] overflow-hidden"
+            style={style}
+            onMouseDown={(e) => e.stopPropagation()}
+        >
+            <div className="px-4 pt-3 flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900">{preset.label}</span>
+                <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="关闭">
+                    <X size={16} />
+                </button>
+            </div>
+
+            {/* Brush controls */}
+            {preset.mask && (
+                mask ? (
+                    <div className="px-4 pt-2 space-y-2 text-xs text-gray-600">
+                        <div className="flex items-center gap-2">
+                            {([['brush', Brush, '画笔'], ['eraser', Eraser, '橡皮擦']] as const).map(([tool, Icon, label]) => (
+                                <button
+                                    key={tool}
+                                    onClick={() => onBrushChange({ ...brush, tool })}
+                                    className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors ${
+                                        brush.tool === tool ? 'bg-purple-50 text-purple-600 font-medium' : 'hover:bg-gray-100'
+                                    }`}
+                                >
+                                    <Icon size={14} />
+                                    <span>{label}</span>
+                                </button>
+                            ))}
+                            <span className="flex-1 text-gray-400">{hasMask ? '' : '在图片上涂抹要修改的区域'}</span>
+                            <button
+                                onClick={() => onMaskChange({ ...mask, strokes: [] })}
+                                disabled={mask.strokes.length === 0}
+                                className="p-1 rounded-md hover:bg-gray-100 disabled:opacity-30"
+                                title="清除涂抹"
+                            >
+                                <RotateCcw size={14} />
+                            </button>
+                        </div>
+                        <label className="flex items-center gap-2">
+                            <span className="w-8 shrink-0">大小</span>
+                            <input
+                                type="range"
+                                min={getBrushSizeRange(mask).min}
+                                max={getBrushSizeRange(mask).max}
+                                value={brush.size}
+                                onChange={(e) => onBrushChange({ ...brush, size: Number(e.target.value) })}
+                                className="flex-1 accent-purple-500"
+                            />
+                            <span className="w-12 text-right font-mono">{brush.size}px</span>
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <span className="w-8 shrink-0">羽化</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={getMaxFeather(mask)}
+                                value={mask.feather}
+                                onChange={(e) => onMaskChange({ ...mask, feather: Number(e.target.value) })}
+                                className="flex-1 accent-purple-500"
+                            />
+                            <span className="w-12 text-right font-mono">{mask.feather}px</span>
+                        </label>
+                    </div>
+                ) : (
+                    <div className="px-4 pt-2 text-xs text-gray-400">正在读取图片尺寸...</div>
+                )
+            )}
+
+            <div className="p-4">
+                <textarea
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={preset.placeholder}
+                    className="w-full h-20 resize-none outline-none text-gray-700 placeholder-gray-400 bg-transparent"
+                    disabled={isEditing}
+                />
+            </div>
+
+            {/* Footer Controls */}
+            <div className="px-4 py-3 bg-gray-50/50 border-t border-gray-100 flex items-center justify-between">
+                <div className="relative">
+                    <button
+                        onClick={() => setShowProviderMenu(!showProviderMenu)}
+                        className="flex items-center gap-1.5 px-2 py-1 hover:bg-gray-100 rounded-lg transition-colors text-xs font-medium text-gray-700"
+                    >
+                        <div className="w-3.5 h-3.5 rounded-full bg-black flex items-center justify-center">
+                            <Sparkles size={8} className="text-white" />
+                        </div>
+                        <span>{available ? capabilities.label : '没有可用的编辑模型'}</span>
+                        {providers.length > 1 && <ChevronDown size={12} className="text-gray-400" />}
+                    </button>
+                    {showProviderMenu && providers.length > 1 && (
+                        <div className="absolute bottom-full mb-1 left-0 bg-white rounded-lg shadow-lg border border-gray-100 py-1 z-10 min-w-[140px]">
+                            {providers.map((p) => (
+                                <div
+                                    key={p.id}
+                                    onClick={() => {
+                                        setSelectedProvider(p.id);
+                                        setShowProviderMenu(false);
+                                    }}
+                                    className={`px-3 py-1 text-xs cursor-pointer hover:bg-gray-50 ${
+                                        provider === p.id ? 'text-blue-500 font-medium' : 'text-gray-700'
+                                    }`}
+                                >
+                                    {p.label}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <button
+                    onClick={handleSubmit}
+                    disabled={!canSubmit}
+                    className={`flex items-center gap-1.5 px-4 py-1.5 rounded-lg transition-all ${
+                        canSubmit
+                            ? 'bg-gray-900 text-white shadow-md hover:bg-gray-800'
+                            : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                    }`}
+                >
+                    <Zap size={16} className={isEditing ? 'animate-pulse' : 'fill-current'} />
+                    <span className="font-medium">{getImagePrice(getSupportedResolutions(provider)[0])}</span>
+                </button>
+            </div>
+        </div>
+    );
+}
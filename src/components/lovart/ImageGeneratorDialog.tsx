@@ -2,16 +2,23 @@
 
 import React, { useState, useRef } from 'react';
 import { X, Loader2, Sparkles, Image as ImageIcon, ChevronDown, Zap } from 'lucide-react';
+import { getImagePrice, ImageResolution as Resolution } from '@/lib/credit-prices';
+import {
+    AspectRatio,
+    fitImageOptions,
+    getSupportedAspectRatios,
+    getSupportedResolutions,
+    IMAGE_PROVIDER_CAPABILITIES,
+    ImageProviderId,
+} from '@/lib/image-options';
+import { useImageProviders } from '@/hooks/useImageProviders';
 
 interface ImageGeneratorDialogProps {
     isOpen: boolean;
     onClose: () => void;
-    onImageGenerated: (imageData: string) => void;
+    onImageGenerated: (imageUrl: string) => void;
 }
 
-type Resolution = '1K' | '2K' | '4K';
-type AspectRatio = '1:1' | '4:3' | '16:9';
-
 export function ImageGeneratorDialog({ isOpen, onClose, onImageGenerated }: ImageGeneratorDialogProps) {
     const [prompt, setPrompt] = useState('');
     const [isGenerating, setIsGenerating] = useState(false);
@@ -19,18 +26,26 @@ export function ImageGeneratorDialog({ isOpen, onClose, onImageGenerated }: Imag
     const [previewImage, setPreviewImage] = useState<string | null>(null);
 
     // New state for parameters
-    const [resolution, setResolution] = useState<Resolution>('1K');
-    const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
+    const { providers, defaultProvider } = useImageProviders();
+    const [selectedProvider, setSelectedProvider] = useState<ImageProviderId | null>(null);
+    const [selectedResolution, setResolution] = useState<Resolution>('1K');
+    const [selectedAspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
     const [referenceImage, setReferenceImage] = useState<File | null>(null);
 
     // Dropdown states
+    const [showProviderMenu, setShowProviderMenu] = useState(false);
     const [showResolutionMenu, setShowResolutionMenu] = useState(false);
     const [showAspectRatioMenu, setShowAspectRatioMenu] = useState(false);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const resolutions: Resolution[] = ['1K', '2K', '4K'];
-    const aspectRatios: AspectRatio[] = ['1:1', '4:3', '16:9'];
+    // Only offer what the chosen provider supports; the selection snaps to the nearest supported option
+    const provider = providers.find(p => p.id === selectedProvider)?.id ?? defaultProvider;
+    const capabilities = IMAGE_PROVIDER_CAPABILITIES[provider];
+    const { resolution, aspectRatio } = fitImageOptions(provider, selectedResolution, selectedAspectRatio);
+    const resolutions = getSupportedResolutions(provider);
+    const aspectRatios = getSupportedAspectRatios(resolution, provider);
+    const reference = capabilities.referenceImage ? referenceImage : null;
 
     if (!isOpen) return null;
 
@@ -46,12 +61,12 @@ export function ImageGeneratorDialog({ isOpen, onClose, onImageGenerated }: Imag
 
         try {
             let referenceDataBase64 = null;
-            if (referenceImage) {
+            if (reference) {
                 referenceDataBase64 = await new Promise<string>((resolve, reject) => {
                     const reader = new FileReader();
                     reader.onload = () => resolve(reader.result as string);
                     reader.onerror = reject;
-                    reader.readAsDataURL(referenceImage);
+                    reader.readAsDataURL(reference);
                 });
                 // Extract the base64 part
                 if (referenceDataBase64 && referenceDataBase64.includes(',')) {
@@ -66,10 +81,11 @@ export function ImageGeneratorDialog({ isOpen, onClose, onImageGenerated }: Imag
                 },
                 body: JSON.stringify({
                     prompt,
+                    provider,
                     resolution,
                     aspectRatio,
                     referenceImage: referenceDataBase64,
-                    mimeType: referenceImage?.type
+                    mimeType: reference?.type
                 }),
             });
 
@@ -79,7 +95,7 @@ export function ImageGeneratorDialog({ isOpen, onClose, onImageGenerated }: Imag
                 throw new Error(data.details || data.error || '生成失败');
             }
 
-            setPreviewImage(data.imageData);
+            setPreviewImage(data.imageUrl);
         } catch (err) {
             console.error('Generation error:', err);
             setError(err instanceof Error ? err.message : '生成图像时出错');
@@ -125,34 +141,56 @@ export function ImageGeneratorDialog({ isOpen, onClose, onImageGenerated }: Imag
                 <div className="px-6 py-4 flex items-center justify-between border-t border-gray-50">
                     <div className="flex items-center gap-4">
                         {/* Model Selector */}
-                        <div className="flex items-center gap-2 text-gray-700 font-medium cursor-pointer hover:bg-gray-50 px-2 py-1 rounded-lg transition-colors">
-                            <div className="w-5 h-5 bg-black rounded-full flex items-center justify-center">
-                                <Sparkles size={10} className="text-white" />
-                            </div>
-                            <div className="flex flex-col leading-none">
-                                <span className="text-sm">Nano Banana</span>
-                                <span className="text-xs text-gray-500">Pro</span>
+                        <div className="relative">
+                            <div
+                                onClick={() => setShowProviderMenu(!showProviderMenu)}
+                                className="flex items-center gap-2 text-gray-700 font-medium cursor-pointer hover:bg-gray-50 px-2 py-1 rounded-lg transition-colors"
+                            >
+                                <div className="w-5 h-5 bg-black rounded-full flex items-center justify-center">
+                                    <Sparkles size={10} className="text-white" />
+                                </div>
+                                <span className="text-sm">{capabilities.label}</span>
+                                {providers.length > 1 && <ChevronDown size={14} className="text-gray-400 ml-1" />}
                             </div>
-                            <ChevronDown size={14} className="text-gray-400 ml-1" />
+                            {showProviderMenu && providers.length > 1 && (
+                                <div className="absolute top-full mt-1 bg-white rounded-lg shadow-lg border border-gray-100 py-1 z-10 min-w-[140px]">
+                                    {providers.map((p) => (
+                                        <div
+                                            key={p.id}
+                                            onClick={() => {
+                                                setSelectedProvider(p.id);
+                                                setShowProviderMenu(false);
+                                            }}
+                                            className={`px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50 ${
+                                                provider === p.id ? 'text-blue-500 font-medium' : 'text-gray-700'
+                                            }`}
+                                        >
+                                            {p.label}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                         </div>
 
                         {/* Reference Image Upload */}
-                        <div className="relative">
-                            <input
-                                type="file"
-                                ref={fileInputRef}
-                                className="hidden"
-                                accept="image/*"
-                                onChange={handleFileSelect}
-                            />
-                            <button
-                                onClick={() => fileInputRef.current?.click()}
-                                className={`p-2 rounded-lg hover:bg-gray-100 transition-colors ${referenceImage ? 'text-blue-500 bg-blue-50' : 'text-gray-500'}`}
-                                title="Upload Reference Image"
-                            >
-                                <ImageIcon size={20} />
-                            </button>
-                        </div>
+                        {capabilities.referenceImage && (
+                            <div className="relative">
+                                <input
+                                    type="file"
+                                    ref={fileInputRef}
+                                    className="hidden"
+                                    accept="image/*"
+                                    onChange={handleFileSelect}
+                                />
+                                <button
+                                    onClick={() => fileInputRef.current?.click()}
+                                    className={`p-2 rounded-lg hover:bg-gray-100 transition-colors ${referenceImage ? 'text-blue-500 bg-blue-50' : 'text-gray-500'}`}
+                                    title="Upload Reference Image"
+                                >
+                                    <ImageIcon size={20} />
+                                </button>
+                            </div>
+                        )}
 
                         {/* Resolution Selector */}
                         <div className="relative">
@@ -170,6 +208,7 @@ export function ImageGeneratorDialog({ isOpen, onClose, onImageGenerated }: Imag
                                             key={res}
                                             onClick={() => {
                                                 setResolution(res);
+                                                setAspectRatio(fitImageOptions(provider, res, aspectRatio).aspectRatio);
                                                 setShowResolutionMenu(false);
                                             }}
                                             className={`px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50 ${
@@ -226,7 +265,7 @@ export function ImageGeneratorDialog({ isOpen, onClose, onImageGenerated }: Imag
                                 ) : (
                                     <>
                                         <Zap size={18} className="fill-gray-600" />
-                                        <span>40</span>
+                                        <span>{getImagePrice(resolution)}</span>
                                     </>
                                 )}
                             </button>
@@ -250,11 +289,11 @@ export function ImageGeneratorDialog({ isOpen, onClose, onImageGenerated }: Imag
                 </div>
 
                 {/* Reference Image Preview */}
-                {referenceImage && !previewImage && (
+                {reference && !previewImage && (
                     <div className="px-6 pb-4">
                         <div className="flex items-center gap-2 p-2 bg-blue-50 rounded-lg">
                             <ImageIcon size={16} className="text-blue-500" />
-                            <span className="text-sm text-blue-700 flex-1">{referenceImage.name}</span>
+                            <span className="text-sm text-blue-700 flex-1">{reference.name}</span>
                             <button
                                 onClick={() => setReferenceImage(null)}
                                 className="text-blue-500 hover:text-blue-700 p-1"
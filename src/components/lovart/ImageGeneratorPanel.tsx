@@ -2,13 +2,28 @@
 
 import React, { useState, useRef } from 'react';
 import { Sparkles, ChevronDown, Zap, Image as ImageIcon, Upload, X } from 'lucide-react';
-
-type Resolution = '1K' | '2K' | '4K';
-type AspectRatio = '1:1' | '4:3' | '16:9';
+import { getImagePrice, ImageResolution as Resolution } from '@/lib/credit-prices';
+import {
+    AspectRatio,
+    fitImageOptions,
+    getSupportedAspectRatios,
+    getSupportedResolutions,
+    IMAGE_PROVIDER_CAPABILITIES,
+    ImageProviderId,
+    MAX_VARIANTS,
+} from '@/lib/image-options';
+import { useImageProviders } from '@/hooks/useImageProviders';
 
 interface ImageGeneratorPanelProps {
     elementId: string;
-    onGenerate: (prompt: string, resolution: Resolution, aspectRatio: AspectRatio, referenceImage?: string) => Promise<void>;
+    onGenerate: (
+        prompt: string,
+        resolution: Resolution,
+        aspectRatio: AspectRatio,
+        referenceImage?: string,
+        count?: number,
+        provider?: ImageProviderId
+    ) => Promise<void>;
     isGenerating: boolean;
     style?: React.CSSProperties;
     canvasElements?: Array<{ id: string; type: string; content?: string; referenceImageId?: string }>;
@@ -16,8 +31,11 @@ interface ImageGeneratorPanelProps {
 
 export function ImageGeneratorPanel({ elementId, onGenerate, isGenerating, style, canvasElements }: ImageGeneratorPanelProps) {
     const [prompt, setPrompt] = useState('');
-    const [resolution, setResolution] = useState<Resolution>('1K');
-    const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
+    const { providers, defaultProvider } = useImageProviders();
+    const [selectedProvider, setSelectedProvider] = useState<ImageProviderId | null>(null);
+    const [selectedResolution, setResolution] = useState<Resolution>('1K');
+    const [selectedAspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
+    const [count, setCount] = useState(1);
     const [referenceImage, setReferenceImage] = useState<File | string | null>(null);
 
     // Auto-fill reference image from source
@@ -34,14 +52,26 @@ export function ImageGeneratorPanel({ elementId, onGenerate, isGenerating, style
     }, [elementId, canvasElements, referenceImage]);
 
     // Dropdown states
+    const [showProviderMenu, setShowProviderMenu] = useState(false);
     const [showResolutionMenu, setShowResolutionMenu] = useState(false);
     const [showAspectRatioMenu, setShowAspectRatioMenu] = useState(false);
+    const [showCountMenu, setShowCountMenu] = useState(false);
     const [showReferenceMenu, setShowReferenceMenu] = useState(false);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const resolutions: Resolution[] = ['1K', '2K', '4K'];
-    const aspectRatios: AspectRatio[] = ['1:1', '4:3', '16:9'];
+    // Only offer what the chosen provider supports; the selection snaps to the nearest supported option
+    const provider = providers.find(p => p.id === selectedProvider)?.id ?? defaultProvider;
+    const capabilities = IMAGE_PROVIDER_CAPABILITIES[provider];
+    const { resolution, aspectRatio } = fitImageOptions(provider, selectedResolution, selectedAspectRatio);
+    const resolutions = getSupportedResolutions(provider);
+    const aspectRatios = getSupportedAspectRatios(resolution, provider);
+    const counts = Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1);
+
+    const handleResolutionChange = (res: Resolution) => {
+        setResolution(res);
+        setAspectRatio(fitImageOptions(provider, res, aspectRatio).aspectRatio);
+    };
 
     const handleKeyDown = async (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' && !e.shiftKey) {
@@ -55,7 +85,7 @@ export function ImageGeneratorPanel({ elementId, onGenerate, isGenerating, style
     const handleGenerate = async () => {
         let referenceImageBase64: string | undefined = undefined;
 
-        if (referenceImage) {
+        if (referenceImage && capabilities.referenceImage) {
             if (typeof referenceImage === 'string') {
                 // It's already a base64 string from canvas
                 referenceImageBase64 = referenceImage;
@@ -78,7 +108,7 @@ export function ImageGeneratorPanel({ elementId, onGenerate, isGenerating, style
             }
         }
 
-        await onGenerate(prompt, resolution, aspectRatio, referenceImageBase64);
+        await onGenerate(prompt, resolution, aspectRatio, referenceImageBase64, count, provider);
     };
 
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -127,7 +157,7 @@ export function ImageGeneratorPanel({ elementId, onGenerate, isGenerating, style
             </div>
 
             {/* Reference Image Preview */}
-            {referenceImage && (
+            {referenceImage && capabilities.referenceImage && (
                 <div className="px-4 pb-2">
                     <div className="flex items-center gap-2 p-2 bg-blue-50 rounded-lg">
                         <ImageIcon size={14} className="text-blue-500" />
@@ -148,58 +178,83 @@ export function ImageGeneratorPanel({ elementId, onGenerate, isGenerating, style
             <div className="px-4 py-3 bg-gray-50/50 border-t border-gray-100 flex items-center justify-between">
                 <div className="flex items-center gap-2">
                     {/* Model Selector */}
-                    <button className="flex items-center gap-1.5 px-2 py-1 hover:bg-gray-100 rounded-lg transition-colors text-xs font-medium text-gray-700">
-                        <div className="w-3.5 h-3.5 rounded-full bg-black flex items-center justify-center">
-                            <Sparkles size={8} className="text-white" />
-                        </div>
-                        <span>Nano Banana Pro</span>
-                        <ChevronDown size={12} className="text-gray-400" />
-                    </button>
-
-                    {/* Reference Image Button */}
                     <div className="relative">
                         <button
-                            onClick={() => setShowReferenceMenu(!showReferenceMenu)}
-                            className={`p-1.5 hover:bg-gray-100 rounded-lg transition-colors ${
-                                referenceImage ? 'text-blue-500 bg-blue-50' : 'text-gray-600'
-                            }`}
-                            title="参考图"
+                            onClick={() => setShowProviderMenu(!showProviderMenu)}
+                            className="flex items-center gap-1.5 px-2 py-1 hover:bg-gray-100 rounded-lg transition-colors text-xs font-medium text-gray-700"
                         >
-                            <Upload size={16} />
+                            <div className="w-3.5 h-3.5 rounded-full bg-black flex items-center justify-center">
+                                <Sparkles size={8} className="text-white" />
+                            </div>
+                            <span>{capabilities.label}</span>
+                            {providers.length > 1 && <ChevronDown size={12} className="text-gray-400" />}
                         </button>
-                        {showReferenceMenu && (
+                        {showProviderMenu && providers.length > 1 && (
                             <div className="absolute bottom-full mb-1 left-0 bg-white rounded-lg shadow-lg border border-gray-100 py-1 z-10 min-w-[140px]">
-                                <div
-                                    onClick={() => {
-                                        fileInputRef.current?.click();
-                                        setShowReferenceMenu(false);
-                                    }}
-                                    className="px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50 text-gray-700"
-                                >
-                                    上传图片
-                                </div>
-                                {imageElements.length > 0 && (
-                                    <>
-                                        <div className="border-t border-gray-100 my-1"></div>
-                                        <div className="px-2 py-1 text-xs text-gray-500">画布图片</div>
-                                        <div className="max-h-[200px] overflow-y-auto">
-                                            {imageElements.map((el, idx) => (
-                                                <div
-                                                    key={el.id}
-                                                    onClick={() => handleCanvasImageSelect(el.content!)}
-                                                    className="px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50 text-gray-700 flex items-center gap-2"
-                                                >
-                                                    <ImageIcon size={14} />
-                                                    <span>图片 {idx + 1}</span>
-                                                </div>
-                                            ))}
-                                        </div>
-                                    </>
-                                )}
+                                {providers.map((p) => (
+                                    <div
+                                        key={p.id}
+                                        onClick={() => {
+                                            setSelectedProvider(p.id);
+                                            setShowProviderMenu(false);
+                                        }}
+                                        className={`px-3 py-1 text-xs cursor-pointer hover:bg-gray-50 ${
+                                            provider === p.id ? 'text-blue-500 font-medium' : 'text-gray-700'
+                                        }`}
+                                    >
+                                        {p.label}
+                                    </div>
+                                ))}
                             </div>
                         )}
                     </div>
 
+                    {/* Reference Image Button */}
+                    {capabilities.referenceImage && (
+                        <div className="relative">
+                            <button
+                                onClick={() => setShowReferenceMenu(!showReferenceMenu)}
+                                className={`p-1.5 hover:bg-gray-100 rounded-lg transition-colors ${
+                                    referenceImage ? 'text-blue-500 bg-blue-50' : 'text-gray-600'
+                                }`}
+                                title="参考图"
+                            >
+                                <Upload size={16} />
+                            </button>
+                            {showReferenceMenu && (
+                                <div className="absolute bottom-full mb-1 left-0 bg-white rounded-lg shadow-lg border border-gray-100 py-1 z-10 min-w-[140px]">
+                                    <div
+                                        onClick={() => {
+                                            fileInputRef.current?.click();
+                                            setShowReferenceMenu(false);
+                                        }}
+                                        className="px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50 text-gray-700"
+                                    >
+                                        上传图片
+                                    </div>
+                                    {imageElements.length > 0 && (
+                                        <>
+                                            <div className="border-t border-gray-100 my-1"></div>
+                                            <div className="px-2 py-1 text-xs text-gray-500">画布图片</div>
+                                            <div className="max-h-[200px] overflow-y-auto">
+                                                {imageElements.map((el, idx) => (
+                                                    <div
+                                                        key={el.id}
+                                                        onClick={() => handleCanvasImageSelect(el.content!)}
+                                                        className="px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50 text-gray-700 flex items-center gap-2"
+                                                    >
+                                                        <ImageIcon size={14} />
+                                                        <span>图片 {idx + 1}</span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Resolution Selector */}
                     <div className="relative">
                         <div
@@ -215,7 +270,7 @@ export function ImageGeneratorPanel({ elementId, onGenerate, isGenerating, style
                                     <div
                                         key={res}
                                         onClick={() => {
-                                            setResolution(res);
+                                            handleResolutionChange(res);
                                             setShowResolutionMenu(false);
                                         }}
                                         className={`px-3 py-1 text-xs cursor-pointer hover:bg-gray-50 ${
@@ -257,6 +312,36 @@ export function ImageGeneratorPanel({ elementId, onGenerate, isGenerating, style
                             </div>
                         )}
                     </div>
+
+                    {/* Variant Count Selector */}
+                    <div className="relative">
+                        <div
+                            onClick={() => setShowCountMenu(!showCountMenu)}
+                            className="flex items-center gap-1 text-xs text-gray-600 font-medium cursor-pointer hover:bg-gray-100 px-1.5 py-1 rounded-lg transition-colors"
+                            title="生成数量"
+                        >
+                            <span>{count}张</span>
+                            <ChevronDown size={12} />
+                        </div>
+                        {showCountMenu && (
+                            <div className="absolute bottom-full mb-1 bg-white rounded-lg shadow-lg border border-gray-100 py-1 z-10 min-w-[60px]">
+                                {counts.map((n) => (
+                                    <div
+                                        key={n}
+                                        onClick={() => {
+                                            setCount(n);
+                                            setShowCountMenu(false);
+                                        }}
+                                        className={`px-3 py-1 text-xs cursor-pointer hover:bg-gray-50 ${
+                                            count === n ? 'text-blue-500 font-medium' : 'text-gray-700'
+                                        }`}
+                                    >
+                                        {n}张
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
                 </div>
 
                 {/* Generate Button */}
@@ -270,7 +355,7 @@ export function ImageGeneratorPanel({ elementId, onGenerate, isGenerating, style
                     }`}
                 >
                     <Zap size={16} className={isGenerating ? 'animate-pulse' : 'fill-current'} />
-                    <span className="font-medium">40</span>
+                    <span className="font-medium">{getImagePrice(resolution, count)}</span>
                 </button>
             </div>
         </div>
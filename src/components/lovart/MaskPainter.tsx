@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageMask, MaskBrush, MaskPoint, MaskStroke, paintMaskCoverage } from '@/lib/image-mask';
+
+// The on-canvas preview doesn't need more pixels than this on its longer edge
+const PREVIEW_MAX_EDGE = 1024;
+
+interface MaskPainterProps {
+    mask: ImageMask;
+    brush: MaskBrush;
+    onChange: (mask: ImageMask) => void;
+}
+
+// Brush overlay for an image element in mask-editing mode. The element's box is mapped onto the whole image.
+export function MaskPainter({ mask, brush, onChange }: MaskPainterProps) {
+    const [currentStroke, setCurrentStroke] = useState<MaskStroke | null>(null);
+    const [hoverPoint, setHoverPoint] = useState<MaskPoint | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    const previewScale = Math.min(1, PREVIEW_MAX_EDGE / Math.max(mask.width, mask.height));
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.setTransform(previewScale, 0, 0, previewScale, 0, 0);
+        ctx.filter = mask.feather > 0 ? `blur(${mask.feather * previewScale}px)` : 'none';
+        paintMaskCoverage(ctx, currentStroke ? [...mask.strokes, currentStroke] : mask.strokes, 'rgb(168, 85, 247)');
+    }, [mask, currentStroke, previewScale]);
+
+    // Image pixel under the pointer, independent of canvas zoom and element size
+    const getPoint = (e: React.MouseEvent): MaskPoint => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return {
+            x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)) * mask.width,
+            y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)) * mask.height,
+        };
+    };
+
+    const finishStroke = () => {
+        if (currentStroke) {
+            onChange({ ...mask, strokes: [...mask.strokes, currentStroke] });
+            setCurrentStroke(null);
+        }
+    };
+
+    return (
+        <div
+            className="absolute inset-0 cursor-none rounded-lg overflow-hidden"
+            onMouseDown={(e) => {
+                e.stopPropagation();
+                setCurrentStroke({ tool: brush.tool, points: [getPoint(e)], size: brush.size });
+            }}
+            onMouseMove={(e) => {
+                const point = getPoint(e);
+                setHoverPoint(point);
+                if (!currentStroke) return;
+                e.stopPropagation();
+                setCurrentStroke(prev => prev ? { ...prev, points: [...prev.points, point] } : null);
+            }}
+            onMouseUp={finishStroke}
+            onMouseLeave={() => {
+                finishStroke();
+                setHoverPoint(null);
+            }}
+        >
+            <canvas
+                ref={canvasRef}
+                width={Math.round(mask.width * previewScale)}
+                height={Math.round(mask.height * previewScale)}
+                className="w-full h-full opacity-50 pointer-events-none"
+            />
+
+            {/* Brush outline */}
+            {hoverPoint && (
+                <svg
+                    className="absolute inset-0 w-full h-full pointer-events-none"
+                    viewBox={`0 0 ${mask.width} ${mask.height}`}
+                    preserveAspectRatio="none"
+                >
+                    <ellipse
+                        cx={hoverPoint.x}
+                        cy={hoverPoint.y}
+                        rx={brush.size / 2}
+                        ry={brush.size / 2}
+                        fill="none"
+                        stroke={brush.tool === 'eraser' ? '#ffffff' : 'rgb(168, 85, 247)'}
+                        strokeWidth={Math.max(mask.width, mask.height) / 400}
+                        strokeDasharray={brush.tool === 'eraser' ? `${brush.size / 10} ${brush.size / 10}` : undefined}
+                    />
+                </svg>
+            )}
+        </div>
+    );
+}
@@ -1,13 +1,26 @@
-import React from 'react';
-import { MoreHorizontal } from 'lucide-react';
+import React, { useState } from 'react';
+import { MoreHorizontal, Download } from 'lucide-react';
 
 interface ProjectCardProps {
     title: string;
     date: string;
     imageUrl?: string;
+    // Short label next to the title, e.g. for projects shared with the user
+    badge?: string;
+    onExport?: () => void;
 }
 
-export function ProjectCard({ title, date, imageUrl }: ProjectCardProps) {
+export function ProjectCard({ title, date, imageUrl, badge, onExport }: ProjectCardProps) {
+    const [showMenu, setShowMenu] = useState(false);
+
+    // The card sits inside a link; keep menu clicks from opening the project
+    const handleMenuClick = (e: React.MouseEvent, action?: () => void) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setShowMenu(action ? false : !showMenu);
+        action?.();
+    };
+
     return (
         <div className="group relative bg-white rounded-2xl overflow-hidden border border-gray-100 hover:shadow-lg transition-all duration-300 cursor-pointer">
             {/* Image Area */}
@@ -21,16 +34,35 @@ export function ProjectCard({ title, date, imageUrl }: ProjectCardProps) {
                 )}
 
                 {/* Overlay Actions */}
-                <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                    <button className="p-1.5 bg-white/90 backdrop-blur-sm rounded-lg hover:bg-white shadow-sm">
+                <div className={`absolute top-2 right-2 transition-opacity ${showMenu ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                    <button
+                        onClick={(e) => handleMenuClick(e)}
+                        className="p-1.5 bg-white/90 backdrop-blur-sm rounded-lg hover:bg-white shadow-sm"
+                    >
                         <MoreHorizontal size={16} className="text-gray-600" />
                     </button>
+                    {showMenu && onExport && (
+                        <div className="absolute right-0 mt-1 w-32 bg-white rounded-lg shadow-lg border border-gray-100 py-1 z-10">
+                            <button
+                                onClick={(e) => handleMenuClick(e, onExport)}
+                                className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+                            >
+                                <Download size={14} />
+                                导出项目
+                            </button>
+                        </div>
+                    )}
                 </div>
             </div>
 
             {/* Content */}
             <div className="p-4">
-                <h3 className="font-medium text-gray-900 truncate">{title}</h3>
+                <div className="flex items-center gap-2">
+                    <h3 className="font-medium text-gray-900 truncate">{title}</h3>
+                    {badge && (
+                        <span className="shrink-0 px-1.5 py-0.5 rounded bg-gray-100 text-[10px] text-gray-500">{badge}</span>
+                    )}
+                </div>
                 <p className="text-xs text-gray-500 mt-1">{date}</p>
             </div>
         </div>
@@ -0,0 +1,249 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, UserPlus, Trash2 } from 'lucide-react';
+import { canManageMembers, PROJECT_ROLES, ProjectMember, ProjectRole } from '@/lib/project-members';
+import { ShareLinks } from './ShareLinks';
+
+interface ShareDialogProps {
+    projectId: string;
+    // The signed-in user, to offer leaving instead of removing
+    userId: string;
+    onClose: () => void;
+    // Called after the user removed themselves from the project
+    onLeave?: () => void;
+}
+
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+    owner: '所有者',
+    editor: '可编辑',
+    commenter: '可评论',
+    viewer: '仅查看',
+};
+
+// Most access first, as people pick roles in menus
+const ROLE_OPTIONS = [...PROJECT_ROLES].reverse();
+
+async function readError(response: Response, fallback: string) {
+    const data = await response.json().catch(() => ({}));
+    return data.details || data.error || fallback;
+}
+
+export function ShareDialog({ projectId, userId, onClose, onLeave }: ShareDialogProps) {
+    const [members, setMembers] = useState<ProjectMember[]>([]);
+    const [role, setRole] = useState<ProjectRole | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [email, setEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<ProjectRole>('editor');
+    const [isInviting, setIsInviting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch(`/api/project-members?projectId=${encodeURIComponent(projectId)}`)
+            .then(async response => {
+                if (!response.ok) throw new Error(await readError(response, '加载成员失败'));
+                return response.json();
+            })
+            .then(data => {
+                if (cancelled) return;
+                setMembers(data.members);
+                setRole(data.role);
+            })
+            .catch(loadError => {
+                console.error('Failed to load project members:', loadError);
+                if (!cancelled) setError(loadError.message);
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [projectId]);
+
+    const canManage = canManageMembers(role);
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!email.trim()) return;
+
+        setIsInviting(true);
+        setError(null);
+        setNotice(null);
+        try {
+            const response = await fetch('/api/project-members', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ projectId, email, role: inviteRole }),
+            });
+            if (!response.ok) throw new Error(await readError(response, '邀请失败'));
+            const { member, invitationSent } = await response.json();
+            setMembers(prev => [...prev, member]);
+            setEmail('');
+            // 邀请按邮箱认领：没有账号的人必须用这个邮箱注册登录才能看到项目
+            if (!member.userId) {
+                setNotice(invitationSent
+                    ? `已向 ${member.email} 发送注册邀请，对方需使用该邮箱注册登录后才能加入`
+                    : `邀请邮件发送失败，请告知对方使用 ${member.email} 注册登录后加入`);
+            }
+        } catch (inviteError) {
+            console.error('Invite failed:', inviteError);
+            setError(inviteError instanceof Error ? inviteError.message : '邀请失败');
+        } finally {
+            setIsInviting(false);
+        }
+    };
+
+    const handleRoleChange = async (member: ProjectMember, nextRole: ProjectRole) => {
+        setError(null);
+        try {
+            const response = await fetch('/api/project-members', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ projectId, memberId: member.id, role: nextRole }),
+            });
+            if (!response.ok) throw new Error(await readError(response, '修改权限失败'));
+            setMembers(prev => prev.map(m => (m.id === member.id ? { ...m, role: nextRole } : m)));
+        } catch (updateError) {
+            console.error('Role change failed:', updateError);
+            setError(updateError instanceof Error ? updateError.message : '修改权限失败');
+        }
+    };
+
+    const handleRemove = async (member: ProjectMember) => {
+        const isSelf = member.userId === userId;
+        if (!confirm(isSelf ? '确定退出这个项目吗？' : `确定移除 ${member.name || member.email} 吗？`)) return;
+
+        setError(null);
+        try {
+            const response = await fetch(
+                `/api/project-members?projectId=${encodeURIComponent(projectId)}&memberId=${encodeURIComponent(member.id)}`,
+                { method: 'DELETE' }
+            );
+            if (!response.ok) throw new Error(await readError(response, '移除失败'));
+            setMembers(prev => prev.filter(m => m.id !== member.id));
+            if (isSelf) onLeave?.();
+        } catch (removeError) {
+            console.error('Remove member failed:', removeError);
+            setError(removeError instanceof Error ? removeError.message : '移除失败');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/20" onMouseDown={onClose}>
+            <div
+                className="bg-white rounded-2xl shadow-xl border border-gray-100 w-[420px] overflow-hidden"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <div className="px-4 pt-3 flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900">共享</span>
+                    <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="关闭">
+                        <X size={16} />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-4 text-xs text-gray-600">
+                    {canManage && (
+                        <form onSubmit={handleInvite} className="flex items-center gap-2">
+                            <input
+                                type="email"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                placeholder="输入邮箱邀请成员"
+                                className="flex-1 min-w-0 bg-gray-50 rounded-md px-2 py-1.5 text-sm outline-none"
+                            />
+                            <select
+                                value={inviteRole}
+                                onChange={(e) => setInviteRole(e.target.value as ProjectRole)}
+                                className="bg-gray-50 rounded-md px-2 py-1.5 outline-none"
+                            >
+                                {ROLE_OPTIONS.map(option => (
+                                    <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                                ))}
+                            </select>
+                            <button
+                                type="submit"
+                                disabled={isInviting || !email.trim()}
+                                className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-black text-white text-sm hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                            >
+                                {isInviting ? <Loader2 size={14} className="animate-spin" /> : <UserPlus size={14} />}
+                                <span>邀请</span>
+                            </button>
+                        </form>
+                    )}
+
+                    {canManage && !notice && (
+                        <p className="text-gray-400">对方需使用收到邀请的邮箱地址登录才能加入</p>
+                    )}
+
+                    {notice && <p className="text-gray-500">{notice}</p>}
+                    {error && <p className="text-red-500">{error}</p>}
+
+                    {isLoading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader2 size={16} className="animate-spin text-gray-400" />
+                        </div>
+                    ) : (
+                        <ul className="space-y-2 max-h-72 overflow-y-auto">
+                            {members.map((member, index) => {
+                                // The first entry is the creator, who cannot be changed or removed
+                                const isCreator = index === 0;
+                                const isSelf = member.userId === userId;
+                                return (
+                                    <li key={member.id} className="flex items-center gap-2">
+                                        <div className="w-7 h-7 rounded-full bg-gray-100 overflow-hidden flex items-center justify-center text-gray-500 font-medium shrink-0">
+                                            {member.avatarUrl ? (
+                                                <img src={member.avatarUrl} alt="" className="w-full h-full object-cover" />
+                                            ) : (
+                                                (member.name || member.email).slice(0, 1).toUpperCase()
+                                            )}
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-sm text-gray-800 truncate">
+                                                {member.name || member.email}
+                                                {isSelf && <span className="text-gray-400">（你）</span>}
+                                            </div>
+                                            <div className="text-gray-400 truncate">
+                                                {member.userId ? member.email : `${member.email} · 等待加入`}
+                                            </div>
+                                        </div>
+                                        {canManage && !isCreator ? (
+                                            <select
+                                                value={member.role}
+                                                onChange={(e) => handleRoleChange(member, e.target.value as ProjectRole)}
+                                                className="bg-gray-50 rounded-md px-2 py-1 outline-none"
+                                            >
+                                                {ROLE_OPTIONS.map(option => (
+                                                    <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                                                ))}
+                                            </select>
+                                        ) : (
+                                            <span className="px-2">{ROLE_LABELS[member.role]}</span>
+                                        )}
+                                        {!isCreator && (canManage || isSelf) && (
+                                            <button
+                                                onClick={() => handleRemove(member)}
+                                                className="p-1 text-gray-400 hover:text-red-500 rounded"
+                                                title={isSelf ? '退出项目' : '移除'}
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+
+                    {!canManage && !isLoading && (
+                        <p className="text-gray-400">只有所有者可以邀请成员或修改权限</p>
+                    )}
+
+                    {canManage && <ShareLinks projectId={projectId} />}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Link2, Loader2, Copy, Check, Trash2, Lock } from 'lucide-react';
+import { useSupabase } from '@/hooks/useSupabase';
+import {
+    createShareLink,
+    deleteShareLink,
+    isShareLinkExpired,
+    listShareLinks,
+    SHARE_LINK_EXPIRY_DAYS,
+    ShareLink,
+    shareLinkUrl,
+} from '@/lib/share-links';
+
+interface ShareLinksProps {
+    projectId: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function expiryLabel(days: number | null) {
+    return days === null ? '永不过期' : `${days} 天后过期`;
+}
+
+/**
+ * Public read-only links for the share dialog; owners only.
+ */
+export function ShareLinks({ projectId }: ShareLinksProps) {
+    const supabase = useSupabase();
+    const [links, setLinks] = useState<ShareLink[]>([]);
+    const [expiryDays, setExpiryDays] = useState<number | null>(7);
+    const [password, setPassword] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!supabase) return;
+        listShareLinks(supabase, projectId)
+            .then(setLinks)
+            .catch(loadError => {
+                console.error('Failed to load share links:', loadError);
+                setError('加载分享链接失败');
+            });
+    }, [supabase, projectId]);
+
+    const handleCreate = async () => {
+        if (!supabase) return;
+        setIsCreating(true);
+        setError(null);
+        try {
+            const link = await createShareLink(supabase, projectId, {
+                expiresAt: expiryDays === null ? null : new Date(Date.now() + expiryDays * DAY_MS).toISOString(),
+                password: password.trim() || null,
+            });
+            setLinks(prev => [link, ...prev]);
+            setPassword('');
+        } catch (createError) {
+            console.error('Failed to create share link:', createError);
+            setError('创建分享链接失败');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleCopy = async (link: ShareLink) => {
+        try {
+            await navigator.clipboard.writeText(shareLinkUrl(window.location.origin, link.token));
+            setCopiedId(link.id);
+            setTimeout(() => setCopiedId(prev => (prev === link.id ? null : prev)), 2000);
+        } catch (copyError) {
+            console.error('Failed to copy share link:', copyError);
+        }
+    };
+
+    const handleDelete = async (link: ShareLink) => {
+        if (!supabase || !confirm('停用后，持有这个链接的人将无法再查看画布。确定停用吗？')) return;
+        setError(null);
+        try {
+            await deleteShareLink(supabase, link.id);
+            setLinks(prev => prev.filter(l => l.id !== link.id));
+        } catch (deleteError) {
+            console.error('Failed to delete share link:', deleteError);
+            setError('停用分享链接失败');
+        }
+    };
+
+    return (
+        <div className="space-y-2 pt-3 border-t border-gray-100">
+            <span className="font-medium text-gray-700">公开链接</span>
+            <p className="text-gray-400">无需登录即可只读查看画布</p>
+
+            <div className="flex items-center gap-2">
+                <select
+                    value={expiryDays ?? ''}
+                    onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+                    className="bg-gray-50 rounded-md px-2 py-1.5 outline-none"
+                >
+                    {SHARE_LINK_EXPIRY_DAYS.map(days => (
+                        <option key={days ?? 'never'} value={days ?? ''}>{expiryLabel(days)}</option>
+                    ))}
+                </select>
+                <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="访问密码（可选）"
+                    autoComplete="new-password"
+                    className="flex-1 min-w-0 bg-gray-50 rounded-md px-2 py-1.5 outline-none"
+                />
+                <button
+                    onClick={handleCreate}
+                    disabled={isCreating || !supabase}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                    {isCreating ? <Loader2 size={14} className="animate-spin" /> : <Link2 size={14} />}
+                    <span>创建</span>
+                </button>
+            </div>
+
+            {error && <p className="text-red-500">{error}</p>}
+
+            {links.length > 0 && (
+                <ul className="space-y-1.5 max-h-40 overflow-y-auto">
+                    {links.map(link => {
+                        const expired = isShareLinkExpired(link);
+                        return (
+                            <li key={link.id} className={`flex items-center gap-2 ${expired ? 'opacity-50' : ''}`}>
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-gray-800 truncate">…{link.token.slice(-8)}</div>
+                                    <div className="flex items-center gap-1 text-gray-400">
+                                        {link.hasPassword && <Lock size={10} />}
+                                        <span>
+                                            {expired
+                                                ? '已过期'
+                                                : link.expiresAt
+                                                    ? `${new Date(link.expiresAt).toLocaleString('zh-CN')} 过期`
+                                                    : '永不过期'}
+                                        </span>
+                                    </div>
+                                </div>
+                                {!expired && (
+                                    <button
+                                        onClick={() => handleCopy(link)}
+                                        className="p-1 text-gray-400 hover:text-gray-700 rounded"
+                                        title="复制链接"
+                                    >
+                                        {copiedId === link.id ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => handleDelete(link)}
+                                    className="p-1 text-gray-400 hover:text-red-500 rounded"
+                                    title="停用链接"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
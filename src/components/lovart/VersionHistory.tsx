@@ -0,0 +1,356 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Loader2, Bookmark, History, Trash2, RotateCcw, Copy, Eye } from 'lucide-react';
+import type { CanvasElement } from './CanvasArea';
+import { useSupabase } from '@/hooks/useSupabase';
+import { getElementBounds } from '@/lib/export';
+import { createSnapshot, deleteSnapshot, listSnapshots, SnapshotDiff, SnapshotSummary } from '@/lib/project-snapshots';
+
+// Colors of the diff overlay, also used by the legend
+const DIFF_COLORS = {
+    added: '#16A34A',
+    removed: '#DC2626',
+    moved: '#2563EB',
+    changed: '#D97706',
+} as const;
+
+const DIFF_LABELS: Record<keyof SnapshotDiff, string> = {
+    added: '新增',
+    removed: '删除',
+    moved: '移动',
+    changed: '修改',
+};
+
+function formatTime(value: string) {
+    return new Date(value).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+interface VersionHistoryPanelProps {
+    projectId: string;
+    canEdit: boolean;
+    // The snapshot shown on the canvas, if any
+    previewId: string | null;
+    isLoadingPreview: boolean;
+    // Changes from the previewed snapshot to the current board
+    diff: SnapshotDiff | null;
+    showDiff: boolean;
+    onShowDiffChange: (show: boolean) => void;
+    // Saves pending edits so a checkpoint captures the board as it looks
+    onBeforeCheckpoint: () => Promise<void>;
+    onPreview: (snapshot: SnapshotSummary) => void;
+    onExitPreview: () => void;
+    onRestore: () => Promise<void>;
+    onRestoreAsCopy: () => Promise<void>;
+    onClose: () => void;
+}
+
+/**
+ * Version history for the canvas: named checkpoints and automatic
+ * snapshots, with preview, diff against the board and restore.
+ */
+export function VersionHistoryPanel({
+    projectId,
+    canEdit,
+    previewId,
+    isLoadingPreview,
+    diff,
+    showDiff,
+    onShowDiffChange,
+    onBeforeCheckpoint,
+    onPreview,
+    onExitPreview,
+    onRestore,
+    onRestoreAsCopy,
+    onClose,
+}: VersionHistoryPanelProps) {
+    const supabase = useSupabase();
+    const [snapshots, setSnapshots] = useState<SnapshotSummary[] | null>(null);
+    const [namedOnly, setNamedOnly] = useState(false);
+    const [name, setName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(() => {
+        if (!supabase) return;
+        listSnapshots(supabase, projectId)
+            .then(setSnapshots)
+            .catch(loadError => {
+                console.error('Failed to load snapshots:', loadError);
+                setError('加载历史版本失败');
+            });
+    }, [supabase, projectId]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleCheckpoint = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!supabase || !name.trim()) return;
+
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onBeforeCheckpoint();
+            const snapshot = await createSnapshot(supabase, projectId, name);
+            if (snapshot) setSnapshots(prev => [snapshot, ...(prev ?? [])]);
+            setName('');
+        } catch (saveError) {
+            console.error('Failed to create checkpoint:', saveError);
+            setError('保存版本失败');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (snapshot: SnapshotSummary) => {
+        if (!supabase || !confirm(`删除版本「${snapshot.name || '自动保存'}」？`)) return;
+        setError(null);
+        try {
+            await deleteSnapshot(supabase, snapshot.id);
+            setSnapshots(prev => prev?.filter(s => s.id !== snapshot.id) ?? null);
+            if (snapshot.id === previewId) onExitPreview();
+        } catch (deleteError) {
+            console.error('Failed to delete snapshot:', deleteError);
+            setError('删除版本失败');
+        }
+    };
+
+    const handleRestore = async (restore: () => Promise<void>, failure: string) => {
+        setIsRestoring(true);
+        setError(null);
+        try {
+            await restore();
+            refresh();
+        } catch (restoreError) {
+            console.error(`${failure}:`, restoreError);
+            setError(failure);
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    const visible = snapshots?.filter(snapshot => !namedOnly || snapshot.name) ?? [];
+
+    return (
+        <div className="flex flex-col h-full bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
+            <div className="px-4 pt-3 pb-2 flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900">历史版本</span>
+                <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="关闭">
+                    <X size={16} />
+                </button>
+            </div>
+
+            {canEdit && (
+                <form onSubmit={handleCheckpoint} className="px-4 pb-3 flex items-center gap-2">
+                    <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="为当前画布命名一个版本"
+                        maxLength={80}
+                        className="flex-1 min-w-0 bg-gray-50 rounded-md px-2 py-1.5 text-sm outline-none"
+                    />
+                    <button
+                        type="submit"
+                        disabled={isSaving || !name.trim() || !supabase}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-black text-white text-sm hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                    >
+                        {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Bookmark size={14} />}
+                        <span>保存</span>
+                    </button>
+                </form>
+            )}
+
+            <label className="px-4 pb-2 flex items-center gap-2 text-xs text-gray-600">
+                <input type="checkbox" checked={namedOnly} onChange={(e) => setNamedOnly(e.target.checked)} />
+                只显示命名版本
+            </label>
+
+            {error && <p className="px-4 pb-2 text-xs text-red-500">{error}</p>}
+
+            <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-2">
+                {snapshots === null && !error && (
+                    <div className="flex justify-center py-6">
+                        <Loader2 size={16} className="animate-spin text-gray-400" />
+                    </div>
+                )}
+
+                {snapshots !== null && visible.length === 0 && (
+                    <div className="flex flex-col items-center text-center text-gray-400 text-xs py-10 gap-2">
+                        <History size={20} />
+                        <span>{namedOnly ? '还没有命名版本' : '还没有历史版本，编辑时会定期自动保存'}</span>
+                    </div>
+                )}
+
+                {visible.map(snapshot => {
+                    const isPreviewing = snapshot.id === previewId;
+                    return (
+                        <div
+                            key={snapshot.id}
+                            onClick={() => (isPreviewing ? onExitPreview() : onPreview(snapshot))}
+                            className={`group rounded-xl border p-3 cursor-pointer transition-colors ${isPreviewing ? 'border-blue-300 bg-blue-50/30' : 'border-gray-100 hover:border-gray-200'}`}
+                        >
+                            <div className="flex items-center gap-2">
+                                {snapshot.name ? <Bookmark size={14} className="text-gray-700 shrink-0" /> : <History size={14} className="text-gray-400 shrink-0" />}
+                                <span className={`flex-1 min-w-0 truncate text-sm ${snapshot.name ? 'text-gray-900 font-medium' : 'text-gray-600'}`}>
+                                    {snapshot.name || '自动保存'}
+                                </span>
+                                {isPreviewing && isLoadingPreview && <Loader2 size={14} className="animate-spin text-gray-400" />}
+                                {isPreviewing && !isLoadingPreview && <Eye size={14} className="text-blue-600" />}
+                                {canEdit && (
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleDelete(snapshot);
+                                        }}
+                                        className="p-1 text-gray-400 hover:text-red-500 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title="删除版本"
+                                    >
+                                        <Trash2 size={12} />
+                                    </button>
+                                )}
+                            </div>
+                            <div className="mt-1 text-xs text-gray-400">
+                                {formatTime(snapshot.createdAt)} · {snapshot.title} · {snapshot.elementCount} 个元素
+                            </div>
+
+                            {isPreviewing && !isLoadingPreview && diff && (
+                                <div className="mt-3 space-y-3" onClick={(e) => e.stopPropagation()}>
+                                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600">
+                                        <span className="text-gray-400">与当前画布相比</span>
+                                        {(Object.keys(DIFF_LABELS) as (keyof SnapshotDiff)[]).map(kind => (
+                                            <span key={kind} className="flex items-center gap-1">
+                                                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: DIFF_COLORS[kind] }} />
+                                                {DIFF_LABELS[kind]} {diff[kind].length}
+                                            </span>
+                                        ))}
+                                    </div>
+                                    <label className="flex items-center gap-2 text-xs text-gray-600">
+                                        <input type="checkbox" checked={showDiff} onChange={(e) => onShowDiffChange(e.target.checked)} />
+                                        在画布上标出差异
+                                    </label>
+                                    <div className="flex items-center gap-2">
+                                        {canEdit && (
+                                            <button
+                                                onClick={() => {
+                                                    if (!confirm('用这个版本替换当前画布？当前内容会先自动保存为一个版本。')) return;
+                                                    handleRestore(onRestore, '恢复版本失败');
+                                                }}
+                                                disabled={isRestoring}
+                                                className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-black text-white text-xs hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                                            >
+                                                {isRestoring ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                                                <span>恢复</span>
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => handleRestore(onRestoreAsCopy, '恢复为副本失败')}
+                                            disabled={isRestoring}
+                                            className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-gray-200 text-gray-700 text-xs hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                                        >
+                                            <Copy size={12} />
+                                            <span>恢复为副本</span>
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
+
+interface SnapshotDiffOverlayProps {
+    diff: SnapshotDiff;
+    // The previewed snapshot and the live board, for resolving connector bounds
+    snapshotElements: CanvasElement[];
+    currentElements: CanvasElement[];
+    scale: number;
+    pan: { x: number; y: number };
+}
+
+/**
+ * Outlines what changed since the previewed snapshot: removed and changed
+ * elements where they were, added ones as ghosts where they are now, and
+ * moved ones with an arrow to their new place.
+ */
+export function SnapshotDiffOverlay({ diff, snapshotElements, currentElements, scale, pan }: SnapshotDiffOverlayProps) {
+    const toScreen = (el: CanvasElement, elements: CanvasElement[]) => {
+        const bounds = getElementBounds(el, elements);
+        if (!bounds) return null;
+        return {
+            x: bounds.x * scale + pan.x,
+            y: bounds.y * scale + pan.y,
+            width: bounds.width * scale,
+            height: bounds.height * scale,
+        };
+    };
+
+    const outline = (key: string, box: ReturnType<typeof toScreen>, color: string, label: string, dashed = false) => box && (
+        <div
+            key={key}
+            className="absolute rounded-sm"
+            style={{
+                left: box.x - 3,
+                top: box.y - 3,
+                width: box.width + 6,
+                height: box.height + 6,
+                border: `2px ${dashed ? 'dashed' : 'solid'} ${color}`,
+                backgroundColor: dashed ? `${color}0D` : undefined,
+            }}
+        >
+            <span
+                className="absolute -top-5 left-0 px-1.5 rounded text-[10px] font-medium text-white whitespace-nowrap"
+                style={{ backgroundColor: color }}
+            >
+                {label}
+            </span>
+        </div>
+    );
+
+    const moves = diff.moved
+        .map(({ before, after }) => ({
+            id: before.id,
+            from: toScreen(before, snapshotElements),
+            to: toScreen(after, currentElements),
+        }))
+        .filter(move => move.from && move.to);
+
+    return (
+        <div className="absolute inset-0 pointer-events-none z-40 overflow-hidden">
+            <svg className="absolute inset-0 w-full h-full">
+                <defs>
+                    <marker id="snapshot-diff-arrow" markerWidth="8" markerHeight="8" refX="7" refY="3" orient="auto">
+                        <polygon points="0 0, 8 3, 0 6" fill={DIFF_COLORS.moved} />
+                    </marker>
+                </defs>
+                {moves.map(({ id, from, to }) => (
+                    <line
+                        key={id}
+                        x1={from!.x + from!.width / 2}
+                        y1={from!.y + from!.height / 2}
+                        x2={to!.x + to!.width / 2}
+                        y2={to!.y + to!.height / 2}
+                        stroke={DIFF_COLORS.moved}
+                        strokeWidth={2}
+                        strokeDasharray="6 4"
+                        markerEnd="url(#snapshot-diff-arrow)"
+                    />
+                ))}
+            </svg>
+
+            {diff.removed.map(el => outline(`removed:${el.id}`, toScreen(el, snapshotElements), DIFF_COLORS.removed, DIFF_LABELS.removed))}
+            {/* Elements that also moved are outlined as moves only */}
+            {diff.changed
+                .filter(({ before }) => !diff.moved.some(move => move.before.id === before.id))
+                .map(({ before }) => outline(`changed:${before.id}`, toScreen(before, snapshotElements), DIFF_COLORS.changed, DIFF_LABELS.changed))}
+            {moves.map(({ id, from }) => outline(`moved-from:${id}`, from, DIFF_COLORS.moved, DIFF_LABELS.moved))}
+            {moves.map(({ id, to }) => outline(`moved-to:${id}`, to, DIFF_COLORS.moved, '现在位置', true))}
+            {diff.added.map(el => outline(`added:${el.id}`, toScreen(el, currentElements), DIFF_COLORS.added, DIFF_LABELS.added, true))}
+        </div>
+    );
+}
@@ -2,27 +2,30 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Sparkles, ChevronDown, Zap, Image as ImageIcon, Upload, X, Video, Loader2 } from 'lucide-react';
-
-type VideoSize = '720x1280' | '1280x720' | '1024x1792' | '1792x1024';
-type VideoSeconds = 10 | 15;
+import { getVideoPrice, VIDEO_DURATIONS, VIDEO_SIZES, VideoSeconds, VideoSize } from '@/lib/credit-prices';
+import type { VideoJob } from '@/lib/generation-jobs';
 
 interface VideoGeneratorPanelProps {
     elementId: string;
-    onGenerate: (videoUrl: string) => Promise<void>;
+    projectId: string | null;
+    // In-flight job started from this element, polled by the canvas
+    job?: VideoJob;
+    onJobStarted: (job: VideoJob) => void;
+    onCancelJob: (jobId: string) => Promise<void>;
     isGenerating: boolean;
     style?: React.CSSProperties;
     canvasElements?: Array<{ id: string; type: string; content?: string; referenceImageId?: string }>;
 }
 
-export function VideoGeneratorPanel({ elementId, onGenerate, isGenerating: externalIsGenerating, style, canvasElements }: VideoGeneratorPanelProps) {
+export function VideoGeneratorPanel({ elementId, projectId, job, onJobStarted, onCancelJob, style, canvasElements }: VideoGeneratorPanelProps) {
     const [prompt, setPrompt] = useState('');
     const [size, setSize] = useState<VideoSize>('720x1280');
     const [seconds, setSeconds] = useState<VideoSeconds>(10);
     const [referenceImage, setReferenceImage] = useState<File | string | null>(null);
-    const [taskId, setTaskId] = useState<string | null>(null);
-    const [progress, setProgress] = useState(0);
-    const [status, setStatus] = useState<string>('');
-    const [isGenerating, setIsGenerating] = useState(false);
+    const [isStarting, setIsStarting] = useState(false);
+    const [isCancelling, setIsCancelling] = useState(false);
+    const isGenerating = isStarting || !!job;
+    const progress = job?.progress ?? 0;
 
     // Dropdown states
     const [showSizeMenu, setShowSizeMenu] = useState(false);
@@ -30,10 +33,9 @@ export function VideoGeneratorPanel({ elementId, onGenerate, isGenerating: exter
     const [showReferenceMenu, setShowReferenceMenu] = useState(false);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
-    const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-    const sizes: VideoSize[] = ['720x1280', '1280x720', '1024x1792', '1792x1024'];
-    const secondsOptions: VideoSeconds[] = [10, 15];
+    const sizes = VIDEO_SIZES;
+    const secondsOptions = VIDEO_DURATIONS;
 
     // Auto-fill reference image from source
     useEffect(() => {
@@ -48,53 +50,6 @@ export function VideoGeneratorPanel({ elementId, onGenerate, isGenerating: exter
         }
     }, [elementId, canvasElements, referenceImage]);
 
-    // Poll for video status
-    useEffect(() => {
-        if (taskId && isGenerating) {
-            pollingIntervalRef.current = setInterval(async () => {
-                try {
-                    const response = await fetch(`/api/video-status?taskId=${taskId}`);
-                    const data = await response.json();
-
-                    console.log('Video status:', data);
-                    
-                    setStatus(data.status);
-                    setProgress(data.progress || 0);
-
-                    // 当 progress 达到 100 且有视频 URL 时，视频准备好了
-                    if (data.progress === 100 && data.videoUrl) {
-                        if (pollingIntervalRef.current) {
-                            clearInterval(pollingIntervalRef.current);
-                        }
-                        console.log('Video ready! URL:', data.videoUrl);
-                        await onGenerate(data.videoUrl);
-                        setIsGenerating(false);
-                        setTaskId(null);
-                        setProgress(0);
-                        setStatus('');
-                    } else if (data.status === 'failed') {
-                        if (pollingIntervalRef.current) {
-                            clearInterval(pollingIntervalRef.current);
-                        }
-                        setIsGenerating(false);
-                        setTaskId(null);
-                        setProgress(0);
-                        setStatus('');
-                        alert('视频生成失败，请重试');
-                    }
-                } catch (error) {
-                    console.error('Error polling video status:', error);
-                }
-            }, 3000); // Poll every 3 seconds
-
-            return () => {
-                if (pollingIntervalRef.current) {
-                    clearInterval(pollingIntervalRef.current);
-                }
-            };
-        }
-    }, [taskId, isGenerating, onGenerate]);
-
     const handleKeyDown = async (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
@@ -105,7 +60,7 @@ export function VideoGeneratorPanel({ elementId, onGenerate, isGenerating: exter
     };
 
     const handleGenerate = async () => {
-        setIsGenerating(true);
+        setIsStarting(true);
         let referenceImageBase64: string | undefined = undefined;
 
         if (referenceImage) {
@@ -139,6 +94,8 @@ export function VideoGeneratorPanel({ elementId, onGenerate, isGenerating: exter
                     seconds,
                     size,
                     referenceImage: referenceImageBase64,
+                    projectId,
+                    elementId,
                 }),
             });
 
@@ -148,14 +105,27 @@ export function VideoGeneratorPanel({ elementId, onGenerate, isGenerating: exter
                 throw new Error(data.details || data.error || '生成失败');
             }
 
-            console.log('Video generation started:', data);
-            setTaskId(data.taskId);
-            setStatus(data.status);
-            // 轮询会在 useEffect 中自动开始
+            console.log('Video generation started:', data.job);
+            // 画布负责轮询，关闭面板或刷新页面后任务会继续
+            onJobStarted(data.job);
         } catch (error) {
             console.error('Error starting video generation:', error);
             alert(error instanceof Error ? error.message : '启动视频生成失败');
-            setIsGenerating(false);
+        } finally {
+            setIsStarting(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!job || isCancelling) return;
+        setIsCancelling(true);
+        try {
+            await onCancelJob(job.id);
+        } catch (error) {
+            console.error('Error cancelling video generation:', error);
+            alert(error instanceof Error ? error.message : '取消失败');
+        } finally {
+            setIsCancelling(false);
         }
     };
 
@@ -223,7 +193,7 @@ export function VideoGeneratorPanel({ elementId, onGenerate, isGenerating: exter
             )}
 
             {/* Progress Bar with Loading UI */}
-            {isGenerating && taskId && (
+            {job && (
                 <div className="px-4 pb-2">
                     <div className="flex items-center gap-2 mb-1">
                         <Loader2 size={14} className="animate-spin text-gray-600" />
@@ -235,6 +205,13 @@ export function VideoGeneratorPanel({ elementId, onGenerate, isGenerating: exter
                              '视频准备好了！'}
                         </span>
                         <span className="text-xs text-gray-500 ml-auto">{progress}%</span>
+                        <button
+                            onClick={handleCancel}
+                            disabled={isCancelling}
+                            className="text-xs text-gray-500 hover:text-gray-800 disabled:opacity-50"
+                        >
+                            取消
+                        </button>
                     </div>
                     <div className="bg-gray-100 rounded-full h-1 overflow-hidden">
                         <div
@@ -374,7 +351,7 @@ export function VideoGeneratorPanel({ elementId, onGenerate, isGenerating: exter
                     ) : (
                         <Zap size={16} className="fill-current" />
                     )}
-                    <span className="font-medium">80</span>
+                    <span className="font-medium">{getVideoPrice(seconds, size)}</span>
                 </button>
             </div>
         </div>
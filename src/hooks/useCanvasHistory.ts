@@ -0,0 +1,184 @@
+import { useCallback, useRef, useState } from 'react';
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+import { applyChanges, diffElements, HistoryEntry, mergeEntries } from '@/lib/canvas-history';
+
+const MAX_HISTORY = 100;
+const MERGE_WINDOW_MS = 1000;
+
+export interface CommitOptions {
+  label?: string;
+  // Consecutive commits with the same key inside MERGE_WINDOW_MS collapse into one entry
+  mergeKey?: string;
+}
+
+/**
+ * Canvas elements state with an undo/redo stack.
+ * Every mutation goes through `setElements`, which records the element-level
+ * diff. Gestures (drag, resize, AI batches) are bracketed with
+ * `beginGesture`/`endGesture` so the whole gesture becomes one entry.
+ */
+export function useCanvasHistory(initialElements: CanvasElement[] = []) {
+  const [elements, setElementsState] = useState<CanvasElement[]>(initialElements);
+  const [stackSizes, setStackSizes] = useState({ undo: 0, redo: 0 });
+
+  // The ref always holds the latest elements so successive commits in the same
+  // tick (e.g. moving every selected element) compose instead of clobbering
+  const elementsRef = useRef<CanvasElement[]>(initialElements);
+  const undoStackRef = useRef<HistoryEntry[]>([]);
+  const redoStackRef = useRef<HistoryEntry[]>([]);
+  const gestureRef = useRef<{ label: string; snapshot: CanvasElement[]; depth: number } | null>(null);
+
+  const syncStackSizes = useCallback(() => {
+    setStackSizes({ undo: undoStackRef.current.length, redo: redoStackRef.current.length });
+  }, []);
+
+  const replaceElements = useCallback((next: CanvasElement[]) => {
+    elementsRef.current = next;
+    setElementsState(next);
+  }, []);
+
+  const pushEntry = useCallback((entry: HistoryEntry) => {
+    if (entry.changes.length === 0) return;
+
+    const undoStack = undoStackRef.current;
+    const last = undoStack[undoStack.length - 1];
+    if (
+      last &&
+      entry.mergeKey &&
+      last.mergeKey === entry.mergeKey &&
+      entry.timestamp - last.timestamp < MERGE_WINDOW_MS
+    ) {
+      undoStack[undoStack.length - 1] = mergeEntries(last, entry);
+    } else {
+      undoStack.push(entry);
+      if (undoStack.length > MAX_HISTORY) undoStack.shift();
+    }
+
+    redoStackRef.current = [];
+    syncStackSizes();
+  }, [syncStackSizes]);
+
+  const setElements = useCallback((
+    updater: (prev: CanvasElement[]) => CanvasElement[],
+    options: CommitOptions = {}
+  ) => {
+    const prev = elementsRef.current;
+    const next = updater(prev);
+    if (next === prev) return;
+
+    replaceElements(next);
+
+    // Changes inside a gesture are recorded once, when the gesture ends
+    if (gestureRef.current) return;
+
+    pushEntry({
+      label: options.label || 'edit',
+      changes: diffElements(prev, next),
+      mergeKey: options.mergeKey,
+      timestamp: Date.now(),
+    });
+  }, [replaceElements, pushEntry]);
+
+  /**
+   * Replace elements without recording history, e.g. after loading a project.
+   */
+  const resetElements = useCallback((next: CanvasElement[]) => {
+    replaceElements(next);
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    gestureRef.current = null;
+    syncStackSizes();
+  }, [replaceElements, syncStackSizes]);
+
+  /**
+   * Apply changes made by someone else (a collaborator) without recording
+   * them, so undo only reverts the local user's own edits.
+   */
+  const applyExternal = useCallback((updater: (prev: CanvasElement[]) => CanvasElement[]) => {
+    const prev = elementsRef.current;
+    const next = updater(prev);
+    if (next === prev) return;
+
+    replaceElements(next);
+    // Keep a gesture in progress from recording the remote changes as its own
+    const gesture = gestureRef.current;
+    if (gesture) gesture.snapshot = applyChanges(gesture.snapshot, diffElements(prev, next), 'redo');
+  }, [replaceElements]);
+
+  const beginGesture = useCallback((label: string) => {
+    if (gestureRef.current) {
+      gestureRef.current.depth += 1;
+      return;
+    }
+    gestureRef.current = { label, snapshot: elementsRef.current, depth: 1 };
+  }, []);
+
+  const endGesture = useCallback(() => {
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+
+    gesture.depth -= 1;
+    if (gesture.depth > 0) return;
+
+    gestureRef.current = null;
+    pushEntry({
+      label: gesture.label,
+      changes: diffElements(gesture.snapshot, elementsRef.current),
+      timestamp: Date.now(),
+    });
+  }, [pushEntry]);
+
+  /**
+   * Run several mutations as a single undoable entry.
+   */
+  const batch = useCallback((label: string, run: () => void) => {
+    beginGesture(label);
+    try {
+      run();
+    } finally {
+      endGesture();
+    }
+  }, [beginGesture, endGesture]);
+
+  const undo = useCallback((): CanvasElement[] | null => {
+    if (gestureRef.current) return null;
+
+    const entry = undoStackRef.current.pop();
+    if (!entry) return null;
+
+    const next = applyChanges(elementsRef.current, entry.changes, 'undo');
+    replaceElements(next);
+    // A fresh entry must not merge into one that has been undone and redone
+    redoStackRef.current.push({ ...entry, mergeKey: undefined });
+    syncStackSizes();
+    return next;
+  }, [replaceElements, syncStackSizes]);
+
+  const redo = useCallback((): CanvasElement[] | null => {
+    if (gestureRef.current) return null;
+
+    const entry = redoStackRef.current.pop();
+    if (!entry) return null;
+
+    const next = applyChanges(elementsRef.current, entry.changes, 'redo');
+    replaceElements(next);
+    undoStackRef.current.push(entry);
+    syncStackSizes();
+    return next;
+  }, [replaceElements, syncStackSizes]);
+
+  return {
+    elements,
+    elementsRef,
+    setElements,
+    resetElements,
+    applyExternal,
+    beginGesture,
+    endGesture,
+    batch,
+    undo,
+    redo,
+    canUndo: stackSizes.undo > 0,
+    canRedo: stackSizes.redo > 0,
+  };
+}
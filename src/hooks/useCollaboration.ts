@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+import {
+  applyOps,
+  CanvasPoint,
+  CollabMessage,
+  CollabPresence,
+  CollabTransport,
+  connectToProject,
+  createMergeState,
+  CURSOR_INTERVAL_MS,
+  diffToOps,
+  getCollaboratorColor,
+  snapshotOps,
+} from '@/lib/collab';
+import type { Database } from '@/lib/supabase';
+
+export interface Collaborator extends CollabPresence {
+  cursor: CanvasPoint | null;
+}
+
+export interface CollaborationUser {
+  id: string;
+  name: string;
+  avatarUrl: string | null;
+}
+
+interface UseCollaborationOptions {
+  supabase: SupabaseClient<Database> | null;
+  projectId: string | null;
+  // The elements at the moment this turns true are taken as already shared
+  ready: boolean;
+  user: CollaborationUser | null;
+  // Viewers and commenters follow along but never send element ops
+  canEdit: boolean;
+  elements: CanvasElement[];
+  elementsRef: React.MutableRefObject<CanvasElement[]>;
+  selection: string[];
+  // Apply a collaborator's changes without recording local undo history
+  applyRemote: (updater: (prev: CanvasElement[]) => CanvasElement[]) => void;
+}
+
+/**
+ * Live collaboration on a project board. Local edits are diffed into
+ * element ops and broadcast; remote ops are merged field by field (see
+ * lib/collab/merge). Only editors' ops are sent or merged. Presence
+ * carries who is here and what they have selected; cursors travel as
+ * throttled broadcasts.
+ */
+export function useCollaboration({
+  supabase,
+  projectId,
+  ready,
+  user,
+  canEdit,
+  elements,
+  elementsRef,
+  selection,
+  applyRemote,
+}: UseCollaborationOptions) {
+  const [clientId] = useState(() => uuidv4());
+  const [presences, setPresences] = useState<CollabPresence[]>([]);
+  const [cursors, setCursors] = useState<Map<string, CanvasPoint>>(new Map());
+  const [isConnected, setIsConnected] = useState(false);
+
+  const mergeStateRef = useRef(createMergeState(clientId));
+  const transportRef = useRef<CollabTransport | null>(null);
+  // Elements as collaborators last heard about them; null while disconnected
+  const syncedRef = useRef<CanvasElement[] | null>(null);
+  const lastCursorSentRef = useRef(0);
+  const applyRemoteRef = useRef(applyRemote);
+  const canEditRef = useRef(canEdit);
+  const presencesRef = useRef<CollabPresence[]>([]);
+
+  useEffect(() => {
+    applyRemoteRef.current = applyRemote;
+    canEditRef.current = canEdit;
+  }, [applyRemote, canEdit]);
+
+  // Broadcast local edits made since the last flush
+  const flush = useCallback(() => {
+    const synced = syncedRef.current;
+    const current = elementsRef.current;
+    if (!synced || !transportRef.current || synced === current) return;
+
+    const ops = diffToOps(mergeStateRef.current, synced, current);
+    syncedRef.current = current;
+    if (ops.length > 0 && canEditRef.current) {
+      transportRef.current.send({ type: 'ops', from: clientId, ops });
+    }
+  }, [clientId, elementsRef]);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!supabase || !projectId || !ready || !userId) return;
+
+    const handleMessage = (message: CollabMessage) => {
+      switch (message.type) {
+        case 'ops':
+          // Realtime only lets editors send ops; this also covers the local transport
+          if (presencesRef.current.some(presence => presence.clientId === message.from && !presence.canEdit)) break;
+          // Publish our own pending edits first so they are not mistaken for remote ones
+          flush();
+          applyRemoteRef.current(prev => {
+            const next = applyOps(mergeStateRef.current, prev, message.ops);
+            syncedRef.current = next;
+            return next;
+          });
+          break;
+        case 'hello': {
+          flush();
+          if (!canEditRef.current) break;
+          const ops = snapshotOps(mergeStateRef.current, elementsRef.current);
+          if (ops.length > 0) transportRef.current?.send({ type: 'ops', from: clientId, ops });
+          break;
+        }
+        case 'cursor':
+          setCursors(prev => {
+            const next = new Map(prev);
+            if (message.point) next.set(message.from, message.point);
+            else next.delete(message.from);
+            return next;
+          });
+          break;
+      }
+    };
+
+    syncedRef.current = elementsRef.current;
+    const transport = connectToProject(supabase, projectId, clientId, {
+      onMessage: handleMessage,
+      onPresence: list => {
+        presencesRef.current = list.filter(presence => presence.clientId !== clientId);
+        setPresences(presencesRef.current);
+      },
+      onConnected: () => {
+        setIsConnected(true);
+        transport.send({ type: 'hello', from: clientId });
+      },
+    });
+    transportRef.current = transport;
+
+    return () => {
+      transport.close();
+      transportRef.current = null;
+      syncedRef.current = null;
+      presencesRef.current = [];
+      setIsConnected(false);
+      setPresences([]);
+      setCursors(new Map());
+    };
+  }, [supabase, projectId, ready, userId, clientId, elementsRef, flush]);
+
+  useEffect(() => {
+    flush();
+  }, [elements, flush]);
+
+  const name = user?.name;
+  const avatarUrl = user?.avatarUrl ?? null;
+
+  useEffect(() => {
+    if (!isConnected || !userId || !transportRef.current) return;
+    transportRef.current.track({
+      clientId,
+      userId,
+      name: name || 'Anonymous',
+      avatarUrl,
+      color: getCollaboratorColor(userId),
+      selection,
+      canEdit,
+    });
+  }, [isConnected, clientId, userId, name, avatarUrl, selection, canEdit]);
+
+  /**
+   * Share the local pointer position in canvas coordinates, or null when it
+   * leaves the board.
+   */
+  const updateCursor = useCallback((point: CanvasPoint | null) => {
+    const transport = transportRef.current;
+    if (!transport) return;
+    const now = Date.now();
+    if (point && now - lastCursorSentRef.current < CURSOR_INTERVAL_MS) return;
+    lastCursorSentRef.current = now;
+    transport.send({ type: 'cursor', from: clientId, point });
+  }, [clientId]);
+
+  const collaborators: Collaborator[] = presences.map(presence => ({
+    ...presence,
+    cursor: cursors.get(presence.clientId) ?? null,
+  }));
+
+  return { collaborators, isConnected, updateCursor };
+}
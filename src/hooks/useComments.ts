@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  addComment,
+  CanvasComment,
+  CommentAnchor,
+  deleteComment,
+  groupCommentThreads,
+  loadComments,
+  setCommentResolved,
+  updateComment,
+} from '@/lib/comments';
+import type { Database } from '@/lib/supabase';
+
+/**
+ * Comment threads of a project, with the actions the comments sidebar
+ * offers. Changes are written first and applied locally once saved, so a
+ * rejected write (e.g. by RLS) leaves the list untouched and throws.
+ */
+export function useComments(supabase: SupabaseClient<Database> | null, projectId: string | null) {
+  const [comments, setComments] = useState<CanvasComment[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!supabase || !projectId) return;
+    try {
+      setComments(await loadComments(supabase, projectId));
+    } catch (error) {
+      console.error('Failed to load comments:', error);
+    }
+  }, [supabase, projectId]);
+
+  useEffect(() => {
+    if (!supabase || !projectId) return;
+    let cancelled = false;
+    loadComments(supabase, projectId)
+      .then(loaded => {
+        if (!cancelled) setComments(loaded);
+      })
+      .catch(error => console.error('Failed to load comments:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, projectId]);
+
+  const threads = useMemo(() => groupCommentThreads(comments), [comments]);
+
+  const requireClient = useCallback(() => {
+    if (!supabase || !projectId) throw new Error('Comments are not available for this project');
+    return { client: supabase, project: projectId };
+  }, [supabase, projectId]);
+
+  const createThread = useCallback(async (anchor: CommentAnchor, body: string, mentions: string[]) => {
+    const { client, project } = requireClient();
+    const comment = await addComment(client, project, { body, mentions, anchor });
+    setComments(prev => [...prev, comment]);
+    return comment;
+  }, [requireClient]);
+
+  const reply = useCallback(async (threadId: string, body: string, mentions: string[]) => {
+    const { client, project } = requireClient();
+    const comment = await addComment(client, project, { body, mentions, parentId: threadId });
+    setComments(prev => [...prev, comment]);
+    return comment;
+  }, [requireClient]);
+
+  const edit = useCallback(async (id: string, body: string, mentions: string[]) => {
+    const { client } = requireClient();
+    await updateComment(client, id, { body, mentions });
+    setComments(prev => prev.map(comment => (comment.id === id ? { ...comment, body, mentions } : comment)));
+  }, [requireClient]);
+
+  const resolve = useCallback(async (threadId: string, resolved: boolean) => {
+    const { client } = requireClient();
+    const updated = await setCommentResolved(client, threadId, resolved);
+    setComments(prev => prev.map(comment => (comment.id === threadId ? updated : comment)));
+  }, [requireClient]);
+
+  // Removing a pin removes its replies with it
+  const remove = useCallback(async (id: string) => {
+    const { client } = requireClient();
+    await deleteComment(client, id);
+    setComments(prev => prev.filter(comment => comment.id !== id && comment.parentId !== id));
+  }, [requireClient]);
+
+  return { threads, reload, createThread, reply, edit, resolve, remove };
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import {
+  DEFAULT_IMAGE_PROVIDER,
+  IMAGE_PROVIDER_CAPABILITIES,
+  ImageProviderId,
+  ImageProviderInfo,
+} from '@/lib/image-options';
+
+interface ImageProviderList {
+  defaultProvider: ImageProviderId;
+  providers: ImageProviderInfo[];
+}
+
+// Until the server answers, offer just the built-in default
+const FALLBACK: ImageProviderList = {
+  defaultProvider: DEFAULT_IMAGE_PROVIDER,
+  providers: [{ id: DEFAULT_IMAGE_PROVIDER, ...IMAGE_PROVIDER_CAPABILITIES[DEFAULT_IMAGE_PROVIDER] }],
+};
+
+// Shared by every panel; the list only changes with server config
+let request: Promise<ImageProviderList> | null = null;
+
+function fetchImageProviders(): Promise<ImageProviderList> {
+  request ??= fetch('/api/image-providers')
+    .then(response => {
+      if (!response.ok) throw new Error(`Failed to load image providers (${response.status})`);
+      return response.json();
+    })
+    .catch(error => {
+      console.error(error);
+      request = null;
+      return FALLBACK;
+    });
+  return request;
+}
+
+/**
+ * Image providers configured on the server, default first.
+ */
+export function useImageProviders(): ImageProviderList {
+  const [list, setList] = useState<ImageProviderList>(FALLBACK);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchImageProviders().then(result => {
+      if (!cancelled) setList(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return list;
+}
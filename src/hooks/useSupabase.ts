@@ -80,6 +80,9 @@ export function useSupabase() {
       }
     );
 
+    // Realtime does not read the global headers; private channels need the token too
+    client.realtime.setAuth(token);
+
     return client;
   }, [token, isReady]);
 
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { cancelVideoJob, fetchVideoJob, isJobFinished, VIDEO_JOB_POLL_INTERVAL_MS, VideoJob } from '@/lib/generation-jobs';
+
+/**
+ * Poll every tracked video job until it finishes. Polling lives with the
+ * canvas rather than the generator panel, so closing the panel does not
+ * orphan a job; `onFinished` is called once per job when it completes or fails.
+ */
+export function useVideoJobs(onFinished: (job: VideoJob) => void) {
+  const [jobs, setJobs] = useState<VideoJob[]>([]);
+  const jobsRef = useRef<VideoJob[]>([]);
+  const onFinishedRef = useRef(onFinished);
+  const isPollingRef = useRef(false);
+
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  }, [onFinished]);
+
+  const updateJobs = useCallback((updater: (prev: VideoJob[]) => VideoJob[]) => {
+    jobsRef.current = updater(jobsRef.current);
+    setJobs(jobsRef.current);
+  }, []);
+
+  const trackJobs = useCallback((incoming: VideoJob[]) => {
+    updateJobs(prev => [
+      ...prev.filter(job => !incoming.some(next => next.id === job.id)),
+      ...incoming,
+    ]);
+  }, [updateJobs]);
+
+  // Cancelled jobs stop being tracked without reporting a failure
+  const cancelJob = useCallback(async (jobId: string) => {
+    await cancelVideoJob(jobId);
+    updateJobs(prev => prev.filter(job => job.id !== jobId));
+  }, [updateJobs]);
+
+  const hasJobs = jobs.length > 0;
+
+  useEffect(() => {
+    if (!hasJobs) return;
+
+    const timer = setInterval(async () => {
+      // Skip a tick rather than stack requests when the status endpoint is slow
+      if (isPollingRef.current) return;
+      isPollingRef.current = true;
+
+      try {
+        const latest = await Promise.all(jobsRef.current.map(job =>
+          fetchVideoJob(job.id).catch(error => {
+            console.error('Error polling video status:', error);
+            return job;
+          })
+        ));
+
+        // Skip jobs cancelled while the requests were in flight
+        const finished = latest.filter(job =>
+          isJobFinished(job.status) && jobsRef.current.some(tracked => tracked.id === job.id)
+        );
+        updateJobs(prev => prev
+          .filter(job => !finished.some(done => done.id === job.id))
+          .map(job => latest.find(next => next.id === job.id) ?? job)
+        );
+        finished.forEach(job => onFinishedRef.current(job));
+      } finally {
+        isPollingRef.current = false;
+      }
+    }, VIDEO_JOB_POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [hasJobs, updateJobs]);
+
+  return { jobs, trackJobs, cancelJob };
+}
@@ -0,0 +1,153 @@
+import { createClerkClient, verifyToken } from '@clerk/backend';
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClerkSupabaseClient, Database } from '@/lib/supabase';
+
+/**
+ * The verified caller, handed to every authenticated API handler.
+ */
+export interface AuthContext {
+  userId: string;
+  sessionId: string;
+  // Supabase client carrying the user's `supabase` template JWT, so RLS applies
+  supabase: SupabaseClient<Database>;
+}
+
+export type ApiErrorCode = 'unauthenticated' | 'forbidden';
+
+/**
+ * Thrown inside handlers (or by the wrapper) to end the request with a
+ * 401/403 in the shared error shape.
+ */
+export class ApiAuthError extends Error {
+  constructor(public status: 401 | 403, public code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'ApiAuthError';
+  }
+}
+
+export function unauthorized(details = 'Sign in to use this endpoint') {
+  return new ApiAuthError(401, 'unauthenticated', details);
+}
+
+export function forbidden(details = 'You do not have access to this resource') {
+  return new ApiAuthError(403, 'forbidden', details);
+}
+
+export function authErrorResponse(error: ApiAuthError) {
+  return NextResponse.json(
+    {
+      error: error.status === 401 ? 'Unauthorized' : 'Forbidden',
+      code: error.code,
+      details: error.message,
+    },
+    { status: error.status }
+  );
+}
+
+let clerkClient: ReturnType<typeof createClerkClient> | null = null;
+
+/**
+ * Shared Clerk backend client, e.g. for looking up other users.
+ */
+export function getClerkClient() {
+  if (!clerkClient) {
+    clerkClient = createClerkClient({ secretKey: process.env.CLERK_SECRET_KEY });
+  }
+  return clerkClient;
+}
+
+function getSessionToken(request: NextRequest) {
+  const header = request.headers.get('authorization');
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length);
+  }
+  return request.cookies.get('__session')?.value || null;
+}
+
+/**
+ * Cookie-authenticated requests must come from our own origin; otherwise any
+ * site could spend the user's credits on their behalf.
+ */
+function assertSameOrigin(request: NextRequest) {
+  const origin = request.headers.get('origin');
+  if (!origin) return;
+
+  const allowed = [request.nextUrl.origin, ...(process.env.ALLOWED_ORIGINS?.split(',') ?? [])]
+    .map(value => value.trim())
+    .filter(Boolean);
+
+  if (!allowed.includes(origin)) {
+    throw forbidden(`Origin ${origin} is not allowed`);
+  }
+}
+
+/**
+ * Verify the Clerk session behind a request with @clerk/backend.
+ */
+export async function authenticateRequest(request: NextRequest): Promise<AuthContext> {
+  const token = getSessionToken(request);
+  if (!token) {
+    throw unauthorized();
+  }
+
+  let payload: Awaited<ReturnType<typeof verifyToken>>;
+  try {
+    payload = await verifyToken(token, {
+      secretKey: process.env.CLERK_SECRET_KEY,
+      jwtKey: process.env.CLERK_JWT_KEY,
+    });
+  } catch (error) {
+    console.warn('Session verification failed:', error instanceof Error ? error.message : error);
+    throw unauthorized('Session is invalid or expired');
+  }
+
+  if (!payload.sub || !payload.sid) {
+    throw unauthorized('Session is invalid or expired');
+  }
+
+  assertSameOrigin(request);
+
+  const supabaseToken = await getClerkClient().sessions.getToken(payload.sid, 'supabase');
+
+  return {
+    userId: payload.sub,
+    sessionId: payload.sid,
+    supabase: createClerkSupabaseClient(supabaseToken.jwt),
+  };
+}
+
+/**
+ * Wrap a route handler so it only runs for a verified user.
+ *
+ * export const POST = withAuth(async (request, { userId, supabase }) => { ... });
+ */
+export function withAuth<TContext = unknown>(
+  handler: (request: NextRequest, auth: AuthContext, context: TContext) => Promise<Response>
+) {
+  return async (request: NextRequest, context: TContext): Promise<Response> => {
+    let auth: AuthContext;
+    try {
+      auth = await authenticateRequest(request);
+    } catch (error) {
+      if (error instanceof ApiAuthError) {
+        return authErrorResponse(error);
+      }
+      console.error('Authentication error:', error);
+      return NextResponse.json(
+        { error: 'Authentication failed', details: error instanceof Error ? error.message : 'Unknown error' },
+        { status: 500 }
+      );
+    }
+
+    try {
+      return await handler(request, auth, context);
+    } catch (error) {
+      // Handlers may throw forbidden()/unauthorized() after their own checks
+      if (error instanceof ApiAuthError) {
+        return authErrorResponse(error);
+      }
+      throw error;
+    }
+  };
+}
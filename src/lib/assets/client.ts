@@ -0,0 +1,41 @@
+import type { Asset } from './index';
+
+/**
+ * Upload a file from the browser to the asset store.
+ */
+export async function uploadAsset(file: Blob, filename = 'upload'): Promise<Asset> {
+  const form = new FormData();
+  form.append('file', file, filename);
+
+  const response = await fetch('/api/assets', {
+    method: 'POST',
+    body: form,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || '上传失败');
+  }
+
+  return data.asset;
+}
+
+/**
+ * Read a file's natural dimensions in the browser (images and videos).
+ */
+export function measureMedia(url: string, kind: 'image' | 'video'): Promise<{ width: number; height: number } | null> {
+  return new Promise(resolve => {
+    if (kind === 'image') {
+      const img = new Image();
+      img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+      img.onerror = () => resolve(null);
+      img.src = url;
+    } else {
+      const video = document.createElement('video');
+      video.preload = 'metadata';
+      video.onloadedmetadata = () => resolve({ width: video.videoWidth, height: video.videoHeight });
+      video.onerror = () => resolve(null);
+      video.src = url;
+    }
+  });
+}
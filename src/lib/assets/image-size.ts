@@ -0,0 +1,61 @@
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Read pixel dimensions from a PNG, JPEG, GIF or WebP header without decoding
+ * the image. Returns null for unknown or truncated data.
+ */
+export function getImageSize(data: Uint8Array): ImageSize | null {
+  if (data.length < 24) return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // PNG: width/height live in the IHDR chunk right after the signature
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // GIF: logical screen size, little endian
+  if (data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+
+  // WebP: RIFF container with a VP8, VP8L or VP8X chunk
+  if (ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 4) === 'WEBP' && data.length >= 30) {
+    const chunk = ascii(data, 12, 4);
+    if (chunk === 'VP8 ') {
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      const width = 1 + (data[24] | (data[25] << 8) | (data[26] << 16));
+      const height = 1 + (data[27] | (data[28] << 8) | (data[29] << 16));
+      return { width, height };
+    }
+    return null;
+  }
+
+  // JPEG: walk the segments until a start-of-frame marker
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1];
+      // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+
+  return null;
+}
+
+function ascii(data: Uint8Array, start: number, length: number) {
+  return String.fromCharCode(...data.subarray(start, start + length));
+}
@@ -0,0 +1,157 @@
+import mime from 'mime';
+import { v4 as uuidv4 } from 'uuid';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase';
+import { getImageSize } from './image-size';
+import { getAssetStorage } from './storage';
+
+export interface Asset {
+  id: string;
+  url: string;
+  mimeType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+}
+
+export const MAX_ASSET_BYTES = 50 * 1024 * 1024;
+
+// Media types that may be stored. Anything the browser could run as a
+// document (SVG, HTML) is left out: local uploads are served same-origin.
+export const ALLOWED_ASSET_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/gif',
+  'video/mp4',
+  'video/webm',
+  'video/quicktime',
+];
+
+/**
+ * A media URL that does not point at our own asset storage. Such URLs are
+ * never fetched by the server.
+ */
+export class UnsupportedAssetUrlError extends Error {
+  constructor(public url: string) {
+    super('Media must be an uploaded asset or a data URL');
+    this.name = 'UnsupportedAssetUrlError';
+  }
+}
+
+/**
+ * Store a blob and record it in the `assets` table. Only the media types in
+ * ALLOWED_ASSET_MIME_TYPES are accepted.
+ * Image dimensions are read from the file header; callers may pass them for
+ * formats we cannot sniff (e.g. video).
+ */
+export async function storeAsset(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  data: Uint8Array,
+  mimeType: string,
+  dimensions?: { width: number; height: number }
+): Promise<Asset> {
+  if (data.byteLength > MAX_ASSET_BYTES) {
+    throw new Error(`Asset exceeds ${MAX_ASSET_BYTES / 1024 / 1024}MB limit`);
+  }
+  if (!ALLOWED_ASSET_MIME_TYPES.includes(mimeType)) {
+    throw new Error(`Unsupported asset type: ${mimeType}`);
+  }
+
+  const id = uuidv4();
+  const extension = mime.getExtension(mimeType) || 'bin';
+  const storagePath = `${userId}/${id}.${extension}`;
+  const size = (mimeType.startsWith('image/') ? getImageSize(data) : null) || dimensions || null;
+
+  const storage = getAssetStorage(supabase);
+  const url = await storage.put(storagePath, data, mimeType);
+
+  const { error } = await supabase
+    .from('assets')
+    .insert({
+      id,
+      user_id: userId,
+      storage_path: storagePath,
+      url,
+      mime_type: mimeType,
+      size_bytes: data.byteLength,
+      width: size?.width ?? null,
+      height: size?.height ?? null,
+    });
+
+  if (error) {
+    // Don't leave orphaned blobs behind when the metadata insert fails
+    await storage.remove(storagePath).catch(() => undefined);
+    throw error;
+  }
+
+  return {
+    id,
+    url,
+    mimeType,
+    size: data.byteLength,
+    width: size?.width ?? null,
+    height: size?.height ?? null,
+  };
+}
+
+/**
+ * Split a `data:<mime>;base64,<data>` URL into its parts.
+ */
+export function decodeDataUrl(dataUrl: string): { mimeType: string; data: Uint8Array } | null {
+  const matches = dataUrl.match(/^data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+);base64,(.+)$/);
+  if (!matches) return null;
+  return { mimeType: matches[1], data: Buffer.from(matches[2], 'base64') };
+}
+
+/**
+ * Read back an asset by the URL `storeAsset` returned (absolute or relative
+ * to `origin`), through the storage adapter. Throws UnsupportedAssetUrlError
+ * for any URL outside our asset storage.
+ */
+export async function readAssetUrl(
+  supabase: SupabaseClient<Database>,
+  url: string,
+  origin: string
+): Promise<{ mimeType: string; data: Uint8Array }> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, origin);
+  } catch {
+    throw new UnsupportedAssetUrlError(url);
+  }
+
+  const storage = getAssetStorage(supabase);
+  const storagePath = storage.pathFromUrl(parsed, origin);
+  if (!storagePath) throw new UnsupportedAssetUrlError(url);
+  return storage.get(storagePath);
+}
+
+/**
+ * Normalise an image reference sent by the canvas into base64 for model APIs.
+ * Accepts data URLs, bare base64 strings and asset URLs (absolute or
+ * relative to `origin`).
+ */
+export async function resolveImageInput(
+  supabase: SupabaseClient<Database>,
+  input: string,
+  origin: string,
+  fallbackMimeType = 'image/jpeg'
+): Promise<{ mimeType: string; data: string }> {
+  if (input.startsWith('data:')) {
+    const decoded = decodeDataUrl(input);
+    if (decoded) {
+      return { mimeType: decoded.mimeType, data: Buffer.from(decoded.data).toString('base64') };
+    }
+    const parts = input.split('base64,');
+    return { mimeType: fallbackMimeType, data: parts[parts.length - 1] };
+  }
+
+  if (/^(https?:)?\//.test(input)) {
+    const asset = await readAssetUrl(supabase, input, origin);
+    return { mimeType: asset.mimeType, data: Buffer.from(asset.data).toString('base64') };
+  }
+
+  return { mimeType: fallbackMimeType, data: input };
+}
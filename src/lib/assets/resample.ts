@@ -0,0 +1,96 @@
+// Lanczos kernel radius; 3 lobes is the usual trade-off between sharpness and ringing
+const LOBES = 3;
+
+function lanczos(x: number): number {
+  if (x === 0) return 1;
+  if (x <= -LOBES || x >= LOBES) return 0;
+  const px = Math.PI * x;
+  return (LOBES * Math.sin(px) * Math.sin(px / LOBES)) / (px * px);
+}
+
+/**
+ * Normalised filter taps for resampling one axis from `from` to `to` pixels.
+ * When shrinking, the kernel is stretched so every source pixel contributes.
+ */
+function buildWeights(from: number, to: number) {
+  const ratio = from / to;
+  const support = LOBES * Math.max(1, ratio);
+  const filterScale = Math.max(1, ratio);
+  const taps: { start: number; weights: Float32Array }[] = [];
+
+  for (let i = 0; i < to; i++) {
+    const center = (i + 0.5) * ratio - 0.5;
+    const start = Math.max(0, Math.ceil(center - support));
+    const end = Math.min(from - 1, Math.floor(center + support));
+    const weights = new Float32Array(end - start + 1);
+    let total = 0;
+    for (let j = start; j <= end; j++) {
+      const weight = lanczos((j - center) / filterScale);
+      weights[j - start] = weight;
+      total += weight;
+    }
+    for (let k = 0; k < weights.length; k++) weights[k] /= total || 1;
+    taps.push({ start, weights });
+  }
+  return taps;
+}
+
+/**
+ * Resize 8-bit RGBA pixels with a separable Lanczos-3 filter. Colour is
+ * weighted by alpha so transparent pixels don't bleed dark fringes.
+ */
+export function resizeLanczos(
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  newWidth: number,
+  newHeight: number
+): Uint8Array {
+  const horizontal = buildWeights(width, newWidth);
+  const vertical = buildWeights(height, newHeight);
+
+  // Horizontal pass into premultiplied floats
+  const temp = new Float32Array(newWidth * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < newWidth; x++) {
+      const { start, weights } = horizontal[x];
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const i = (y * width + start + k) * 4;
+        const weight = weights[k] * rgba[i + 3];
+        r += rgba[i] * weight;
+        g += rgba[i + 1] * weight;
+        b += rgba[i + 2] * weight;
+        a += weight;
+      }
+      const o = (y * newWidth + x) * 4;
+      temp[o] = r;
+      temp[o + 1] = g;
+      temp[o + 2] = b;
+      temp[o + 3] = a;
+    }
+  }
+
+  // Vertical pass, then back to straight alpha
+  const out = new Uint8Array(newWidth * newHeight * 4);
+  for (let y = 0; y < newHeight; y++) {
+    const { start, weights } = vertical[y];
+    for (let x = 0; x < newWidth; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const i = ((start + k) * newWidth + x) * 4;
+        r += temp[i] * weights[k];
+        g += temp[i + 1] * weights[k];
+        b += temp[i + 2] * weights[k];
+        a += temp[i + 3] * weights[k];
+      }
+      const o = (y * newWidth + x) * 4;
+      const alpha = Math.min(255, Math.max(0, a));
+      out[o] = alpha > 0 ? Math.min(255, Math.max(0, Math.round(r / a))) : 0;
+      out[o + 1] = alpha > 0 ? Math.min(255, Math.max(0, Math.round(g / a))) : 0;
+      out[o + 2] = alpha > 0 ? Math.min(255, Math.max(0, Math.round(b / a))) : 0;
+      out[o + 3] = Math.round(alpha);
+    }
+  }
+  return out;
+}
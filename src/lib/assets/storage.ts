@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import mime from 'mime';
+import path from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase';
+
+export const ASSET_BUCKET = 'assets';
+
+/**
+ * Where asset blobs live. `put` returns the URL the browser should load.
+ */
+export interface AssetStorage {
+  put(storagePath: string, data: Uint8Array, mimeType: string): Promise<string>;
+  get(storagePath: string): Promise<{ mimeType: string; data: Uint8Array }>;
+  remove(storagePath: string): Promise<void>;
+  // The storage path behind a URL returned by `put`, or null for any other URL
+  pathFromUrl(url: URL, appOrigin: string): string | null;
+}
+
+/**
+ * Supabase Storage adapter. Uses the caller's client, so the bucket policies
+ * in supabase-schema.sql decide who may write where.
+ */
+export function createSupabaseStorage(supabase: SupabaseClient<Database>): AssetStorage {
+  return {
+    async put(storagePath, data, mimeType) {
+      const { error } = await supabase.storage
+        .from(ASSET_BUCKET)
+        .upload(storagePath, data, { contentType: mimeType, upsert: false });
+
+      if (error) throw error;
+
+      return supabase.storage.from(ASSET_BUCKET).getPublicUrl(storagePath).data.publicUrl;
+    },
+    // The bucket is public and has no SELECT policy, so read the public URL
+    async get(storagePath) {
+      const response = await fetch(supabase.storage.from(ASSET_BUCKET).getPublicUrl(storagePath).data.publicUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to read asset ${storagePath} (${response.status})`);
+      }
+      const mimeType = response.headers.get('content-type')?.split(';')[0]
+        || mime.getType(storagePath)
+        || 'application/octet-stream';
+      return { mimeType, data: new Uint8Array(await response.arrayBuffer()) };
+    },
+    async remove(storagePath) {
+      const { error } = await supabase.storage.from(ASSET_BUCKET).remove([storagePath]);
+      if (error) throw error;
+    },
+    pathFromUrl(url) {
+      const prefix = new URL(supabase.storage.from(ASSET_BUCKET).getPublicUrl('').data.publicUrl);
+      if (url.origin !== prefix.origin || !url.pathname.startsWith(prefix.pathname)) return null;
+      return decodeURIComponent(url.pathname.slice(prefix.pathname.length)) || null;
+    },
+  };
+}
+
+/**
+ * Local disk adapter for development: files go to public/uploads and are
+ * served by Next.js as static files.
+ */
+export function createLocalStorage(rootDir = path.join(process.cwd(), 'public', 'uploads')): AssetStorage {
+  const resolve = (storagePath: string) => {
+    const fullPath = path.resolve(rootDir, storagePath);
+    if (!fullPath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid storage path: ${storagePath}`);
+    }
+    return fullPath;
+  };
+
+  return {
+    async put(storagePath, data) {
+      const fullPath = resolve(storagePath);
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.writeFile(fullPath, data);
+      return `/uploads/${storagePath}`;
+    },
+    async get(storagePath) {
+      const data = await fs.readFile(resolve(storagePath));
+      return { mimeType: mime.getType(storagePath) || 'application/octet-stream', data: new Uint8Array(data) };
+    },
+    async remove(storagePath) {
+      await fs.rm(resolve(storagePath), { force: true });
+    },
+    // Uploads are served by this app, so only its own /uploads/ URLs qualify
+    pathFromUrl(url, appOrigin) {
+      if (url.origin !== appOrigin || !url.pathname.startsWith('/uploads/')) return null;
+      return decodeURIComponent(url.pathname.slice('/uploads/'.length)) || null;
+    },
+  };
+}
+
+/**
+ * Pick the storage adapter from ASSET_STORAGE_DRIVER ('supabase' or 'local').
+ */
+export function getAssetStorage(supabase: SupabaseClient<Database>): AssetStorage {
+  if (process.env.ASSET_STORAGE_DRIVER === 'local') {
+    return createLocalStorage();
+  }
+  return createSupabaseStorage(supabase);
+}
@@ -0,0 +1,109 @@
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+
+/**
+ * A single element-level change recorded in the history stack.
+ * `before` is null for additions, `after` is null for removals.
+ */
+export interface ElementChange {
+  id: string;
+  before: CanvasElement | null;
+  after: CanvasElement | null;
+  beforeIndex: number;
+  afterIndex: number;
+}
+
+export interface HistoryEntry {
+  label: string;
+  changes: ElementChange[];
+  mergeKey?: string;
+  timestamp: number;
+}
+
+/**
+ * Compute the element-level changes that turn `prev` into `next`.
+ * Elements are compared by reference, so unchanged elements must be reused.
+ */
+export function diffElements(prev: CanvasElement[], next: CanvasElement[]): ElementChange[] {
+  const prevIndex = new Map(prev.map((el, index) => [el.id, index]));
+  const nextIndex = new Map(next.map((el, index) => [el.id, index]));
+  const changes: ElementChange[] = [];
+
+  prev.forEach((el, index) => {
+    const afterIndex = nextIndex.get(el.id);
+    if (afterIndex === undefined) {
+      changes.push({ id: el.id, before: el, after: null, beforeIndex: index, afterIndex: -1 });
+    } else if (next[afterIndex] !== el) {
+      changes.push({ id: el.id, before: el, after: next[afterIndex], beforeIndex: index, afterIndex });
+    }
+  });
+
+  next.forEach((el, index) => {
+    if (!prevIndex.has(el.id)) {
+      changes.push({ id: el.id, before: null, after: el, beforeIndex: -1, afterIndex: index });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Apply recorded changes in either direction.
+ * Removals run first, then replacements, then insertions in index order so
+ * restored elements land back at their original stacking position.
+ */
+export function applyChanges(
+  elements: CanvasElement[],
+  changes: ElementChange[],
+  direction: 'undo' | 'redo'
+): CanvasElement[] {
+  const resolved = changes.map(change => ({
+    id: change.id,
+    target: direction === 'redo' ? change.after : change.before,
+    index: direction === 'redo' ? change.afterIndex : change.beforeIndex,
+  }));
+
+  const removedIds = new Set(resolved.filter(c => c.target === null).map(c => c.id));
+  const replacements = new Map(
+    resolved.filter(c => c.target !== null).map(c => [c.id, c.target as CanvasElement])
+  );
+
+  const result = elements
+    .filter(el => !removedIds.has(el.id))
+    .map(el => replacements.get(el.id) ?? el);
+
+  const existingIds = new Set(result.map(el => el.id));
+  resolved
+    .filter(c => c.target !== null && !existingIds.has(c.id))
+    .sort((a, b) => a.index - b.index)
+    .forEach(c => {
+      const index = Math.min(Math.max(c.index, 0), result.length);
+      result.splice(index, 0, c.target as CanvasElement);
+    });
+
+  return result;
+}
+
+/**
+ * Fold a newer entry into an older one, keeping the oldest `before` and the
+ * newest `after` for every element. Elements that were added and then removed
+ * again inside the merged span cancel out.
+ */
+export function mergeEntries(older: HistoryEntry, newer: HistoryEntry): HistoryEntry {
+  const merged = new Map(older.changes.map(change => [change.id, { ...change }]));
+
+  newer.changes.forEach(change => {
+    const existing = merged.get(change.id);
+    if (existing) {
+      existing.after = change.after;
+      existing.afterIndex = change.afterIndex;
+    } else {
+      merged.set(change.id, { ...change });
+    }
+  });
+
+  return {
+    ...newer,
+    label: older.label,
+    changes: Array.from(merged.values()).filter(change => change.before !== null || change.after !== null),
+  };
+}
@@ -0,0 +1,117 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+import { ELEMENT_SCHEMA_VERSION } from '@/lib/element-schema';
+import type { Database } from '@/lib/supabase';
+
+/**
+ * An element with its index in the canvas array, which is its stacking
+ * order (later elements are drawn on top).
+ */
+export interface PositionedElement {
+  element: CanvasElement;
+  position: number;
+}
+
+/**
+ * Elements as they were last persisted, keyed by element id.
+ * Elements are compared by reference, which holds because every canvas
+ * mutation replaces the changed element object.
+ */
+export type SavedElements = Map<string, PositionedElement>;
+
+export interface PendingChanges {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  upserts: PositionedElement[];
+}
+
+// Guard against accidental duplicates; the first occurrence wins
+function positionElements(elements: CanvasElement[]): PositionedElement[] {
+  const seen = new Set<string>();
+  const unique: CanvasElement[] = [];
+  for (const el of elements) {
+    if (seen.has(el.id)) continue;
+    seen.add(el.id);
+    unique.push(el);
+  }
+  return unique.map((element, position) => ({ element, position }));
+}
+
+export function snapshotElements(elements: CanvasElement[]): SavedElements {
+  return new Map(positionElements(elements).map(entry => [entry.element.id, entry]));
+}
+
+/**
+ * Work out which elements were added, changed, moved in the stack or
+ * removed since the last successful save.
+ */
+export function getPendingChanges(saved: SavedElements, current: CanvasElement[]): PendingChanges {
+  const added: string[] = [];
+  const updated: string[] = [];
+  const upserts: PositionedElement[] = [];
+  const currentIds = new Set<string>();
+
+  positionElements(current).forEach(entry => {
+    const { element: el, position } = entry;
+    currentIds.add(el.id);
+
+    const savedEl = saved.get(el.id);
+    if (!savedEl) {
+      added.push(el.id);
+      upserts.push(entry);
+    } else if (savedEl.element !== el || savedEl.position !== position) {
+      updated.push(el.id);
+      upserts.push(entry);
+    }
+  });
+
+  const removed = Array.from(saved.keys()).filter(id => !currentIds.has(id));
+
+  return { added, updated, removed, upserts };
+}
+
+export function hasPendingChanges(changes: PendingChanges): boolean {
+  return changes.upserts.length > 0 || changes.removed.length > 0;
+}
+
+/**
+ * Persist pending changes with targeted upserts and deletes keyed on the
+ * element id, which doubles as the `canvas_elements` primary key.
+ * `extraRowIds` lets callers clean up rows that are not tracked as elements
+ * (e.g. legacy rows whose primary key predates this scheme).
+ */
+export async function persistElementChanges(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  changes: PendingChanges,
+  extraRowIds: string[] = []
+) {
+  if (changes.upserts.length > 0) {
+    const { error } = await supabase
+      .from('canvas_elements')
+      .upsert(
+        changes.upserts.map(({ element, position }) => ({
+          id: element.id,
+          project_id: projectId,
+          element_data: element,
+          schema_version: ELEMENT_SCHEMA_VERSION,
+          position,
+        })),
+        { onConflict: 'id' }
+      );
+
+    if (error) throw error;
+  }
+
+  const deleteIds = [...changes.removed, ...extraRowIds];
+  if (deleteIds.length > 0) {
+    const { error } = await supabase
+      .from('canvas_elements')
+      .delete()
+      .eq('project_id', projectId)
+      .in('id', deleteIds);
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,335 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ChatCompletionTool } from 'openai/resources/chat/completions';
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+import { ASPECT_RATIOS, AspectRatio, fitToEdge, getAspectRatioValue } from './image-options';
+
+/**
+ * Canvas operations the AI designer can propose through function calling.
+ * The route turns tool calls into operations; the canvas page previews them
+ * and applies the accepted ones as a single undoable batch.
+ */
+
+export const SHAPE_TYPES = ['square', 'circle', 'triangle', 'star', 'message', 'arrow-left', 'arrow-right'] as const;
+export type ShapeType = typeof SHAPE_TYPES[number];
+
+export type ArrangeLayout = 'row' | 'column' | 'grid';
+
+export type CanvasOperation =
+  | { type: 'add_text'; text: string; x: number; y: number; fontSize?: number; color?: string }
+  | { type: 'add_shape'; shape: ShapeType; x: number; y: number; width: number; height: number; color?: string }
+  | { type: 'generate_image'; prompt: string; x: number; y: number; width: number; aspectRatio: AspectRatio }
+  | { type: 'recolor'; id: string; color: string }
+  | { type: 'arrange'; ids: string[]; layout: ArrangeLayout; gap: number };
+
+/**
+ * What the model is told about the board: geometry and text only, never media.
+ */
+export interface CanvasSummary {
+  selectedIds: string[];
+  elements: Array<{
+    id: string;
+    type: CanvasElement['type'];
+    x: number;
+    y: number;
+    width?: number;
+    height?: number;
+    color?: string;
+    shape?: string;
+    text?: string;
+  }>;
+}
+
+// Keep the prompt small on busy boards
+const MAX_SUMMARY_ELEMENTS = 100;
+
+export function summarizeCanvas(elements: CanvasElement[], selectedIds: string[]): CanvasSummary {
+  return {
+    selectedIds,
+    elements: elements
+      .filter(el => el.type !== 'connector' && el.type !== 'path')
+      .slice(-MAX_SUMMARY_ELEMENTS)
+      .map(el => ({
+        id: el.id,
+        type: el.type,
+        x: Math.round(el.x),
+        y: Math.round(el.y),
+        width: el.width && Math.round(el.width),
+        height: el.height && Math.round(el.height),
+        color: el.color,
+        shape: el.shapeType,
+        text: el.type === 'text' ? el.content?.slice(0, 200) : undefined,
+      })),
+  };
+}
+
+const position = {
+  x: { type: 'number', description: 'Left edge in canvas coordinates' },
+  y: { type: 'number', description: 'Top edge in canvas coordinates' },
+};
+
+const color = { type: 'string', description: 'CSS hex color such as #1F2937' };
+
+export const CANVAS_TOOLS: ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'add_text',
+      description: 'Add a text element to the canvas.',
+      parameters: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          ...position,
+          fontSize: { type: 'number', description: 'Font size in px, 12-96' },
+          color,
+        },
+        required: ['text', 'x', 'y'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'add_shape',
+      description: 'Add a filled shape to the canvas.',
+      parameters: {
+        type: 'object',
+        properties: {
+          shape: { type: 'string', enum: [...SHAPE_TYPES] },
+          ...position,
+          width: { type: 'number' },
+          height: { type: 'number' },
+          color,
+        },
+        required: ['shape', 'x', 'y', 'width', 'height'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'generate_image',
+      description: 'Generate an image from a prompt and place it on the canvas.',
+      parameters: {
+        type: 'object',
+        properties: {
+          prompt: { type: 'string', description: 'Detailed image generation prompt' },
+          ...position,
+          width: { type: 'number', description: 'Width of the placed image' },
+          aspectRatio: { type: 'string', enum: [...ASPECT_RATIOS] },
+        },
+        required: ['prompt', 'x', 'y'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'recolor',
+      description: 'Change the color of an existing text or shape element.',
+      parameters: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Element id from the canvas summary' },
+          color,
+        },
+        required: ['id', 'color'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'arrange',
+      description: 'Lay out elements in a row, column or grid. Defaults to the current selection.',
+      parameters: {
+        type: 'object',
+        properties: {
+          ids: { type: 'array', items: { type: 'string' } },
+          layout: { type: 'string', enum: ['row', 'column', 'grid'] },
+          gap: { type: 'number', description: 'Spacing between elements in px' },
+        },
+        required: ['layout'],
+      },
+    },
+  },
+];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{3,8}$/i.test(value);
+
+/**
+ * Validate one tool call from the model. Returns null for unknown tools and
+ * malformed arguments rather than letting them reach the board.
+ */
+export function parseToolCall(name: string, rawArguments: string, summary: CanvasSummary): CanvasOperation | null {
+  let args: Record<string, unknown>;
+  try {
+    args = JSON.parse(rawArguments || '{}');
+  } catch {
+    return null;
+  }
+
+  const knownIds = new Set(summary.elements.map(el => el.id));
+
+  switch (name) {
+    case 'add_text':
+      if (typeof args.text !== 'string' || !isNumber(args.x) || !isNumber(args.y)) return null;
+      return {
+        type: 'add_text',
+        text: args.text,
+        x: args.x,
+        y: args.y,
+        fontSize: isNumber(args.fontSize) ? Math.min(Math.max(args.fontSize, 12), 96) : undefined,
+        color: isColor(args.color) ? args.color : undefined,
+      };
+    case 'add_shape':
+      if (!SHAPE_TYPES.includes(args.shape as ShapeType)) return null;
+      if (!isNumber(args.x) || !isNumber(args.y) || !isNumber(args.width) || !isNumber(args.height)) return null;
+      return {
+        type: 'add_shape',
+        shape: args.shape as ShapeType,
+        x: args.x,
+        y: args.y,
+        width: Math.max(args.width, 1),
+        height: Math.max(args.height, 1),
+        color: isColor(args.color) ? args.color : undefined,
+      };
+    case 'generate_image':
+      if (typeof args.prompt !== 'string' || !args.prompt.trim() || !isNumber(args.x) || !isNumber(args.y)) return null;
+      return {
+        type: 'generate_image',
+        prompt: args.prompt,
+        x: args.x,
+        y: args.y,
+        width: isNumber(args.width) ? Math.max(args.width, 50) : 400,
+        aspectRatio: ASPECT_RATIOS.includes(args.aspectRatio as AspectRatio) ? args.aspectRatio as AspectRatio : '1:1',
+      };
+    case 'recolor':
+      if (typeof args.id !== 'string' || !knownIds.has(args.id) || !isColor(args.color)) return null;
+      return { type: 'recolor', id: args.id, color: args.color };
+    case 'arrange': {
+      if (args.layout !== 'row' && args.layout !== 'column' && args.layout !== 'grid') return null;
+      const ids = Array.isArray(args.ids) && args.ids.length > 0 ? args.ids : summary.selectedIds;
+      const validIds = ids.filter((id): id is string => typeof id === 'string' && knownIds.has(id));
+      if (validIds.length < 2) return null;
+      return { type: 'arrange', ids: validIds, layout: args.layout, gap: isNumber(args.gap) ? Math.max(args.gap, 0) : 24 };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * One-line description of an operation for the preview list.
+ */
+export function describeOperation(op: CanvasOperation): string {
+  switch (op.type) {
+    case 'add_text':
+      return `添加文字「${op.text.length > 20 ? op.text.slice(0, 20) + '…' : op.text}」`;
+    case 'add_shape':
+      return `添加形状（${op.shape}）`;
+    case 'generate_image':
+      return `生成图片：${op.prompt.length > 30 ? op.prompt.slice(0, 30) + '…' : op.prompt}`;
+    case 'recolor':
+      return `将元素改为 ${op.color}`;
+    case 'arrange':
+      return `将 ${op.ids.length} 个元素排成${op.layout === 'row' ? '一行' : op.layout === 'column' ? '一列' : '网格'}`;
+  }
+}
+
+export interface ImageRequest {
+  placeholderId: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+}
+
+/**
+ * Apply operations to the board. `generate_image` only places an
+ * image-generator placeholder; the caller fills it via `imageRequests`.
+ */
+export function applyCanvasOperations(
+  elements: CanvasElement[],
+  operations: CanvasOperation[]
+): { elements: CanvasElement[]; imageRequests: ImageRequest[] } {
+  let next = elements;
+  const imageRequests: ImageRequest[] = [];
+
+  for (const op of operations) {
+    switch (op.type) {
+      case 'add_text':
+        next = [...next, {
+          id: uuidv4(),
+          type: 'text',
+          x: op.x,
+          y: op.y,
+          content: op.text,
+          fontSize: op.fontSize,
+          color: op.color,
+        }];
+        break;
+      case 'add_shape':
+        next = [...next, {
+          id: uuidv4(),
+          type: 'shape',
+          shapeType: op.shape,
+          x: op.x,
+          y: op.y,
+          width: op.width,
+          height: op.height,
+          color: op.color || '#9CA3AF',
+        }];
+        break;
+      case 'generate_image': {
+        const id = uuidv4();
+        const size = fitToEdge({ width: getAspectRatioValue(op.aspectRatio), height: 1 }, op.width);
+        next = [...next, { id, type: 'image-generator', x: op.x, y: op.y, ...size }];
+        imageRequests.push({ placeholderId: id, prompt: op.prompt, aspectRatio: op.aspectRatio });
+        break;
+      }
+      case 'recolor':
+        next = next.map(el => el.id === op.id ? { ...el, color: op.color } : el);
+        break;
+      case 'arrange':
+        next = arrangeElements(next, op.ids, op.layout, op.gap);
+        break;
+    }
+  }
+
+  return { elements: next, imageRequests };
+}
+
+function arrangeElements(elements: CanvasElement[], ids: string[], layout: ArrangeLayout, gap: number) {
+  const targets = elements.filter(el => ids.includes(el.id));
+  if (targets.length < 2) return elements;
+
+  // Keep the reading order the elements already have
+  const ordered = [...targets].sort((a, b) => layout === 'column' ? a.y - b.y || a.x - b.x : a.x - b.x || a.y - b.y);
+  const originX = Math.min(...targets.map(el => el.x));
+  const originY = Math.min(...targets.map(el => el.y));
+  const cellWidth = Math.max(...targets.map(el => el.width || 0));
+  const cellHeight = Math.max(...targets.map(el => el.height || 0));
+  const columns = layout === 'grid' ? Math.ceil(Math.sqrt(ordered.length)) : ordered.length;
+
+  const positions = new Map<string, { x: number; y: number }>();
+  let cursor = 0;
+  ordered.forEach((el, index) => {
+    if (layout === 'row') {
+      positions.set(el.id, { x: originX + cursor, y: originY });
+      cursor += (el.width || 0) + gap;
+    } else if (layout === 'column') {
+      positions.set(el.id, { x: originX, y: originY + cursor });
+      cursor += (el.height || 0) + gap;
+    } else {
+      positions.set(el.id, {
+        x: originX + (index % columns) * (cellWidth + gap),
+        y: originY + Math.floor(index / columns) * (cellHeight + gap),
+      });
+    }
+  });
+
+  return elements.map(el => {
+    const pos = positions.get(el.id);
+    return pos ? { ...el, ...pos } : el;
+  });
+}
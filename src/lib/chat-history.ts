@@ -0,0 +1,101 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  // The assistant reply was cut short (cancelled or disconnected)
+  interrupted?: boolean;
+  createdAt?: string;
+}
+
+// Tokens of history sent with each request; older turns are dropped first
+export const CHAT_HISTORY_TOKEN_BUDGET = 6000;
+
+/**
+ * Rough token count without a tokenizer: CJK characters are about one token
+ * each, other text about four characters per token.
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4) + 4; // +4 per-message overhead
+}
+
+/**
+ * Keep the most recent messages that fit in `budget` tokens. The latest
+ * message is always kept, and the result never starts with an assistant turn.
+ */
+export function trimToTokenBudget(messages: ChatMessage[], budget = CHAT_HISTORY_TOKEN_BUDGET): ChatMessage[] {
+  let used = 0;
+  let start = messages.length;
+
+  while (start > 0) {
+    const cost = estimateTokens(messages[start - 1].content);
+    if (start < messages.length && used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+
+  while (start < messages.length - 1 && messages[start].role !== 'user') {
+    start++;
+  }
+
+  return messages.slice(start);
+}
+
+/**
+ * Validate a history array posted by the client.
+ */
+export function parseChatMessages(value: unknown): ChatMessage[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const messages: ChatMessage[] = [];
+  for (const item of value) {
+    if (!item || (item.role !== 'user' && item.role !== 'assistant') || typeof item.content !== 'string') {
+      return null;
+    }
+    if (item.content.trim()) {
+      messages.push({ role: item.role, content: item.content });
+    }
+  }
+  return messages;
+}
+
+export async function loadChatMessages(supabase: SupabaseClient<Database>, projectId: string): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('role, content, interrupted, created_at')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(row => ({
+    role: row.role,
+    content: row.content,
+    interrupted: row.interrupted,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Append one exchange to a project's thread. Both rows are written in one
+ * insert so a thread never holds a question without its answer.
+ */
+export async function appendChatMessages(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  messages: ChatMessage[]
+) {
+  const now = Date.now();
+  const { error } = await supabase.from('chat_messages').insert(
+    messages.map((message, index) => ({
+      project_id: projectId,
+      role: message.role,
+      content: message.content,
+      interrupted: message.interrupted ?? false,
+      // Distinct timestamps keep the pair in order when sorted by created_at
+      created_at: new Date(now + index).toISOString(),
+    }))
+  );
+  if (error) throw error;
+}
@@ -0,0 +1,38 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase';
+import { createLocalTransport, createSupabaseTransport } from './transport';
+import type { CollabTransport, TransportHandlers } from './types';
+
+export * from './types';
+export * from './merge';
+
+// Cursor updates are dropped beyond this rate
+export const CURSOR_INTERVAL_MS = 50;
+
+const COLLABORATOR_COLORS = ['#E11D48', '#2563EB', '#16A34A', '#D97706', '#7C3AED', '#0891B2', '#DB2777', '#65A30D'];
+
+/**
+ * A stable color per user, so someone keeps their color across sessions.
+ */
+export function getCollaboratorColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+}
+
+/**
+ * Open the collaboration channel for a project with the configured
+ * transport: Supabase Realtime by default, or same-browser tabs when
+ * NEXT_PUBLIC_COLLAB_TRANSPORT=local.
+ */
+export function connectToProject(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  clientId: string,
+  handlers: TransportHandlers
+): CollabTransport {
+  if (process.env.NEXT_PUBLIC_COLLAB_TRANSPORT === 'local') {
+    return createLocalTransport(projectId, clientId, handlers);
+  }
+  return createSupabaseTransport(supabase, projectId, clientId, handlers);
+}
@@ -0,0 +1,189 @@
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+import { ElementValidationError, validateElement } from '@/lib/element-schema';
+import type { ElementOp, Stamp } from './types';
+
+/**
+ * Per-field last-writer-wins merging of canvas elements. Every field of
+ * every element remembers the stamp of its last write; a remote write only
+ * lands when its stamp is newer, so collaborators editing different fields
+ * of one element both keep their changes and all clients converge on the
+ * same result whatever order messages arrive in. Deletions win over
+ * concurrent edits; only re-adding the whole element (undoing the delete)
+ * brings it back.
+ */
+
+export interface MergeState {
+  clientId: string;
+  clock: number;
+  // element id -> field -> stamp of the last write we know of
+  fieldStamps: Map<string, Map<string, Stamp>>;
+  removed: Map<string, Stamp>;
+}
+
+// Fields loaded from the database have never been written in this session
+const ZERO_STAMP: Stamp = { clock: 0, clientId: '' };
+
+export function createMergeState(clientId: string): MergeState {
+  return { clientId, clock: 0, fieldStamps: new Map(), removed: new Map() };
+}
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+function observe(state: MergeState, stamp: Stamp) {
+  state.clock = Math.max(state.clock, stamp.clock);
+}
+
+function getStamp(state: MergeState, id: string, field: string): Stamp {
+  return state.fieldStamps.get(id)?.get(field) ?? ZERO_STAMP;
+}
+
+function setStamp(state: MergeState, id: string, field: string, stamp: Stamp) {
+  let stamps = state.fieldStamps.get(id);
+  if (!stamps) {
+    stamps = new Map();
+    state.fieldStamps.set(id, stamps);
+  }
+  stamps.set(field, stamp);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function changedFields(before: CanvasElement, after: CanvasElement): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  const prev = before as unknown as Record<string, unknown>;
+  const next = after as unknown as Record<string, unknown>;
+  for (const key of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    if (!sameValue(prev[key], next[key])) fields[key] = next[key] ?? null;
+  }
+  return fields;
+}
+
+/**
+ * Turn a local edit (prev -> next) into ops, stamping every written field.
+ * Elements are compared by reference first, as elsewhere on the canvas.
+ */
+export function diffToOps(state: MergeState, prev: CanvasElement[], next: CanvasElement[]): ElementOp[] {
+  const prevById = new Map(prev.map(el => [el.id, el]));
+  const nextIds = new Set(next.map(el => el.id));
+  const stamp: Stamp = { clock: state.clock + 1, clientId: state.clientId };
+  const ops: ElementOp[] = [];
+
+  next.forEach((el, index) => {
+    const before = prevById.get(el.id);
+    if (before === el) return;
+
+    const fields = before ? changedFields(before, el) : { ...el };
+    if (Object.keys(fields).length === 0) return;
+    if (!before) state.removed.delete(el.id);
+
+    const stamps: Record<string, Stamp> = {};
+    for (const field of Object.keys(fields)) {
+      stamps[field] = stamp;
+      setStamp(state, el.id, field, stamp);
+    }
+    ops.push({ kind: 'upsert', id: el.id, index, fields, stamps });
+  });
+
+  for (const el of prev) {
+    if (nextIds.has(el.id)) continue;
+    state.removed.set(el.id, stamp);
+    state.fieldStamps.delete(el.id);
+    ops.push({ kind: 'remove', id: el.id, stamp });
+  }
+
+  if (ops.length > 0) state.clock = stamp.clock;
+  return ops;
+}
+
+/**
+ * Everything we know, as ops a newly joined client can merge.
+ */
+export function snapshotOps(state: MergeState, elements: CanvasElement[]): ElementOp[] {
+  const ops: ElementOp[] = elements.map((el, index) => {
+    const fields = { ...el } as Record<string, unknown>;
+    const stamps: Record<string, Stamp> = {};
+    for (const field of Object.keys(fields)) stamps[field] = getStamp(state, el.id, field);
+    return { kind: 'upsert', id: el.id, index, fields, stamps };
+  });
+  state.removed.forEach((stamp, id) => ops.push({ kind: 'remove', id, stamp }));
+  return ops;
+}
+
+function isCompleteElement(fields: Record<string, unknown>): boolean {
+  try {
+    validateElement(fields);
+    return true;
+  } catch (error) {
+    if (error instanceof ElementValidationError) return false;
+    throw error;
+  }
+}
+
+/**
+ * Merge remote ops into the elements. Returns `elements` itself when nothing
+ * changed, and reuses every untouched element object.
+ */
+export function applyOps(state: MergeState, elements: CanvasElement[], ops: ElementOp[]): CanvasElement[] {
+  let result = elements;
+  const indexOf = (id: string) => result.findIndex(el => el.id === id);
+
+  for (const op of ops) {
+    if (op.kind === 'remove') {
+      observe(state, op.stamp);
+      const known = state.removed.get(op.id);
+      if (!known || compareStamps(op.stamp, known) > 0) state.removed.set(op.id, op.stamp);
+      state.fieldStamps.delete(op.id);
+      if (indexOf(op.id) >= 0) result = result.filter(el => el.id !== op.id);
+      continue;
+    }
+
+    Object.values(op.stamps).forEach(stamp => observe(state, stamp));
+    const removedAt = state.removed.get(op.id);
+    if (removedAt) {
+      const latest = Object.values(op.stamps).reduce((a, b) => (compareStamps(a, b) >= 0 ? a : b), ZERO_STAMP);
+      if (compareStamps(latest, removedAt) <= 0 || !isCompleteElement(op.fields)) continue;
+      state.removed.delete(op.id);
+    }
+
+    const index = indexOf(op.id);
+    const current = index >= 0 ? result[index] as unknown as Record<string, unknown> : null;
+    const merged: Record<string, unknown> = current ? { ...current } : {};
+    let changed = false;
+
+    for (const [field, value] of Object.entries(op.fields)) {
+      const stamp = op.stamps[field] ?? ZERO_STAMP;
+      // A field we hold but have never stamped came from the database: keep it on ties
+      if (current && compareStamps(stamp, getStamp(state, op.id, field)) <= 0) continue;
+      if (current && sameValue(current[field], value)) {
+        setStamp(state, op.id, field, stamp);
+        continue;
+      }
+      setStamp(state, op.id, field, stamp);
+      if (value === null) delete merged[field];
+      else merged[field] = value;
+      changed = true;
+    }
+
+    if (!changed) continue;
+
+    // A partial op for an element we never saw cannot be shown yet
+    if (!isCompleteElement(merged)) continue;
+    const element = merged as unknown as CanvasElement;
+
+    if (index >= 0) {
+      result = result.map((el, i) => (i === index ? element : el));
+    } else {
+      result = [...result];
+      result.splice(Math.min(Math.max(op.index, 0), result.length), 0, element);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,172 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase';
+import type { CollabMessage, CollabPresence, CollabTransport, TransportHandlers } from './types';
+
+const BROADCAST_EVENT = 'collab';
+
+export function projectChannelName(projectId: string) {
+  return `project:${projectId}`;
+}
+
+// Element ops travel on their own channel, which only editors may send on
+export function projectEditsChannelName(projectId: string) {
+  return `project-edits:${projectId}`;
+}
+
+/**
+ * Supabase Realtime: broadcast for edits and cursors, presence for who is
+ * here. Edits use a separate channel from presence and cursors. Both are
+ * private, so Realtime authorization (add-project-members.sql) decides who
+ * may join and send.
+ */
+export function createSupabaseTransport(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  clientId: string,
+  handlers: TransportHandlers
+): CollabTransport {
+  let presence: CollabPresence | null = null;
+  let subscribed = false;
+  let editsSubscribed = false;
+
+  // Connected once both channels are, so answers to our hello are not missed
+  const reportConnected = () => {
+    if (subscribed && editsSubscribed) handlers.onConnected?.();
+  };
+  const warn = (status: string) => {
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      console.warn(`Collaboration channel ${status.toLowerCase()}`);
+    }
+  };
+
+  const channel = supabase.channel(projectChannelName(projectId), {
+    config: {
+      private: true,
+      broadcast: { self: false },
+      presence: { key: clientId },
+    },
+  });
+  const editsChannel = supabase.channel(projectEditsChannelName(projectId), {
+    config: {
+      private: true,
+      broadcast: { self: false },
+    },
+  });
+
+  channel
+    .on('broadcast', { event: BROADCAST_EVENT }, ({ payload }) => {
+      const message = payload as CollabMessage;
+      // Ops are only accepted from the edits channel
+      if (message.type !== 'ops') handlers.onMessage(message);
+    })
+    .on('presence', { event: 'sync' }, () => {
+      const state = channel.presenceState<CollabPresence>();
+      handlers.onPresence(Object.values(state).map(entries => entries[0]).filter(Boolean));
+    })
+    .subscribe(status => {
+      if (status === 'SUBSCRIBED') {
+        subscribed = true;
+        if (presence) channel.track(presence);
+        reportConnected();
+      } else {
+        warn(status);
+      }
+    });
+
+  editsChannel
+    .on('broadcast', { event: BROADCAST_EVENT }, ({ payload }) => {
+      const message = payload as CollabMessage;
+      if (message.type === 'ops') handlers.onMessage(message);
+    })
+    .subscribe(status => {
+      if (status === 'SUBSCRIBED') {
+        editsSubscribed = true;
+        reportConnected();
+      } else {
+        warn(status);
+      }
+    });
+
+  return {
+    send(message) {
+      const isEdit = message.type === 'ops';
+      if (!(isEdit ? editsSubscribed : subscribed)) return;
+      (isEdit ? editsChannel : channel).send({ type: 'broadcast', event: BROADCAST_EVENT, payload: message });
+    },
+    track(next) {
+      presence = next;
+      if (subscribed) channel.track(next);
+    },
+    close() {
+      supabase.removeChannel(channel);
+      supabase.removeChannel(editsChannel);
+    },
+  };
+}
+
+type LocalEnvelope =
+  | { kind: 'message'; message: CollabMessage }
+  | { kind: 'presence'; presence: CollabPresence }
+  | { kind: 'leave'; clientId: string }
+  // Ask everyone to announce themselves again
+  | { kind: 'ping' };
+
+/**
+ * Same-browser transport over BroadcastChannel, for trying collaboration
+ * locally in two tabs without Realtime. Enabled with
+ * NEXT_PUBLIC_COLLAB_TRANSPORT=local.
+ */
+export function createLocalTransport(
+  projectId: string,
+  clientId: string,
+  handlers: TransportHandlers
+): CollabTransport {
+  const channel = new BroadcastChannel(`lovart:${projectChannelName(projectId)}`);
+  const peers = new Map<string, CollabPresence>();
+  let presence: CollabPresence | null = null;
+
+  const emitPresence = () => handlers.onPresence([...(presence ? [presence] : []), ...peers.values()]);
+
+  channel.onmessage = (event: MessageEvent<LocalEnvelope>) => {
+    const envelope = event.data;
+    switch (envelope.kind) {
+      case 'message':
+        handlers.onMessage(envelope.message);
+        break;
+      case 'presence':
+        peers.set(envelope.presence.clientId, envelope.presence);
+        emitPresence();
+        break;
+      case 'leave':
+        peers.delete(envelope.clientId);
+        emitPresence();
+        break;
+      case 'ping':
+        if (presence) channel.postMessage({ kind: 'presence', presence } satisfies LocalEnvelope);
+        break;
+    }
+  };
+
+  const leave = () => channel.postMessage({ kind: 'leave', clientId } satisfies LocalEnvelope);
+  window.addEventListener('pagehide', leave);
+
+  channel.postMessage({ kind: 'ping' } satisfies LocalEnvelope);
+  // Let the caller finish setting up before reporting the connection
+  queueMicrotask(() => handlers.onConnected?.());
+
+  return {
+    send(message) {
+      channel.postMessage({ kind: 'message', message } satisfies LocalEnvelope);
+    },
+    track(next) {
+      presence = next;
+      channel.postMessage({ kind: 'presence', presence: next } satisfies LocalEnvelope);
+      emitPresence();
+    },
+    close() {
+      leave();
+      window.removeEventListener('pagehide', leave);
+      channel.close();
+    },
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Lamport timestamp ordering concurrent edits. Ties on the clock are broken
+ * by client id so every client picks the same winner.
+ */
+export interface Stamp {
+  clock: number;
+  clientId: string;
+}
+
+/**
+ * An element-level change sent between collaborators.
+ * `upsert` carries only the fields it sets, each with the stamp of its last
+ * write; null means the field was cleared. `index` places new elements in
+ * the stacking order.
+ */
+export type ElementOp =
+  | { kind: 'upsert'; id: string; index: number; fields: Record<string, unknown>; stamps: Record<string, Stamp> }
+  | { kind: 'remove'; id: string; stamp: Stamp };
+
+export interface CanvasPoint {
+  x: number;
+  y: number;
+}
+
+export type CollabMessage =
+  | { type: 'ops'; from: string; ops: ElementOp[] }
+  // Sent on join; peers answer with their full state as ops
+  | { type: 'hello'; from: string }
+  // Canvas coordinates; null when the pointer leaves the board
+  | { type: 'cursor'; from: string; point: CanvasPoint | null };
+
+/**
+ * What each client advertises about itself while connected.
+ */
+export interface CollabPresence {
+  clientId: string;
+  userId: string;
+  name: string;
+  avatarUrl: string | null;
+  color: string;
+  selection: string[];
+  // Ops from clients that cannot edit are ignored
+  canEdit: boolean;
+}
+
+export interface TransportHandlers {
+  onMessage: (message: CollabMessage) => void;
+  // Everyone connected, including this client
+  onPresence: (presences: CollabPresence[]) => void;
+  onConnected?: () => void;
+}
+
+/**
+ * A project channel: broadcast messages plus presence.
+ */
+export interface CollabTransport {
+  send(message: CollabMessage): void;
+  track(presence: CollabPresence): void;
+  close(): void;
+}
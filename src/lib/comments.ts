@@ -0,0 +1,189 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+import type { ProjectMember } from '@/lib/project-members';
+import type { Database } from '@/lib/supabase';
+
+/**
+ * Comment threads on a board. A thread starts with a pin dropped by the
+ * mark tool and collects replies. Pins sit at a canvas position or on an
+ * element, relative to its top-left corner so they follow it when moved.
+ * Permissions are enforced by RLS (add-comments.sql).
+ */
+
+type CommentRow = Database['public']['Tables']['comments']['Row'];
+
+export interface CanvasComment {
+  id: string;
+  parentId: string | null;
+  userId: string;
+  body: string;
+  // User ids of the people @mentioned in body
+  mentions: string[];
+  elementId: string | null;
+  x: number | null;
+  y: number | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  createdAt: string;
+}
+
+export interface CommentAnchor {
+  elementId: string | null;
+  x: number;
+  y: number;
+}
+
+export interface CommentThread {
+  root: CanvasComment;
+  replies: CanvasComment[];
+}
+
+export function toCanvasComment(row: CommentRow): CanvasComment {
+  return {
+    id: row.id,
+    parentId: row.parent_id,
+    userId: row.user_id,
+    body: row.body,
+    mentions: row.mentions ?? [],
+    elementId: row.element_id,
+    x: row.x,
+    y: row.y,
+    resolvedAt: row.resolved_at,
+    resolvedBy: row.resolved_by,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Threads oldest first, each with its replies in order. Replies whose pin
+ * is missing are dropped.
+ */
+export function groupCommentThreads(comments: CanvasComment[]): CommentThread[] {
+  const byCreation = [...comments].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const threads = new Map<string, CommentThread>();
+
+  for (const comment of byCreation) {
+    if (!comment.parentId) threads.set(comment.id, { root: comment, replies: [] });
+  }
+  for (const comment of byCreation) {
+    if (comment.parentId) threads.get(comment.parentId)?.replies.push(comment);
+  }
+  return [...threads.values()];
+}
+
+/**
+ * Anchor for a pin dropped at a canvas point, on `element` when given.
+ */
+export function anchorAt(point: { x: number; y: number }, element?: CanvasElement | null): CommentAnchor {
+  if (!element) return { elementId: null, x: point.x, y: point.y };
+  return { elementId: element.id, x: point.x - element.x, y: point.y - element.y };
+}
+
+/**
+ * Canvas position of a pin, or null when its element is gone.
+ */
+export function pinPosition(anchor: CommentAnchor | CanvasComment, elements: CanvasElement[]) {
+  if (anchor.x === null || anchor.y === null) return null;
+  if (!anchor.elementId) return { x: anchor.x, y: anchor.y };
+
+  const element = elements.find(el => el.id === anchor.elementId);
+  return element ? { x: element.x + anchor.x, y: element.y + anchor.y } : null;
+}
+
+// How a member is written after "@"
+export function mentionLabel(member: Pick<ProjectMember, 'name' | 'email'>) {
+  return member.name || member.email;
+}
+
+/**
+ * Members mentioned in a comment body, by user id. Only members who have
+ * signed in can be mentioned.
+ */
+export function findMentions(body: string, members: ProjectMember[]): string[] {
+  const ids = members
+    .filter(member => member.userId && body.includes(`@${mentionLabel(member)}`))
+    .map(member => member.userId as string);
+  return [...new Set(ids)];
+}
+
+/**
+ * Split a body into plain text and @mentions of the given labels, for
+ * highlighting. Longer labels win when one is a prefix of another.
+ */
+export function splitMentions(body: string, labels: string[]): { text: string; mention: boolean }[] {
+  const sorted = [...new Set(labels.filter(Boolean))].sort((a, b) => b.length - a.length);
+  if (sorted.length === 0) return [{ text: body, mention: false }];
+
+  const pattern = new RegExp(`(@(?:${sorted.map(label => label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')}))`);
+  // split() puts the captured mentions at odd indexes
+  return body
+    .split(pattern)
+    .map((text, index) => ({ text, mention: index % 2 === 1 }))
+    .filter(part => part.text);
+}
+
+export async function loadComments(supabase: SupabaseClient<Database>, projectId: string): Promise<CanvasComment[]> {
+  const { data, error } = await supabase
+    .from('comments')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(toCanvasComment);
+}
+
+/**
+ * Start a thread at `anchor`, or reply to the thread `parentId`.
+ */
+export async function addComment(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  comment: { body: string; mentions: string[]; parentId?: string; anchor?: CommentAnchor }
+): Promise<CanvasComment> {
+  const { data, error } = await supabase
+    .from('comments')
+    .insert({
+      project_id: projectId,
+      parent_id: comment.parentId ?? null,
+      body: comment.body,
+      mentions: comment.mentions,
+      element_id: comment.anchor?.elementId ?? null,
+      x: comment.anchor?.x ?? null,
+      y: comment.anchor?.y ?? null,
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return toCanvasComment(data);
+}
+
+export async function updateComment(
+  supabase: SupabaseClient<Database>,
+  id: string,
+  changes: { body: string; mentions: string[] }
+) {
+  const { error } = await supabase.from('comments').update(changes).eq('id', id);
+  if (error) throw error;
+}
+
+export async function setCommentResolved(
+  supabase: SupabaseClient<Database>,
+  threadId: string,
+  resolved: boolean
+): Promise<CanvasComment> {
+  const { data, error } = await supabase.rpc('set_comment_resolved', {
+    p_comment_id: threadId,
+    p_resolved: resolved,
+  });
+
+  if (error) throw error;
+  return toCanvasComment(data);
+}
+
+// Deleting a pin deletes its replies
+export async function deleteComment(supabase: SupabaseClient<Database>, id: string) {
+  const { error } = await supabase.from('comments').delete().eq('id', id);
+  if (error) throw error;
+}
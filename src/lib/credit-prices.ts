@@ -0,0 +1,48 @@
+/**
+ * Credit prices per generation operation.
+ * Shared by the API routes (which charge) and the panels (which display).
+ */
+
+export type ImageResolution = '1K' | '2K' | '4K';
+export type VideoSize = '720x1280' | '1280x720' | '1024x1792' | '1792x1024';
+export type VideoSeconds = 10 | 15;
+
+// The sizes and lengths the video panel offers; the API accepts nothing else
+export const VIDEO_SIZES: VideoSize[] = ['720x1280', '1280x720', '1024x1792', '1792x1024'];
+export const VIDEO_DURATIONS: VideoSeconds[] = [10, 15];
+
+export const IMAGE_PRICES: Record<ImageResolution, number> = {
+  '1K': 40,
+  '2K': 60,
+  '4K': 100,
+};
+
+// Sora is billed per second of output; the high resolution sizes cost double
+export const VIDEO_PRICE_PER_SECOND: Record<VideoSize, number> = {
+  '720x1280': 8,
+  '1280x720': 8,
+  '1024x1792': 16,
+  '1792x1024': 16,
+};
+
+export const CHAT_PRICE = 2;
+
+// Balance of a new user (the user_credits.credits default). Their row is only
+// created by their first reservation, so until then there is nothing to read.
+export const STARTING_CREDITS = 1000;
+
+export function getImagePrice(resolution: ImageResolution = '1K', count = 1): number {
+  return (IMAGE_PRICES[resolution] ?? IMAGE_PRICES['1K']) * count;
+}
+
+export function isVideoSize(value: unknown): value is VideoSize {
+  return typeof value === 'string' && (VIDEO_SIZES as string[]).includes(value);
+}
+
+export function isVideoSeconds(value: unknown): value is VideoSeconds {
+  return typeof value === 'number' && (VIDEO_DURATIONS as number[]).includes(value);
+}
+
+export function getVideoPrice(seconds: number, size: VideoSize = '720x1280'): number {
+  return Math.ceil(seconds * (VIDEO_PRICE_PER_SECOND[size] ?? VIDEO_PRICE_PER_SECOND['720x1280']));
+}
@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Database, getServiceSupabaseClient } from '@/lib/supabase';
+
+// SQLSTATE raised by reserve_credits() when the balance is too low
+const INSUFFICIENT_CREDITS_CODE = 'P0402';
+
+export class InsufficientCreditsError extends Error {
+  constructor(public required: number, public balance: number | null) {
+    super(`Insufficient credits: ${required} required, ${balance ?? 0} available`);
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+/**
+ * The ledger functions are only executable with the service role, so users
+ * cannot settle their own reservations through PostgREST.
+ */
+const getLedgerClient = getServiceSupabaseClient;
+
+export async function getCreditBalance(supabase: SupabaseClient<Database>, userId: string): Promise<number | null> {
+  const { data } = await supabase
+    .from('user_credits')
+    .select('credits')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return data?.credits ?? null;
+}
+
+/**
+ * Atomically deduct `amount` credits and record a `reserved` transaction.
+ * Returns the transaction id to commit or refund once the provider call ends.
+ */
+export async function reserveCredits(
+  userId: string,
+  amount: number,
+  operation: string,
+  metadata: Record<string, unknown> = {}
+): Promise<string> {
+  const ledger = getLedgerClient();
+  const { data, error } = await ledger.rpc('reserve_credits', {
+    p_user_id: userId,
+    p_amount: amount,
+    p_operation: operation,
+    p_metadata: metadata,
+  });
+
+  if (error) {
+    if (error.code === INSUFFICIENT_CREDITS_CODE) {
+      throw new InsufficientCreditsError(amount, await getCreditBalance(ledger, userId));
+    }
+    throw error;
+  }
+
+  return data;
+}
+
+export async function commitCredits(transactionId: string) {
+  const { error } = await getLedgerClient().rpc('commit_credits', { p_transaction_id: transactionId });
+  if (error) throw error;
+}
+
+/**
+ * Return reserved credits. Refunding a transaction that was already committed
+ * or refunded is a no-op on the database side.
+ */
+export async function refundCredits(transactionId: string) {
+  const { error } = await getLedgerClient().rpc('refund_credits', { p_transaction_id: transactionId });
+  if (error) throw error;
+}
+
+/**
+ * Reserve credits, run the provider call, then commit on success or refund
+ * on failure.
+ */
+export async function withCredits<T>(
+  userId: string,
+  amount: number,
+  operation: string,
+  metadata: Record<string, unknown>,
+  run: () => Promise<T>
+): Promise<T> {
+  const transactionId = await reserveCredits(userId, amount, operation, metadata);
+
+  let result: T;
+  try {
+    result = await run();
+  } catch (error) {
+    await refundCredits(transactionId).catch(refundError => {
+      console.error('Failed to refund credits:', refundError);
+    });
+    throw error;
+  }
+
+  await commitCredits(transactionId);
+  return result;
+}
+
+/**
+ * The 402 response every generation route returns for a low balance.
+ */
+export function insufficientCreditsResponse(error: InsufficientCreditsError) {
+  return NextResponse.json(
+    {
+      error: 'Insufficient credits',
+      details: `积分不足：需要 ${error.required}，剩余 ${error.balance ?? 0}`,
+      required: error.required,
+      balance: error.balance,
+    },
+    { status: 402 }
+  );
+}
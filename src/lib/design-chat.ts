@@ -0,0 +1,81 @@
+import type { CanvasOperation, CanvasSummary } from './canvas-tools';
+import type { ChatMessage } from './chat-history';
+import { readNdjson } from './ndjson';
+
+/**
+ * Lines streamed by /api/generate-design when called with `stream: true`.
+ */
+export type DesignStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'operations'; operations: CanvasOperation[] }
+  | { type: 'done' }
+  | { type: 'error'; error: string; details?: string };
+
+export interface DesignStreamOptions {
+  // Save the exchange into this project's thread
+  projectId?: string | null;
+  // Let the assistant propose canvas operations against this board
+  canvas?: CanvasSummary;
+  signal?: AbortSignal;
+  // Called with the full reply so far each time more text arrives
+  onDelta?: (text: string) => void;
+}
+
+export interface DesignStreamResult {
+  text: string;
+  // Proposed canvas changes, applied only once the user accepts them
+  operations: CanvasOperation[];
+  // The reply ended early: cancelled by the user or the connection dropped
+  interrupted: boolean;
+}
+
+/**
+ * Stream a design suggestion from the browser for a thread ending with the
+ * new user message. Whatever arrived before a cancel or disconnect is
+ * returned rather than thrown away; an error is only thrown when nothing was
+ * received at all.
+ */
+export async function streamDesignChat(messages: ChatMessage[], options: DesignStreamOptions = {}): Promise<DesignStreamResult> {
+  let text = '';
+  let operations: CanvasOperation[] = [];
+  let finished = false;
+
+  try {
+    const response = await fetch('/api/generate-design', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        messages: messages.map(({ role, content }) => ({ role, content })),
+        projectId: options.projectId ?? undefined,
+        canvas: options.canvas,
+        stream: true,
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.details || data.error || '生成失败');
+    }
+
+    await readNdjson<DesignStreamEvent>(response, event => {
+      if (event.type === 'delta') {
+        text += event.text;
+        options.onDelta?.(text);
+      } else if (event.type === 'operations') {
+        operations = event.operations;
+      } else if (event.type === 'done') {
+        finished = true;
+      } else if (event.type === 'error') {
+        throw new Error(event.details || event.error);
+      }
+    });
+  } catch (error) {
+    const aborted = options.signal?.aborted;
+    if (!text && !aborted) throw error;
+    if (!aborted) console.warn('Design stream interrupted:', error);
+    return { text, operations, interrupted: true };
+  }
+
+  return { text, operations, interrupted: !finished };
+}
@@ -0,0 +1,243 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+
+/**
+ * Versioning for `canvas_elements.element_data`. Each row records the schema
+ * version it was written with; on load, older shapes are upgraded one
+ * version at a time through MIGRATIONS and then validated, so CanvasElement
+ * can change without breaking saved projects.
+ *
+ * To change the element shape: bump ELEMENT_SCHEMA_VERSION, add a migration
+ * from the previous version, and update validateElement.
+ */
+
+export const ELEMENT_SCHEMA_VERSION = 2;
+
+// Rows saved before versioning existed
+export const LEGACY_SCHEMA_VERSION = 1;
+
+export const ELEMENT_TYPES: CanvasElement['type'][] = [
+  'image', 'text', 'shape', 'path', 'image-generator', 'video-generator', 'video', 'connector', 'frame',
+];
+
+const SHAPE_TYPES: NonNullable<CanvasElement['shapeType']>[] = [
+  'square', 'circle', 'triangle', 'star', 'message', 'arrow-left', 'arrow-right',
+];
+
+const CONNECTOR_STYLES: NonNullable<CanvasElement['connectorStyle']>[] = ['solid', 'dashed'];
+
+const NUMBER_FIELDS = ['width', 'height', 'fontSize', 'strokeWidth'] as const;
+
+const STRING_FIELDS = [
+  'content', 'assetId', 'color', 'fontFamily', 'referenceImageId', 'groupId',
+  'connectorFrom', 'connectorTo', 'variantGroupId',
+] as const;
+
+type ElementData = Record<string, unknown>;
+
+/**
+ * Stored element data that cannot be loaded, even after migration.
+ */
+export class ElementValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ElementValidationError';
+  }
+}
+
+function isRecord(value: unknown): value is ElementData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * 1 -> 2: older clients could write numbers as strings (e.g. font sizes from
+ * a <select>) and nulls for cleared fields, and connectors predate
+ * connectorStyle.
+ */
+function migrateFromV1(data: ElementData): ElementData {
+  const next: ElementData = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value === null) continue;
+    const isNumeric = key === 'x' || key === 'y' || (NUMBER_FIELDS as readonly string[]).includes(key);
+    next[key] = isNumeric && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  }
+  if (next.type === 'connector' && next.connectorStyle === undefined) {
+    next.connectorStyle = 'solid';
+  }
+  return next;
+}
+
+// Keyed by the version each migration upgrades from
+const MIGRATIONS: Record<number, (data: ElementData) => ElementData> = {
+  1: migrateFromV1,
+};
+
+/**
+ * Fix numbers a client wrote as NaN or Infinity, which JSON stores as null:
+ * optional fields are dropped and a lost position falls back to 0, so one
+ * bad field doesn't drop the element from the board. Returns null when
+ * nothing needed repair.
+ */
+function repairNumbers(data: ElementData): ElementData | null {
+  let repaired: ElementData | null = null;
+  for (const key of ['x', 'y', ...NUMBER_FIELDS]) {
+    const value = data[key];
+    if (value === undefined || isFiniteNumber(value)) continue;
+    if (value !== null && typeof value !== 'number') continue;
+    repaired ??= { ...data };
+    if (key === 'x' || key === 'y') repaired[key] = 0;
+    else delete repaired[key];
+  }
+  return repaired;
+}
+
+/**
+ * Check that data has the current CanvasElement shape. Unknown extra fields
+ * are kept so data written by a newer client survives a round trip.
+ */
+export function validateElement(data: unknown): CanvasElement {
+  if (!isRecord(data)) throw new ElementValidationError('Element is not an object');
+
+  const id = typeof data.id === 'string' && data.id ? data.id : null;
+  if (!id) throw new ElementValidationError('Element has no id');
+  const fail = (problem: string): never => {
+    throw new ElementValidationError(`Element ${id} ${problem}`);
+  };
+
+  if (!ELEMENT_TYPES.includes(data.type as CanvasElement['type'])) fail(`has unknown type: ${String(data.type)}`);
+  if (!isFiniteNumber(data.x) || !isFiniteNumber(data.y)) fail('has no position');
+
+  for (const field of NUMBER_FIELDS) {
+    if (data[field] !== undefined && !isFiniteNumber(data[field])) fail(`has an invalid ${field}`);
+  }
+  for (const field of STRING_FIELDS) {
+    if (data[field] !== undefined && typeof data[field] !== 'string') fail(`has an invalid ${field}`);
+  }
+
+  if (data.shapeType !== undefined && !SHAPE_TYPES.includes(data.shapeType as NonNullable<CanvasElement['shapeType']>)) {
+    fail(`has unknown shape: ${String(data.shapeType)}`);
+  }
+  if (data.connectorStyle !== undefined && !CONNECTOR_STYLES.includes(data.connectorStyle as NonNullable<CanvasElement['connectorStyle']>)) {
+    fail(`has unknown connector style: ${String(data.connectorStyle)}`);
+  }
+  if (data.points !== undefined && (
+    !Array.isArray(data.points) || !data.points.every(point => isRecord(point) && isFiniteNumber(point.x) && isFiniteNumber(point.y))
+  )) {
+    fail('has invalid points');
+  }
+  if (data.linkedElements !== undefined && (
+    !Array.isArray(data.linkedElements) || !data.linkedElements.every(linked => typeof linked === 'string')
+  )) {
+    fail('has invalid linked elements');
+  }
+  if (data.type === 'connector' && (!data.connectorFrom || !data.connectorTo)) fail('is a connector without both ends');
+
+  return data as unknown as CanvasElement;
+}
+
+/**
+ * Upgrade element data written at `version` to the current schema, repair
+ * invalid numbers and validate it. `changed` tells whether saving the element
+ * would write different data.
+ */
+function upgradeElement(data: unknown, version: number): { element: CanvasElement; changed: boolean } {
+  if (!Number.isInteger(version) || version < LEGACY_SCHEMA_VERSION) {
+    throw new ElementValidationError(`Unknown element schema version: ${version}`);
+  }
+  if (version > ELEMENT_SCHEMA_VERSION) {
+    throw new ElementValidationError(`Element schema version ${version} is newer than this app supports`);
+  }
+  if (!isRecord(data)) throw new ElementValidationError('Element is not an object');
+
+  let current = data;
+  for (let from = version; from < ELEMENT_SCHEMA_VERSION; from++) {
+    current = MIGRATIONS[from](current);
+  }
+  const repaired = repairNumbers(current);
+  return {
+    element: validateElement(repaired ?? current),
+    changed: version < ELEMENT_SCHEMA_VERSION || repaired !== null,
+  };
+}
+
+/**
+ * Upgrade element data written at `version` to the current schema and
+ * validate it. Throws ElementValidationError when it cannot be loaded,
+ * including data from a newer schema than this client knows.
+ */
+export function migrateElement(data: unknown, version: number = LEGACY_SCHEMA_VERSION): CanvasElement {
+  return upgradeElement(data, version).element;
+}
+
+export interface ElementRow {
+  id: string;
+  element_data: unknown;
+  schema_version?: number | null;
+}
+
+export interface LoadedElements {
+  elements: CanvasElement[];
+  // Elements upgraded from an older version or repaired; saving them writes the fixed shape
+  migratedIds: string[];
+  // Rows that could not be loaded, left untouched in the database
+  rejected: { rowId: string; reason: string }[];
+}
+
+/**
+ * Turn `canvas_elements` rows into elements, migrating old rows and setting
+ * aside invalid ones instead of failing the whole project. When rows repeat
+ * an element id (legacy rows) the last one wins.
+ */
+export function loadElementRows(rows: ElementRow[]): LoadedElements {
+  const elements = new Map<string, CanvasElement>();
+  const migratedIds = new Set<string>();
+  const rejected: LoadedElements['rejected'] = [];
+
+  for (const row of rows) {
+    const version = row.schema_version ?? LEGACY_SCHEMA_VERSION;
+    try {
+      const { element, changed } = upgradeElement(row.element_data, version);
+      elements.set(element.id, element);
+      if (changed) migratedIds.add(element.id);
+    } catch (error) {
+      if (!(error instanceof ElementValidationError)) throw error;
+      rejected.push({ rowId: row.id, reason: error.message });
+    }
+  }
+
+  return { elements: Array.from(elements.values()), migratedIds: Array.from(migratedIds), rejected };
+}
+
+/**
+ * Give every element, and every group it belongs to, a fresh id so the same
+ * elements can be copied into another project (archive imports, snapshot
+ * copies) any number of times. References between elements follow the new
+ * ids; references to elements outside the set are dropped.
+ */
+export function rewriteElementIds(elements: CanvasElement[]): CanvasElement[] {
+  const elementIds = new Map(elements.map(el => [el.id, uuidv4()]));
+  const groupIds = new Map<string, string>();
+  const group = (id: string | undefined) => {
+    if (!id) return undefined;
+    if (!groupIds.has(id)) groupIds.set(id, uuidv4());
+    return groupIds.get(id);
+  };
+  const ref = (id: string | undefined) => (id ? elementIds.get(id) : undefined);
+
+  return elements.map(el => ({
+    ...el,
+    id: elementIds.get(el.id)!,
+    referenceImageId: ref(el.referenceImageId),
+    connectorFrom: ref(el.connectorFrom),
+    connectorTo: ref(el.connectorTo),
+    linkedElements: el.linkedElements
+      ?.map(id => elementIds.get(id))
+      .filter((id): id is string => !!id),
+    groupId: group(el.groupId),
+    variantGroupId: group(el.variantGroupId),
+  }));
+}
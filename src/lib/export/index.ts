@@ -0,0 +1,88 @@
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+import { buildPdf, PdfPage } from './pdf';
+import { canvasToBlob, rasterizeRegion } from './rasterize';
+import { ExportScope, resolveExportPages, resolveExportRegion } from './scope';
+import { serializeSvg } from './svg';
+
+export * from './scope';
+
+export type ExportFormat = 'png' | 'jpeg' | 'pdf' | 'svg';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['png', 'jpeg', 'pdf', 'svg'];
+
+export const EXPORT_SCALES = [1, 2, 3];
+
+const JPEG_QUALITY = 0.92;
+
+// CSS pixels are 1/96 inch, PDF points 1/72
+const POINTS_PER_PIXEL = 72 / 96;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Ignored by SVG, which stays vector
+  scale: number;
+}
+
+/**
+ * Export part of the board in the browser. PNG and SVG keep transparency;
+ * JPEG and PDF are flattened onto white. PDF puts each frame in the scope on
+ * its own page. Throws when the scope has nothing to draw.
+ */
+export async function exportBoard(elements: CanvasElement[], scope: ExportScope, { format, scale }: ExportOptions): Promise<Blob> {
+  if (format === 'pdf') {
+    const regions = resolveExportPages(elements, scope);
+    if (regions.length === 0) throw new Error('Nothing to export');
+
+    const pages: PdfPage[] = [];
+    for (const region of regions) {
+      const canvas = await rasterizeRegion(region, elements, { scale, background: '#FFFFFF' });
+      const jpeg = await canvasToBlob(canvas, 'image/jpeg', JPEG_QUALITY);
+      pages.push({
+        width: region.bounds.width * POINTS_PER_PIXEL,
+        height: region.bounds.height * POINTS_PER_PIXEL,
+        jpeg: new Uint8Array(await jpeg.arrayBuffer()),
+        pixelWidth: canvas.width,
+        pixelHeight: canvas.height,
+      });
+    }
+    return new Blob([buildPdf(pages) as Uint8Array<ArrayBuffer>], { type: 'application/pdf' });
+  }
+
+  const region = resolveExportRegion(elements, scope);
+  if (!region) throw new Error('Nothing to export');
+
+  if (format === 'svg') {
+    return new Blob([await serializeSvg(region, elements)], { type: 'image/svg+xml' });
+  }
+
+  const canvas = await rasterizeRegion(region, elements, {
+    scale,
+    background: format === 'jpeg' ? '#FFFFFF' : undefined,
+  });
+  return format === 'jpeg'
+    ? canvasToBlob(canvas, 'image/jpeg', JPEG_QUALITY)
+    : canvasToBlob(canvas, 'image/png');
+}
+
+/**
+ * File name for a download, with characters Windows and macOS reject replaced.
+ */
+export function exportFilename(title: string, extension: string) {
+  const base = title.trim().replace(/[\\/:*?"<>|]+/g, '_') || 'Untitled';
+  return `${base}.${extension}`;
+}
+
+/**
+ * Save a blob through a temporary download link.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the download a moment to start before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
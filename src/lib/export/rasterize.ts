@@ -0,0 +1,246 @@
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+import {
+  DEFAULT_CONNECTOR_COLOR,
+  DEFAULT_FONT_FAMILY,
+  DEFAULT_FONT_SIZE,
+  DEFAULT_FRAME_COLOR,
+  DEFAULT_SHAPE_COLOR,
+  DEFAULT_TEXT_COLOR,
+  ExportRegion,
+  getConnectorLine,
+  measureTextElement,
+  textContent,
+} from './scope';
+import { getBoxShapePath, ICON_VIEWBOX, MEDIA_CORNER_RADIUS, SHAPE_ICON_PATHS } from './shapes';
+
+// Browsers refuse to allocate canvases much beyond this many pixels
+const MAX_CANVAS_PIXELS = 16384 * 16384 / 4;
+
+export interface RasterizeOptions {
+  // Output pixels per canvas unit
+  scale: number;
+  // Fill behind the content; transparent when unset
+  background?: string;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement | null> {
+  return new Promise(resolve => {
+    const img = new Image();
+    // Asset URLs are served with CORS headers; without this the canvas could not be exported
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+}
+
+export function loadVideoFrame(src: string): Promise<HTMLVideoElement | null> {
+  return new Promise(resolve => {
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => resolve(null);
+    video.src = src;
+  });
+}
+
+// Draw media like `object-fit: cover`: fill the box, cropping the overflow
+function drawCover(
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  el: CanvasElement
+) {
+  const width = el.width || sourceWidth;
+  const height = el.height || sourceHeight;
+  const scale = Math.max(width / sourceWidth, height / sourceHeight);
+  const cropWidth = width / scale;
+  const cropHeight = height / scale;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(el.x, el.y, width, height, MEDIA_CORNER_RADIUS);
+  ctx.clip();
+  ctx.drawImage(
+    source,
+    (sourceWidth - cropWidth) / 2,
+    (sourceHeight - cropHeight) / 2,
+    cropWidth,
+    cropHeight,
+    el.x,
+    el.y,
+    width,
+    height
+  );
+  ctx.restore();
+}
+
+function drawShape(ctx: CanvasRenderingContext2D, el: CanvasElement) {
+  const width = el.width || 0;
+  const height = el.height || 0;
+  ctx.save();
+  ctx.translate(el.x, el.y);
+  ctx.fillStyle = el.color || DEFAULT_SHAPE_COLOR;
+
+  const icon = el.shapeType && SHAPE_ICON_PATHS[el.shapeType];
+  if (icon) {
+    // The canvas keeps icon proportions inside the box (preserveAspectRatio meet)
+    const fit = Math.min(width, height) / ICON_VIEWBOX;
+    ctx.translate((width - ICON_VIEWBOX * fit) / 2, (height - ICON_VIEWBOX * fit) / 2);
+    ctx.scale(fit, fit);
+    ctx.fill(new Path2D(icon));
+  } else {
+    const path = getBoxShapePath(el.shapeType, width, height);
+    if (path) ctx.fill(new Path2D(path));
+  }
+  ctx.restore();
+}
+
+function drawPath(ctx: CanvasRenderingContext2D, el: CanvasElement) {
+  const [first, ...rest] = el.points || [];
+  if (!first) return;
+  ctx.save();
+  ctx.translate(el.x, el.y);
+  ctx.strokeStyle = el.color || '#000000';
+  ctx.lineWidth = el.strokeWidth || 3;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  ctx.moveTo(first.x, first.y);
+  for (const point of rest) ctx.lineTo(point.x, point.y);
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawText(ctx: CanvasRenderingContext2D, el: CanvasElement) {
+  const fontSize = el.fontSize || DEFAULT_FONT_SIZE;
+  const { height } = measureTextElement(el);
+  ctx.save();
+  ctx.font = `${fontSize}px ${el.fontFamily || DEFAULT_FONT_FAMILY}`;
+  ctx.fillStyle = el.color || DEFAULT_TEXT_COLOR;
+  ctx.textBaseline = 'middle';
+  // Vertically centred in its box, like the canvas' flex layout
+  ctx.fillText(textContent(el), el.x, el.y + height / 2);
+  ctx.restore();
+}
+
+function drawConnector(ctx: CanvasRenderingContext2D, el: CanvasElement, elements: CanvasElement[]) {
+  const line = getConnectorLine(el, elements);
+  if (!line) return;
+  const strokeWidth = el.strokeWidth || 2;
+
+  ctx.save();
+  ctx.strokeStyle = el.color || DEFAULT_CONNECTOR_COLOR;
+  ctx.lineWidth = strokeWidth;
+  ctx.setLineDash(el.connectorStyle === 'dashed' ? [8, 4] : []);
+  ctx.beginPath();
+  ctx.moveTo(line.x1, line.y1);
+  ctx.lineTo(line.x2, line.y2);
+  ctx.stroke();
+
+  // Same arrowhead as the canvas marker: 10x6 in stroke widths, tip one width past the end
+  ctx.translate(line.x2, line.y2);
+  ctx.rotate(Math.atan2(line.y2 - line.y1, line.x2 - line.x1));
+  ctx.scale(strokeWidth, strokeWidth);
+  ctx.translate(-9, -3);
+  ctx.fillStyle = DEFAULT_CONNECTOR_COLOR;
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.lineTo(10, 3);
+  ctx.lineTo(0, 6);
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+}
+
+function drawFrame(ctx: CanvasRenderingContext2D, el: CanvasElement) {
+  ctx.fillStyle = el.color || DEFAULT_FRAME_COLOR;
+  ctx.fillRect(el.x, el.y, el.width || 0, el.height || 0);
+}
+
+/**
+ * Render a region of the board onto an offscreen canvas. `allElements` is
+ * the whole board, needed to place connector ends outside the region.
+ */
+export async function rasterizeRegion(
+  region: ExportRegion,
+  allElements: CanvasElement[],
+  { scale, background }: RasterizeOptions
+): Promise<HTMLCanvasElement> {
+  const { bounds } = region;
+  // Shrink the scale rather than fail on very large boards
+  const maxScale = Math.sqrt(MAX_CANVAS_PIXELS / Math.max(1, bounds.width * bounds.height));
+  const pixelScale = Math.min(scale, maxScale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bounds.width * pixelScale));
+  canvas.height = Math.max(1, Math.round(bounds.height * pixelScale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  const fill = region.background ?? background;
+  if (fill) {
+    ctx.fillStyle = fill;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  ctx.scale(pixelScale, pixelScale);
+  ctx.translate(-bounds.x, -bounds.y);
+  if (region.clip) {
+    ctx.beginPath();
+    ctx.rect(bounds.x, bounds.y, bounds.width, bounds.height);
+    ctx.clip();
+  }
+
+  // Fetch media up front so drawing stays in paint order
+  const media = new Map<string, HTMLImageElement | HTMLVideoElement | null>();
+  await Promise.all(region.elements.map(async el => {
+    if (el.type === 'image' && el.content) media.set(el.id, await loadImage(el.content));
+    if (el.type === 'video' && el.content) media.set(el.id, await loadVideoFrame(el.content));
+  }));
+
+  for (const el of region.elements) {
+    switch (el.type) {
+      case 'frame':
+        drawFrame(ctx, el);
+        break;
+      case 'connector':
+        drawConnector(ctx, el, allElements);
+        break;
+      case 'image': {
+        const image = media.get(el.id);
+        if (image instanceof HTMLImageElement) drawCover(ctx, image, image.naturalWidth, image.naturalHeight, el);
+        break;
+      }
+      case 'video': {
+        const video = media.get(el.id);
+        if (video instanceof HTMLVideoElement) drawCover(ctx, video, video.videoWidth, video.videoHeight, el);
+        break;
+      }
+      case 'shape':
+        drawShape(ctx, el);
+        break;
+      case 'path':
+        drawPath(ctx, el);
+        break;
+      case 'text':
+        drawText(ctx, el);
+        break;
+    }
+  }
+
+  return canvas;
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: 'image/png' | 'image/jpeg', quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('Failed to encode image')),
+      type,
+      quality
+    );
+  });
+}
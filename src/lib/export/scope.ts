@@ -0,0 +1,189 @@
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+
+/**
+ * What part of the board an export covers, and the geometry helpers the
+ * exporters share. Works in canvas coordinates (CSS pixels at 100% zoom).
+ */
+
+export type ExportScope =
+  | { kind: 'selection'; ids: string[] }
+  | { kind: 'frame'; id: string }
+  | { kind: 'board' };
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ExportRegion {
+  bounds: Bounds;
+  // Elements to draw, in paint order
+  elements: CanvasElement[];
+  // Frames clip their contents; a selection or the board does not
+  clip: boolean;
+  // Fill behind everything, when the region is a frame
+  background?: string;
+}
+
+export const DEFAULT_FONT_FAMILY = 'Inter';
+export const DEFAULT_FONT_SIZE = 24;
+export const DEFAULT_TEXT_COLOR = '#000000';
+export const DEFAULT_SHAPE_COLOR = '#9CA3AF';
+export const DEFAULT_FRAME_COLOR = '#FFFFFF';
+export const DEFAULT_CONNECTOR_COLOR = '#6B7280';
+// Line height the browser uses for `line-height: normal`, close enough for Inter
+export const TEXT_LINE_HEIGHT = 1.2;
+
+// Placeholders for pending generations have nothing worth exporting
+const SKIPPED_TYPES: CanvasElement['type'][] = ['image-generator', 'video-generator'];
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Text elements have no stored size; they grow with their content on a
+ * single line, so measure it the way the canvas lays it out.
+ */
+export function measureTextElement(el: CanvasElement): { width: number; height: number } {
+  const fontSize = el.fontSize || DEFAULT_FONT_SIZE;
+  const text = textContent(el);
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  if (measureContext) {
+    measureContext.font = `${fontSize}px ${el.fontFamily || DEFAULT_FONT_FAMILY}`;
+  }
+  return {
+    width: el.width || (measureContext ? measureContext.measureText(text).width : text.length * fontSize * 0.6),
+    height: el.height || fontSize * TEXT_LINE_HEIGHT,
+  };
+}
+
+// `white-space: nowrap` folds line breaks into spaces
+export function textContent(el: CanvasElement): string {
+  return (el.content || '').replace(/\s+/g, ' ');
+}
+
+/**
+ * Centre-to-centre line of a connector, or null when an end is missing.
+ */
+export function getConnectorLine(connector: CanvasElement, elements: CanvasElement[]) {
+  const from = elements.find(el => el.id === connector.connectorFrom);
+  const to = elements.find(el => el.id === connector.connectorTo);
+  if (!from || !to) return null;
+  return {
+    x1: from.x + (from.width || 0) / 2,
+    y1: from.y + (from.height || 0) / 2,
+    x2: to.x + (to.width || 0) / 2,
+    y2: to.y + (to.height || 0) / 2,
+  };
+}
+
+export function getElementBounds(el: CanvasElement, elements: CanvasElement[]): Bounds | null {
+  if (el.type === 'connector') {
+    const line = getConnectorLine(el, elements);
+    if (!line) return null;
+    const x = Math.min(line.x1, line.x2);
+    const y = Math.min(line.y1, line.y2);
+    return { x, y, width: Math.abs(line.x2 - line.x1), height: Math.abs(line.y2 - line.y1) };
+  }
+  if (el.type === 'text') {
+    return { x: el.x, y: el.y, ...measureTextElement(el) };
+  }
+  return { x: el.x, y: el.y, width: el.width || 0, height: el.height || 0 };
+}
+
+export function unionBounds(boxes: Bounds[]): Bounds | null {
+  if (boxes.length === 0) return null;
+  const left = Math.min(...boxes.map(b => b.x));
+  const top = Math.min(...boxes.map(b => b.y));
+  const right = Math.max(...boxes.map(b => b.x + b.width));
+  const bottom = Math.max(...boxes.map(b => b.y + b.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function intersects(a: Bounds, b: Bounds) {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+export function getFrames(elements: CanvasElement[]): CanvasElement[] {
+  return elements.filter(el => el.type === 'frame');
+}
+
+/**
+ * Frames first, then connectors, then everything else in board order: the
+ * same stacking the canvas uses.
+ */
+export function sortForPaint(elements: CanvasElement[]): CanvasElement[] {
+  const rank = (el: CanvasElement) => el.type === 'frame' ? 0 : el.type === 'connector' ? 1 : 2;
+  return elements
+    .filter(el => !SKIPPED_TYPES.includes(el.type))
+    .map((el, index) => ({ el, index }))
+    .sort((a, b) => rank(a.el) - rank(b.el) || a.index - b.index)
+    .map(({ el }) => el);
+}
+
+/**
+ * Everything drawn inside a frame: the frame itself and whatever overlaps it.
+ */
+function frameRegion(frame: CanvasElement, elements: CanvasElement[]): ExportRegion {
+  const bounds = getElementBounds(frame, elements)!;
+  const contents = elements.filter(el => {
+    if (el.id === frame.id || el.type === 'frame') return false;
+    const box = getElementBounds(el, elements);
+    return !!box && intersects(box, bounds);
+  });
+  return {
+    bounds,
+    elements: sortForPaint(contents),
+    clip: true,
+    background: frame.color || DEFAULT_FRAME_COLOR,
+  };
+}
+
+/**
+ * Resolve a scope to the area and elements to draw. Selecting a frame
+ * exports the frame with its contents. Returns null when there is nothing
+ * to export.
+ */
+export function resolveExportRegion(elements: CanvasElement[], scope: ExportScope): ExportRegion | null {
+  if (scope.kind === 'frame') {
+    const frame = elements.find(el => el.id === scope.id && el.type === 'frame');
+    return frame ? frameRegion(frame, elements) : null;
+  }
+
+  let picked = elements;
+  if (scope.kind === 'selection') {
+    const selected = elements.filter(el => scope.ids.includes(el.id));
+    // A lone frame exports exactly like the frame scope
+    if (selected.length === 1 && selected[0].type === 'frame') {
+      return frameRegion(selected[0], elements);
+    }
+    const frameContents = selected
+      .filter(el => el.type === 'frame')
+      .flatMap(frame => frameRegion(frame, elements).elements);
+    picked = elements.filter(el => scope.ids.includes(el.id) || frameContents.includes(el));
+  }
+
+  const drawn = sortForPaint(picked);
+  const bounds = unionBounds(drawn.map(el => getElementBounds(el, elements)).filter((b): b is Bounds => !!b));
+  if (!bounds || bounds.width <= 0 || bounds.height <= 0) return null;
+  return { bounds, elements: drawn, clip: false };
+}
+
+/**
+ * Regions for a multi-page export: one per frame in the scope, or the whole
+ * scope on a single page when it contains no frames.
+ */
+export function resolveExportPages(elements: CanvasElement[], scope: ExportScope): ExportRegion[] {
+  const frames = scope.kind === 'frame'
+    ? getFrames(elements).filter(frame => frame.id === scope.id)
+    : scope.kind === 'selection'
+      ? getFrames(elements).filter(frame => scope.ids.includes(frame.id))
+      : getFrames(elements);
+
+  if (frames.length > 0) {
+    return frames.map(frame => frameRegion(frame, elements));
+  }
+  const region = resolveExportRegion(elements, scope);
+  return region ? [region] : [];
+}
@@ -0,0 +1,40 @@
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+
+type ShapeType = NonNullable<CanvasElement['shapeType']>;
+
+/**
+ * Outlines of the shapes as the canvas draws them, for the exporters. Icon
+ * shapes are 24x24 paths stretched over the element box (the same glyphs
+ * CanvasArea renders); the rest are built from the box itself.
+ */
+export const SHAPE_ICON_PATHS: Partial<Record<ShapeType, string>> = {
+  star: 'M12 17.27L18.18 21l-1.64-7.03L22 9.24l-7.19-.61L12 2 9.19 8.63 2 9.24l5.46 4.73L5.82 21z',
+  message: 'M20 2H4c-1.1 0-2 .9-2 2v18l4-4h14c1.1 0 2-.9 2-2V4c0-1.1-.9-2-2-2z',
+  'arrow-left': 'M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z',
+  'arrow-right': 'M12 4l-1.41 1.41L16.17 11H4v2h12.17l-5.58 5.59L12 20l8-8z',
+};
+
+export const ICON_VIEWBOX = 24;
+
+// Radius of Tailwind's rounded-lg, used on images and videos
+export const MEDIA_CORNER_RADIUS = 8;
+
+/**
+ * SVG path data for a shape in element-local coordinates, for shapes that are
+ * not icon paths.
+ */
+export function getBoxShapePath(shape: ShapeType | undefined, width: number, height: number): string | null {
+  switch (shape ?? 'square') {
+    case 'square':
+      return `M0 0H${width}V${height}H0Z`;
+    case 'circle': {
+      const rx = width / 2;
+      const ry = height / 2;
+      return `M0 ${ry}A${rx} ${ry} 0 1 0 ${width} ${ry}A${rx} ${ry} 0 1 0 0 ${ry}Z`;
+    }
+    case 'triangle':
+      return `M${width / 2} 0L${width} ${height}H0Z`;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,228 @@
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+import { loadVideoFrame } from './rasterize';
+import {
+  DEFAULT_CONNECTOR_COLOR,
+  DEFAULT_FONT_FAMILY,
+  DEFAULT_FONT_SIZE,
+  DEFAULT_FRAME_COLOR,
+  DEFAULT_SHAPE_COLOR,
+  DEFAULT_TEXT_COLOR,
+  ExportRegion,
+  getConnectorLine,
+  measureTextElement,
+  textContent,
+} from './scope';
+import { getBoxShapePath, ICON_VIEWBOX, MEDIA_CORNER_RADIUS, SHAPE_ICON_PATHS } from './shapes';
+
+/**
+ * Standalone SVG documents for handing designs off to vector editors. Media
+ * is inlined as data URLs so the file opens without access to our storage;
+ * everything else stays vector.
+ */
+
+// Fallbacks so text keeps its metrics where the exact font is not installed
+const FONT_STACKS: Record<string, string> = {
+  Inter: "Inter, 'Helvetica Neue', Arial, sans-serif",
+  Arial: 'Arial, Helvetica, sans-serif',
+  'Times New Roman': "'Times New Roman', Times, serif",
+};
+
+export interface SvgOptions {
+  // Inline images and video frames as data URLs; otherwise link to them
+  embedMedia?: boolean;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Two decimals is well below a pixel and keeps the output readable
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function fontStack(family: string): string {
+  return FONT_STACKS[family] ?? `'${family.replace(/'/g, '')}', sans-serif`;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function embedImage(url: string): Promise<string> {
+  if (url.startsWith('data:')) return url;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return url;
+    return await blobToDataUrl(await response.blob());
+  } catch {
+    // Keep a link rather than drop the image
+    return url;
+  }
+}
+
+// SVG cannot hold video, so export its first frame as a still
+async function embedVideoFrame(url: string): Promise<string | null> {
+  const video = await loadVideoFrame(url);
+  if (!video) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0);
+  try {
+    return canvas.toDataURL('image/png');
+  } catch {
+    // Tainted canvas: the video host does not allow reading its pixels
+    return null;
+  }
+}
+
+function mediaMarkup(el: CanvasElement, href: string, clipId: string): string {
+  const x = num(el.x);
+  const y = num(el.y);
+  const width = num(el.width || 0);
+  const height = num(el.height || 0);
+  return (
+    `<clipPath id="${clipId}"><rect x="${x}" y="${y}" width="${width}" height="${height}" rx="${MEDIA_CORNER_RADIUS}"/></clipPath>` +
+    `<image x="${x}" y="${y}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice" ` +
+    `clip-path="url(#${clipId})" xlink:href="${escapeXml(href)}"/>`
+  );
+}
+
+function shapeMarkup(el: CanvasElement): string {
+  const width = el.width || 0;
+  const height = el.height || 0;
+  const fill = escapeXml(el.color || DEFAULT_SHAPE_COLOR);
+
+  const icon = el.shapeType && SHAPE_ICON_PATHS[el.shapeType];
+  if (icon) {
+    // A nested viewport fits the icon into the box the way the canvas does
+    return (
+      `<svg x="${num(el.x)}" y="${num(el.y)}" width="${num(width)}" height="${num(height)}" viewBox="0 0 ${ICON_VIEWBOX} ${ICON_VIEWBOX}">` +
+      `<path d="${icon}" fill="${fill}"/></svg>`
+    );
+  }
+  const path = getBoxShapePath(el.shapeType, width, height);
+  if (!path) return '';
+  return `<path transform="translate(${num(el.x)} ${num(el.y)})" d="${path}" fill="${fill}"/>`;
+}
+
+function pathMarkup(el: CanvasElement): string {
+  const points = el.points || [];
+  if (points.length === 0) return '';
+  const d = points.map((point, i) => `${i === 0 ? 'M' : 'L'}${num(el.x + point.x)} ${num(el.y + point.y)}`).join('');
+  return (
+    `<path d="${d}" fill="none" stroke="${escapeXml(el.color || '#000000')}" stroke-width="${num(el.strokeWidth || 3)}" ` +
+    `stroke-linecap="round" stroke-linejoin="round"/>`
+  );
+}
+
+function textMarkup(el: CanvasElement): string {
+  const fontSize = el.fontSize || DEFAULT_FONT_SIZE;
+  const { height } = measureTextElement(el);
+  // dy centres the glyphs on the line; editors handle it better than dominant-baseline
+  return (
+    `<text x="${num(el.x)}" y="${num(el.y + height / 2)}" dy="0.35em" ` +
+    `font-family="${escapeXml(fontStack(el.fontFamily || DEFAULT_FONT_FAMILY))}" font-size="${num(fontSize)}" ` +
+    `fill="${escapeXml(el.color || DEFAULT_TEXT_COLOR)}" xml:space="preserve">${escapeXml(textContent(el))}</text>`
+  );
+}
+
+function connectorMarkup(el: CanvasElement, elements: CanvasElement[]): string {
+  const line = getConnectorLine(el, elements);
+  if (!line) return '';
+  const strokeWidth = el.strokeWidth || 2;
+  const dash = el.connectorStyle === 'dashed' ? ' stroke-dasharray="8 4"' : '';
+  const angle = Math.atan2(line.y2 - line.y1, line.x2 - line.x1) * 180 / Math.PI;
+
+  // The arrowhead is a plain polygon rather than a <marker>, which vector
+  // editors tend to drop on import. Geometry matches the canvas marker.
+  return (
+    `<g><line x1="${num(line.x1)}" y1="${num(line.y1)}" x2="${num(line.x2)}" y2="${num(line.y2)}" ` +
+    `stroke="${escapeXml(el.color || DEFAULT_CONNECTOR_COLOR)}" stroke-width="${num(strokeWidth)}"${dash}/>` +
+    `<polygon points="0 0 10 3 0 6" fill="${DEFAULT_CONNECTOR_COLOR}" ` +
+    `transform="translate(${num(line.x2)} ${num(line.y2)}) rotate(${num(angle)}) scale(${num(strokeWidth)}) translate(-9 -3)"/></g>`
+  );
+}
+
+function frameMarkup(el: CanvasElement): string {
+  return (
+    `<rect x="${num(el.x)}" y="${num(el.y)}" width="${num(el.width || 0)}" height="${num(el.height || 0)}" ` +
+    `fill="${escapeXml(el.color || DEFAULT_FRAME_COLOR)}"/>`
+  );
+}
+
+/**
+ * Serialize a region of the board to an SVG document. `allElements` is the
+ * whole board, needed to place connector ends outside the region.
+ */
+export async function serializeSvg(
+  region: ExportRegion,
+  allElements: CanvasElement[],
+  { embedMedia = true }: SvgOptions = {}
+): Promise<string> {
+  const { bounds } = region;
+
+  const media = new Map<string, string | null>();
+  await Promise.all(region.elements.map(async el => {
+    if (!el.content) return;
+    if (el.type === 'image') media.set(el.id, embedMedia ? await embedImage(el.content) : el.content);
+    if (el.type === 'video') media.set(el.id, await embedVideoFrame(el.content));
+  }));
+
+  const body: string[] = [];
+  if (region.background) {
+    body.push(`<rect x="${num(bounds.x)}" y="${num(bounds.y)}" width="${num(bounds.width)}" height="${num(bounds.height)}" fill="${escapeXml(region.background)}"/>`);
+  }
+
+  region.elements.forEach((el, index) => {
+    switch (el.type) {
+      case 'frame':
+        body.push(frameMarkup(el));
+        break;
+      case 'connector':
+        body.push(connectorMarkup(el, allElements));
+        break;
+      case 'image':
+      case 'video': {
+        const href = media.get(el.id);
+        if (href) body.push(mediaMarkup(el, href, `media-clip-${index}`));
+        break;
+      }
+      case 'shape':
+        body.push(shapeMarkup(el));
+        break;
+      case 'path':
+        body.push(pathMarkup(el));
+        break;
+      case 'text':
+        body.push(textMarkup(el));
+        break;
+    }
+  });
+
+  const content = region.clip
+    ? `<clipPath id="region-clip"><rect x="${num(bounds.x)}" y="${num(bounds.y)}" width="${num(bounds.width)}" height="${num(bounds.height)}"/></clipPath>` +
+      `<g clip-path="url(#region-clip)">${body.join('')}</g>`
+    : body.join('');
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${num(bounds.width)}" height="${num(bounds.height)}" ` +
+    `viewBox="${num(bounds.x)} ${num(bounds.y)} ${num(bounds.width)} ${num(bounds.height)}">` +
+    `${content}</svg>\n`
+  );
+}
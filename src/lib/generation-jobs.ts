@@ -0,0 +1,85 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase';
+
+/**
+ * Long-running generations (Sora videos) are recorded in `generation_jobs`
+ * so a job outlives the panel that started it: the canvas reloads in-flight
+ * jobs with the project and /api/video-status settles their credits.
+ */
+
+type JobRow = Database['public']['Tables']['generation_jobs']['Row'];
+
+export type GenerationJobStatus = JobRow['status'];
+
+export const ACTIVE_JOB_STATUSES: GenerationJobStatus[] = ['queued', 'in_progress'];
+
+export const VIDEO_JOB_POLL_INTERVAL_MS = 3000;
+
+export interface VideoJob {
+  id: string;
+  projectId: string | null;
+  // The video-generator element the finished video replaces
+  elementId: string | null;
+  status: GenerationJobStatus;
+  progress: number;
+  videoUrl?: string;
+  error?: string;
+}
+
+export function isJobFinished(status: GenerationJobStatus) {
+  return !ACTIVE_JOB_STATUSES.includes(status);
+}
+
+export function toVideoJob(row: JobRow): VideoJob {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    elementId: row.element_id,
+    status: row.status,
+    progress: row.progress,
+    videoUrl: row.result_url ?? undefined,
+    error: row.error ?? undefined,
+  };
+}
+
+/**
+ * Jobs worth looking at when a project opens: the ones still running, and
+ * recently completed ones whose video may not have reached the canvas yet.
+ */
+export async function loadVideoJobs(supabase: SupabaseClient<Database>, projectId: string): Promise<VideoJob[]> {
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('project_id', projectId)
+    .eq('kind', 'video')
+    .in('status', [...ACTIVE_JOB_STATUSES, 'completed'])
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) throw error;
+  return (data ?? []).map(toVideoJob);
+}
+
+/**
+ * Ask /api/video-status for the latest state of a job from the browser.
+ */
+export async function fetchVideoJob(jobId: string): Promise<VideoJob> {
+  const response = await fetch(`/api/video-status?${new URLSearchParams({ jobId })}`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || 'Failed to get video status');
+  }
+  return data.job;
+}
+
+/**
+ * Cancel a running job; its reserved credits are refunded.
+ */
+export async function cancelVideoJob(jobId: string): Promise<VideoJob> {
+  const response = await fetch(`/api/video-status?${new URLSearchParams({ jobId })}`, { method: 'DELETE' });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || 'Failed to cancel video generation');
+  }
+  return data.job;
+}
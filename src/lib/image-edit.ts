@@ -0,0 +1,60 @@
+import type { ImageMask, MaskBrush } from './image-mask';
+
+/**
+ * The image edits offered from the context toolbar. Each mode turns what the
+ * user typed into the instruction sent to /api/edit-image; only `inpaint`
+ * sends a painted mask along with it.
+ */
+
+export type ImageEditMode = 'background' | 'mockup' | 'inpaint';
+
+interface ImageEditPreset {
+  label: string;
+  placeholder: string;
+  // Whether the user paints the region to change
+  mask: boolean;
+  // Used when the user leaves the input empty
+  defaultInput?: string;
+  buildPrompt: (input: string) => string;
+}
+
+export const IMAGE_EDIT_PRESETS: Record<ImageEditMode, ImageEditPreset> = {
+  background: {
+    label: '替换背景',
+    placeholder: '描述新的背景，例如：阳光下的海滩',
+    mask: false,
+    defaultInput: '纯白色摄影棚背景',
+    buildPrompt: input =>
+      `Keep the main subject exactly as it is, including its shape, colours and lighting, and replace the background with: ${input}.`,
+  },
+  mockup: {
+    label: 'Mockup',
+    placeholder: '描述要展示的载体，例如：白色T恤、马克杯',
+    mask: false,
+    defaultInput: '白色T恤',
+    buildPrompt: input =>
+      `Create a realistic product mockup that places this design on ${input}. Keep the design itself unchanged.`,
+  },
+  inpaint: {
+    label: '编辑元素',
+    placeholder: '描述涂抹区域要如何修改，例如：换成一只猫',
+    mask: true,
+    buildPrompt: input =>
+      `Only change the masked region of the image: ${input}. Leave everything outside the mask untouched.`,
+  },
+};
+
+export function buildEditPrompt(mode: ImageEditMode, input: string): string | null {
+  const preset = IMAGE_EDIT_PRESETS[mode];
+  const text = input.trim() || preset.defaultInput;
+  return text ? preset.buildPrompt(text) : null;
+}
+
+// An image element open for editing from the context toolbar
+export interface ImageEditSession {
+  elementId: string;
+  mode: ImageEditMode;
+  // Created once the source image's pixel size is known
+  mask: ImageMask | null;
+  brush: MaskBrush;
+}
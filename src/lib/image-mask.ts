@@ -0,0 +1,126 @@
+/**
+ * Brush masks painted over an image element to mark the area an edit may
+ * change. Strokes are stored in the source image's own pixel coordinates, so
+ * a mask keeps lining up when the element is moved, resized or the canvas
+ * zoomed, and exports at exactly the size the edit endpoints expect.
+ */
+
+export type MaskTool = 'brush' | 'eraser';
+
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+export interface MaskStroke {
+  tool: MaskTool;
+  points: MaskPoint[];
+  // Brush diameter in image pixels
+  size: number;
+}
+
+export interface ImageMask {
+  // Pixel size of the image the mask belongs to
+  width: number;
+  height: number;
+  strokes: MaskStroke[];
+  // Blur radius in image pixels applied to the mask edge on export
+  feather: number;
+}
+
+export interface MaskBrush {
+  tool: MaskTool;
+  size: number;
+}
+
+export function createImageMask(size: { width: number; height: number }): ImageMask {
+  return { width: size.width, height: size.height, strokes: [], feather: 0 };
+}
+
+// Brush sizes offered for an image, in pixels, from its longer edge
+export function getBrushSizeRange(mask: ImageMask) {
+  const edge = Math.max(mask.width, mask.height);
+  return {
+    min: Math.max(2, Math.round(edge * 0.005)),
+    max: Math.max(4, Math.round(edge * 0.25)),
+    initial: Math.max(4, Math.round(edge * 0.05)),
+  };
+}
+
+export function getMaxFeather(mask: ImageMask): number {
+  return Math.max(1, Math.round(Math.max(mask.width, mask.height) * 0.05));
+}
+
+/**
+ * Whether anything is painted. Strokes are not clipped against each other, so
+ * this errs towards true when an eraser covered every brush stroke.
+ */
+export function hasMaskContent(mask: ImageMask | null | undefined): boolean {
+  return !!mask?.strokes.some(stroke => stroke.tool === 'brush');
+}
+
+/**
+ * Draw the painted coverage of a mask onto a context whose transform maps
+ * image pixels to the target: opaque where painted, transparent elsewhere.
+ */
+export function paintMaskCoverage(ctx: CanvasRenderingContext2D, strokes: MaskStroke[], color = '#000000') {
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  for (const stroke of strokes) {
+    const [first, ...rest] = stroke.points;
+    if (!first) continue;
+    ctx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+
+    // A single click still leaves a dot
+    ctx.beginPath();
+    ctx.arc(first.x, first.y, stroke.size / 2, 0, Math.PI * 2);
+    ctx.fill();
+
+    if (rest.length > 0) {
+      ctx.lineWidth = stroke.size;
+      ctx.beginPath();
+      ctx.moveTo(first.x, first.y);
+      for (const point of rest) {
+        ctx.lineTo(point.x, point.y);
+      }
+      ctx.stroke();
+    }
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Render a mask as a PNG alpha mask at the image's pixel size: opaque black
+ * everywhere except the painted area, which is transparent (the convention
+ * image edit APIs expect). Feathering softens the edge into partial alpha.
+ * Returns a data URL.
+ */
+export function exportMaskPng(mask: ImageMask): string {
+  const coverage = document.createElement('canvas');
+  coverage.width = mask.width;
+  coverage.height = mask.height;
+  const coverageCtx = coverage.getContext('2d');
+
+  const output = document.createElement('canvas');
+  output.width = mask.width;
+  output.height = mask.height;
+  const ctx = output.getContext('2d');
+  if (!coverageCtx || !ctx) throw new Error('Canvas 2D context unavailable');
+
+  paintMaskCoverage(coverageCtx, mask.strokes);
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, mask.width, mask.height);
+  ctx.globalCompositeOperation = 'destination-out';
+  if (mask.feather > 0) {
+    ctx.filter = `blur(${mask.feather}px)`;
+  }
+  ctx.drawImage(coverage, 0, 0);
+
+  return output.toDataURL('image/png');
+}
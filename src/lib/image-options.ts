@@ -0,0 +1,194 @@
+import type { ImageResolution } from './credit-prices';
+import type { Asset } from './assets';
+
+/**
+ * Image generation options shared by the generator panels and
+ * /api/generate-image, which validates against the same table.
+ */
+
+export type AspectRatio = '1:1' | '4:3' | '3:4' | '16:9' | '9:16' | '21:9' | '3:2' | '2:3';
+
+export const IMAGE_RESOLUTIONS: ImageResolution[] = ['1K', '2K', '4K'];
+
+// Longer edge in pixels of an image rendered at each resolution
+export const RESOLUTION_EDGES: Record<ImageResolution, number> = {
+  '1K': 1024,
+  '2K': 2048,
+  '4K': 4096,
+};
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '4:3', '3:4', '16:9', '9:16', '21:9', '3:2', '2:3'];
+
+export type ImageProviderId = 'gemini' | 'openai' | 'mock';
+
+export const IMAGE_PROVIDER_IDS: ImageProviderId[] = ['gemini', 'openai', 'mock'];
+
+export const DEFAULT_IMAGE_PROVIDER: ImageProviderId = 'gemini';
+
+export type ImageOperation = 'generate' | 'edit' | 'upscale';
+
+/**
+ * What a provider can do. The panels only offer these options and the API
+ * routes reject anything outside them.
+ */
+export interface ImageProviderCapabilities {
+  label: string;
+  operations: ImageOperation[];
+  // Aspect ratios offered at each resolution; a missing resolution is unsupported
+  aspectRatios: Partial<Record<ImageResolution, AspectRatio[]>>;
+  referenceImage: boolean;
+  // Edits honour a mask instead of repainting the whole image
+  mask: boolean;
+}
+
+// A provider as listed by /api/image-providers
+export interface ImageProviderInfo extends ImageProviderCapabilities {
+  id: ImageProviderId;
+}
+
+export const IMAGE_PROVIDER_CAPABILITIES: Record<ImageProviderId, ImageProviderCapabilities> = {
+  gemini: {
+    label: 'Nano Banana Pro',
+    // Upscaling re-renders the source at a higher resolution
+    operations: ['generate', 'edit', 'upscale'],
+    aspectRatios: {
+      '1K': ASPECT_RATIOS,
+      '2K': ASPECT_RATIOS,
+      // Ultra-wide output at 4K exceeds the model's maximum edge length
+      '4K': ['1:1', '4:3', '3:4', '16:9', '9:16', '3:2', '2:3'],
+    },
+    referenceImage: true,
+    // Followed through the prompt rather than pixel-exact
+    mask: true,
+  },
+  openai: {
+    label: 'GPT Image',
+    operations: ['generate', 'edit'],
+    // The images API only renders 1024x1024, 1536x1024 and 1024x1536
+    aspectRatios: { '1K': ['1:1', '3:2', '2:3'] },
+    referenceImage: false,
+    mask: true,
+  },
+  mock: {
+    label: 'Mock',
+    operations: ['generate', 'edit', 'upscale'],
+    aspectRatios: { '1K': ASPECT_RATIOS, '2K': ASPECT_RATIOS },
+    referenceImage: true,
+    mask: true,
+  },
+};
+
+export function isImageProviderId(value: unknown): value is ImageProviderId {
+  return typeof value === 'string' && (IMAGE_PROVIDER_IDS as string[]).includes(value);
+}
+
+export function isImageResolution(value: unknown): value is ImageResolution {
+  return typeof value === 'string' && (IMAGE_RESOLUTIONS as string[]).includes(value);
+}
+
+export function getSupportedResolutions(provider: ImageProviderId = DEFAULT_IMAGE_PROVIDER): ImageResolution[] {
+  return IMAGE_RESOLUTIONS.filter(resolution => IMAGE_PROVIDER_CAPABILITIES[provider].aspectRatios[resolution]);
+}
+
+export function getSupportedAspectRatios(
+  resolution: ImageResolution,
+  provider: ImageProviderId = DEFAULT_IMAGE_PROVIDER
+): AspectRatio[] {
+  return IMAGE_PROVIDER_CAPABILITIES[provider].aspectRatios[resolution] ?? [];
+}
+
+export function isAspectRatioSupported(
+  resolution: ImageResolution,
+  aspectRatio: unknown,
+  provider: ImageProviderId = DEFAULT_IMAGE_PROVIDER
+): aspectRatio is AspectRatio {
+  return typeof aspectRatio === 'string' && (getSupportedAspectRatios(resolution, provider) as string[]).includes(aspectRatio);
+}
+
+/**
+ * Pick the closest settings a provider supports, e.g. after switching
+ * provider in a panel: keep what still works, otherwise fall back to the
+ * smallest resolution and a square image.
+ */
+export function fitImageOptions(
+  provider: ImageProviderId,
+  resolution: ImageResolution,
+  aspectRatio: AspectRatio
+): { resolution: ImageResolution; aspectRatio: AspectRatio } {
+  const nextResolution = getSupportedResolutions(provider).includes(resolution)
+    ? resolution
+    : getSupportedResolutions(provider)[0];
+  return {
+    resolution: nextResolution,
+    aspectRatio: isAspectRatioSupported(nextResolution, aspectRatio, provider) ? aspectRatio : '1:1',
+  };
+}
+
+/**
+ * Width / height of a ratio string such as '16:9'.
+ */
+export function getAspectRatioValue(aspectRatio: AspectRatio): number {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width / height;
+}
+
+/**
+ * The supported ratio nearest to an image's real proportions, so an edit
+ * comes back shaped like its source.
+ */
+export function closestAspectRatio(
+  size: { width: number; height: number },
+  resolution: ImageResolution,
+  provider: ImageProviderId = DEFAULT_IMAGE_PROVIDER
+): AspectRatio {
+  const target = Math.log(size.width / size.height);
+  const candidates = getSupportedAspectRatios(resolution, provider);
+  return candidates.reduce<AspectRatio>((best, ratio) =>
+    Math.abs(Math.log(getAspectRatioValue(ratio)) - target) < Math.abs(Math.log(getAspectRatioValue(best)) - target)
+      ? ratio
+      : best,
+    candidates[0] ?? '1:1'
+  );
+}
+
+/**
+ * Scale an image's real dimensions so its longer edge matches `maxEdge`,
+ * keeping the canvas element's proportions identical to the image.
+ */
+export function fitToEdge(size: { width: number; height: number }, maxEdge: number) {
+  const scale = maxEdge / Math.max(size.width, size.height);
+  return {
+    width: Math.round(size.width * scale),
+    height: Math.round(size.height * scale),
+  };
+}
+
+export type UpscaleFactor = 2 | 4;
+
+export const UPSCALE_FACTORS: UpscaleFactor[] = [2, 4];
+
+export function isUpscaleFactor(value: unknown): value is UpscaleFactor {
+  return (UPSCALE_FACTORS as unknown[]).includes(value);
+}
+
+/**
+ * The resolution an upscale renders at, which also sets its price: the
+ * smallest one covering the enlarged longer edge, at most 4K.
+ */
+export function getUpscaleResolution(size: { width: number; height: number }, factor: UpscaleFactor): ImageResolution {
+  const edge = Math.max(size.width, size.height) * factor;
+  return IMAGE_RESOLUTIONS.find(resolution => RESOLUTION_EDGES[resolution] >= edge) ?? '4K';
+}
+
+// Variants per batch request, and how many model calls a batch runs at once
+export const MAX_VARIANTS = 8;
+export const MAX_CONCURRENT_VARIANTS = 3;
+
+/**
+ * Lines streamed by /api/generate-image when more than one variant is
+ * requested. `index` is the variant's slot in the grid.
+ */
+export type ImageVariantEvent =
+  | { type: 'image'; index: number; imageUrl: string; asset: Asset; textResponse: string }
+  | { type: 'error'; index: number; error: string; details?: string }
+  | { type: 'done'; succeeded: number; failed: number };
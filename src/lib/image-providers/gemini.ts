@@ -0,0 +1,102 @@
+import { GoogleGenAI } from '@google/genai';
+import { decodeDataUrl } from '@/lib/assets';
+import { getImageSize } from '@/lib/assets/image-size';
+import { closestAspectRatio, IMAGE_PROVIDER_CAPABILITIES } from '@/lib/image-options';
+import type { ImageResolution } from '@/lib/credit-prices';
+import type { AspectRatio } from '@/lib/image-options';
+import { GeneratedImage, ImageInput, ImageProvider, NoImageError, ProviderNotConfiguredError } from './types';
+
+const MODEL = 'gemini-3-pro-image-preview';
+
+const UPSCALE_PROMPT =
+  'Reproduce this image exactly at a higher resolution with finer detail. ' +
+  'Do not change its content, composition, colours or style.';
+
+const MASK_HINT =
+  'The second image is a mask for the first: its transparent pixels mark the area to change. ' +
+  'Return only the edited first image, at the same framing.';
+
+/**
+ * Gemini image model. Reference images and edit sources are sent as inline
+ * parts next to the prompt. The model has no mask input, so a mask is sent
+ * as a second image and described in the prompt.
+ */
+export function createGeminiProvider(): ImageProvider {
+  const run = async (
+    prompt: string,
+    resolution: ImageResolution,
+    aspectRatio: AspectRatio,
+    images: ImageInput[],
+    signal?: AbortSignal
+  ): Promise<GeneratedImage> => {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) throw new ProviderNotConfiguredError('gemini', 'GEMINI_API_KEY');
+
+    const ai = new GoogleGenAI({ apiKey });
+
+    const response = await ai.models.generateContentStream({
+      model: MODEL,
+      config: {
+        responseModalities: ['IMAGE', 'TEXT'],
+        imageConfig: {
+          imageSize: resolution,
+          aspectRatio,
+        },
+        tools: [{ googleSearch: {} }],
+        abortSignal: signal,
+      },
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { text: prompt },
+            ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+          ],
+        },
+      ],
+    });
+
+    let imageData: string | null = null;
+    let textResponse = '';
+
+    for await (const chunk of response) {
+      const parts = chunk.candidates?.[0]?.content?.parts;
+      if (!parts) continue;
+
+      for (const part of parts) {
+        if (part.inlineData) {
+          console.log('Found inline data with mimeType:', part.inlineData.mimeType);
+          imageData = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        } else if (part.text) {
+          textResponse += part.text;
+        }
+      }
+    }
+
+    const decoded = imageData ? decodeDataUrl(imageData) : null;
+    if (!decoded) {
+      if (textResponse) {
+        throw new NoImageError('Model returned text instead of image', textResponse);
+      }
+      throw new NoImageError('No image was generated', 'No image data found in response.');
+    }
+
+    return { ...decoded, text: textResponse };
+  };
+
+  return {
+    id: 'gemini',
+    model: MODEL,
+    capabilities: IMAGE_PROVIDER_CAPABILITIES.gemini,
+    generate: ({ prompt, resolution, aspectRatio, referenceImage, signal }) =>
+      run(prompt, resolution, aspectRatio, referenceImage ? [referenceImage] : [], signal),
+    edit: ({ prompt, image, mask, resolution, aspectRatio }) =>
+      mask
+        ? run(`${prompt}\n\n${MASK_HINT}`, resolution, aspectRatio, [image, mask])
+        : run(prompt, resolution, aspectRatio, [image]),
+    upscale: ({ image, resolution }) => {
+      const size = getImageSize(Buffer.from(image.data, 'base64')) ?? { width: 1, height: 1 };
+      return run(UPSCALE_PROMPT, resolution, closestAspectRatio(size, resolution, 'gemini'), [image]);
+    },
+  };
+}
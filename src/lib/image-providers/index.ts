@@ -0,0 +1,68 @@
+import {
+  DEFAULT_IMAGE_PROVIDER,
+  IMAGE_PROVIDER_CAPABILITIES,
+  IMAGE_PROVIDER_IDS,
+  ImageProviderId,
+  ImageProviderInfo,
+  isImageProviderId,
+} from '@/lib/image-options';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+import type { ImageProvider } from './types';
+
+export * from './types';
+
+const FACTORIES: Record<ImageProviderId, () => ImageProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  mock: createMockProvider,
+};
+
+/**
+ * The provider used when a request doesn't name one: IMAGE_PROVIDER, or
+ * Gemini when unset.
+ */
+export function getDefaultImageProviderId(): ImageProviderId {
+  const configured = process.env.IMAGE_PROVIDER;
+  return isImageProviderId(configured) ? configured : DEFAULT_IMAGE_PROVIDER;
+}
+
+/**
+ * Whether a provider can be selected. Real providers need their API key; the
+ * mock provider is only offered outside production unless it is the default.
+ */
+export function isImageProviderAvailable(id: ImageProviderId): boolean {
+  switch (id) {
+    case 'gemini':
+      return !!process.env.GEMINI_API_KEY;
+    case 'openai':
+      return !!process.env.OPENAI_IMAGE_API_KEY;
+    case 'mock':
+      return process.env.NODE_ENV !== 'production' || getDefaultImageProviderId() === 'mock';
+  }
+}
+
+/**
+ * Resolve the provider for a request. `requested` comes from the request
+ * body; returns null when it names an unknown or unavailable provider.
+ */
+export function getImageProvider(requested?: unknown): ImageProvider | null {
+  const id = requested === undefined || requested === null ? getDefaultImageProviderId() : requested;
+  if (!isImageProviderId(id) || (id !== getDefaultImageProviderId() && !isImageProviderAvailable(id))) {
+    return null;
+  }
+  return FACTORIES[id]();
+}
+
+/**
+ * Providers the panels may offer, default first.
+ */
+export function listImageProviders(): { defaultProvider: ImageProviderId; providers: ImageProviderInfo[] } {
+  const defaultProvider = getDefaultImageProviderId();
+  const providers = IMAGE_PROVIDER_IDS
+    .filter(id => id === defaultProvider || isImageProviderAvailable(id))
+    .sort((a, b) => Number(b === defaultProvider) - Number(a === defaultProvider))
+    .map(id => ({ id, ...IMAGE_PROVIDER_CAPABILITIES[id] }));
+  return { defaultProvider, providers };
+}
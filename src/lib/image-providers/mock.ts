@@ -0,0 +1,79 @@
+import { decodePng, encodePng } from '@/lib/assets/png';
+import { getImageSize } from '@/lib/assets/image-size';
+import { resizeLanczos } from '@/lib/assets/resample';
+import type { ImageResolution } from '@/lib/credit-prices';
+import {
+  AspectRatio,
+  fitToEdge,
+  getAspectRatioValue,
+  IMAGE_PROVIDER_CAPABILITIES,
+  RESOLUTION_EDGES,
+} from '@/lib/image-options';
+import type { GeneratedImage, ImageProvider } from './types';
+
+/**
+ * Offline provider for local development: draws a gradient whose colours are
+ * derived from the request, so the same input always yields the same PNG.
+ * Upscaling really resamples the source (Lanczos) so results can be checked
+ * by eye. Needs no API key and makes no network calls.
+ */
+export function createMockProvider(): ImageProvider {
+  return {
+    id: 'mock',
+    model: 'mock',
+    capabilities: IMAGE_PROVIDER_CAPABILITIES.mock,
+    async generate({ prompt, resolution, aspectRatio, referenceImage }) {
+      return render(sizeFor(resolution, aspectRatio), `generate:${prompt}:${referenceImage?.data ?? ''}`);
+    },
+    async edit({ prompt, image, mask, resolution, aspectRatio }) {
+      const source = getImageSize(Buffer.from(image.data, 'base64'));
+      return render(source ?? sizeFor(resolution, aspectRatio), `edit:${prompt}:${image.data}:${mask?.data ?? ''}`);
+    },
+    async upscale({ image, scale, resolution }) {
+      if (image.mimeType !== 'image/png') {
+        throw new Error(`The mock provider can only upscale PNG images, got ${image.mimeType}`);
+      }
+      const source = decodePng(Buffer.from(image.data, 'base64'));
+      const target = { width: source.width * scale, height: source.height * scale };
+      const maxEdge = RESOLUTION_EDGES[resolution];
+      const { width, height } = Math.max(target.width, target.height) > maxEdge ? fitToEdge(target, maxEdge) : target;
+      const pixels = resizeLanczos(source.rgba, source.width, source.height, width, height);
+      return { data: encodePng(width, height, pixels), mimeType: 'image/png' };
+    },
+  };
+}
+
+function sizeFor(resolution: ImageResolution, aspectRatio: AspectRatio) {
+  return fitToEdge({ width: getAspectRatioValue(aspectRatio), height: 1 }, RESOLUTION_EDGES[resolution]);
+}
+
+// FNV-1a, enough to spread similar prompts over different colours
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function render(size: { width: number; height: number }, seed: string): GeneratedImage {
+  const { width, height } = size;
+  const h = hash(seed);
+  const from = [h & 0xff, (h >>> 8) & 0xff, (h >>> 16) & 0xff];
+  const to = [255 - from[0], 255 - from[1], 255 - from[2]];
+
+  const pixels = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const t = (x / width + y / height) / 2;
+      const offset = (y * width + x) * 4;
+      pixels[offset] = from[0] + (to[0] - from[0]) * t;
+      pixels[offset + 1] = from[1] + (to[1] - from[1]) * t;
+      pixels[offset + 2] = from[2] + (to[2] - from[2]) * t;
+      pixels[offset + 3] = 255;
+    }
+  }
+
+  return { data: encodePng(width, height, pixels), mimeType: 'image/png' };
+}
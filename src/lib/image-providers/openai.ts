@@ -0,0 +1,91 @@
+import OpenAI, { toFile } from 'openai';
+import type { ImagesResponse } from 'openai/resources/images';
+import mime from 'mime';
+import { IMAGE_PROVIDER_CAPABILITIES } from '@/lib/image-options';
+import type { AspectRatio } from '@/lib/image-options';
+import { GeneratedImage, ImageInput, ImageProvider, NoImageError, ProviderNotConfiguredError } from './types';
+
+const DEFAULT_MODEL = 'gpt-image-1';
+
+// The only sizes the images API renders; see IMAGE_PROVIDER_CAPABILITIES.openai
+const SIZES: Partial<Record<AspectRatio, '1024x1024' | '1536x1024' | '1024x1536'>> = {
+  '1:1': '1024x1024',
+  '3:2': '1536x1024',
+  '2:3': '1024x1536',
+};
+
+/**
+ * Any OpenAI-compatible images endpoint (OpenAI itself or a proxy speaking
+ * the same API), configured with OPENAI_IMAGE_API_KEY, OPENAI_IMAGE_BASE_URL
+ * and OPENAI_IMAGE_MODEL.
+ */
+export function createOpenAIProvider(): ImageProvider {
+  const model = process.env.OPENAI_IMAGE_MODEL || DEFAULT_MODEL;
+
+  const getClient = () => {
+    const apiKey = process.env.OPENAI_IMAGE_API_KEY;
+    if (!apiKey) throw new ProviderNotConfiguredError('openai', 'OPENAI_IMAGE_API_KEY');
+    return new OpenAI({
+      apiKey,
+      baseURL: process.env.OPENAI_IMAGE_BASE_URL || undefined,
+      timeout: 360000,
+    });
+  };
+
+  // gpt-image models always answer with base64 and reject response_format
+  const responseFormat = model.startsWith('dall-e') ? { response_format: 'b64_json' as const } : {};
+
+  const toUpload = (image: ImageInput, name: string) =>
+    toFile(Buffer.from(image.data, 'base64'), `${name}.${mime.getExtension(image.mimeType) || 'png'}`, {
+      type: image.mimeType,
+    });
+
+  return {
+    id: 'openai',
+    model,
+    capabilities: IMAGE_PROVIDER_CAPABILITIES.openai,
+    async generate({ prompt, aspectRatio, signal }) {
+      const response = await getClient().images.generate({
+        model,
+        prompt,
+        n: 1,
+        size: SIZES[aspectRatio],
+        ...responseFormat,
+      }, { signal });
+      return readImage(response);
+    },
+    async edit({ prompt, image, mask, aspectRatio }) {
+      const response = await getClient().images.edit({
+        model,
+        prompt,
+        image: await toUpload(image, 'image'),
+        mask: mask ? await toUpload(mask, 'mask') : undefined,
+        n: 1,
+        size: SIZES[aspectRatio],
+        ...responseFormat,
+      });
+      return readImage(response);
+    },
+  };
+}
+
+async function readImage(response: ImagesResponse): Promise<GeneratedImage> {
+  const image = response.data?.[0];
+
+  if (image?.b64_json) {
+    return { data: Buffer.from(image.b64_json, 'base64'), mimeType: 'image/png', text: image.revised_prompt };
+  }
+
+  // Some compatible endpoints only return hosted URLs
+  if (image?.url) {
+    const download = await fetch(image.url);
+    if (!download.ok) throw new Error(`Failed to download generated image (${download.status})`);
+    return {
+      data: new Uint8Array(await download.arrayBuffer()),
+      mimeType: download.headers.get('content-type')?.split(';')[0] || 'image/png',
+      text: image.revised_prompt,
+    };
+  }
+
+  throw new NoImageError('No image was generated', 'No image data found in response.');
+}
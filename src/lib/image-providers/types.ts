@@ -0,0 +1,72 @@
+import type { ImageResolution } from '@/lib/credit-prices';
+import type { AspectRatio, ImageProviderCapabilities, ImageProviderId, UpscaleFactor } from '@/lib/image-options';
+
+/**
+ * Base64 image data as sent to and returned from model APIs.
+ */
+export interface ImageInput {
+  data: string;
+  mimeType: string;
+}
+
+export interface GenerateImageRequest {
+  prompt: string;
+  resolution: ImageResolution;
+  aspectRatio: AspectRatio;
+  referenceImage?: ImageInput;
+  // Aborted once nobody is waiting for the result
+  signal?: AbortSignal;
+}
+
+export interface EditImageRequest {
+  prompt: string;
+  image: ImageInput;
+  // PNG whose transparent pixels mark the area to repaint
+  mask?: ImageInput;
+  resolution: ImageResolution;
+  aspectRatio: AspectRatio;
+}
+
+export interface UpscaleImageRequest {
+  image: ImageInput;
+  scale: UpscaleFactor;
+  // Resolution to render at, chosen from the source size and scale
+  resolution: ImageResolution;
+}
+
+export interface GeneratedImage {
+  data: Uint8Array;
+  mimeType: string;
+  // Any text the model returned alongside the image
+  text?: string;
+}
+
+/**
+ * An image model backend. `generate` is required; `edit` and `upscale` exist
+ * only when listed in the provider's capabilities.
+ */
+export interface ImageProvider {
+  id: ImageProviderId;
+  // Model name recorded with credit transactions
+  model: string;
+  capabilities: ImageProviderCapabilities;
+  generate(request: GenerateImageRequest): Promise<GeneratedImage>;
+  edit?(request: EditImageRequest): Promise<GeneratedImage>;
+  upscale?(request: UpscaleImageRequest): Promise<GeneratedImage>;
+}
+
+// Raised when the model finishes without returning an image
+export class NoImageError extends Error {
+  constructor(public error: string, public details: string) {
+    super(details);
+    this.name = 'NoImageError';
+  }
+}
+
+// Raised when the selected provider has no API key or endpoint configured
+export class ProviderNotConfiguredError extends Error {
+  constructor(public provider: ImageProviderId, public missing: string) {
+    super(`${missing} not configured`);
+    this.name = 'ProviderNotConfiguredError';
+  }
+}
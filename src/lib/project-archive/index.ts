@@ -0,0 +1,231 @@
+import mime from 'mime';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+import { ALLOWED_ASSET_MIME_TYPES, decodeDataUrl, readAssetUrl, UnsupportedAssetUrlError } from '@/lib/assets';
+import { ELEMENT_SCHEMA_VERSION, ElementValidationError, LEGACY_SCHEMA_VERSION, migrateElement } from '@/lib/element-schema';
+import type { Database } from '@/lib/supabase';
+import { createZip, readZip, ZipEntry, ZipFormatError } from './zip';
+
+/**
+ * Portable project archives: a ZIP holding `manifest.json` (project metadata
+ * and elements) plus the media the elements show under `media/`. Elements in
+ * the manifest point at their media by archive path, so an archive does not
+ * depend on the storage it was exported from.
+ */
+
+export const ARCHIVE_FORMAT = 'lovart-project';
+export const ARCHIVE_VERSION = 1;
+export const MANIFEST_PATH = 'manifest.json';
+export const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+
+const MEDIA_TYPES: CanvasElement['type'][] = ['image', 'video'];
+
+export interface ArchiveMedia {
+  path: string;
+  mimeType: string;
+}
+
+export interface ProjectManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  // Element schema the manifest's elements were written with (see element-schema)
+  schemaVersion: number;
+  project: {
+    title: string;
+    createdAt: string | null;
+    updatedAt: string | null;
+  };
+  elements: CanvasElement[];
+  media: ArchiveMedia[];
+}
+
+export interface ArchiveProject {
+  title: string;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export interface UnpackedArchive {
+  manifest: ProjectManifest;
+  // Media files keyed by archive path
+  media: Map<string, { mimeType: string; data: Uint8Array }>;
+}
+
+/**
+ * The archive cannot be imported. The message is safe to show to the user.
+ */
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+// Only our own assets are read; other URLs are never fetched by the server
+async function loadMedia(
+  supabase: SupabaseClient<Database>,
+  url: string,
+  origin: string
+): Promise<{ mimeType: string; data: Uint8Array } | null> {
+  if (url.startsWith('data:')) {
+    // Imports only accept the media types assets may have
+    const decoded = decodeDataUrl(url);
+    return decoded && ALLOWED_ASSET_MIME_TYPES.includes(decoded.mimeType) ? decoded : null;
+  }
+  if (!/^(https?:)?\//.test(url)) return null;
+
+  try {
+    return await readAssetUrl(supabase, url, origin);
+  } catch (error) {
+    if (error instanceof UnsupportedAssetUrlError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Build an archive for a project. Media outside our asset storage, or that
+ * cannot be read, keeps its original URL in the manifest rather than
+ * failing the whole export.
+ */
+export async function packProjectArchive(
+  supabase: SupabaseClient<Database>,
+  project: ArchiveProject,
+  elements: CanvasElement[],
+  origin: string
+): Promise<Uint8Array> {
+  const files: ZipEntry[] = [];
+  const media: ArchiveMedia[] = [];
+  // Several elements often show the same file; store it once
+  const pathsByUrl = new Map<string, string | null>();
+
+  for (const el of elements) {
+    if (!MEDIA_TYPES.includes(el.type) || !el.content || pathsByUrl.has(el.content)) continue;
+
+    const loaded = await loadMedia(supabase, el.content, origin).catch(error => {
+      console.warn('Failed to fetch media for archive:', error instanceof Error ? error.message : error);
+      return null;
+    });
+    if (!loaded) {
+      pathsByUrl.set(el.content, null);
+      continue;
+    }
+
+    const extension = mime.getExtension(loaded.mimeType) || 'bin';
+    const path = `media/${String(media.length + 1).padStart(4, '0')}.${extension}`;
+    files.push({ name: path, data: loaded.data });
+    media.push({ path, mimeType: loaded.mimeType });
+    pathsByUrl.set(el.content, path);
+  }
+
+  const manifest: ProjectManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersion: ELEMENT_SCHEMA_VERSION,
+    project: {
+      title: project.title,
+      createdAt: project.created_at ?? null,
+      updatedAt: project.updated_at ?? null,
+    },
+    elements: elements.map(el => {
+      const path = el.content ? pathsByUrl.get(el.content) : null;
+      if (!path) return el;
+      // Asset ids belong to the exporting account
+      return { ...el, content: path, assetId: undefined };
+    }),
+    media,
+  };
+
+  files.unshift({ name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(files);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the manifest shape, throwing ArchiveError with the first problem.
+ */
+export function validateManifest(value: unknown): ProjectManifest {
+  if (!isRecord(value) || value.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveError('Not a project archive');
+  }
+  if (typeof value.version !== 'number' || value.version > ARCHIVE_VERSION) {
+    throw new ArchiveError(`Unsupported archive version: ${String(value.version)}`);
+  }
+  if (!isRecord(value.project) || typeof value.project.title !== 'string') {
+    throw new ArchiveError('Archive has no project title');
+  }
+  if (!Array.isArray(value.elements)) throw new ArchiveError('Archive has no element list');
+  if (!Array.isArray(value.media)) throw new ArchiveError('Archive has no media list');
+
+  const media = value.media.map((entry, index) => {
+    if (!isRecord(entry) || typeof entry.path !== 'string' || typeof entry.mimeType !== 'string') {
+      throw new ArchiveError(`Media entry ${index} is invalid`);
+    }
+    return { path: entry.path, mimeType: entry.mimeType };
+  });
+
+  // Archives written before elements were versioned carry no schemaVersion
+  const schemaVersion = typeof value.schemaVersion === 'number' ? value.schemaVersion : LEGACY_SCHEMA_VERSION;
+  const elements = value.elements.map(element => {
+    try {
+      return migrateElement(element, schemaVersion);
+    } catch (error) {
+      if (error instanceof ElementValidationError) throw new ArchiveError(error.message);
+      throw error;
+    }
+  });
+  const ids = new Set(elements.map(el => el.id));
+  if (ids.size !== elements.length) throw new ArchiveError('Archive has duplicate element ids');
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: value.version,
+    exportedAt: typeof value.exportedAt === 'string' ? value.exportedAt : '',
+    schemaVersion: ELEMENT_SCHEMA_VERSION,
+    project: {
+      title: value.project.title,
+      createdAt: typeof value.project.createdAt === 'string' ? value.project.createdAt : null,
+      updatedAt: typeof value.project.updatedAt === 'string' ? value.project.updatedAt : null,
+    },
+    elements,
+    media,
+  };
+}
+
+/**
+ * Read and validate an uploaded archive. Every media file the manifest lists
+ * must be present.
+ */
+export function unpackProjectArchive(data: Uint8Array): UnpackedArchive {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = readZip(data, MAX_ARCHIVE_BYTES);
+  } catch (error) {
+    if (error instanceof ZipFormatError) throw new ArchiveError(error.message);
+    throw error;
+  }
+
+  const manifestFile = files.get(MANIFEST_PATH);
+  if (!manifestFile) throw new ArchiveError(`Archive has no ${MANIFEST_PATH}`);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(manifestFile));
+  } catch {
+    throw new ArchiveError(`${MANIFEST_PATH} is not valid JSON`);
+  }
+  const manifest = validateManifest(parsed);
+
+  const media = new Map<string, { mimeType: string; data: Uint8Array }>();
+  for (const entry of manifest.media) {
+    const file = files.get(entry.path);
+    if (!file) throw new ArchiveError(`Archive is missing ${entry.path}`);
+    media.set(entry.path, { mimeType: entry.mimeType, data: file });
+  }
+
+  return { manifest, media };
+}
@@ -0,0 +1,175 @@
+import { inflateRawSync } from 'zlib';
+
+/**
+ * Just enough of the ZIP format for project archives. We write entries
+ * uncompressed (media is already compressed) and read both stored and
+ * deflated entries, so archives repacked by other tools still import.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+// Bit 11: file names are UTF-8
+const FLAG_UTF8 = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, FLAG_UTF8, true);
+    lv.setUint16(8, METHOD_STORED, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, entry.data.length, true);
+    lv.setUint32(22, entry.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_HEADER, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, FLAG_UTF8, true);
+    cv.setUint16(10, METHOD_STORED, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, entry.data.length, true);
+    cv.setUint32(24, entry.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, entry.data);
+    centrals.push(central);
+    offset += local.length + entry.data.length;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const zip = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
+
+/**
+ * Read every file in an archive, keyed by path. Directories are skipped.
+ * Throws ZipFormatError for anything that is not a readable ZIP, or when the
+ * files would add up to more than `maxBytes`.
+ */
+export function readZip(zip: Uint8Array, maxBytes = Infinity): Map<string, Uint8Array> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the very end, after an optional comment of up to 64KB
+  let endOffset = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new ZipFormatError('Not a ZIP archive');
+
+  const count = view.getUint16(endOffset + 10, true);
+  let position = view.getUint32(endOffset + 16, true);
+  const files = new Map<string, Uint8Array>();
+  let totalBytes = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > zip.length || view.getUint32(position, true) !== CENTRAL_HEADER) {
+      throw new ZipFormatError('Corrupt central directory');
+    }
+    const method = view.getUint16(position + 10, true);
+    const expectedCrc = view.getUint32(position + 16, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    totalBytes += size;
+    if (totalBytes > maxBytes) throw new ZipFormatError('Archive contents are too large');
+
+    if (localOffset + 30 > zip.length || view.getUint32(localOffset, true) !== LOCAL_HEADER) {
+      throw new ZipFormatError(`Corrupt entry: ${name}`);
+    }
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = zip.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array;
+    if (method === METHOD_STORED) {
+      data = raw;
+    } else if (method === METHOD_DEFLATE) {
+      try {
+        // Cap the output at the declared size so a crafted entry cannot balloon
+        data = inflateRawSync(raw, { maxOutputLength: Math.max(1, size) });
+      } catch {
+        throw new ZipFormatError(`Corrupt entry: ${name}`);
+      }
+    } else {
+      throw new ZipFormatError(`Unsupported compression method ${method} in ${name}`);
+    }
+
+    if (data.length !== size || crc32(data) !== expectedCrc) {
+      throw new ZipFormatError(`Checksum mismatch in ${name}`);
+    }
+    files.set(name, data);
+  }
+
+  return files;
+}
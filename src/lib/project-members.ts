@@ -0,0 +1,86 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase';
+
+/**
+ * Projects are shared through `project_members`, one row per invited email.
+ * Roles are ordered: each one can do everything the roles before it can.
+ * The database enforces them with RLS (add-project-members.sql); the app
+ * only uses them to decide what to offer.
+ */
+
+type MemberRow = Database['public']['Tables']['project_members']['Row'];
+
+export type ProjectRole = MemberRow['role'];
+
+// From least to most access. Members invited as owners manage members too,
+// but only the creator can delete the project.
+export const PROJECT_ROLES: ProjectRole[] = ['viewer', 'commenter', 'editor', 'owner'];
+
+export interface ProjectMember {
+  id: string;
+  email: string;
+  role: ProjectRole;
+  // Null while the invite has not been claimed
+  userId: string | null;
+  name: string | null;
+  avatarUrl: string | null;
+}
+
+export function isProjectRole(value: unknown): value is ProjectRole {
+  return typeof value === 'string' && PROJECT_ROLES.includes(value as ProjectRole);
+}
+
+export function hasProjectRole(role: ProjectRole | null, required: ProjectRole): boolean {
+  if (!role) return false;
+  return PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(required);
+}
+
+export function canEditProject(role: ProjectRole | null) {
+  return hasProjectRole(role, 'editor');
+}
+
+export function canComment(role: ProjectRole | null) {
+  return hasProjectRole(role, 'commenter');
+}
+
+export function canManageMembers(role: ProjectRole | null) {
+  return hasProjectRole(role, 'owner');
+}
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+export function toProjectMember(row: MemberRow): ProjectMember {
+  return {
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    userId: row.user_id,
+    name: null,
+    avatarUrl: null,
+  };
+}
+
+/**
+ * The caller's role on a project, or null when they cannot open it.
+ */
+export async function getProjectRole(supabase: SupabaseClient<Database>, projectId: string): Promise<ProjectRole | null> {
+  const { data, error } = await supabase.rpc('project_role', { p_project_id: projectId });
+  if (error) throw error;
+  return isProjectRole(data) ? data : null;
+}
+
+/**
+ * Link invites sent to the signed-in user's email before they had an
+ * account. Returns how many were claimed.
+ */
+export async function claimProjectInvites(supabase: SupabaseClient<Database>): Promise<number> {
+  const { data, error } = await supabase.rpc('claim_project_invites');
+  if (error) throw error;
+  return data ?? 0;
+}
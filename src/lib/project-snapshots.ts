@@ -0,0 +1,205 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+import { ELEMENT_SCHEMA_VERSION, loadElementRows, rewriteElementIds } from '@/lib/element-schema';
+import type { Database } from '@/lib/supabase';
+
+/**
+ * Version history of a board. Snapshots copy the saved elements in the
+ * database (create_project_snapshot() in add-project-snapshots.sql), so the
+ * board is saved before a checkpoint is named. Automatic snapshots have no
+ * name and only the latest ones are kept.
+ */
+
+type SnapshotRow = Database['public']['Tables']['project_snapshots']['Row'];
+
+export interface SnapshotSummary {
+  id: string;
+  // Null for automatic snapshots
+  name: string | null;
+  title: string;
+  elementCount: number;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface ProjectSnapshot extends SnapshotSummary {
+  elements: CanvasElement[];
+}
+
+export interface SnapshotDiff {
+  // On the board now but not in the snapshot
+  added: CanvasElement[];
+  // In the snapshot but gone from the board
+  removed: CanvasElement[];
+  // Position or size changed
+  moved: { before: CanvasElement; after: CanvasElement }[];
+  // Anything else changed, e.g. content or color
+  changed: { before: CanvasElement; after: CanvasElement }[];
+}
+
+// How often an open board is snapshotted while someone can edit it
+export const AUTO_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+const SUMMARY_COLUMNS = 'id, name, title, element_count, created_by, created_at';
+
+const GEOMETRY_KEYS = ['x', 'y', 'width', 'height'] as const;
+
+export function toSnapshotSummary(row: Pick<SnapshotRow, 'id' | 'name' | 'title' | 'element_count' | 'created_by' | 'created_at'>): SnapshotSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    title: row.title,
+    elementCount: row.element_count,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+function sameGeometry(a: CanvasElement, b: CanvasElement) {
+  return GEOMETRY_KEYS.every(key => a[key] === b[key]);
+}
+
+// Everything but geometry, compared by value
+function sameContent(a: CanvasElement, b: CanvasElement) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof CanvasElement>;
+  return [...keys].every(key =>
+    (GEOMETRY_KEYS as readonly string[]).includes(key) || JSON.stringify(a[key]) === JSON.stringify(b[key])
+  );
+}
+
+export function isSameElement(a: CanvasElement, b: CanvasElement) {
+  return sameGeometry(a, b) && sameContent(a, b);
+}
+
+/**
+ * What changed between a snapshot and the board. An element can be both
+ * moved and changed.
+ */
+export function diffSnapshot(snapshot: CanvasElement[], current: CanvasElement[]): SnapshotDiff {
+  const snapshotById = new Map(snapshot.map(el => [el.id, el]));
+  const currentIds = new Set(current.map(el => el.id));
+  const diff: SnapshotDiff = { added: [], removed: [], moved: [], changed: [] };
+
+  for (const after of current) {
+    const before = snapshotById.get(after.id);
+    if (!before) {
+      diff.added.push(after);
+      continue;
+    }
+    if (!sameGeometry(before, after)) diff.moved.push({ before, after });
+    if (!sameContent(before, after)) diff.changed.push({ before, after });
+  }
+  diff.removed = snapshot.filter(el => !currentIds.has(el.id));
+
+  return diff;
+}
+
+export function hasDifferences(diff: SnapshotDiff) {
+  return diff.added.length + diff.removed.length + diff.moved.length + diff.changed.length > 0;
+}
+
+/**
+ * The board as it was in a snapshot, in the snapshot's stacking order,
+ * reusing current elements that did not change so restoring only touches
+ * what differs.
+ */
+export function restoreElements(snapshot: CanvasElement[], current: CanvasElement[]): CanvasElement[] {
+  const currentById = new Map(current.map(el => [el.id, el]));
+  return snapshot.map(el => {
+    const existing = currentById.get(el.id);
+    return existing && isSameElement(existing, el) ? existing : el;
+  });
+}
+
+export async function listSnapshots(supabase: SupabaseClient<Database>, projectId: string): Promise<SnapshotSummary[]> {
+  const { data, error } = await supabase
+    .from('project_snapshots')
+    .select(SUMMARY_COLUMNS)
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map(toSnapshotSummary);
+}
+
+/**
+ * Snapshot the saved board. Without a name the snapshot is automatic and
+ * skipped (null) when nothing changed since the last one.
+ */
+export async function createSnapshot(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  name?: string | null
+): Promise<SnapshotSummary | null> {
+  const { data, error } = await supabase.rpc('create_project_snapshot', {
+    p_project_id: projectId,
+    p_name: name?.trim() || null,
+  });
+
+  if (error) throw error;
+  return data && data.length > 0 ? toSnapshotSummary(data[0]) : null;
+}
+
+/**
+ * A snapshot with its elements, validated and migrated like any other load.
+ */
+export async function loadSnapshot(supabase: SupabaseClient<Database>, id: string): Promise<ProjectSnapshot> {
+  const { data, error } = await supabase
+    .from('project_snapshots')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+
+  const { elements, rejected } = loadElementRows(data.elements);
+  if (rejected.length > 0) {
+    console.warn('Skipped invalid canvas elements in snapshot:', rejected);
+  }
+  return { ...toSnapshotSummary(data), elements };
+}
+
+export async function deleteSnapshot(supabase: SupabaseClient<Database>, id: string) {
+  const { error } = await supabase.from('project_snapshots').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Create a new project from a snapshot, owned by the caller. Elements get
+ * fresh ids since element ids are unique across projects. Returns the new
+ * project's id.
+ */
+export async function restoreSnapshotAsCopy(
+  supabase: SupabaseClient<Database>,
+  snapshot: ProjectSnapshot,
+  title: string
+): Promise<string> {
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .insert({ title })
+    .select('id')
+    .single();
+
+  if (projectError) throw projectError;
+
+  const elements = rewriteElementIds(snapshot.elements);
+  if (elements.length > 0) {
+    const { error: elementsError } = await supabase
+      .from('canvas_elements')
+      .insert(elements.map((el, position) => ({
+        id: el.id,
+        project_id: project.id,
+        element_data: el,
+        schema_version: ELEMENT_SCHEMA_VERSION,
+        position,
+      })));
+
+    if (elementsError) {
+      // Don't leave a half-copied project behind
+      await supabase.from('projects').delete().eq('id', project.id);
+      throw elementsError;
+    }
+  }
+
+  return project.id;
+}
@@ -0,0 +1,133 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CanvasElement } from '@/components/lovart/CanvasArea';
+import { loadElementRows } from '@/lib/element-schema';
+import type { Database } from '@/lib/supabase';
+
+/**
+ * Public read-only links to a board. Owners create and revoke them; anyone
+ * with the token opens the board at /lovart/share without an account.
+ * Tokens, expiry and passwords are checked in the database
+ * (add-share-links.sql).
+ */
+
+type ShareLinkRow = Database['public']['Tables']['share_links']['Row'];
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface SharedProject {
+  title: string;
+  elements: CanvasElement[];
+}
+
+// Link lifetimes offered when sharing, in days; null never expires
+export const SHARE_LINK_EXPIRY_DAYS = [null, 1, 7, 30] as const;
+
+export type ShareLinkErrorCode = 'not_found' | 'locked' | 'password_required' | 'password_invalid';
+
+// SQLSTATEs raised by get_shared_project()
+const ERROR_CODES: Record<string, ShareLinkErrorCode> = {
+  P0404: 'not_found',
+  P0429: 'locked',
+  P0401: 'password_required',
+  P0403: 'password_invalid',
+};
+
+export class ShareLinkError extends Error {
+  constructor(public code: ShareLinkErrorCode, message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+export function toShareLink(row: Pick<ShareLinkRow, 'id' | 'token' | 'has_password' | 'expires_at' | 'created_at'>): ShareLink {
+  return {
+    id: row.id,
+    token: row.token,
+    hasPassword: row.has_password,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+  };
+}
+
+export function isShareLinkExpired(link: ShareLink, now = Date.now()) {
+  return link.expiresAt !== null && new Date(link.expiresAt).getTime() <= now;
+}
+
+export function shareLinkUrl(origin: string, token: string) {
+  return `${origin}/lovart/share?token=${encodeURIComponent(token)}`;
+}
+
+export async function listShareLinks(supabase: SupabaseClient<Database>, projectId: string): Promise<ShareLink[]> {
+  const { data, error } = await supabase
+    .from('share_links')
+    .select('id, token, has_password, expires_at, created_at')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toShareLink);
+}
+
+export async function createShareLink(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  options: { expiresAt?: string | null; password?: string | null } = {}
+): Promise<ShareLink> {
+  const { data, error } = await supabase.rpc('create_share_link', {
+    p_project_id: projectId,
+    p_expires_at: options.expiresAt ?? null,
+    p_password: options.password || null,
+  });
+
+  if (error) throw error;
+  return toShareLink(data[0]);
+}
+
+export async function deleteShareLink(supabase: SupabaseClient<Database>, id: string) {
+  const { error } = await supabase.from('share_links').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * The board behind a token, validated and migrated like any other load.
+ * Needs the service role client. `clientHash` identifies the visitor; their
+ * wrong passwords count towards locking them, and only them, out of the link.
+ */
+export async function loadSharedProject(
+  supabase: SupabaseClient<Database>,
+  token: string,
+  clientHash: string,
+  password?: string | null
+): Promise<SharedProject> {
+  const { data, error } = await supabase.rpc('get_shared_project', {
+    p_token: token,
+    p_client_hash: clientHash,
+    p_password: password || null,
+  });
+
+  if (error) {
+    const code = error.code ? ERROR_CODES[error.code] : undefined;
+    if (code === 'password_invalid') {
+      const { error: recordError } = await supabase.rpc('record_share_link_failure', {
+        p_token: token,
+        p_client_hash: clientHash,
+      });
+      if (recordError) console.error('Failed to record share link password failure:', recordError);
+    }
+    if (code) throw new ShareLinkError(code, error.message);
+    throw error;
+  }
+
+  const { elements, rejected } = loadElementRows(data.elements);
+  if (rejected.length > 0) {
+    console.warn('Skipped invalid canvas elements in shared project:', rejected);
+  }
+
+  return { title: data.title, elements };
+}
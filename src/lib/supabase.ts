@@ -22,6 +22,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       projects: {
         Row: {
@@ -48,31 +49,362 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       canvas_elements: {
         Row: {
           id: string;
           project_id: string;
-          element_data: any;
+          // Validate with migrateElement before use; the shape depends on schema_version
+          element_data: unknown;
+          schema_version: number;
+          // Stacking order: the element's index in the canvas array
+          position: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          project_id: string;
+          element_data: unknown;
+          schema_version?: number;
+          position?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          element_data?: unknown;
+          schema_version?: number;
+          position?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      project_members: {
+        Row: {
+          id: string;
+          project_id: string;
+          // Null until the invitee signs in and claims the invite
+          user_id: string | null;
+          email: string;
+          role: 'owner' | 'editor' | 'commenter' | 'viewer';
+          invited_by: string;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
           project_id: string;
-          element_data: any;
+          user_id?: string | null;
+          email: string;
+          role: 'owner' | 'editor' | 'commenter' | 'viewer';
+          invited_by?: string;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
           project_id?: string;
-          element_data?: any;
+          user_id?: string | null;
+          email?: string;
+          role?: 'owner' | 'editor' | 'commenter' | 'viewer';
+          invited_by?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      share_links: {
+        Row: {
+          id: string;
+          project_id: string;
+          token: string;
+          password_hash: string | null;
+          has_password: boolean;
+          expires_at: string | null;
+          created_by: string;
+          created_at: string;
+        };
+        // Links are created through create_share_link(), which hashes the password
+        Insert: { [_ in never]: never };
+        Update: { [_ in never]: never };
+        Relationships: [];
+      };
+      comments: {
+        Row: {
+          id: string;
+          project_id: string;
+          // Null for the pin that starts a thread, the pin's id for replies
+          parent_id: string | null;
+          user_id: string;
+          body: string;
+          element_id: string | null;
+          x: number | null;
+          y: number | null;
+          mentions: string[];
+          resolved_at: string | null;
+          resolved_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          parent_id?: string | null;
+          user_id?: string;
+          body: string;
+          element_id?: string | null;
+          x?: number | null;
+          y?: number | null;
+          mentions?: string[];
           created_at?: string;
           updated_at?: string;
         };
+        // Resolution goes through set_comment_resolved()
+        Update: {
+          body?: string;
+          mentions?: string[];
+          element_id?: string | null;
+          x?: number | null;
+          y?: number | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      project_snapshots: {
+        Row: {
+          id: string;
+          project_id: string;
+          // Null for automatic snapshots
+          name: string | null;
+          title: string;
+          elements: { id: string; element_data: unknown; schema_version: number }[];
+          element_count: number;
+          content_hash: string;
+          created_by: string;
+          created_at: string;
+        };
+        // Snapshots are taken through create_project_snapshot()
+        Insert: { [_ in never]: never };
+        Update: { [_ in never]: never };
+        Relationships: [];
+      };
+      assets: {
+        Row: {
+          id: string;
+          user_id: string;
+          storage_path: string;
+          url: string;
+          mime_type: string;
+          size_bytes: number;
+          width: number | null;
+          height: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          storage_path: string;
+          url: string;
+          mime_type: string;
+          size_bytes: number;
+          width?: number | null;
+          height?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          storage_path?: string;
+          url?: string;
+          mime_type?: string;
+          size_bytes?: number;
+          width?: number | null;
+          height?: number | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      credit_transactions: {
+        Row: {
+          id: string;
+          user_id: string;
+          amount: number;
+          operation: string;
+          status: 'reserved' | 'committed' | 'refunded';
+          metadata: Record<string, unknown>;
+          balance_after: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          amount: number;
+          operation: string;
+          status?: 'reserved' | 'committed' | 'refunded';
+          metadata?: Record<string, unknown>;
+          balance_after?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          amount?: number;
+          operation?: string;
+          status?: 'reserved' | 'committed' | 'refunded';
+          metadata?: Record<string, unknown>;
+          balance_after?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      chat_messages: {
+        Row: {
+          id: string;
+          project_id: string;
+          user_id: string;
+          role: 'user' | 'assistant';
+          content: string;
+          interrupted: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          user_id?: string;
+          role: 'user' | 'assistant';
+          content: string;
+          interrupted?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          user_id?: string;
+          role?: 'user' | 'assistant';
+          content?: string;
+          interrupted?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      generation_jobs: {
+        Row: {
+          id: string;
+          user_id: string;
+          project_id: string | null;
+          element_id: string | null;
+          kind: 'video';
+          provider: string;
+          provider_task_id: string;
+          transaction_id: string | null;
+          status: 'queued' | 'in_progress' | 'completed' | 'failed';
+          progress: number;
+          params: Record<string, unknown>;
+          result_url: string | null;
+          error: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          project_id?: string | null;
+          element_id?: string | null;
+          kind: 'video';
+          provider: string;
+          provider_task_id: string;
+          transaction_id?: string | null;
+          status?: 'queued' | 'in_progress' | 'completed' | 'failed';
+          progress?: number;
+          params?: Record<string, unknown>;
+          result_url?: string | null;
+          error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          project_id?: string | null;
+          element_id?: string | null;
+          kind?: 'video';
+          provider?: string;
+          provider_task_id?: string;
+          transaction_id?: string | null;
+          status?: 'queued' | 'in_progress' | 'completed' | 'failed';
+          progress?: number;
+          params?: Record<string, unknown>;
+          result_url?: string | null;
+          error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
     };
+    Views: { [_ in never]: never };
+    Functions: {
+      // The ledger functions are only executable with the service role
+      reserve_credits: {
+        Args: { p_user_id: string; p_amount: number; p_operation: string; p_metadata?: Record<string, unknown> };
+        Returns: string;
+      };
+      commit_credits: {
+        Args: { p_transaction_id: string };
+        Returns: undefined;
+      };
+      refund_credits: {
+        Args: { p_transaction_id: string };
+        Returns: undefined;
+      };
+      project_role: {
+        Args: { p_project_id: string };
+        Returns: 'owner' | 'editor' | 'commenter' | 'viewer' | null;
+      };
+      claim_project_invites: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
+      create_share_link: {
+        Args: { p_project_id: string; p_expires_at?: string | null; p_password?: string | null };
+        Returns: {
+          id: string;
+          token: string;
+          has_password: boolean;
+          expires_at: string | null;
+          created_at: string;
+        }[];
+      };
+      get_shared_project: {
+        Args: { p_token: string; p_client_hash: string; p_password?: string | null };
+        Returns: {
+          title: string;
+          elements: { id: string; element_data: unknown; schema_version: number }[];
+        };
+      };
+      record_share_link_failure: {
+        Args: { p_token: string; p_client_hash: string };
+        Returns: undefined;
+      };
+      set_comment_resolved: {
+        Args: { p_comment_id: string; p_resolved: boolean };
+        Returns: Database['public']['Tables']['comments']['Row'];
+      };
+      create_project_snapshot: {
+        Args: { p_project_id: string; p_name?: string | null };
+        // Empty when an automatic snapshot was skipped
+        Returns: Database['public']['Tables']['project_snapshots']['Row'][];
+      };
+    };
+    Enums: { [_ in never]: never };
+    CompositeTypes: { [_ in never]: never };
   };
 }
 
@@ -102,3 +434,33 @@ export function createServerSupabaseClient() {
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
   );
 }
+
+/**
+ * Create a Supabase client with the service role key, which bypasses RLS.
+ * Server only: used for writes users must not be able to make themselves,
+ * such as settling credits and recording generation jobs.
+ */
+export function createServiceSupabaseClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured');
+  }
+
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    serviceRoleKey,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  );
+}
+
+let serviceClient: ReturnType<typeof createServiceSupabaseClient> | null = null;
+
+/**
+ * Shared service role client for API routes.
+ */
+export function getServiceSupabaseClient() {
+  if (!serviceClient) {
+    serviceClient = createServiceSupabaseClient();
+  }
+  return serviceClient;
+}
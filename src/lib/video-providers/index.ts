@@ -0,0 +1,36 @@
+import { createMockVideoProvider } from './mock';
+import { createSoraProvider } from './sora';
+import type { VideoProvider, VideoProviderId } from './types';
+
+export * from './types';
+
+const FACTORIES: Record<VideoProviderId, () => VideoProvider> = {
+  sora: createSoraProvider,
+  mock: createMockVideoProvider,
+};
+
+export function isVideoProviderId(value: unknown): value is VideoProviderId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(FACTORIES, value);
+}
+
+/**
+ * The provider new jobs are submitted to: VIDEO_PROVIDER, or Sora when unset.
+ */
+export function getDefaultVideoProviderId(): VideoProviderId {
+  const configured = process.env.VIDEO_PROVIDER;
+  return isVideoProviderId(configured) ? configured : 'sora';
+}
+
+// The mock provider fabricates finished videos, so it only exists when
+// VIDEO_PROVIDER explicitly selects it
+function isVideoProviderEnabled(id: VideoProviderId) {
+  return id !== 'mock' || process.env.VIDEO_PROVIDER === 'mock';
+}
+
+/**
+ * Resolve a provider by id, e.g. the one recorded on a job so it is polled
+ * by the backend that started it. Returns null for unknown or disabled ids.
+ */
+export function getVideoProvider(id: unknown = getDefaultVideoProviderId()): VideoProvider | null {
+  return isVideoProviderId(id) && isVideoProviderEnabled(id) ? FACTORIES[id]() : null;
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { VideoProvider, VideoTask } from './types';
+
+const DEFAULT_SAMPLE_URL = '/mock/sample.mp4';
+const DEFAULT_DURATION_MS = 15000;
+const QUEUED_MS = 1000;
+
+const sampleUrl = () => process.env.MOCK_VIDEO_URL || DEFAULT_SAMPLE_URL;
+
+/**
+ * Offline provider for local development. Progress is derived from the time
+ * encoded in the task id, so polling works across server restarts without
+ * any stored state, and every finished task returns the same sample clip
+ * (public/mock/sample.mp4, or MOCK_VIDEO_URL).
+ */
+export function createMockVideoProvider(): VideoProvider {
+  const duration = Number(process.env.MOCK_VIDEO_DURATION_MS) || DEFAULT_DURATION_MS;
+
+  const poll = async (taskId: string): Promise<VideoTask> => {
+    const startedAt = Number(taskId.split('_')[1]);
+    if (!Number.isFinite(startedAt)) {
+      return { taskId, status: 'failed', progress: 0, error: 'Unknown mock task' };
+    }
+
+    const elapsed = Date.now() - startedAt;
+    if (elapsed < QUEUED_MS) {
+      return { taskId, status: 'queued', progress: 0 };
+    }
+
+    const progress = Math.min(100, Math.floor((elapsed / duration) * 100));
+    return progress < 100
+      ? { taskId, status: 'in_progress', progress }
+      : { taskId, status: 'completed', progress, videoUrl: sampleUrl() };
+  };
+
+  return {
+    id: 'mock',
+    model: 'mock',
+    async submit() {
+      return { taskId: `mock_${Date.now()}_${uuidv4()}`, status: 'queued', progress: 0 };
+    },
+    poll,
+    async cancel() {
+      // Nothing runs anywhere, so there is nothing to stop
+    },
+    async download(taskId) {
+      const { videoUrl } = await poll(taskId);
+      if (!videoUrl) throw new Error('Video is not ready yet');
+
+      if (/^https?:\/\//.test(videoUrl)) {
+        const response = await fetch(videoUrl);
+        if (!response.ok) throw new Error(`Failed to download video (${response.status})`);
+        // CDNs often send a generic type; only trust a video one
+        const contentType = response.headers.get('content-type')?.split(';')[0];
+        return {
+          data: new Uint8Array(await response.arrayBuffer()),
+          mimeType: contentType?.startsWith('video/') ? contentType : 'video/mp4',
+        };
+      }
+
+      const data = await fs.readFile(path.join(process.cwd(), 'public', videoUrl));
+      return { data: new Uint8Array(data), mimeType: 'video/mp4' };
+    },
+  };
+}
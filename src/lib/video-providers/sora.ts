@@ -0,0 +1,106 @@
+import type { GenerationJobStatus } from '@/lib/generation-jobs';
+import { VideoProvider, VideoProviderNotConfiguredError, VideoTask } from './types';
+
+const MODEL = 'sora-2';
+const DEFAULT_BASE_URL = 'https://www.clockapi.fun/v1';
+
+interface SoraVideo {
+  id: string;
+  status?: string;
+  progress?: number;
+  video_url?: string;
+  error?: string | { message?: string };
+}
+
+/**
+ * Map a Sora task onto a job status. The API reports 100% before the video
+ * URL is ready, so a task only completes once there is a URL.
+ */
+function toVideoTask(video: SoraVideo): VideoTask {
+  const progress = video.progress || 0;
+  let status: GenerationJobStatus;
+  if (video.status === 'failed' || video.status === 'cancelled' || video.status === 'expired') {
+    status = 'failed';
+  } else if (progress >= 100 && video.video_url) {
+    status = 'completed';
+  } else {
+    status = video.status === 'queued' ? 'queued' : 'in_progress';
+  }
+
+  return {
+    taskId: video.id,
+    status,
+    progress,
+    videoUrl: video.video_url,
+    error: status === 'failed'
+      ? (typeof video.error === 'string' ? video.error : video.error?.message) || 'Video generation failed'
+      : undefined,
+  };
+}
+
+/**
+ * Sora 2 through an OpenAI-style videos API (ClockAPI by default), configured
+ * with VIDEO_API_KEY and VIDEO_API_BASE_URL.
+ */
+export function createSoraProvider(): VideoProvider {
+  const request = async (path: string, init: RequestInit = {}) => {
+    const apiKey = process.env.VIDEO_API_KEY;
+    if (!apiKey) throw new VideoProviderNotConfiguredError('sora', 'VIDEO_API_KEY');
+
+    const baseUrl = process.env.VIDEO_API_BASE_URL || DEFAULT_BASE_URL;
+    return fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Authorization': `Bearer ${apiKey}`, ...init.headers },
+    });
+  };
+
+  const poll = async (taskId: string) => {
+    const response = await request(`/videos/${taskId}`);
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error?.message || data.error || 'Failed to get video status');
+    return toVideoTask(data);
+  };
+
+  return {
+    id: 'sora',
+    model: MODEL,
+    async submit({ prompt, seconds, size, referenceImage }) {
+      const form = new FormData();
+      form.append('model', MODEL);
+      form.append('prompt', prompt);
+      form.append('seconds', seconds.toString());
+      form.append('size', size);
+
+      if (referenceImage) {
+        const blob = new Blob([Buffer.from(referenceImage.data, 'base64')], { type: referenceImage.mimeType });
+        form.append('input_reference', blob, 'reference.jpg');
+      }
+
+      const response = await request('/videos', { method: 'POST', body: form });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || data.error || 'Failed to start video generation');
+      return toVideoTask(data);
+    },
+    poll,
+    async cancel(taskId) {
+      const response = await request(`/videos/${taskId}`, { method: 'DELETE' });
+      // Already gone is as good as cancelled
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to cancel video generation (${response.status})`);
+      }
+    },
+    async download(taskId) {
+      const { videoUrl } = await poll(taskId);
+      if (!videoUrl) throw new Error('Video is not ready yet');
+
+      const response = await fetch(videoUrl);
+      if (!response.ok) throw new Error(`Failed to download video (${response.status})`);
+      // CDNs often send a generic type; only trust a video one
+      const contentType = response.headers.get('content-type')?.split(';')[0];
+      return {
+        data: new Uint8Array(await response.arrayBuffer()),
+        mimeType: contentType?.startsWith('video/') ? contentType : 'video/mp4',
+      };
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import type { VideoSize } from '@/lib/credit-prices';
+import type { GenerationJobStatus } from '@/lib/generation-jobs';
+import type { ImageInput } from '@/lib/image-providers/types';
+
+export type VideoProviderId = 'sora' | 'mock';
+
+export interface SubmitVideoRequest {
+  prompt: string;
+  seconds: number;
+  size: VideoSize;
+  referenceImage?: ImageInput;
+}
+
+/**
+ * A provider task as last reported, already mapped onto job statuses.
+ */
+export interface VideoTask {
+  taskId: string;
+  status: GenerationJobStatus;
+  progress: number;
+  videoUrl?: string;
+  error?: string;
+}
+
+export interface DownloadedVideo {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+/**
+ * A video generation backend. Tasks run on the provider; the caller records
+ * them in generation_jobs and polls until they finish.
+ */
+export interface VideoProvider {
+  id: VideoProviderId;
+  // Model name recorded with credit transactions
+  model: string;
+  submit(request: SubmitVideoRequest): Promise<VideoTask>;
+  poll(taskId: string): Promise<VideoTask>;
+  cancel(taskId: string): Promise<void>;
+  // Fetch the finished clip so it can be stored as an asset
+  download(taskId: string): Promise<DownloadedVideo>;
+}
+
+// Raised when the selected provider has no API key or endpoint configured
+export class VideoProviderNotConfiguredError extends Error {
+  constructor(public provider: VideoProviderId, public missing: string) {
+    super(`${missing} not configured`);
+    this.name = 'VideoProviderNotConfiguredError';
+  }
+}
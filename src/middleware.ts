@@ -1,10 +1,7 @@
-import { NextResponse } from 'next/server';
-import type { NextRequest } from 'next/server';
+import { clerkMiddleware } from '@clerk/nextjs/server';
 
-// 简单的 middleware - Clerk 认证通过 ClerkProvider 在客户端处理
-export function middleware(request: NextRequest) {
-  return NextResponse.next();
-}
+// Clerk middleware 让 API 路由可以通过 auth() 读取当前用户；页面访问不做拦截
+export default clerkMiddleware();
 
 export const config = {
   matcher: [
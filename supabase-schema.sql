@@ -4,6 +4,9 @@
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Password hashing for share links
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
 -- Create user_credits table
 CREATE TABLE IF NOT EXISTS user_credits (
   user_id TEXT PRIMARY KEY,
@@ -23,22 +26,130 @@ CREATE TABLE IF NOT EXISTS projects (
 );
 
 -- Create canvas_elements table
+-- The primary key is the canvas element id (element_data->>'id') so saves can
+-- upsert and delete individual elements instead of rewriting the whole board.
+-- schema_version is the element_data shape the row was written with; the app
+-- migrates older rows on load (src/lib/element-schema.ts). position is the
+-- element's index in the canvas array, i.e. its stacking order
 CREATE TABLE IF NOT EXISTS canvas_elements (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  id UUID PRIMARY KEY,
   project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
   element_data JSONB NOT NULL,
+  schema_version INTEGER NOT NULL DEFAULT 1,
+  position INTEGER NOT NULL DEFAULT 0,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create project_members table (sharing by role: viewer < commenter < editor < owner)
+-- The creator (projects.user_id) is always an owner. Invites are keyed by
+-- email; user_id stays null until the invitee signs in and
+-- claim_project_invites() links it using the email claim of the Clerk
+-- "supabase" JWT template ("email": "{{user.primary_email_address}}")
+CREATE TABLE IF NOT EXISTS project_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  -- Null until the invitee signs in
+  user_id TEXT,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'commenter', 'viewer')),
+  invited_by TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (project_id, email)
+);
+
+-- The caller's role on a project, or null without access. Runs as definer so
+-- the policies below can consult both tables without recursing into each
+-- other's RLS.
+CREATE OR REPLACE FUNCTION project_role(p_project_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM projects
+      WHERE id = p_project_id AND user_id = auth.jwt()->>'sub'
+    ) THEN 'owner'
+    ELSE (
+      SELECT role FROM project_members
+      WHERE project_id = p_project_id AND user_id = auth.jwt()->>'sub'
+    )
+  END;
+$$;
+
+-- Whether the caller holds at least p_role on a project
+CREATE OR REPLACE FUNCTION has_project_role(p_project_id UUID, p_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    array_position(ARRAY['viewer', 'commenter', 'editor', 'owner'], project_role(p_project_id))
+      >= array_position(ARRAY['viewer', 'commenter', 'editor', 'owner'], p_role),
+    false
+  );
+$$;
+
+-- The creator of a project, for keeping it unchanged on update
+CREATE OR REPLACE FUNCTION project_creator(p_project_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id FROM projects WHERE id = p_project_id;
+$$;
+
+-- Link pending invites addressed to the caller's email; returns how many
+CREATE OR REPLACE FUNCTION claim_project_invites()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id TEXT := auth.jwt()->>'sub';
+  v_email TEXT := lower(auth.jwt()->>'email');
+  v_count INTEGER;
+BEGIN
+  IF v_user_id IS NULL OR v_email IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE project_members
+  SET user_id = v_user_id
+  WHERE email = v_email
+    AND user_id IS NULL
+    -- Already a member another way (e.g. the creator): leave the invite pending
+    AND NOT EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = project_members.project_id AND projects.user_id = v_user_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM project_members other
+      WHERE other.project_id = project_members.project_id AND other.user_id = v_user_id
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
 -- Enable Row Level Security (RLS) on projects table
 ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
 
--- Create RLS policy for projects - users can only see their own projects
-CREATE POLICY "Users can view their own projects"
+-- Create RLS policy for projects - members can see the projects shared with them
+CREATE POLICY "Members can view projects"
   ON projects
   FOR SELECT
-  USING (auth.jwt()->>'sub' = user_id);
+  USING (auth.jwt()->>'sub' = user_id OR has_project_role(id, 'viewer'));
 
 -- Create RLS policy for projects - users can insert their own projects
 CREATE POLICY "Users can insert their own projects"
@@ -46,14 +157,14 @@ CREATE POLICY "Users can insert their own projects"
   FOR INSERT
   WITH CHECK (auth.jwt()->>'sub' = user_id);
 
--- Create RLS policy for projects - users can update their own projects
-CREATE POLICY "Users can update their own projects"
+-- Create RLS policy for projects - editors can update projects, but not hand them to someone else
+CREATE POLICY "Editors can update projects"
   ON projects
   FOR UPDATE
-  USING (auth.jwt()->>'sub' = user_id)
-  WITH CHECK (auth.jwt()->>'sub' = user_id);
+  USING (has_project_role(id, 'editor'))
+  WITH CHECK (has_project_role(id, 'editor') AND user_id = project_creator(id));
 
--- Create RLS policy for projects - users can delete their own projects
+-- Create RLS policy for projects - only the creator can delete a project
 CREATE POLICY "Users can delete their own projects"
   ON projects
   FOR DELETE
@@ -62,65 +173,65 @@ CREATE POLICY "Users can delete their own projects"
 -- Enable Row Level Security (RLS) on canvas_elements table
 ALTER TABLE canvas_elements ENABLE ROW LEVEL SECURITY;
 
--- Create RLS policy for canvas_elements - users can only see elements from their projects
-CREATE POLICY "Users can view their own canvas elements"
+-- Create RLS policy for canvas_elements - members can see the elements of their projects
+CREATE POLICY "Members can view canvas elements"
   ON canvas_elements
   FOR SELECT
-  USING (
-    EXISTS (
-      SELECT 1 FROM projects
-      WHERE projects.id = canvas_elements.project_id
-      AND projects.user_id = auth.jwt()->>'sub'
-    )
-  );
+  USING (has_project_role(project_id, 'viewer'));
 
--- Create RLS policy for canvas_elements - users can insert elements to their projects
-CREATE POLICY "Users can insert canvas elements to their projects"
+-- Create RLS policy for canvas_elements - editors can add elements
+CREATE POLICY "Editors can insert canvas elements"
   ON canvas_elements
   FOR INSERT
-  WITH CHECK (
-    EXISTS (
-      SELECT 1 FROM projects
-      WHERE projects.id = canvas_elements.project_id
-      AND projects.user_id = auth.jwt()->>'sub'
-    )
-  );
+  WITH CHECK (has_project_role(project_id, 'editor'));
 
--- Create RLS policy for canvas_elements - users can update their canvas elements
-CREATE POLICY "Users can update their own canvas elements"
+-- Create RLS policy for canvas_elements - editors can change elements
+CREATE POLICY "Editors can update canvas elements"
   ON canvas_elements
   FOR UPDATE
-  USING (
-    EXISTS (
-      SELECT 1 FROM projects
-      WHERE projects.id = canvas_elements.project_id
-      AND projects.user_id = auth.jwt()->>'sub'
-    )
-  )
-  WITH CHECK (
-    EXISTS (
-      SELECT 1 FROM projects
-      WHERE projects.id = canvas_elements.project_id
-      AND projects.user_id = auth.jwt()->>'sub'
-    )
-  );
+  USING (has_project_role(project_id, 'editor'))
+  WITH CHECK (has_project_role(project_id, 'editor'));
 
--- Create RLS policy for canvas_elements - users can delete their canvas elements
-CREATE POLICY "Users can delete their own canvas elements"
+-- Create RLS policy for canvas_elements - editors can remove elements
+CREATE POLICY "Editors can delete canvas elements"
   ON canvas_elements
   FOR DELETE
-  USING (
-    EXISTS (
-      SELECT 1 FROM projects
-      WHERE projects.id = canvas_elements.project_id
-      AND projects.user_id = auth.jwt()->>'sub'
-    )
-  );
+  USING (has_project_role(project_id, 'editor'));
+
+-- Enable Row Level Security (RLS) on project_members table
+ALTER TABLE project_members ENABLE ROW LEVEL SECURITY;
+
+-- Everyone on a project can see who else is on it
+CREATE POLICY "Members can view project members"
+  ON project_members
+  FOR SELECT
+  USING (has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Owners can invite project members"
+  ON project_members
+  FOR INSERT
+  WITH CHECK (has_project_role(project_id, 'owner'));
+
+CREATE POLICY "Owners can change member roles"
+  ON project_members
+  FOR UPDATE
+  USING (has_project_role(project_id, 'owner'))
+  WITH CHECK (has_project_role(project_id, 'owner'));
+
+-- Owners remove members; members may leave on their own
+CREATE POLICY "Owners can remove project members"
+  ON project_members
+  FOR DELETE
+  USING (has_project_role(project_id, 'owner') OR user_id = auth.jwt()->>'sub');
 
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id);
 CREATE INDEX IF NOT EXISTS idx_projects_updated_at ON projects(updated_at DESC);
 CREATE INDEX IF NOT EXISTS idx_canvas_elements_project_id ON canvas_elements(project_id);
+CREATE INDEX IF NOT EXISTS idx_canvas_elements_project_position ON canvas_elements(project_id, position);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_members_project_user ON project_members(project_id, user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON project_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_project_members_email ON project_members(email) WHERE user_id IS NULL;
 
 -- Create a function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -142,6 +253,11 @@ CREATE TRIGGER update_canvas_elements_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_project_members_updated_at
+  BEFORE UPDATE ON project_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_user_credits_updated_at
   BEFORE UPDATE ON user_credits
   FOR EACH ROW
@@ -156,15 +272,691 @@ CREATE POLICY "Users can view their own credits"
   FOR SELECT
   USING (auth.jwt()->>'sub' = user_id);
 
--- Create RLS policy for user_credits - users can insert their own credits
-CREATE POLICY "Users can insert their own credits"
-  ON user_credits
+-- Balances are only changed by the credit ledger functions below, so there is
+-- no INSERT or UPDATE policy; reserve_credits() creates a user's row with the
+-- default balance on their first charge
+
+-- Create assets table (uploaded and generated media; canvas elements reference these by URL)
+CREATE TABLE IF NOT EXISTS assets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  storage_path TEXT NOT NULL,
+  url TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assets_user_id ON assets(user_id);
+
+-- Enable Row Level Security (RLS) on assets table
+ALTER TABLE assets ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy for assets - users can view their own assets
+CREATE POLICY "Users can view their own assets"
+  ON assets
+  FOR SELECT
+  USING (auth.jwt()->>'sub' = user_id);
+
+-- Create RLS policy for assets - users can insert their own assets
+CREATE POLICY "Users can insert their own assets"
+  ON assets
   FOR INSERT
   WITH CHECK (auth.jwt()->>'sub' = user_id);
 
--- Create RLS policy for user_credits - users can update their own credits
-CREATE POLICY "Users can update their own credits"
-  ON user_credits
+-- Create RLS policy for assets - users can delete their own assets
+CREATE POLICY "Users can delete their own assets"
+  ON assets
+  FOR DELETE
+  USING (auth.jwt()->>'sub' = user_id);
+
+-- Create public storage bucket for asset blobs (files are stored under <user_id>/)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('assets', 'assets', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create storage policy - users can upload into their own folder
+CREATE POLICY "Users can upload their own asset files"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'assets'
+    AND (storage.foldername(name))[1] = auth.jwt()->>'sub'
+  );
+
+-- Create storage policy - users can delete files in their own folder
+CREATE POLICY "Users can delete their own asset files"
+  ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'assets'
+    AND (storage.foldername(name))[1] = auth.jwt()->>'sub'
+  );
+
+-- Create credit_transactions table (ledger of every credit reservation, commit and refund)
+CREATE TABLE IF NOT EXISTS credit_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  operation TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'committed', 'refunded')),
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  balance_after INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_user_id ON credit_transactions(user_id, created_at DESC);
+
+CREATE TRIGGER update_credit_transactions_updated_at
+  BEFORE UPDATE ON credit_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS) on credit_transactions table
+ALTER TABLE credit_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy for credit_transactions - users can view their own history
+-- (writes only happen through the functions below)
+CREATE POLICY "Users can view their own credit transactions"
+  ON credit_transactions
+  FOR SELECT
+  USING (auth.jwt()->>'sub' = user_id);
+
+-- The ledger functions take the user id from the caller, so only the server
+-- (service role) may run them; otherwise a user could refund their own
+-- reservation while the provider call is still running. Drop the signatures
+-- that read the user from the JWT in case an older version was installed.
+DROP FUNCTION IF EXISTS reserve_credits(INTEGER, TEXT, JSONB);
+DROP FUNCTION IF EXISTS commit_credits(UUID);
+DROP FUNCTION IF EXISTS refund_credits(UUID);
+
+-- Deduct credits and record a reserved transaction; raises P0402 when the balance is too low
+CREATE OR REPLACE FUNCTION reserve_credits(p_user_id TEXT, p_amount INTEGER, p_operation TEXT, p_metadata JSONB DEFAULT '{}'::jsonb)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance INTEGER;
+  v_transaction_id UUID;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  -- New users start with the default balance
+  INSERT INTO user_credits (user_id) VALUES (p_user_id) ON CONFLICT (user_id) DO NOTHING;
+
+  UPDATE user_credits
+  SET credits = credits - p_amount
+  WHERE user_id = p_user_id AND credits >= p_amount
+  RETURNING credits INTO v_balance;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Insufficient credits' USING ERRCODE = 'P0402';
+  END IF;
+
+  INSERT INTO credit_transactions (user_id, amount, operation, status, metadata, balance_after)
+  VALUES (p_user_id, -p_amount, p_operation, 'reserved', COALESCE(p_metadata, '{}'::jsonb), v_balance)
+  RETURNING id INTO v_transaction_id;
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- Finalise a reserved transaction once the provider call succeeded
+CREATE OR REPLACE FUNCTION commit_credits(p_transaction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE credit_transactions
+  SET status = 'committed'
+  WHERE id = p_transaction_id
+    AND status = 'reserved';
+END;
+$$;
+
+-- Return the credits of a reserved transaction after a failed provider call
+CREATE OR REPLACE FUNCTION refund_credits(p_transaction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id TEXT;
+  v_amount INTEGER;
+  v_balance INTEGER;
+BEGIN
+  UPDATE credit_transactions
+  SET status = 'refunded'
+  WHERE id = p_transaction_id
+    AND status = 'reserved'
+  RETURNING user_id, amount INTO v_user_id, v_amount;
+
+  IF FOUND THEN
+    UPDATE user_credits
+    SET credits = credits - v_amount
+    WHERE user_id = v_user_id
+    RETURNING credits INTO v_balance;
+
+    UPDATE credit_transactions
+    SET balance_after = v_balance
+    WHERE id = p_transaction_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_credits(TEXT, INTEGER, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION commit_credits(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_credits(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_credits(TEXT, INTEGER, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION commit_credits(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION refund_credits(UUID) TO service_role;
+
+-- Create chat_messages table (AI designer conversation, one thread per project)
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  interrupted BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_project_id ON chat_messages(project_id, created_at);
+
+-- Enable Row Level Security (RLS) on chat_messages table
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy for chat_messages - members can read the chat of their projects
+CREATE POLICY "Members can view chat messages"
+  ON chat_messages
+  FOR SELECT
+  USING (has_project_role(project_id, 'viewer'));
+
+-- Create RLS policy for chat_messages - editors can add messages
+CREATE POLICY "Editors can insert chat messages"
+  ON chat_messages
+  FOR INSERT
+  WITH CHECK (
+    auth.jwt()->>'sub' = user_id
+    AND has_project_role(project_id, 'editor')
+  );
+
+-- Create RLS policy for chat_messages - users can clear the chat of their projects
+CREATE POLICY "Users can delete chat messages of their projects"
+  ON chat_messages
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = chat_messages.project_id
+      AND projects.user_id = auth.jwt()->>'sub'
+    )
+  );
+
+-- Create generation_jobs table (long-running provider jobs such as Sora videos, so they survive reloads)
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  element_id TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('video')),
+  provider TEXT NOT NULL,
+  provider_task_id TEXT NOT NULL,
+  transaction_id UUID REFERENCES credit_transactions(id),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'in_progress', 'completed', 'failed')),
+  progress INTEGER NOT NULL DEFAULT 0,
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  result_url TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_project_status ON generation_jobs(project_id, status);
+
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS) on generation_jobs table
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy for generation_jobs - users can view their own jobs
+-- (writes only happen in the API routes, with the service role)
+CREATE POLICY "Users can view their own generation jobs"
+  ON generation_jobs
+  FOR SELECT
+  USING (auth.jwt()->>'sub' = user_id);
+
+-- Live collaboration: private Realtime channels. Every member joins
+-- project:<project id>, viewers too, for presence, cursors and join
+-- announcements. Element ops go over project-edits:<project id>, which only
+-- editors may send on.
+CREATE POLICY "Members can receive collaboration"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE realtime.topic() IN ('project:' || projects.id::text, 'project-edits:' || projects.id::text)
+      AND has_project_role(projects.id, 'viewer')
+    )
+  );
+
+CREATE POLICY "Members can send collaboration"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE 'project:' || projects.id::text = realtime.topic()
+      AND has_project_role(projects.id, 'viewer')
+    )
+  );
+
+CREATE POLICY "Editors can send element edits"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE 'project-edits:' || projects.id::text = realtime.topic()
+      AND has_project_role(projects.id, 'editor')
+    )
+  );
+
+-- Create share_links table (public read-only links; visitors read the board
+-- through get_shared_project(), passwords are stored as bcrypt hashes)
+CREATE TABLE IF NOT EXISTS share_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  password_hash TEXT,
+  has_password BOOLEAN GENERATED ALWAYS AS (password_hash IS NOT NULL) STORED,
+  -- Null links never expire
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_by TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_project_id ON share_links(project_id, created_at DESC);
+
+-- Enable Row Level Security (RLS) on share_links table
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+-- Owners see and revoke links; they are created through create_share_link()
+-- so the password is hashed in the database
+CREATE POLICY "Owners can view share links"
+  ON share_links
+  FOR SELECT
+  USING (has_project_role(project_id, 'owner'));
+
+CREATE POLICY "Owners can delete share links"
+  ON share_links
+  FOR DELETE
+  USING (has_project_role(project_id, 'owner'));
+
+-- Create a link for a project the caller owns; raises P0403 otherwise
+CREATE OR REPLACE FUNCTION create_share_link(
+  p_project_id UUID,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_password TEXT DEFAULT NULL
+)
+RETURNS TABLE (id UUID, token TEXT, has_password BOOLEAN, expires_at TIMESTAMP WITH TIME ZONE, created_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT has_project_role(p_project_id, 'owner') THEN
+    RAISE EXCEPTION 'Only project owners can share links' USING ERRCODE = 'P0403';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO share_links AS link (project_id, token, password_hash, expires_at)
+  VALUES (
+    p_project_id,
+    -- 24 random bytes, URL-safe base64 without padding
+    translate(encode(gen_random_bytes(24), 'base64'), '+/', '-_'),
+    CASE WHEN p_password IS NULL OR p_password = '' THEN NULL ELSE crypt(p_password, gen_salt('bf')) END,
+    p_expires_at
+  )
+  RETURNING link.id, link.token, link.has_password, link.expires_at, link.created_at;
+END;
+$$;
+
+-- Wrong share link passwords per link and visitor. client_hash identifies the
+-- visitor (/api/share hashes their IP address), so one visitor guessing cannot
+-- lock everyone else out. Only the functions below read and write this.
+CREATE TABLE IF NOT EXISTS share_link_attempts (
+  link_id UUID NOT NULL REFERENCES share_links(id) ON DELETE CASCADE,
+  client_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (link_id, client_hash)
+);
+
+ALTER TABLE share_link_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Earlier versions of these functions took no client
+DROP FUNCTION IF EXISTS get_shared_project(TEXT, TEXT);
+DROP FUNCTION IF EXISTS record_share_link_failure(TEXT);
+
+-- The board behind a share link, for visitors without an account.
+-- Raises P0404 for unknown or expired links, P0429 while the visitor is
+-- locked out after repeated wrong passwords, P0401 when a password is needed
+-- and P0403 when it is wrong. Only the server calls this, through /api/share.
+CREATE OR REPLACE FUNCTION get_shared_project(p_token TEXT, p_client_hash TEXT, p_password TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_link share_links%ROWTYPE;
+  v_title TEXT;
+  v_elements JSONB;
+BEGIN
+  SELECT * INTO v_link FROM share_links WHERE share_links.token = p_token;
+  IF NOT FOUND OR (v_link.expires_at IS NOT NULL AND v_link.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'Share link not found or expired' USING ERRCODE = 'P0404';
+  END IF;
+
+  IF v_link.password_hash IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM share_link_attempts
+      WHERE link_id = v_link.id AND client_hash = p_client_hash AND locked_until > NOW()
+    ) THEN
+      RAISE EXCEPTION 'Too many incorrect passwords' USING ERRCODE = 'P0429';
+    END IF;
+    IF p_password IS NULL OR p_password = '' THEN
+      RAISE EXCEPTION 'Password required' USING ERRCODE = 'P0401';
+    END IF;
+    IF crypt(p_password, v_link.password_hash) <> v_link.password_hash THEN
+      RAISE EXCEPTION 'Incorrect password' USING ERRCODE = 'P0403';
+    END IF;
+  END IF;
+
+  SELECT title INTO v_title FROM projects WHERE projects.id = v_link.project_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', canvas_elements.id,
+    'element_data', canvas_elements.element_data,
+    'schema_version', canvas_elements.schema_version
+  ) ORDER BY canvas_elements.position), '[]'::jsonb)
+  INTO v_elements
+  FROM canvas_elements
+  WHERE canvas_elements.project_id = v_link.project_id;
+
+  RETURN jsonb_build_object('title', v_title, 'elements', v_elements);
+END;
+$$;
+
+-- Count a wrong password by a visitor. Five within 15 minutes lock that
+-- visitor out of the link for 15 minutes. Separate from get_shared_project()
+-- because its exception would roll the count back.
+CREATE OR REPLACE FUNCTION record_share_link_failure(p_token TEXT, p_client_hash TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO share_link_attempts AS attempts (link_id, client_hash, failed_attempts, last_failed_at)
+  SELECT share_links.id, p_client_hash, 1, NOW()
+  FROM share_links
+  WHERE share_links.token = p_token
+  ON CONFLICT (link_id, client_hash) DO UPDATE
+  SET
+    failed_attempts = CASE
+      WHEN attempts.last_failed_at > NOW() - INTERVAL '15 minutes' THEN attempts.failed_attempts + 1
+      ELSE 1
+    END,
+    last_failed_at = NOW();
+
+  UPDATE share_link_attempts
+  SET locked_until = NOW() + INTERVAL '15 minutes', failed_attempts = 0
+  WHERE client_hash = p_client_hash
+    AND failed_attempts >= 5
+    AND link_id = (SELECT id FROM share_links WHERE share_links.token = p_token);
+
+  -- Forget visitors who stopped guessing
+  DELETE FROM share_link_attempts
+  WHERE last_failed_at < NOW() - INTERVAL '1 day'
+    AND (locked_until IS NULL OR locked_until < NOW());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_shared_project(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_share_link_failure(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_shared_project(TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION record_share_link_failure(TEXT, TEXT) TO service_role;
+
+-- Create comments table (pins placed with the mark tool start a thread,
+-- replies point at their pin; element pins store x/y relative to the element)
+CREATE TABLE IF NOT EXISTS comments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  body TEXT NOT NULL CHECK (length(btrim(body)) > 0),
+  -- Not a foreign key: elements come and go with undo, their pins stay
+  element_id UUID,
+  x DOUBLE PRECISION,
+  y DOUBLE PRECISION,
+  -- Clerk user ids of the people @mentioned in body
+  mentions TEXT[] NOT NULL DEFAULT '{}',
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Pins have a position; replies and resolution belong to the pin only
+  CHECK (
+    (parent_id IS NULL AND x IS NOT NULL AND y IS NOT NULL)
+    OR (parent_id IS NOT NULL AND x IS NULL AND y IS NULL AND element_id IS NULL AND resolved_at IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_project_id ON comments(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_comments_mentions ON comments USING GIN (mentions);
+
+CREATE TRIGGER update_comments_updated_at
+  BEFORE UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Whether a comment starts a thread on the given project, for checking
+-- replies without recursing into the comments policies
+CREATE OR REPLACE FUNCTION is_comment_thread(p_comment_id UUID, p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM comments
+    WHERE id = p_comment_id AND project_id = p_project_id AND parent_id IS NULL
+  );
+$$;
+
+-- Resolve or reopen a thread; anyone who may comment may do either.
+-- Raises P0403 without the commenter role and P0404 for unknown threads.
+CREATE OR REPLACE FUNCTION set_comment_resolved(p_comment_id UUID, p_resolved BOOLEAN)
+RETURNS comments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_comment comments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_comment FROM comments WHERE id = p_comment_id AND parent_id IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment thread not found' USING ERRCODE = 'P0404';
+  END IF;
+
+  IF NOT has_project_role(v_comment.project_id, 'commenter') THEN
+    RAISE EXCEPTION 'Not allowed to resolve comments on this project' USING ERRCODE = 'P0403';
+  END IF;
+
+  UPDATE comments
+  SET resolved_at = CASE WHEN p_resolved THEN NOW() END,
+      resolved_by = CASE WHEN p_resolved THEN auth.jwt()->>'sub' END
+  WHERE id = p_comment_id
+  RETURNING * INTO v_comment;
+
+  RETURN v_comment;
+END;
+$$;
+
+-- Enable Row Level Security (RLS) on comments table
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy for comments - members can read them
+CREATE POLICY "Members can view comments"
+  ON comments
+  FOR SELECT
+  USING (has_project_role(project_id, 'viewer'));
+
+-- Create RLS policy for comments - commenters can add pins and replies
+CREATE POLICY "Commenters can add comments"
+  ON comments
+  FOR INSERT
+  WITH CHECK (
+    auth.jwt()->>'sub' = user_id
+    AND has_project_role(project_id, 'commenter')
+    AND resolved_at IS NULL
+    AND (parent_id IS NULL OR is_comment_thread(parent_id, project_id))
+  );
+
+-- Create RLS policy for comments - authors can edit their own
+CREATE POLICY "Authors can update their comments"
+  ON comments
   FOR UPDATE
-  USING (auth.jwt()->>'sub' = user_id)
-  WITH CHECK (auth.jwt()->>'sub' = user_id);
+  USING (auth.jwt()->>'sub' = user_id AND has_project_role(project_id, 'commenter'))
+  WITH CHECK (auth.jwt()->>'sub' = user_id AND has_project_role(project_id, 'commenter'));
+
+-- Create RLS policy for comments - authors delete their own, owners moderate
+CREATE POLICY "Authors and owners can delete comments"
+  ON comments
+  FOR DELETE
+  USING (auth.jwt()->>'sub' = user_id OR has_project_role(project_id, 'owner'));
+
+-- Create project_snapshots table (version history; automatic snapshots have
+-- no name and only the latest 50 are kept, named checkpoints stay)
+CREATE TABLE IF NOT EXISTS project_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  -- Null for automatic snapshots
+  name TEXT CHECK (name IS NULL OR length(btrim(name)) > 0),
+  title TEXT NOT NULL,
+  -- canvas_elements rows as [{ id, element_data, schema_version }], in
+  -- stacking order
+  elements JSONB NOT NULL DEFAULT '[]'::jsonb,
+  element_count INTEGER NOT NULL DEFAULT 0,
+  -- md5 of elements and title, to skip automatic snapshots of an unchanged board
+  content_hash TEXT NOT NULL,
+  created_by TEXT NOT NULL DEFAULT auth.jwt()->>'sub',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_snapshots_project_id ON project_snapshots(project_id, created_at DESC);
+
+-- Enable Row Level Security (RLS) on project_snapshots table
+ALTER TABLE project_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy for project_snapshots - members can browse the history
+-- (snapshots are only written through create_project_snapshot())
+CREATE POLICY "Members can view project snapshots"
+  ON project_snapshots
+  FOR SELECT
+  USING (has_project_role(project_id, 'viewer'));
+
+-- Create RLS policy for project_snapshots - editors can delete snapshots
+CREATE POLICY "Editors can delete project snapshots"
+  ON project_snapshots
+  FOR DELETE
+  USING (has_project_role(project_id, 'editor'));
+
+-- Snapshot the saved board of a project; returns no row when an automatic
+-- snapshot was skipped because nothing changed. Raises P0403 for callers
+-- who cannot edit the project.
+CREATE OR REPLACE FUNCTION create_project_snapshot(p_project_id UUID, p_name TEXT DEFAULT NULL)
+RETURNS SETOF project_snapshots
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_title TEXT;
+  v_elements JSONB;
+  v_hash TEXT;
+  v_snapshot project_snapshots%ROWTYPE;
+BEGIN
+  IF NOT has_project_role(p_project_id, 'editor') THEN
+    RAISE EXCEPTION 'Not allowed to snapshot this project' USING ERRCODE = 'P0403';
+  END IF;
+
+  SELECT title INTO v_title FROM projects WHERE id = p_project_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'element_data', element_data,
+    'schema_version', schema_version
+  ) ORDER BY position, id), '[]'::jsonb)
+  INTO v_elements
+  FROM canvas_elements
+  WHERE project_id = p_project_id;
+
+  v_hash := md5(COALESCE(v_title, '') || v_elements::text);
+
+  IF p_name IS NULL AND v_hash = (
+    SELECT content_hash FROM project_snapshots
+    WHERE project_id = p_project_id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO project_snapshots (project_id, name, title, elements, element_count, content_hash)
+  VALUES (p_project_id, NULLIF(btrim(p_name), ''), COALESCE(v_title, 'Untitled'), v_elements, jsonb_array_length(v_elements), v_hash)
+  RETURNING * INTO v_snapshot;
+
+  DELETE FROM project_snapshots
+  WHERE project_id = p_project_id
+    AND name IS NULL
+    AND id NOT IN (
+      SELECT id FROM project_snapshots
+      WHERE project_id = p_project_id AND name IS NULL
+      ORDER BY created_at DESC
+      LIMIT 50
+    );
+
+  RETURN NEXT v_snapshot;
+END;
+$$;